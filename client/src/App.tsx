@@ -14,6 +14,7 @@ import Login from "@/pages/login";
 import AdminLogin from "@/pages/admin-login";
 import AdminDashboard from "@/pages/admin-dashboard";
 import AdminLogs from "@/pages/admin-logs";
+import AdminAiUsage from "@/pages/admin-ai-usage";
 import Onboarding from "@/pages/onboarding";
 import Dashboard from "@/pages/dashboard";
 import Agent from "@/pages/agent";
@@ -27,6 +28,11 @@ import ChatWeb from "@/pages/chatweb";
 import Catalog from "@/pages/catalog";
 import Checkout from "@/pages/checkout";
 import Settings from "@/pages/settings";
+import Webhooks from "@/pages/webhooks";
+import Promotions from "@/pages/promotions";
+import Shipping from "@/pages/shipping";
+import Team from "@/pages/team";
+import AcceptInvite from "@/pages/accept-invite";
 import { useEffect } from "react";
 
 // Protected route wrapper
@@ -89,9 +95,28 @@ function Router() {
       <Route path="/login" component={Login} />
       <Route path="/admin/login" component={AdminLogin} />
       <Route path="/onboarding" component={Onboarding} />
-      <Route path="/chat/:companyId" component={ChatWeb} />
-      <Route path="/catalog/:companyId" component={Catalog} />
-      <Route path="/catalog/:companyId/checkout" component={Checkout} />
+      <Route path="/invite/:token" component={AcceptInvite} />
+      <Route path="/chat/:companyId">
+        {(params) => (
+          <CartProvider companyId={params.companyId}>
+            <ChatWeb />
+          </CartProvider>
+        )}
+      </Route>
+      <Route path="/catalog/:companyId">
+        {(params) => (
+          <CartProvider companyId={params.companyId}>
+            <Catalog />
+          </CartProvider>
+        )}
+      </Route>
+      <Route path="/catalog/:companyId/checkout">
+        {(params) => (
+          <CartProvider companyId={params.companyId}>
+            <Checkout />
+          </CartProvider>
+        )}
+      </Route>
       
       {/* User Protected Routes */}
       <Route path="/dashboard">
@@ -190,6 +215,54 @@ function Router() {
         )}
       </Route>
       
+      <Route path="/webhooks">
+        {() => (
+          <ProtectedRoute
+            component={() => (
+              <AuthenticatedLayout>
+                <Webhooks />
+              </AuthenticatedLayout>
+            )}
+          />
+        )}
+      </Route>
+
+      <Route path="/promotions">
+        {() => (
+          <ProtectedRoute
+            component={() => (
+              <AuthenticatedLayout>
+                <Promotions />
+              </AuthenticatedLayout>
+            )}
+          />
+        )}
+      </Route>
+
+      <Route path="/shipping">
+        {() => (
+          <ProtectedRoute
+            component={() => (
+              <AuthenticatedLayout>
+                <Shipping />
+              </AuthenticatedLayout>
+            )}
+          />
+        )}
+      </Route>
+
+      <Route path="/team">
+        {() => (
+          <ProtectedRoute
+            component={() => (
+              <AuthenticatedLayout>
+                <Team />
+              </AuthenticatedLayout>
+            )}
+          />
+        )}
+      </Route>
+      
       <Route path="/settings">
         {() => (
           <ProtectedRoute
@@ -241,6 +314,19 @@ function Router() {
           />
         )}
       </Route>
+
+      <Route path="/admin/ai-usage">
+        {() => (
+          <ProtectedRoute
+            component={() => (
+              <AuthenticatedLayout isAdmin>
+                <AdminAiUsage />
+              </AuthenticatedLayout>
+            )}
+            adminOnly
+          />
+        )}
+      </Route>
       
       {/* Fallback to 404 */}
       <Route component={NotFound} />
@@ -252,10 +338,8 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <CartProvider>
-          <Toaster />
-          <Router />
-        </CartProvider>
+        <Toaster />
+        <Router />
       </TooltipProvider>
     </QueryClientProvider>
   );
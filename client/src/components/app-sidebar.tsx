@@ -1,4 +1,4 @@
-import { Home, Package, ShoppingCart, MessageSquare, Settings, LogOut, Building2, Bot, FileText, Users, BarChart3 } from "lucide-react";
+import { Home, Package, ShoppingCart, MessageSquare, Settings, LogOut, Building2, Bot, FileText, Users, BarChart3, Webhook, Cpu, UserCog, Tag, Truck } from "lucide-react";
 import { useLocation } from "wouter";
 import {
   Sidebar,
@@ -13,36 +13,56 @@ import {
 } from "@/components/ui/sidebar";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useCurrentUser, type Permission } from "@/hooks/use-current-user";
 
-const userMenuItems = [
+const userMenuItems: Array<{ title: string; url: string; icon: typeof Home; permission?: Permission }> = [
   { title: "Dashboard", url: "/dashboard", icon: Home },
-  { title: "Agente", url: "/agent", icon: Bot },
+  { title: "Agente", url: "/agent", icon: Bot, permission: "agent:manage" },
   { title: "Produtos", url: "/products", icon: Package },
+  { title: "Promoções", url: "/promotions", icon: Tag, permission: "products:manage" },
+  { title: "Frete", url: "/shipping", icon: Truck, permission: "company:manage" },
   { title: "Pedidos", url: "/orders", icon: ShoppingCart },
   { title: "Clientes", url: "/customers", icon: Users },
   { title: "Conversas", url: "/conversations", icon: MessageSquare },
   { title: "Analytics", url: "/analytics", icon: BarChart3 },
+  { title: "Webhooks", url: "/webhooks", icon: Webhook, permission: "webhooks:manage" },
+  { title: "Equipe", url: "/team", icon: UserCog },
 ];
 
 const adminMenuItems = [
   { title: "Dashboard", url: "/admin/dashboard", icon: Home },
   { title: "Empresas", url: "/admin/companies", icon: Building2 },
   { title: "Logs", url: "/admin/logs", icon: FileText },
+  { title: "Uso de IA", url: "/admin/ai-usage", icon: Cpu },
 ];
 
 export function AppSidebar({ isAdmin = false }: { isAdmin?: boolean }) {
   const [location, setLocation] = useLocation();
-  const menuItems = isAdmin ? adminMenuItems : userMenuItems;
+  const { user, can } = useCurrentUser(!isAdmin);
+  const menuItems = isAdmin
+    ? adminMenuItems
+    : userMenuItems.filter((item) => !item.permission || can(item.permission));
 
   const { data: company } = useQuery<any>({
     queryKey: ["/api/company"],
     enabled: !isAdmin,
   });
 
+  // Operators mark themselves away; the team sees it next to their name
+  const toggleAvailability = async () => {
+    if (!user) return;
+    await apiRequest("PATCH", "/api/auth/me", {
+      availability: user.availability === "online" ? "away" : "online",
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+  };
+
   const handleLogout = () => {
     localStorage.removeItem("auth_token");
     localStorage.removeItem("user_type");
     localStorage.removeItem("company_id");
+    queryClient.clear();
     setLocation("/");
   };
 
@@ -83,6 +103,14 @@ export function AppSidebar({ isAdmin = false }: { isAdmin?: boolean }) {
 
       <SidebarFooter>
         <SidebarMenu>
+          {!isAdmin && user && (
+            <SidebarMenuItem>
+              <SidebarMenuButton onClick={toggleAvailability} data-testid="button-availability">
+                <span className={`w-2 h-2 rounded-full ${user.availability === "online" ? "bg-green-500" : "bg-yellow-500"}`} />
+                <span>{user.availability === "online" ? "Disponível" : "Ausente"}</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          )}
           <SidebarMenuItem>
             <SidebarMenuButton onClick={handleLogout} data-testid="button-logout">
               <LogOut className="w-4 h-4" />
@@ -1,4 +1,8 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import { createContext, useContext, useState, ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { CartItem as ServerCartItem, OrderDiscount } from "@shared/schema";
 
 interface CartItem {
   id: string;
@@ -10,64 +14,198 @@ interface CartItem {
 
 interface CartContextType {
   items: CartItem[];
-  addItem: (item: Omit<CartItem, "quantity">, quantity?: number) => void;
-  removeItem: (id: string) => void;
-  updateQuantity: (id: string, quantity: number) => void;
-  clearCart: () => void;
+  addItem: (item: Omit<CartItem, "quantity">, quantity?: number) => Promise<void>;
+  removeItem: (id: string) => Promise<void>;
+  updateQuantity: (id: string, quantity: number) => Promise<void>;
+  clearCart: () => Promise<void>;
+  refreshCart: () => void;
+  applyCoupon: (code: string) => Promise<void>;
+  removeCoupon: () => Promise<void>;
+  subtotal: number;
+  discounts: OrderDiscount[];
+  couponCode: string | null;
+  couponError: string | null; // the applied coupon no longer applies to the cart
   total: number;
   itemCount: number;
+  conversationId: string | null;
+  session: VisitorSession | null;
+  setSession: (session: VisitorSession | null) => void;
+  startConversation: () => Promise<VisitorSession>;
+  visitorFetch: (url: string, init?: RequestInit) => Promise<Response>;
 }
 
+// Issued by the server with the conversation; required by every ChatWeb call for it
+export interface VisitorSession {
+  conversationId: string;
+  token: string;
+}
+
+// Discounts are computed on the server (automatic promotions and the coupon)
+type CartResponse = {
+  items: ServerCartItem[];
+  subtotal: number;
+  discounts: OrderDiscount[];
+  discount: number;
+  total: number;
+  couponCode: string | null;
+  couponError?: string;
+};
+
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
-const CART_STORAGE_KEY = "omni_cart";
+// The cart lives on the server, attached to the visitor's conversation. The session
+// survives page reloads so the visitor resumes the same conversation.
+export const VISITOR_SESSION_STORAGE_KEY = "omni_visitor_session_";
 
-export function CartProvider({ children }: { children: ReactNode }) {
-  const [items, setItems] = useState<CartItem[]>(() => {
-    const stored = localStorage.getItem(CART_STORAGE_KEY);
-    return stored ? JSON.parse(stored) : [];
-  });
+function loadSession(companyId: string): VisitorSession | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(VISITOR_SESSION_STORAGE_KEY + companyId) || "null");
+    return stored?.conversationId && stored?.token ? stored : null;
+  } catch {
+    return null;
+  }
+}
 
-  useEffect(() => {
-    localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items));
-  }, [items]);
-
-  const addItem = (item: Omit<CartItem, "quantity">, quantity = 1) => {
-    setItems((current) => {
-      const existing = current.find((i) => i.id === item.id);
-      if (existing) {
-        return current.map((i) =>
-          i.id === item.id ? { ...i, quantity: i.quantity + quantity } : i
-        );
-      }
-      return [...current, { ...item, quantity }];
+async function throwIfResNotOk(res: Response) {
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || res.statusText);
+  }
+}
+
+export function CartProvider({ companyId, children }: { companyId: string; children: ReactNode }) {
+  const { toast } = useToast();
+  const [session, setSessionState] = useState<VisitorSession | null>(() => loadSession(companyId));
+  const conversationId = session?.conversationId || null;
+
+  const cartUrl = (id: string) => `/api/chatweb/${companyId}/conversations/${id}/cart`;
+
+  const fetchWithSession = (token: string | undefined, url: string, init: RequestInit = {}) =>
+    fetch(url, {
+      ...init,
+      headers: { ...(init.headers as Record<string, string>), ...(token && { "X-Visitor-Token": token }) },
     });
+
+  const visitorFetch = (url: string, init?: RequestInit) => fetchWithSession(session?.token, url, init);
+
+  const { data: cart } = useQuery<CartResponse>({
+    queryKey: [cartUrl(conversationId || "")],
+    queryFn: async () => {
+      const response = await visitorFetch(cartUrl(conversationId!));
+      await throwIfResNotOk(response);
+      return response.json();
+    },
+    enabled: !!conversationId,
+  });
+
+  const setSession = (next: VisitorSession | null) => {
+    if (next) {
+      localStorage.setItem(VISITOR_SESSION_STORAGE_KEY + companyId, JSON.stringify(next));
+    } else {
+      localStorage.removeItem(VISITOR_SESSION_STORAGE_KEY + companyId);
+    }
+    setSessionState(next);
   };
 
-  const removeItem = (id: string) => {
-    setItems((current) => current.filter((i) => i.id !== id));
+  const startConversation = async () => {
+    const response = await fetch(`/api/chatweb/${companyId}/conversations`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    });
+    await throwIfResNotOk(response);
+    const { conversation, token } = await response.json();
+    const next = { conversationId: conversation.id as string, token: token as string };
+    setSession(next);
+    return next;
   };
 
-  const updateQuantity = (id: string, quantity: number) => {
-    if (quantity <= 0) {
-      removeItem(id);
-      return;
+  // The catalog can be browsed before chatting, so the conversation is created on first use
+  const ensureSession = async () => session || startConversation();
+
+  const updateCart = async (method: string, path: string, data?: unknown) => {
+    try {
+      const { conversationId: id, token } = await ensureSession();
+      const response = await fetchWithSession(token, `${cartUrl(id)}${path}`, {
+        method,
+        headers: data ? { "Content-Type": "application/json" } : {},
+        body: data ? JSON.stringify(data) : undefined,
+      });
+      await throwIfResNotOk(response);
+      queryClient.setQueryData([cartUrl(id)], await response.json());
+    } catch (error) {
+      toast({ variant: "destructive", title: "Erro ao atualizar carrinho" });
+      throw error;
     }
-    setItems((current) =>
-      current.map((i) => (i.id === id ? { ...i, quantity } : i))
-    );
   };
 
-  const clearCart = () => {
-    setItems([]);
+  const addItem = (item: Omit<CartItem, "quantity">, quantity = 1) =>
+    updateCart("POST", "/items", { productId: item.id, quantity });
+
+  const removeItem = (productId: string) =>
+    updateCart("DELETE", `/items/${productId}`);
+
+  const updateQuantity = (productId: string, quantity: number) =>
+    updateCart("PATCH", `/items/${productId}`, { quantity });
+
+  const clearCart = () =>
+    updateCart("DELETE", "");
+
+  // Coupon errors ("Cupom expirado", ...) are shown to the visitor as-is
+  const applyCoupon = async (code: string) => {
+    const { conversationId: id, token } = await ensureSession();
+    const response = await fetchWithSession(token, `${cartUrl(id)}/coupon`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code }),
+    });
+    await throwIfResNotOk(response);
+    queryClient.setQueryData([cartUrl(id)], await response.json());
+  };
+
+  const removeCoupon = () =>
+    updateCart("DELETE", "/coupon");
+
+  const refreshCart = () => {
+    if (conversationId) {
+      queryClient.invalidateQueries({ queryKey: [cartUrl(conversationId)] });
+    }
   };
 
-  const total = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const items: CartItem[] = (cart?.items || []).map((item) => ({
+    id: item.productId,
+    name: item.name,
+    price: item.price,
+    quantity: item.quantity,
+    imageUrl: item.imageUrl || undefined,
+  }));
+  const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const total = cart?.total ?? subtotal;
   const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
 
   return (
     <CartContext.Provider
-      value={{ items, addItem, removeItem, updateQuantity, clearCart, total, itemCount }}
+      value={{
+        items,
+        addItem,
+        removeItem,
+        updateQuantity,
+        clearCart,
+        refreshCart,
+        applyCoupon,
+        removeCoupon,
+        subtotal,
+        discounts: cart?.discounts || [],
+        couponCode: cart?.couponCode || null,
+        couponError: cart?.couponError || null,
+        total,
+        itemCount,
+        conversationId,
+        session,
+        setSession,
+        startConversation,
+        visitorFetch,
+      }}
     >
       {children}
     </CartContext.Provider>
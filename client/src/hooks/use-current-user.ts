@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import type { OperatorAvailability, OperatorPresence } from "@shared/schema";
+
+// Mirrors server/permissions.ts
+export type Permission =
+  | "company:manage"
+  | "billing:view"
+  | "team:manage"
+  | "agent:manage"
+  | "products:manage"
+  | "products:delete"
+  | "orders:manage"
+  | "conversations:reply"
+  | "webhooks:manage";
+
+export interface CurrentUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "owner" | "admin" | "member";
+  avatarUrl: string | null;
+  availability: OperatorAvailability;
+  presence: OperatorPresence;
+  companyId: string;
+  permissions: Permission[];
+}
+
+// Logged-in company user; `can` hides actions the server would refuse
+export function useCurrentUser(enabled: boolean = true) {
+  const { data: user, isLoading } = useQuery<CurrentUser>({
+    queryKey: ["/api/auth/me"],
+    enabled,
+  });
+
+  const can = (permission: Permission) => !!user?.permissions.includes(permission);
+
+  return { user, isLoading, can };
+}
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { Conversation, Message, OperatorPresence } from "@shared/schema";
+
+export type TypingRole = "user" | "assistant" | "operator";
+
+export type RealtimeEvent =
+  | { type: "message.created"; conversationId: string; message: Message }
+  | { type: "conversation.updated"; conversationId: string; conversation: Conversation }
+  | { type: "conversation.takeover"; conversationId: string; mode: string; operatorName: string | null }
+  | { type: "typing"; conversationId: string; role: TypingRole; name: string | null; isTyping: boolean }
+  | { type: "presence.updated"; userId: string; presence: OperatorPresence };
+
+type RealtimeOptions =
+  | { scope: "company" } // dashboard - authenticated with the user's token
+  | { scope: "conversation"; sessionToken: string | null }; // ChatWeb visitor - the session's conversation
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+const TYPING_TIMEOUT_MS = 8000;
+const TYPING_PAUSE_MS = 3000;
+
+function buildUrl(options: RealtimeOptions): string | null {
+  const params = new URLSearchParams();
+  if (options.scope === "company") {
+    const token = localStorage.getItem("auth_token");
+    if (!token) return null;
+    params.set("token", token);
+  } else {
+    if (!options.sessionToken) return null;
+    params.set("session", options.sessionToken);
+  }
+  const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+  return `${protocol}://${window.location.host}/ws?${params.toString()}`;
+}
+
+/**
+ * Subscribe to the server event bus, reconnecting with backoff
+ */
+export function useRealtime(options: RealtimeOptions, onEvent: (event: RealtimeEvent) => void) {
+  const socketRef = useRef<WebSocket | null>(null);
+  const onEventRef = useRef(onEvent);
+  const [connected, setConnected] = useState(false);
+  onEventRef.current = onEvent;
+
+  const url = buildUrl(options);
+
+  useEffect(() => {
+    if (!url) return;
+
+    let closed = false;
+    let attempt = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      const socket = new WebSocket(url);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempt = 0;
+        setConnected(true);
+      };
+      socket.onmessage = (event) => {
+        try {
+          onEventRef.current(JSON.parse(event.data));
+        } catch (error) {
+          console.error("Invalid realtime event:", error);
+        }
+      };
+      socket.onclose = () => {
+        setConnected(false);
+        if (closed) return;
+        const delay = Math.min(1000 * 2 ** attempt, MAX_RECONNECT_DELAY_MS);
+        attempt++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [url]);
+
+  const sendTyping = useCallback((conversationId: string, isTyping: boolean) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: "typing", conversationId, isTyping }));
+    }
+  }, []);
+
+  return { connected, sendTyping };
+}
+
+/**
+ * Typing indicators keyed by conversation; cleared on a new message or after a timeout
+ */
+export function useTypingIndicators() {
+  const [typing, setTyping] = useState<Record<string, { role: TypingRole; name: string | null }>>({});
+  const timersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+
+  const clear = useCallback((conversationId: string) => {
+    clearTimeout(timersRef.current[conversationId]);
+    setTyping((prev) => {
+      if (!prev[conversationId]) return prev;
+      const { [conversationId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  const handleEvent = useCallback((event: RealtimeEvent) => {
+    if (event.type === "message.created") {
+      clear(event.conversationId);
+    } else if (event.type === "typing") {
+      if (!event.isTyping) {
+        clear(event.conversationId);
+        return;
+      }
+      clearTimeout(timersRef.current[event.conversationId]);
+      timersRef.current[event.conversationId] = setTimeout(() => clear(event.conversationId), TYPING_TIMEOUT_MS);
+      setTyping((prev) => ({ ...prev, [event.conversationId]: { role: event.role, name: event.name } }));
+    }
+  }, [clear]);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => Object.values(timers).forEach(clearTimeout);
+  }, []);
+
+  return { typing, handleEvent };
+}
+
+/**
+ * Signal "typing" while the user types, stopping after a short pause
+ */
+export function useTypingNotifier(sendTyping: (conversationId: string, isTyping: boolean) => void) {
+  const activeRef = useRef<string | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const stopTyping = useCallback(() => {
+    clearTimeout(timerRef.current);
+    if (activeRef.current) {
+      sendTyping(activeRef.current, false);
+      activeRef.current = null;
+    }
+  }, [sendTyping]);
+
+  const notifyTyping = useCallback((conversationId: string) => {
+    if (activeRef.current !== conversationId) {
+      stopTyping();
+      activeRef.current = conversationId;
+      sendTyping(conversationId, true);
+    }
+    clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(stopTyping, TYPING_PAUSE_MS);
+  }, [sendTyping, stopTyping]);
+
+  useEffect(() => stopTyping, [stopTyping]);
+
+  return { notifyTyping, stopTyping };
+}
+
+export function appendMessage<T extends { id: string }>(messages: T[], message: T): T[] {
+  return messages.some((m) => m.id === message.id) ? messages : [...messages, message];
+}
+
+/**
+ * Keep the dashboard conversation caches (lists and open conversation) in sync with server events
+ */
+export function applyConversationEvent(event: RealtimeEvent) {
+  if (event.type === "message.created") {
+    queryClient.setQueryData<(Conversation & { messages: Message[] }) | undefined>(
+      ["/api/conversations", event.conversationId],
+      (old) => old && { ...old, messages: appendMessage(old.messages, event.message) },
+    );
+  } else if (event.type === "conversation.updated") {
+    const updateList = (old: Conversation[] | undefined) => {
+      if (!old) return old;
+      const exists = old.some((c) => c.id === event.conversationId);
+      return exists
+        ? old.map((c) => (c.id === event.conversationId ? event.conversation : c))
+        : [event.conversation, ...old];
+    };
+    queryClient.setQueryData<Conversation[]>(["/api/conversations"], updateList);
+    queryClient.setQueryData<Conversation[]>(["/api/conversations/active"], (old) =>
+      updateList(old)?.filter((c) => c.status === "active"),
+    );
+    queryClient.setQueryData<(Conversation & { messages: Message[] }) | undefined>(
+      ["/api/conversations", event.conversationId],
+      (old) => old && { ...old, ...event.conversation },
+    );
+  }
+}
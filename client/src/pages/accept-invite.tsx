@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+
+interface InviteDetails {
+  email: string;
+  role: string;
+  companyName?: string;
+}
+
+const roleLabels: Record<string, string> = {
+  admin: "administrador",
+  member: "atendente",
+};
+
+export default function AcceptInvite() {
+  const { token } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+
+  const { data: invite, isLoading, isError } = useQuery<InviteDetails>({
+    queryKey: ["/api/invites", token],
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/invites/${token}/accept`, { name, password });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.clear();
+      localStorage.setItem("auth_token", data.token);
+      localStorage.setItem("user_type", "user");
+      localStorage.setItem("company_id", data.company.id);
+      setLocation("/dashboard");
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Erro ao aceitar convite",
+        description: error.message,
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    acceptMutation.mutate();
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-100 via-indigo-50 to-blue-100 p-4">
+      <Card className="w-full max-w-md">
+        {isLoading ? (
+          <CardContent className="py-8 text-center text-muted-foreground">Carregando...</CardContent>
+        ) : isError || !invite ? (
+          <CardHeader>
+            <CardTitle>Convite inválido</CardTitle>
+            <CardDescription>
+              Este convite expirou ou já foi usado. Peça um novo convite ao administrador da sua empresa.
+            </CardDescription>
+          </CardHeader>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle>Entrar na equipe {invite.companyName}</CardTitle>
+              <CardDescription>
+                Você foi convidado como {roleLabels[invite.role] || invite.role}. Crie sua senha para acessar o Omni.AI.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Email</Label>
+                  <Input value={invite.email} disabled data-testid="input-invite-email" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="name">Nome</Label>
+                  <Input
+                    id="name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    required
+                    data-testid="input-invite-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Senha</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    minLength={6}
+                    required
+                    data-testid="input-invite-password"
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={acceptMutation.isPending} data-testid="button-accept-invite">
+                  {acceptMutation.isPending ? "Entrando..." : "Aceitar Convite"}
+                </Button>
+              </form>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Cpu, DollarSign, AlertTriangle } from "lucide-react";
+
+interface AiUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  audioSeconds: number;
+  costMicros: number;
+}
+
+interface AiUsageReport {
+  companyId: string;
+  companyName: string;
+  plan: string;
+  used: number;
+  limit: number | null;
+  status: "ok" | "warning" | "exceeded";
+  totals: AiUsageTotals;
+  byFeature: Array<AiUsageTotals & { feature: string }>;
+}
+
+const featureLabels: Record<string, string> = {
+  chat: "Atendimento",
+  analysis: "Análise",
+  vision: "Imagens",
+  extraction: "Importação",
+  description: "Descrições",
+  transcription: "Áudios",
+};
+
+const formatTokens = (tokens: number) => tokens.toLocaleString("pt-BR");
+const formatUsd = (micros: number) => `US$ ${(micros / 1_000_000).toFixed(2)}`;
+
+export default function AdminAiUsage() {
+  const { data: usage = [], isLoading } = useQuery<AiUsageReport[]>({
+    queryKey: ["/api/admin/ai-usage"],
+  });
+
+  const totalTokens = usage.reduce((sum, company) => sum + company.used, 0);
+  const totalCost = usage.reduce((sum, company) => sum + company.totals.costMicros, 0);
+  const atRisk = usage.filter(company => company.status !== "ok").length;
+
+  const getStatusBadge = (status: AiUsageReport["status"]) => {
+    const statusMap = {
+      ok: { label: "Normal", variant: "secondary" as const },
+      warning: { label: "Próximo do limite", variant: "default" as const },
+      exceeded: { label: "Limite atingido", variant: "destructive" as const },
+    };
+    const config = statusMap[status];
+    return <Badge variant={config.variant}>{config.label}</Badge>;
+  };
+
+  return (
+    <div className="p-8 space-y-8">
+      <div>
+        <h1 className="text-4xl font-bold">Uso de IA</h1>
+        <p className="text-muted-foreground mt-2">
+          Consumo de tokens e custo estimado por empresa neste mês
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Tokens no Mês</CardTitle>
+            <Cpu className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold" data-testid="text-total-tokens">{formatTokens(totalTokens)}</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Somando todas as empresas
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Custo Estimado</CardTitle>
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold" data-testid="text-total-cost">{formatUsd(totalCost)}</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Pela tabela de preços dos modelos
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Perto do Limite</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold" data-testid="text-companies-at-risk">{atRisk}</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Empresas acima de 80% da cota
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Consumo por Empresa</CardTitle>
+          <CardDescription>
+            Tokens usados em relação à cota mensal do plano
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+          ) : usage.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Nenhuma empresa cadastrada ainda
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Empresa</TableHead>
+                  <TableHead>Plano</TableHead>
+                  <TableHead className="w-64">Tokens</TableHead>
+                  <TableHead>Por Recurso</TableHead>
+                  <TableHead>Custo</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {usage.map((company) => (
+                  <TableRow key={company.companyId} data-testid={`row-ai-usage-${company.companyId}`}>
+                    <TableCell className="font-medium">{company.companyName}</TableCell>
+                    <TableCell className="capitalize">{company.plan}</TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        <div className="text-sm">
+                          {formatTokens(company.used)} / {company.limit === null ? "ilimitado" : formatTokens(company.limit)}
+                        </div>
+                        {company.limit !== null && (
+                          <Progress value={Math.min(100, (company.used / company.limit) * 100)} className="h-2" />
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {company.byFeature.length === 0 ? (
+                          <span className="text-sm text-muted-foreground">—</span>
+                        ) : company.byFeature.map((row) => (
+                          <Badge key={row.feature} variant="outline" className="font-normal">
+                            {featureLabels[row.feature] || row.feature}: {formatTokens(row.totalTokens)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{formatUsd(company.totals.costMicros)}</TableCell>
+                    <TableCell>{getStatusBadge(company.status)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,11 +3,17 @@ import { queryClient } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Building2, CheckCircle, XCircle, Clock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import type { Company } from "@shared/schema";
 
+interface PlanOption {
+  label: string;
+  price: number;
+}
+
 export default function AdminDashboard() {
   const { toast } = useToast();
 
@@ -15,6 +21,10 @@ export default function AdminDashboard() {
     queryKey: ["/api/admin/companies"],
   });
 
+  const { data: plans = {} } = useQuery<Record<string, PlanOption>>({
+    queryKey: ["/api/plans"],
+  });
+
   const suspendMutation = useMutation({
     mutationFn: async ({ id, status }: { id: string; status: string }) => {
       const response = await fetch(`/api/admin/companies/${id}`, {
@@ -36,6 +46,27 @@ export default function AdminDashboard() {
     },
   });
 
+  const planMutation = useMutation({
+    mutationFn: async ({ id, plan }: { id: string; plan: string }) => {
+      const response = await fetch(`/api/admin/companies/${id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${localStorage.getItem("auth_token")}`,
+        },
+        body: JSON.stringify({ plan }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/companies"] });
+      toast({
+        title: "Plano atualizado",
+        description: "Os novos limites valem imediatamente e a próxima fatura usa o novo plano.",
+      });
+    },
+  });
+
   const getStatusBadge = (status: string) => {
     const statusMap = {
       active: { label: "Ativo", variant: "default" as const, icon: CheckCircle },
@@ -127,6 +158,7 @@ export default function AdminDashboard() {
                   <TableHead>Empresa</TableHead>
                   <TableHead>Segmento</TableHead>
                   <TableHead>CPF/CNPJ</TableHead>
+                  <TableHead>Plano</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead className="text-right">Ações</TableHead>
                 </TableRow>
@@ -137,7 +169,34 @@ export default function AdminDashboard() {
                     <TableCell className="font-medium">{company.name}</TableCell>
                     <TableCell>{company.segment}</TableCell>
                     <TableCell className="font-mono text-sm">{company.cpfCnpj}</TableCell>
-                    <TableCell>{getStatusBadge(company.status)}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={company.plan}
+                        onValueChange={(plan) => planMutation.mutate({ id: company.id, plan })}
+                        disabled={planMutation.isPending}
+                      >
+                        <SelectTrigger className="w-40" data-testid={`select-plan-${company.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(plans).map(([name, plan]) => (
+                            <SelectItem key={name} value={name}>
+                              {plan.label} · R$ {(plan.price / 100).toFixed(2)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        {getStatusBadge(company.status)}
+                        {company.status === 'trial' && company.trialEndsAt && (
+                          <p className="text-xs text-muted-foreground">
+                            até {new Date(company.trialEndsAt).toLocaleDateString("pt-BR")}
+                          </p>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
                         {company.status === 'active' ? (
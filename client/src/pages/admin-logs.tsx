@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { FileText, MessageSquare, ShoppingCart, Eye } from "lucide-react";
+import { FileText, MessageSquare, ShoppingCart, Eye, ShieldAlert } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import type { ApiLog, Company } from "@shared/schema";
@@ -41,6 +41,7 @@ export default function AdminLogs() {
       openai_prompt: { label: "OpenAI Prompt", icon: MessageSquare, variant: "default" },
       order_created: { label: "Pedido Criado", icon: ShoppingCart, variant: "default" },
       api_request: { label: "API Request", icon: FileText, variant: "secondary" },
+      guardrail_triggered: { label: "Guardrail", icon: ShieldAlert, variant: "destructive" },
     };
     return configs[type] || { label: type, icon: FileText, variant: "secondary" };
   };
@@ -69,6 +70,7 @@ export default function AdminLogs() {
             <SelectItem value="openai_prompt">OpenAI Prompts</SelectItem>
             <SelectItem value="order_created">Pedidos Criados</SelectItem>
             <SelectItem value="api_request">API Requests</SelectItem>
+            <SelectItem value="guardrail_triggered">Guardrails</SelectItem>
           </SelectContent>
         </Select>
       </div>
@@ -8,12 +8,18 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Bot, Upload, Sparkles, Target, TrendingUp, MessageSquare, FileText, X, Check } from "lucide-react";
+import { Bot, Upload, Sparkles, Target, TrendingUp, MessageSquare, FileText, X, Check, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import type { Agent } from "@shared/schema";
 
 type SellerPersonality = "passive" | "balanced" | "proactive";
 
+type ContextDocument = {
+  url: string;
+  name: string;
+  chunks: number;
+};
+
 const personalityOptions = [
   {
     value: "passive" as SellerPersonality,
@@ -56,6 +62,10 @@ export default function Agent() {
     queryKey: ["/api/company"],
   });
 
+  const { data: documents = [] } = useQuery<ContextDocument[]>({
+    queryKey: ["/api/agent/documents"],
+  });
+
   const [formData, setFormData] = useState({
     name: "",
     toneOfVoice: "",
@@ -95,6 +105,35 @@ export default function Agent() {
     },
   });
 
+  const removeDocumentMutation = useMutation({
+    mutationFn: async (url: string) => {
+      const response = await apiRequest("DELETE", "/api/agent/documents", { url });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agent"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/agent/documents"] });
+      toast({ title: "Documento removido" });
+    },
+    onError: () => {
+      toast({ variant: "destructive", title: "Erro ao remover documento" });
+    },
+  });
+
+  const reindexMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/agent/documents/reindex");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agent/documents"] });
+      toast({ title: "Documentos reindexados!" });
+    },
+    onError: () => {
+      toast({ variant: "destructive", title: "Erro ao reindexar documentos" });
+    },
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     updateMutation.mutate(formData);
@@ -122,6 +161,7 @@ export default function Agent() {
       if (!response.ok) throw new Error("Erro ao enviar documentos");
 
       await queryClient.invalidateQueries({ queryKey: ["/api/agent"] });
+      await queryClient.invalidateQueries({ queryKey: ["/api/agent/documents"] });
       toast({ title: "Documentos enviados com sucesso!" });
     } catch (error) {
       toast({ variant: "destructive", title: "Erro ao enviar documentos" });
@@ -344,19 +384,51 @@ export default function Agent() {
               Documentos de Contexto
             </CardTitle>
             <CardDescription>
-              Envie documentos (PDFs, TXTs) para dar mais contexto ao agente sobre seus produtos, políticas e processos
+              Envie documentos (PDFs, TXTs, XMLs) para o agente consultar ao responder sobre seus produtos, políticas e processos
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            {agent?.contextDocuments && agent.contextDocuments.length > 0 && (
+            {documents.length > 0 && (
               <div className="space-y-2">
-                <Label>Documentos Enviados</Label>
-                <div className="flex flex-wrap gap-2">
-                  {agent.contextDocuments.map((doc, idx) => (
-                    <Badge key={idx} variant="secondary" className="gap-1.5">
-                      <FileText className="w-3 h-3" />
-                      Documento {idx + 1}
-                    </Badge>
+                <div className="flex items-center justify-between">
+                  <Label>Documentos Enviados</Label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => reindexMutation.mutate()}
+                    disabled={reindexMutation.isPending}
+                    data-testid="button-reindex-documents"
+                  >
+                    <RefreshCw className={`w-3 h-3 mr-1.5 ${reindexMutation.isPending ? "animate-spin" : ""}`} />
+                    Reindexar
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  {documents.map((doc) => (
+                    <div
+                      key={doc.url}
+                      className="flex items-center justify-between gap-2 rounded-md border px-3 py-2"
+                      data-testid={`document-${doc.url}`}
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        <FileText className="w-4 h-4 shrink-0 text-muted-foreground" />
+                        <span className="text-sm truncate">{doc.name}</span>
+                        <Badge variant={doc.chunks > 0 ? "secondary" : "outline"}>
+                          {doc.chunks > 0 ? `${doc.chunks} trechos indexados` : "Não indexado"}
+                        </Badge>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeDocumentMutation.mutate(doc.url)}
+                        disabled={removeDocumentMutation.isPending}
+                        data-testid={`button-remove-document-${doc.url}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
                   ))}
                 </div>
               </div>
@@ -370,14 +442,14 @@ export default function Agent() {
                     {uploading ? "Enviando..." : "Clique para enviar documentos"}
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    PDF, TXT, DOCX até 10MB cada
+                    PDF, TXT, XML até 10MB cada
                   </p>
                 </div>
                 <Input
                   id="documents"
                   type="file"
                   multiple
-                  accept=".pdf,.txt,.docx"
+                  accept=".pdf,.txt,.xml"
                   onChange={handleDocumentUpload}
                   className="hidden"
                   disabled={uploading}
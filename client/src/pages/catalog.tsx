@@ -40,14 +40,18 @@ export default function Catalog() {
     return matchesSearch && matchesCategory && product.isActive;
   });
 
-  const handleAddToCart = (product: Product) => {
-    addItem({
-      id: product.id,
-      name: product.name,
-      price: product.price,
-      imageUrl: product.imageUrls?.[0] || undefined,
-    });
-    toast({ title: `${product.name} adicionado ao carrinho!` });
+  const handleAddToCart = async (product: Product) => {
+    try {
+      await addItem({
+        id: product.id,
+        name: product.name,
+        price: product.price,
+        imageUrl: product.imageUrls?.[0] || undefined,
+      });
+      toast({ title: `${product.name} adicionado ao carrinho!` });
+    } catch {
+      // Error toast is shown by the cart context
+    }
   };
 
   return (
@@ -276,10 +280,11 @@ export default function Catalog() {
                     </div>
                     <Button
                       onClick={() => handleAddToCart(product)}
+                      disabled={product.stock <= 0}
                       data-testid={`button-add-${product.id}`}
                     >
                       <ShoppingCart className="w-4 h-4 mr-2" />
-                      Adicionar
+                      {product.stock <= 0 ? "Esgotado" : "Adicionar"}
                     </Button>
                   </div>
                 </CardContent>
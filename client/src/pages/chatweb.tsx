@@ -5,10 +5,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Send, Bot, User, Image as ImageIcon, Mic, X, ShoppingBag, Store, Headphones } from "lucide-react";
+import { Send, Bot, User, Image as ImageIcon, Mic, X, ShoppingBag, Store, Headphones, Copy, Smartphone } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
-import { useCart } from "@/context/CartContext";
+import { useRealtime, useTypingIndicators, useTypingNotifier, appendMessage, type RealtimeEvent } from "@/hooks/use-realtime";
+import { useCart, type VisitorSession } from "@/context/CartContext";
 
 interface Message {
   id: string;
@@ -27,25 +28,37 @@ interface Message {
       url: string;
       caption?: string;
     }>;
+    payment?: {
+      paymentId: string;
+      method: "pix" | "boleto";
+      code: string; // PIX copia e cola or boleto linha digitável
+      amount: number;
+      expiresAt: string | null;
+    };
   } | null;
 }
 
-const CONVERSATION_STORAGE_KEY = "omni_conversation_";
-
 export default function ChatWeb() {
   const { companyId } = useParams<{ companyId: string }>();
   const { toast } = useToast();
-  const { items: cartItems, total: cartTotal, clearCart, addItem } = useCart();
-  const [conversationId, setConversationId] = useState<string | null>(() => {
-    if (!companyId) return null;
-    return localStorage.getItem(CONVERSATION_STORAGE_KEY + companyId);
-  });
+  const {
+    items: cartItems,
+    total: cartTotal,
+    refreshCart,
+    conversationId,
+    session,
+    setSession,
+    startConversation,
+    visitorFetch,
+  } = useCart();
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [isRecording, setIsRecording] = useState(false);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
+  const [streamingText, setStreamingText] = useState("");
+  const [toolProgress, setToolProgress] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -62,21 +75,29 @@ export default function ChatWeb() {
   });
 
   const createConversationMutation = useMutation({
+    mutationFn: startConversation,
+  });
+
+  // "Continue on another device": a one-time link to this conversation
+  const resumeLinkMutation = useMutation({
     mutationFn: async () => {
-      const response = await fetch(`/api/chatweb/${companyId}/conversations`, {
+      const response = await visitorFetch(`/api/chatweb/${companyId}/conversations/${conversationId}/resume-link`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({}),
       });
-      if (!response.ok) throw new Error("Erro ao criar conversa");
-      return response.json();
+      if (!response.ok) throw new Error("Erro ao gerar link");
+      return response.json() as Promise<{ url: string; expiresAt: string }>;
     },
-    onSuccess: (data) => {
-      setConversationId(data.id);
-      if (companyId) {
-        localStorage.setItem(CONVERSATION_STORAGE_KEY + companyId, data.id);
+    onSuccess: async ({ url }) => {
+      try {
+        await navigator.clipboard.writeText(url);
+        toast({ title: "Link copiado!", description: "Abra no outro dispositivo em até 15 minutos." });
+      } catch {
+        toast({ title: "Link para continuar", description: url });
       }
     },
+    onError: () => {
+      toast({ variant: "destructive", title: "Não foi possível gerar o link" });
+    },
   });
 
   const sendMessageMutation = useMutation({
@@ -94,7 +115,7 @@ export default function ChatWeb() {
         console.log("Sending audio:", audio.size);
       }
       
-      const response = await fetch(`/api/chatweb/${companyId}/conversations/${conversationId}/messages`, {
+      const response = await visitorFetch(`/api/chatweb/${companyId}/conversations/${conversationId}/messages?stream=1`, {
         method: "POST",
         body: formData,
       });
@@ -104,38 +125,66 @@ export default function ChatWeb() {
         console.error("Send message error:", errorText);
         throw new Error("Erro ao enviar mensagem");
       }
-      return response.json();
+
+      // Human mode answers with plain JSON; AI replies are streamed as Server-Sent Events
+      if (!response.headers.get("Content-Type")?.includes("text/event-stream") || !response.body) {
+        return response.json();
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const frames = buffer.split("\n\n");
+        buffer = frames.pop() || "";
+        for (const frame of frames) {
+          const event = frame.match(/^event: (.*)$/m)?.[1];
+          const data = frame.match(/^data: (.*)$/m)?.[1];
+          if (!event || !data) continue;
+          const payload = JSON.parse(data);
+
+          if (event === "delta") {
+            setStreamingText(prev => prev + payload.text);
+          } else if (event === "tool") {
+            // Text streamed before a tool call is superseded by the follow-up reply
+            setStreamingText("");
+            setToolProgress(payload.label);
+          } else if (event === "replace") {
+            // Final text after the server's checks (prices, redactions, tool notes)
+            setStreamingText(payload.text);
+          } else if (event === "done") {
+            return payload;
+          } else if (event === "error") {
+            throw new Error(payload.error);
+          }
+        }
+      }
+      throw new Error("Erro ao enviar mensagem");
     },
     onSuccess: (response: any) => {
       // Handle both old format (single message) and new format (message + productMessages)
       const assistantMessage = response.message || response;
       const productMessages = response.productMessages || [];
+
+      // Human mode echoes the user message back - operator replies arrive over the event bus
+      if (assistantMessage.role === "user") return;
+
+      // Add main message and product image messages (may already have arrived over the event bus)
+      setMessages(prev => [assistantMessage, ...productMessages].reduce(appendMessage, prev));
       
-      // Add main message
-      setMessages(prev => [...prev, assistantMessage]);
-      
-      // Add product image messages
-      if (productMessages.length > 0) {
-        setMessages(prev => [...prev, ...productMessages]);
-      }
-      
-      // Check if agent added items to cart
+      // Agent changed the server-side cart - reload it
+      const functionCalled = (assistantMessage.metadata as any)?.functionCalled;
       if (assistantMessage.metadata && 'cartItems' in assistantMessage.metadata) {
-        const items = (assistantMessage.metadata as any).cartItems;
-        if (Array.isArray(items)) {
-          items.forEach((item: any) => {
-            addItem({
-              id: item.id,
-              name: item.name,
-              price: item.price,
-              imageUrl: item.imageUrl
-            }, item.quantity);
-          });
-          toast({ 
-            title: "Produtos adicionados ao carrinho!",
-            description: `${items.length} produto(s) adicionado(s)`
-          });
+        refreshCart();
+        if (functionCalled === 'add_to_cart') {
+          toast({ title: "Carrinho atualizado!" });
         }
+      } else if (functionCalled === 'create_order' || (assistantMessage.metadata as any)?.confirmationCode) {
+        refreshCart();
       }
     },
     onError: (error) => {
@@ -146,47 +195,81 @@ export default function ChatWeb() {
         description: "Tente novamente"
       });
     },
+    onSettled: () => {
+      setStreamingText("");
+      setToolProgress(null);
+    },
   });
 
   useEffect(() => {
+    const loadMessages = async (current: VisitorSession) => {
+      const response = await fetch(`/api/chatweb/${companyId}/conversations/${current.conversationId}/messages`, {
+        headers: { "X-Visitor-Token": current.token },
+      });
+      if (!response.ok) throw new Error("Sessão inválida");
+      setMessages(await response.json());
+    };
+
     const loadConversation = async () => {
       if (!companyId) return;
-      
-      if (conversationId) {
-        // Load existing conversation messages
-        setIsLoadingMessages(true);
-        try {
-          const response = await fetch(`/api/chatweb/${companyId}/conversations/${conversationId}/messages`);
+
+      setIsLoadingMessages(true);
+      try {
+        // Opened from a "continue on another device" link: take over that conversation
+        let current = session;
+        const resumeCode = new URLSearchParams(window.location.search).get("resume");
+        if (resumeCode) {
+          window.history.replaceState(null, "", window.location.pathname);
+          const response = await fetch(`/api/chatweb/${companyId}/sessions/resume`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ code: resumeCode }),
+          });
           if (response.ok) {
-            const existingMessages = await response.json();
-            setMessages(existingMessages);
+            const { conversation, token } = await response.json();
+            current = { conversationId: conversation.id, token };
+            setSession(current);
           } else {
-            // Conversation doesn't exist anymore, create new one
-            localStorage.removeItem(CONVERSATION_STORAGE_KEY + companyId);
-            setConversationId(null);
-            createConversationMutation.mutate();
+            toast({ variant: "destructive", title: "Link inválido ou expirado" });
           }
-        } catch (error) {
-          console.error("Error loading messages:", error);
-          // Create new conversation on error
-          localStorage.removeItem(CONVERSATION_STORAGE_KEY + companyId);
-          setConversationId(null);
+        }
+
+        if (current) {
+          // Resume the conversation of this browser's session
+          await loadMessages(current);
+        } else {
           createConversationMutation.mutate();
-        } finally {
-          setIsLoadingMessages(false);
         }
-      } else {
-        // No conversation exists, create new one
+      } catch (error) {
+        console.error("Error loading messages:", error);
+        // Session expired or conversation removed: start a new one
+        setSession(null);
         createConversationMutation.mutate();
+      } finally {
+        setIsLoadingMessages(false);
       }
     };
     
     loadConversation();
   }, [companyId]);
 
+  // Operator replies, AI messages and typing indicators pushed by the server
+  const { typing, handleEvent: handleTypingEvent } = useTypingIndicators();
+  const { sendTyping } = useRealtime(
+    { scope: "conversation", sessionToken: session?.token || null },
+    (event: RealtimeEvent) => {
+      handleTypingEvent(event);
+      if (event.type === "message.created" && event.message.role !== "user") {
+        setMessages(prev => appendMessage(prev, event.message as unknown as Message));
+      }
+    },
+  );
+  const { notifyTyping, stopTyping } = useTypingNotifier(sendTyping);
+  const agentTyping = !!conversationId && !!typing[conversationId] && typing[conversationId].role !== "user";
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, streamingText]);
 
   const startRecording = async () => {
     try {
@@ -234,6 +317,7 @@ export default function ChatWeb() {
 
   const handleSend = async () => {
     if ((!input.trim() && !selectedImage && !audioBlob) || !conversationId) return;
+    stopTyping();
 
     // Determine display text for user message
     let displayText = input;
@@ -283,6 +367,15 @@ export default function ChatWeb() {
     toast({ title: "Carrinho adicionado à conversa!" });
   };
 
+  const copyPaymentCode = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast({ title: "Código copiado!" });
+    } catch {
+      toast({ title: "Não foi possível copiar o código", variant: "destructive" });
+    }
+  };
+
   if (!companyData || isLoadingMessages) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-muted">
@@ -330,6 +423,16 @@ export default function ChatWeb() {
                 Enviar Carrinho ({cartItems.length})
               </Button>
             )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => resumeLinkMutation.mutate()}
+              disabled={!conversationId || resumeLinkMutation.isPending}
+              title="Continuar em outro dispositivo"
+              data-testid="button-resume-link"
+            >
+              <Smartphone className="w-4 h-4" />
+            </Button>
             <Button 
               variant="outline"
               onClick={() => window.location.href = `/catalog/${companyId}`}
@@ -445,6 +548,20 @@ export default function ChatWeb() {
                 <p className="text-base leading-relaxed whitespace-pre-wrap">
                   {message.content}
                 </p>
+
+                {/* PIX copia e cola / boleto linha digitável */}
+                {message.role === "assistant" && message.metadata?.payment && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => copyPaymentCode(message.metadata!.payment!.code)}
+                    data-testid={`button-copy-payment-${message.id}`}
+                  >
+                    <Copy className="w-4 h-4 mr-2" />
+                    {message.metadata.payment.method === "boleto" ? "Copiar linha digitável" : "Copiar código PIX"}
+                  </Button>
+                )}
               </div>
 
               {message.role === "user" && (
@@ -457,7 +574,7 @@ export default function ChatWeb() {
             </div>
           ))}
 
-          {sendMessageMutation.isPending && (
+          {(sendMessageMutation.isPending || agentTyping) && (
             <div className="flex gap-3 justify-start">
               <Avatar className="h-8 w-8 mt-1">
                 <AvatarFallback className="bg-primary text-primary-foreground">
@@ -465,11 +582,18 @@ export default function ChatWeb() {
                 </AvatarFallback>
               </Avatar>
               <div className="rounded-2xl rounded-bl-sm px-4 py-3 bg-card border">
-                <div className="flex gap-1">
-                  <div className="w-2 h-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: "0ms" }} />
-                  <div className="w-2 h-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: "150ms" }} />
-                  <div className="w-2 h-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: "300ms" }} />
-                </div>
+                {streamingText ? (
+                  <p className="text-sm whitespace-pre-wrap" data-testid="text-streaming-reply">{streamingText}</p>
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <div className="w-2 h-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: "0ms" }} />
+                    <div className="w-2 h-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: "150ms" }} />
+                    <div className="w-2 h-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: "300ms" }} />
+                    {toolProgress && (
+                      <span className="ml-2 text-xs text-muted-foreground" data-testid="text-tool-progress">{toolProgress}</span>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -547,7 +671,10 @@ export default function ChatWeb() {
             <Input
               placeholder="Digite sua mensagem..."
               value={input}
-              onChange={(e) => setInput(e.target.value)}
+              onChange={(e) => {
+                setInput(e.target.value);
+                if (conversationId) notifyTyping(conversationId);
+              }}
               onKeyPress={handleKeyPress}
               disabled={sendMessageMutation.isPending || !conversationId}
               className="flex-1"
@@ -9,29 +9,67 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { ShoppingCart, Package, CheckCircle, ArrowLeft } from "lucide-react";
+import { ShoppingCart, Package, CheckCircle, ArrowLeft, Copy, Tag, X, Truck } from "lucide-react";
 import { useCart } from "@/context/CartContext";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 
 const checkoutSchema = z.object({
   customerName: z.string().min(3, "Nome completo é obrigatório"),
   customerEmail: z.string().email("E-mail inválido").optional().or(z.literal("")),
   customerPhone: z.string().min(10, "Telefone é obrigatório"),
   shippingAddress: z.string().min(10, "Endereço completo é obrigatório"),
-  paymentMethod: z.string().min(1, "Selecione um método de pagamento"),
+  shippingCep: z.string().regex(/^\d{5}-?\d{3}$/, "CEP inválido"),
+  paymentMethod: z.enum(["pix", "boleto", "card", "cash"], { required_error: "Selecione um método de pagamento" }),
+  cardNumber: z.string().optional(),
+  cardHolder: z.string().optional(),
+  cardExpiry: z.string().optional(),
+  cardCvv: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if (data.paymentMethod !== "card") return;
+  if (!data.cardNumber || data.cardNumber.replace(/\D/g, "").length < 13) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cardNumber"], message: "Número do cartão inválido" });
+  }
+  if (!data.cardHolder || data.cardHolder.trim().length < 2) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cardHolder"], message: "Nome impresso no cartão é obrigatório" });
+  }
+  if (!data.cardExpiry || !/^\d{2}\/\d{2}$/.test(data.cardExpiry)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cardExpiry"], message: "Use o formato MM/AA" });
+  }
+  if (!data.cardCvv || !/^\d{3,4}$/.test(data.cardCvv)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cardCvv"], message: "CVV inválido" });
+  }
 });
 
 type CheckoutForm = z.infer<typeof checkoutSchema>;
 
+interface ShippingOption {
+  ruleId: string;
+  name: string;
+  type: "flat" | "cep_range" | "distance" | "pickup";
+  price: number; // in cents, 0 when free
+  estimatedDays: number | null;
+  instructions: string | null;
+}
+
+function shippingDeadline(option: ShippingOption): string {
+  if (option.estimatedDays === null) return "No mesmo dia";
+  return `${option.estimatedDays} ${option.estimatedDays === 1 ? "dia útil" : "dias úteis"}`;
+}
+
 export default function Checkout() {
   const { companyId } = useParams<{ companyId: string }>();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
-  const { items, total, clearCart } = useCart();
+  const { items, subtotal, discounts, couponCode, couponError, total, applyCoupon, removeCoupon, refreshCart, conversationId, visitorFetch } = useCart();
   const [orderConfirmed, setOrderConfirmed] = useState(false);
   const [confirmationCode, setConfirmationCode] = useState("");
+  const [orderTotal, setOrderTotal] = useState(0);
+  const [couponInput, setCouponInput] = useState("");
+  const [shippingRuleId, setShippingRuleId] = useState<string | null>(null);
+  const [payment, setPayment] = useState<{ method: string; code: string } | null>(null);
 
   const form = useForm<CheckoutForm>({
     resolver: zodResolver(checkoutSchema),
@@ -40,54 +78,136 @@ export default function Checkout() {
       customerEmail: "",
       customerPhone: "",
       shippingAddress: "",
+      shippingCep: "",
       paymentMethod: "pix",
+      cardNumber: "",
+      cardHolder: "",
+      cardExpiry: "",
+      cardCvv: "",
+    },
+  });
+  const paymentMethod = form.watch("paymentMethod");
+  const shippingCep = form.watch("shippingCep").replace(/\D/g, "");
+
+  // Delivery options for the CEP (options null = the store doesn't charge freight)
+  const { data: shippingQuote, isFetching: isQuotingShipping } = useQuery<{ cep: string; options: ShippingOption[] | null }>({
+    queryKey: ["checkout-shipping", companyId, conversationId, shippingCep, total],
+    queryFn: async () => {
+      const response = await visitorFetch(`/api/chatweb/${companyId}/conversations/${conversationId}/shipping`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cep: shippingCep }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Erro ao calcular frete");
+      }
+      return response.json();
     },
+    enabled: !!conversationId && shippingCep.length === 8,
   });
+  const shippingOptions = shippingCep.length === 8 ? shippingQuote?.options : undefined;
+  // Chosen option, else the cheapest delivery (as the server does)
+  const selectedShipping = shippingOptions
+    ? shippingOptions.find((o) => o.ruleId === shippingRuleId)
+      || shippingOptions.find((o) => o.type !== "pickup")
+      || shippingOptions[0]
+      || null
+    : null;
+  const shippingUnavailable = shippingOptions?.length === 0;
+  const grandTotal = total + (selectedShipping?.price ?? 0);
 
   const createOrderMutation = useMutation({
     mutationFn: async (data: CheckoutForm) => {
+      // Card data goes only to the gateway tokenizer - the order carries the token
+      let cardToken: string | undefined;
+      if (data.paymentMethod === "card") {
+        const [expMonth, expYear] = data.cardExpiry!.split("/");
+        const tokenResponse = await visitorFetch(`/api/chatweb/${companyId}/payments/card-token`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            number: data.cardNumber,
+            holderName: data.cardHolder,
+            expMonth,
+            expYear,
+            cvv: data.cardCvv,
+          }),
+        });
+        const tokenBody = await tokenResponse.json().catch(() => null);
+        if (!tokenResponse.ok) {
+          throw new Error(tokenBody?.error || "Cartão inválido");
+        }
+        cardToken = tokenBody.token;
+      }
+
+      // Items, freight and total are taken from the session's cart on the server
       const orderData = {
         customerName: data.customerName,
         customerEmail: data.customerEmail || null,
         customerPhone: data.customerPhone,
-        shippingAddress: data.shippingAddress,
+        shippingAddress: { street: data.shippingAddress, zip: data.shippingCep.replace(/\D/g, "") },
+        shippingRuleId: selectedShipping?.ruleId,
         paymentMethod: data.paymentMethod,
-        items: items.map((item) => ({
-          productId: item.id,
-          name: item.name,
-          quantity: item.quantity,
-          price: item.price,
-        })),
-        total,
+        cardToken,
       };
 
-      const response = await fetch(`/api/chatweb/${companyId}/orders`, {
+      const response = await visitorFetch(`/api/chatweb/${companyId}/orders`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(orderData),
       });
 
-      if (!response.ok) throw new Error("Erro ao criar pedido");
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Erro ao criar pedido");
+      }
       return response.json();
     },
     onSuccess: (order) => {
       setConfirmationCode(order.confirmationCode);
+      setOrderTotal(order.total);
+      const code = order.payment?.pixCode || order.payment?.boletoLine;
+      setPayment(code ? { method: order.payment.method, code } : null);
       setOrderConfirmed(true);
-      clearCart();
+      refreshCart();
       toast({
         title: "Pedido realizado com sucesso!",
         description: `Código de confirmação: ${order.confirmationCode}`,
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         variant: "destructive",
         title: "Erro ao finalizar pedido",
-        description: "Tente novamente ou entre em contato",
+        description: error.message !== "Erro ao criar pedido"
+          ? error.message
+          : "Tente novamente ou entre em contato",
       });
     },
   });
 
+  const couponMutation = useMutation({
+    mutationFn: (code: string) => applyCoupon(code),
+    onSuccess: () => {
+      setCouponInput("");
+      toast({ title: "Cupom aplicado!" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Cupom não aplicado", description: error.message });
+    },
+  });
+
+  const copyPaymentCode = async () => {
+    if (!payment) return;
+    try {
+      await navigator.clipboard.writeText(payment.code);
+      toast({ title: "Código copiado!" });
+    } catch {
+      toast({ variant: "destructive", title: "Não foi possível copiar o código" });
+    }
+  };
+
   const onSubmit = (data: CheckoutForm) => {
     createOrderMutation.mutate(data);
   };
@@ -135,9 +255,23 @@ export default function Checkout() {
                 <p className="text-sm text-muted-foreground mb-2">Código de Confirmação</p>
                 <p className="text-3xl font-bold font-mono tracking-wider">{confirmationCode}</p>
               </div>
+              {payment && (
+                <div className="p-4 border rounded-lg space-y-3 text-left">
+                  <p className="text-sm font-medium">
+                    {payment.method === "boleto" ? "Pague com a linha digitável do boleto" : "Pague com PIX copia e cola"}
+                  </p>
+                  <p className="text-xs font-mono break-all text-muted-foreground" data-testid="text-payment-code">
+                    {payment.code}
+                  </p>
+                  <Button variant="outline" className="w-full" onClick={copyPaymentCode} data-testid="button-copy-payment">
+                    <Copy className="w-4 h-4 mr-2" />
+                    {payment.method === "boleto" ? "Copiar linha digitável" : "Copiar código PIX"}
+                  </Button>
+                </div>
+              )}
               <div className="space-y-2 text-sm text-muted-foreground">
                 <p>Guarde este código para acompanhar seu pedido</p>
-                <p>Total: R$ {(total / 100).toFixed(2)}</p>
+                <p>Total: R$ {(orderTotal / 100).toFixed(2)}</p>
               </div>
               <Button
                 onClick={() => setLocation(`/catalog/${companyId}`)}
@@ -241,6 +375,65 @@ export default function Checkout() {
                       )}
                     />
 
+                    <FormField
+                      control={form.control}
+                      name="shippingCep"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>CEP *</FormLabel>
+                          <FormControl>
+                            <Input inputMode="numeric" placeholder="00000-000" className="max-w-[160px]" data-testid="input-cep" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    {isQuotingShipping && !shippingOptions && (
+                      <p className="text-sm text-muted-foreground">Calculando frete...</p>
+                    )}
+                    {shippingUnavailable && (
+                      <p className="text-sm text-destructive" data-testid="text-shipping-unavailable">
+                        Não entregamos neste CEP
+                      </p>
+                    )}
+                    {shippingOptions && shippingOptions.length > 0 && selectedShipping && (
+                      <div className="space-y-2">
+                        <Label className="flex items-center gap-2">
+                          <Truck className="w-4 h-4" />
+                          Entrega
+                        </Label>
+                        <RadioGroup
+                          value={selectedShipping.ruleId}
+                          onValueChange={setShippingRuleId}
+                          className="space-y-2"
+                        >
+                          {shippingOptions.map((option) => (
+                            <Label
+                              key={option.ruleId}
+                              htmlFor={`shipping-${option.ruleId}`}
+                              className="flex items-start gap-3 p-3 border rounded-lg cursor-pointer font-normal"
+                              data-testid={`option-shipping-${option.ruleId}`}
+                            >
+                              <RadioGroupItem value={option.ruleId} id={`shipping-${option.ruleId}`} className="mt-0.5" />
+                              <div className="flex-1 min-w-0">
+                                <div className="flex justify-between gap-2">
+                                  <span className="font-medium">{option.name}</span>
+                                  <span className={option.price === 0 ? "text-green-600" : ""}>
+                                    {option.price === 0 ? "Grátis" : `R$ ${(option.price / 100).toFixed(2)}`}
+                                  </span>
+                                </div>
+                                <p className="text-xs text-muted-foreground">{shippingDeadline(option)}</p>
+                                {option.instructions && (
+                                  <p className="text-xs text-muted-foreground">{option.instructions}</p>
+                                )}
+                              </div>
+                            </Label>
+                          ))}
+                        </RadioGroup>
+                      </div>
+                    )}
+
                     <FormField
                       control={form.control}
                       name="paymentMethod"
@@ -255,9 +448,9 @@ export default function Checkout() {
                             </FormControl>
                             <SelectContent>
                               <SelectItem value="pix">PIX</SelectItem>
-                              <SelectItem value="credit_card">Cartão de Crédito</SelectItem>
-                              <SelectItem value="debit_card">Cartão de Débito</SelectItem>
-                              <SelectItem value="cash">Dinheiro</SelectItem>
+                              <SelectItem value="boleto">Boleto</SelectItem>
+                              <SelectItem value="card">Cartão de Crédito</SelectItem>
+                              <SelectItem value="cash">Dinheiro na entrega</SelectItem>
                             </SelectContent>
                           </Select>
                           <FormMessage />
@@ -265,11 +458,70 @@ export default function Checkout() {
                       )}
                     />
 
+                    {paymentMethod === "card" && (
+                      <div className="space-y-4 p-4 border rounded-lg">
+                        <FormField
+                          control={form.control}
+                          name="cardNumber"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Número do Cartão *</FormLabel>
+                              <FormControl>
+                                <Input inputMode="numeric" autoComplete="cc-number" placeholder="0000 0000 0000 0000" data-testid="input-card-number" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="cardHolder"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Nome Impresso no Cartão *</FormLabel>
+                              <FormControl>
+                                <Input autoComplete="cc-name" placeholder="NOME COMO NO CARTÃO" data-testid="input-card-holder" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <div className="grid grid-cols-2 gap-4">
+                          <FormField
+                            control={form.control}
+                            name="cardExpiry"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Validade *</FormLabel>
+                                <FormControl>
+                                  <Input autoComplete="cc-exp" placeholder="MM/AA" data-testid="input-card-expiry" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name="cardCvv"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>CVV *</FormLabel>
+                                <FormControl>
+                                  <Input inputMode="numeric" autoComplete="cc-csc" placeholder="123" data-testid="input-card-cvv" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                      </div>
+                    )}
+
                     <Button
                       type="submit"
                       className="w-full"
                       size="lg"
-                      disabled={createOrderMutation.isPending}
+                      disabled={createOrderMutation.isPending || shippingUnavailable}
                       data-testid="button-confirm"
                     >
                       {createOrderMutation.isPending ? "Processando..." : "Confirmar Pedido"}
@@ -310,9 +562,71 @@ export default function Checkout() {
                   ))}
                 </div>
                 <div className="pt-4 border-t space-y-2">
+                  {couponCode ? (
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <span className="flex items-center gap-1">
+                        <Tag className="w-4 h-4" />
+                        Cupom <span className="font-mono font-semibold">{couponCode}</span>
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeCoupon()}
+                        data-testid="button-remove-coupon"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        value={couponInput}
+                        onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                        placeholder="Cupom de desconto"
+                        data-testid="input-coupon"
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={() => couponMutation.mutate(couponInput.trim())}
+                        disabled={!couponInput.trim() || couponMutation.isPending}
+                        data-testid="button-apply-coupon"
+                      >
+                        Aplicar
+                      </Button>
+                    </div>
+                  )}
+                  {couponError && (
+                    <p className="text-sm text-destructive" data-testid="text-coupon-error">{couponError}</p>
+                  )}
+                  {(discounts.length > 0 || selectedShipping) && (
+                    <div className="flex justify-between text-sm">
+                      <span>Subtotal:</span>
+                      <span>R$ {(subtotal / 100).toFixed(2)}</span>
+                    </div>
+                  )}
+                  {discounts.length > 0 && (
+                    <>
+                      {discounts.map((discount) => (
+                        <div
+                          key={discount.promotionId}
+                          className="flex justify-between text-sm text-green-600"
+                          data-testid={`text-discount-${discount.promotionId}`}
+                        >
+                          <span>{discount.code ? `Cupom ${discount.code}` : discount.name}</span>
+                          <span>- R$ {(discount.amount / 100).toFixed(2)}</span>
+                        </div>
+                      ))}
+                    </>
+                  )}
+                  {selectedShipping && (
+                    <div className="flex justify-between text-sm" data-testid="text-shipping">
+                      <span>Frete ({selectedShipping.name}):</span>
+                      <span>{selectedShipping.price === 0 ? "Grátis" : `R$ ${(selectedShipping.price / 100).toFixed(2)}`}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-lg font-bold">
                     <span>Total:</span>
-                    <span>R$ {(total / 100).toFixed(2)}</span>
+                    <span>R$ {(grandTotal / 100).toFixed(2)}</span>
                   </div>
                 </div>
               </CardContent>
@@ -7,6 +7,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtime, useTypingIndicators, useTypingNotifier, applyConversationEvent } from "@/hooks/use-realtime";
 import { MessageSquare, User, Send, UserCheck } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { ptBR } from "date-fns/locale";
@@ -43,15 +44,22 @@ export default function ConversationsMonitor() {
 
   const { data: conversations = [], isLoading } = useQuery<Conversation[]>({
     queryKey: ["/api/conversations/active"],
-    refetchInterval: 3000, // Auto-refresh every 3 seconds
   });
 
   const { data: conversationDetail } = useQuery<{ messages: Message[] }>({
     queryKey: ["/api/conversations", selectedConversation],
     enabled: !!selectedConversation,
-    refetchInterval: 2000,
   });
 
+  // Live updates from the event bus
+  const { typing, handleEvent: handleTypingEvent } = useTypingIndicators();
+  const { sendTyping } = useRealtime({ scope: "company" }, (event) => {
+    applyConversationEvent(event);
+    handleTypingEvent(event);
+  });
+  const { notifyTyping, stopTyping } = useTypingNotifier(sendTyping);
+  const selectedTyping = selectedConversation ? typing[selectedConversation] : undefined;
+
   const takeoverMutation = useMutation({
     mutationFn: async (conversationId: string) => {
       return apiRequest("POST", `/api/conversations/${conversationId}/takeover`, {});
@@ -80,6 +88,7 @@ export default function ConversationsMonitor() {
 
   const handleSendMessage = () => {
     if (!selectedConversation || !replyText.trim()) return;
+    stopTyping();
     sendMessageMutation.mutate({ conversationId: selectedConversation, content: replyText });
   };
 
@@ -210,6 +219,15 @@ export default function ConversationsMonitor() {
                     </Card>
                   </div>
                 ))}
+                {selectedTyping && (
+                  <p className="text-xs text-muted-foreground italic" data-testid="text-typing">
+                    {selectedTyping.role === "user"
+                      ? "Cliente está digitando..."
+                      : selectedTyping.role === "assistant"
+                      ? "IA está respondendo..."
+                      : `${selectedTyping.name || "Atendente"} está digitando...`}
+                  </p>
+                )}
               </div>
             </ScrollArea>
 
@@ -219,7 +237,10 @@ export default function ConversationsMonitor() {
                   <Textarea
                     placeholder="Digite sua mensagem..."
                     value={replyText}
-                    onChange={(e) => setReplyText(e.target.value)}
+                    onChange={(e) => {
+                      setReplyText(e.target.value);
+                      notifyTyping(selectedConversation);
+                    }}
                     onKeyDown={(e) => {
                       if (e.key === "Enter" && !e.shiftKey) {
                         e.preventDefault();
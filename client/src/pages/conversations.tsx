@@ -3,18 +3,54 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { MessageSquare, Send, Headphones, User, Bot } from "lucide-react";
+import { MessageSquare, Send, Headphones, User, Bot, Sparkles, Undo2, ShieldAlert } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import type { Conversation, Message } from "@shared/schema";
+import type { Conversation, Message, User as TeamUser, OperatorPresence } from "@shared/schema";
 import { useState, useRef, useEffect } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtime, useTypingIndicators, useTypingNotifier, applyConversationEvent } from "@/hooks/use-realtime";
+import { useCurrentUser } from "@/hooks/use-current-user";
 
-function ConversationCard({ conversation, onClick }: { conversation: Conversation; onClick: () => void }) {
+type TeamMember = Omit<TeamUser, "password"> & { presence: OperatorPresence };
+
+const presenceColors: Record<OperatorPresence, string> = {
+  online: "bg-green-500",
+  away: "bg-yellow-500",
+  offline: "bg-muted-foreground",
+};
+
+const guardrailLabels: Record<string, string> = {
+  input_moderation: "Resposta padrão: mensagem do cliente sinalizada",
+  output_moderation: "Resposta da IA bloqueada pela moderação",
+  prompt_leak: "Resposta da IA bloqueada (vazamento de instruções)",
+  price_corrected: "Preço corrigido conforme o catálogo",
+};
+
+// Moderation outcome of a customer message or guardrail applied to an AI reply
+function guardrailNote(message: Message): string | null {
+  const metadata = message.metadata as {
+    moderation?: { flagged: boolean; categories: string[]; injection: string[] };
+    guardrails?: string[];
+  } | null;
+  if (metadata?.moderation?.flagged) {
+    return `Sinalizada pela moderação${metadata.moderation.categories.length > 0 ? `: ${metadata.moderation.categories.join(", ")}` : ""}`;
+  }
+  if (metadata?.moderation?.injection.length) {
+    return "Possível tentativa de manipular a IA";
+  }
+  const guardrail = metadata?.guardrails?.[0];
+  return guardrail ? guardrailLabels[guardrail] || guardrail : null;
+}
+
+function ConversationCard({ conversation, assignee, onClick }: { conversation: Conversation; assignee?: TeamMember; onClick: () => void }) {
   const { data: customer } = useQuery<any>({
     queryKey: ["/api/customers", conversation.customerId],
     enabled: !!conversation.customerId,
@@ -84,6 +120,11 @@ function ConversationCard({ conversation, onClick }: { conversation: Conversatio
             {conversation.customerPhone}
           </div>
         )}
+        {assignee && (
+          <div className="text-sm text-muted-foreground" data-testid={`text-assignee-${conversation.id}`}>
+            Responsável: {assignee.name}
+          </div>
+        )}
         <Badge variant={conversation.status === 'active' ? 'default' : 'secondary'}>
           {conversation.status === 'active' ? 'Ativo' : 'Encerrado'}
         </Badge>
@@ -96,19 +137,46 @@ export default function Conversations() {
   const { toast } = useToast();
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
   const [messageText, setMessageText] = useState("");
+  const [queue, setQueue] = useState<"all" | "mine">("all");
+  const [draftText, setDraftText] = useState("");
+  const [suggestions, setSuggestions] = useState<string[]>([]);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
 
   const { data: conversations = [], isLoading } = useQuery<Conversation[]>({
     queryKey: ["/api/conversations"],
-    refetchInterval: 5000, // Atualiza a cada 5 segundos
   });
 
+  const { user: currentUser } = useCurrentUser();
+
+  const { data: team = [] } = useQuery<TeamMember[]>({
+    queryKey: ["/api/company/users"],
+  });
+
+  const myConversations = conversations.filter((c) => c.assignedTo === currentUser?.id);
+  const visibleConversations = queue === "mine" ? myConversations : conversations;
+
   const { data: conversationDetail } = useQuery<Conversation & { messages: Message[] }>({
     queryKey: ["/api/conversations", selectedConversation?.id],
     enabled: !!selectedConversation,
-    refetchInterval: selectedConversation ? 2000 : false, // Atualiza a cada 2 segundos se houver conversa selecionada
   });
 
+  // Messages, takeovers and typing arrive over the event bus instead of polling
+  const { typing, handleEvent: handleTypingEvent } = useTypingIndicators();
+  const { sendTyping } = useRealtime({ scope: "company" }, (event) => {
+    applyConversationEvent(event);
+    handleTypingEvent(event);
+    if (event.type === "presence.updated") {
+      queryClient.invalidateQueries({ queryKey: ["/api/company/users"] });
+    }
+    if (event.type === "conversation.updated") {
+      setSelectedConversation((current) =>
+        current?.id === event.conversationId ? event.conversation : current
+      );
+    }
+  });
+  const { notifyTyping, stopTyping } = useTypingNotifier(sendTyping);
+  const selectedTyping = selectedConversation ? typing[selectedConversation.id] : undefined;
+
   const messages = conversationDetail?.messages || [];
 
   const { data: customer } = useQuery<any>({
@@ -126,6 +194,91 @@ export default function Conversations() {
     },
   });
 
+  const assignMutation = useMutation({
+    mutationFn: async ({ conversationId, userId }: { conversationId: string; userId: string | null }) => {
+      return apiRequest("POST", `/api/conversations/${conversationId}/assign`, { userId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      toast({ title: "Responsável atualizado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao atribuir", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async (conversationId: string) => {
+      return apiRequest("POST", `/api/conversations/${conversationId}/release`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      toast({ title: "Conversa devolvida para a IA" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao devolver conversa", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const modeMutation = useMutation({
+    mutationFn: async ({ conversationId, mode }: { conversationId: string; mode: "human" | "hybrid" }) => {
+      return apiRequest("PATCH", `/api/conversations/${conversationId}/mode`, { mode });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    },
+  });
+
+  const approveDraftMutation = useMutation({
+    mutationFn: async ({ conversationId, content }: { conversationId: string; content: string }) => {
+      return apiRequest("POST", `/api/conversations/${conversationId}/draft/approve`, { content });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", selectedConversation?.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao enviar rascunho", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const discardDraftMutation = useMutation({
+    mutationFn: async (conversationId: string) => {
+      return apiRequest("DELETE", `/api/conversations/${conversationId}/draft`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    },
+  });
+
+  const suggestMutation = useMutation({
+    mutationFn: async (conversationId: string) => {
+      const response = await apiRequest("POST", `/api/conversations/${conversationId}/suggest-replies`, {});
+      return response.json() as Promise<{ suggestions: string[] }>;
+    },
+    onSuccess: (data) => {
+      setSuggestions(data.suggestions);
+      if (data.suggestions.length === 0) {
+        toast({ title: "Nenhuma sugestão no momento" });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao gerar sugestões", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Suggestions belong to the conversation they were generated for
+  const selectedId = selectedConversation?.id;
+  useEffect(() => {
+    setSuggestions([]);
+  }, [selectedId]);
+
+  // Start each new AI draft from its text; the operator may edit before sending
+  const pendingDraft = selectedConversation?.draftReply || null;
+  useEffect(() => {
+    setDraftText(pendingDraft || "");
+  }, [pendingDraft]);
+
   const sendMessageMutation = useMutation({
     mutationFn: async ({ conversationId, message }: { conversationId: string; message: string }) => {
       return apiRequest("POST", `/api/conversations/${conversationId}/operator-message`, { content: message });
@@ -134,25 +287,21 @@ export default function Conversations() {
       queryClient.invalidateQueries({ queryKey: ["/api/conversations", selectedConversation?.id] });
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
       setMessageText("");
+      setSuggestions([]);
     },
   });
 
   const handleTakeover = async () => {
     if (selectedConversation) {
+      // The takeover also assigns the conversation to us and clears needsHumanAttention
       await takeoverMutation.mutateAsync(selectedConversation.id);
-      // Clear the needsHumanAttention flag after takeover
-      if (selectedConversation.needsHumanAttention) {
-        await apiRequest("PATCH", `/api/conversations/${selectedConversation.id}`, {
-          needsHumanAttention: false,
-        });
-        queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
-      }
     }
   };
 
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
     if (!messageText.trim() || !selectedConversation) return;
+    stopTyping();
 
     // Se ainda não assumiu, assume automaticamente
     if (selectedConversation.mode === 'ai') {
@@ -199,24 +348,48 @@ export default function Conversations() {
 
   return (
     <div className="p-8 space-y-8">
-      <div>
-        <h1 className="text-4xl font-bold">Conversas</h1>
-        <p className="text-muted-foreground mt-2">
-          Acompanhe e interaja com conversas dos clientes
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-4xl font-bold">Conversas</h1>
+          <p className="text-muted-foreground mt-2">
+            Acompanhe e interaja com conversas dos clientes
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant={queue === "all" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setQueue("all")}
+            data-testid="button-queue-all"
+          >
+            Todas
+          </Button>
+          <Button
+            variant={queue === "mine" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setQueue("mine")}
+            data-testid="button-queue-mine"
+          >
+            Minhas ({myConversations.length})
+          </Button>
+        </div>
       </div>
 
       {isLoading ? (
         <div className="text-center py-12 text-muted-foreground">Carregando conversas...</div>
-      ) : conversations.length === 0 ? (
+      ) : visibleConversations.length === 0 ? (
         <Card>
           <CardContent className="py-12">
             <div className="text-center space-y-4">
               <MessageSquare className="w-16 h-16 mx-auto text-muted-foreground" />
               <div className="space-y-2">
-                <h3 className="text-lg font-semibold">Nenhuma conversa ainda</h3>
+                <h3 className="text-lg font-semibold">
+                  {queue === "mine" ? "Nenhuma conversa atribuída a você" : "Nenhuma conversa ainda"}
+                </h3>
                 <p className="text-sm text-muted-foreground max-w-md mx-auto">
-                  Quando clientes iniciarem conversas pelo ChatWeb, elas aparecerão aqui
+                  {queue === "mine"
+                    ? "Assuma uma conversa ou peça para um colega atribuí-la a você"
+                    : "Quando clientes iniciarem conversas pelo ChatWeb, elas aparecerão aqui"}
                 </p>
               </div>
             </div>
@@ -224,10 +397,11 @@ export default function Conversations() {
         </Card>
       ) : (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {conversations.map((conversation) => (
+          {visibleConversations.map((conversation) => (
             <ConversationCard 
               key={conversation.id}
               conversation={conversation}
+              assignee={team.find((member) => member.id === conversation.assignedTo)}
               onClick={() => setSelectedConversation(conversation)}
             />
           ))}
@@ -252,6 +426,64 @@ export default function Conversations() {
             </DialogDescription>
           </DialogHeader>
 
+          {selectedConversation && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Responsável</span>
+              <Select
+                value={selectedConversation.assignedTo || "none"}
+                onValueChange={(value) =>
+                  assignMutation.mutate({
+                    conversationId: selectedConversation.id,
+                    userId: value === "none" ? null : value,
+                  })
+                }
+                disabled={assignMutation.isPending}
+              >
+                <SelectTrigger className="w-64" data-testid="select-assignee">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Ninguém</SelectItem>
+                  {team.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      <span className="flex items-center gap-2">
+                        <span className={`w-2 h-2 rounded-full ${presenceColors[member.presence] || presenceColors.offline}`} />
+                        {member.name}
+                        {member.id === currentUser?.id && " (você)"}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {selectedConversation && selectedConversation.mode !== 'ai' && (
+            <div className="flex items-center justify-between gap-4">
+              <label className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={selectedConversation.mode === 'hybrid'}
+                  onCheckedChange={(checked) =>
+                    modeMutation.mutate({ conversationId: selectedConversation.id, mode: checked ? "hybrid" : "human" })
+                  }
+                  disabled={modeMutation.isPending}
+                  data-testid="switch-hybrid-mode"
+                />
+                IA sugere respostas para eu aprovar
+              </label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => releaseMutation.mutate(selectedConversation.id)}
+                disabled={releaseMutation.isPending}
+                data-testid="button-release"
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                {releaseMutation.isPending ? "Devolvendo..." : "Devolver para IA"}
+              </Button>
+            </div>
+          )}
+
           {selectedConversation && selectedConversation.mode === 'ai' && (
             <div className="space-y-2">
               {selectedConversation.needsHumanAttention && (
@@ -311,6 +543,18 @@ export default function Conversations() {
                       >
                         <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
                       </div>
+                      {guardrailNote(message) && (
+                        <span className="text-xs text-destructive flex items-center gap-1" data-testid={`guardrail-${message.id}`}>
+                          <ShieldAlert className="w-3 h-3" />
+                          {guardrailNote(message)}
+                        </span>
+                      )}
+                      {isOperator && (message.metadata as { aiDraft?: boolean } | null)?.aiDraft && (
+                        <span className="text-xs text-muted-foreground flex items-center gap-1">
+                          <Sparkles className="w-3 h-3" />
+                          Sugerida pela IA
+                        </span>
+                      )}
                       <span className="text-xs text-muted-foreground">
                         {format(new Date(message.createdAt), "HH:mm", { locale: ptBR })}
                       </span>
@@ -326,14 +570,88 @@ export default function Conversations() {
                   </div>
                 );
               })}
+              {selectedTyping && (
+                <p className="text-xs text-muted-foreground italic" data-testid="text-typing">
+                  {selectedTyping.role === "user"
+                    ? "Cliente está digitando..."
+                    : selectedTyping.role === "assistant"
+                    ? "IA está respondendo..."
+                    : `${selectedTyping.name || "Atendente"} está digitando...`}
+                </p>
+              )}
             </div>
           </ScrollArea>
 
+          {selectedConversation && selectedConversation.mode === 'hybrid' && pendingDraft && (
+            <div className="border rounded-lg p-3 space-y-2" data-testid="panel-draft">
+              <p className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+                <Sparkles className="w-3 h-3" />
+                Sugestão da IA
+              </p>
+              <Textarea
+                value={draftText}
+                onChange={(e) => setDraftText(e.target.value)}
+                rows={3}
+                data-testid="input-draft"
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => discardDraftMutation.mutate(selectedConversation.id)}
+                  disabled={discardDraftMutation.isPending}
+                  data-testid="button-discard-draft"
+                >
+                  Descartar
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => approveDraftMutation.mutate({ conversationId: selectedConversation.id, content: draftText.trim() })}
+                  disabled={!draftText.trim() || approveDraftMutation.isPending}
+                  data-testid="button-approve-draft"
+                >
+                  <Send className="w-4 h-4 mr-2" />
+                  Enviar
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {selectedConversation && selectedConversation.status === 'active' && selectedConversation.mode !== 'ai' && (
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => suggestMutation.mutate(selectedConversation.id)}
+                disabled={suggestMutation.isPending}
+                data-testid="button-suggest-replies"
+              >
+                <Sparkles className="w-4 h-4 mr-2" />
+                {suggestMutation.isPending ? "Gerando..." : "Sugerir respostas"}
+              </Button>
+              {suggestions.map((suggestion, index) => (
+                <Button
+                  key={index}
+                  variant="secondary"
+                  size="sm"
+                  className="h-auto max-w-full whitespace-normal text-left"
+                  onClick={() => setMessageText(suggestion)}
+                  data-testid={`button-suggestion-${index}`}
+                >
+                  {suggestion}
+                </Button>
+              ))}
+            </div>
+          )}
+
           {selectedConversation && selectedConversation.status === 'active' && (
             <form onSubmit={handleSendMessage} className="flex gap-2">
               <Input
                 value={messageText}
-                onChange={(e) => setMessageText(e.target.value)}
+                onChange={(e) => {
+                  setMessageText(e.target.value);
+                  notifyTyping(selectedConversation.id);
+                }}
                 placeholder={
                   selectedConversation.mode === 'ai'
                     ? "Assuma a conversa para enviar mensagens..."
@@ -2,7 +2,6 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Package, ShoppingCart, MessageSquare, TrendingUp, Plus, Upload, ShoppingBag, ExternalLink, Copy, Check, Key, Webhook } from "lucide-react";
 import { Link } from "wouter";
@@ -41,15 +40,6 @@ export default function Dashboard() {
     },
   });
 
-  const toggleAuthMutation = useMutation({
-    mutationFn: async (enabled: boolean) => {
-      return apiRequest("PATCH", "/api/company/webhook-auth", { enabled });
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/company"] });
-    },
-  });
-
   const quickActions = [
     {
       id: "add-product",
@@ -203,14 +193,14 @@ export default function Dashboard() {
               <div className="flex gap-2">
                 <Input
                   readOnly
-                  value={`${window.location.origin}/api/chatweb/${company.id}/conversations`}
+                  value={`${window.location.origin}/api/webhook/${company.id}/message`}
                   className="font-mono text-sm"
                   data-testid="text-webhook-url"
                 />
                 <Button
                   variant="outline"
                   onClick={() => {
-                    navigator.clipboard.writeText(`${window.location.origin}/api/chatweb/${company.id}/conversations`);
+                    navigator.clipboard.writeText(`${window.location.origin}/api/webhook/${company.id}/message`);
                     setCopiedWebhookUrl(true);
                     setTimeout(() => setCopiedWebhookUrl(false), 2000);
                   }}
@@ -225,67 +215,50 @@ export default function Dashboard() {
               </div>
             </div>
 
-            <div className="flex items-center space-x-2">
-              <Checkbox
-                id="webhook-auth"
-                checked={company.webhookAuthEnabled || false}
-                onCheckedChange={(checked) => toggleAuthMutation.mutate(!!checked)}
-                data-testid="checkbox-webhook-auth"
-              />
-              <Label
-                htmlFor="webhook-auth"
-                className="text-sm font-normal cursor-pointer"
-              >
-                Habilitar autenticação por Bearer Token (segurança adicional)
-              </Label>
-            </div>
-
-            {company.webhookAuthEnabled && (
-              <div className="space-y-2 pt-2 border-t">
-                <div className="flex items-center justify-between">
-                  <Label>Token de Segurança</Label>
+            <div className="space-y-2 pt-2 border-t">
+              <div className="flex items-center justify-between">
+                <Label>Token de Segurança</Label>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => generateTokenMutation.mutate()}
+                  disabled={generateTokenMutation.isPending}
+                  data-testid="button-generate-token"
+                >
+                  <Key className="w-4 h-4 mr-2" />
+                  {company.webhookToken ? "Regenerar" : "Gerar"} Token
+                </Button>
+              </div>
+              {company.webhookToken && (
+                <div className="flex gap-2">
+                  <Input
+                    readOnly
+                    type="password"
+                    value={company.webhookToken}
+                    className="font-mono text-sm"
+                    data-testid="text-webhook-token"
+                  />
                   <Button
-                    size="sm"
                     variant="outline"
-                    onClick={() => generateTokenMutation.mutate()}
-                    disabled={generateTokenMutation.isPending}
-                    data-testid="button-generate-token"
+                    onClick={() => {
+                      navigator.clipboard.writeText(company.webhookToken);
+                      setCopiedToken(true);
+                      setTimeout(() => setCopiedToken(false), 2000);
+                    }}
+                    data-testid="button-copy-token"
                   >
-                    <Key className="w-4 h-4 mr-2" />
-                    {company.webhookToken ? "Regenerar" : "Gerar"} Token
+                    {copiedToken ? (
+                      <><Check className="w-4 h-4 mr-2" /> Copiado</>
+                    ) : (
+                      <><Copy className="w-4 h-4 mr-2" /> Copiar</>
+                    )}
                   </Button>
                 </div>
-                {company.webhookToken && (
-                  <div className="flex gap-2">
-                    <Input
-                      readOnly
-                      type="password"
-                      value={company.webhookToken}
-                      className="font-mono text-sm"
-                      data-testid="text-webhook-token"
-                    />
-                    <Button
-                      variant="outline"
-                      onClick={() => {
-                        navigator.clipboard.writeText(company.webhookToken);
-                        setCopiedToken(true);
-                        setTimeout(() => setCopiedToken(false), 2000);
-                      }}
-                      data-testid="button-copy-token"
-                    >
-                      {copiedToken ? (
-                        <><Check className="w-4 h-4 mr-2" /> Copiado</>
-                      ) : (
-                        <><Copy className="w-4 h-4 mr-2" /> Copiar</>
-                      )}
-                    </Button>
-                  </div>
-                )}
-                <p className="text-xs text-muted-foreground">
-                  Use este token no header: <code className="bg-muted px-1 py-0.5 rounded">Authorization: Bearer TOKEN</code>
-                </p>
-              </div>
-            )}
+              )}
+              <p className="text-xs text-muted-foreground">
+                Obrigatório em toda mensagem recebida. Use este token no header: <code className="bg-muted px-1 py-0.5 rounded">Authorization: Bearer TOKEN</code>
+              </p>
+            </div>
           </CardContent>
         </Card>
       )}
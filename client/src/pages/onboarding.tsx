@@ -202,7 +202,6 @@ export default function Onboarding() {
         name: data.companyName,
         segment: data.segment,
         cpfCnpj: data.cpfCnpj,
-        status: "active",
       },
       user: {
         name: data.userName,
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -10,11 +10,11 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { ShoppingCart, Package, Truck, CheckCircle, XCircle, Plus } from "lucide-react";
+import { ShoppingCart, Package, Truck, CheckCircle, XCircle, Plus, RotateCcw, History, QrCode } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import type { Order } from "@shared/schema";
+import { orderStatusTransitions, type Order, type OrderStatus, type OrderStatusHistory, type Payment, type PaymentTransaction } from "@shared/schema";
 
 const statusConfig = {
   pending: { label: "Pendente", icon: ShoppingCart, variant: "secondary" as const },
@@ -23,11 +23,148 @@ const statusConfig = {
   shipped: { label: "Enviado", icon: Truck, variant: "default" as const },
   delivered: { label: "Entregue", icon: CheckCircle, variant: "default" as const },
   cancelled: { label: "Cancelado", icon: XCircle, variant: "destructive" as const },
+  refunded: { label: "Reembolsado", icon: RotateCcw, variant: "outline" as const },
 };
 
+const paymentStatusConfig = {
+  awaiting_payment: { label: "Aguardando pagamento", variant: "secondary" as const },
+  paid: { label: "Pago", variant: "default" as const },
+  expired: { label: "Pagamento expirado", variant: "destructive" as const },
+  failed: { label: "Pagamento recusado", variant: "destructive" as const },
+  cancelled: { label: "Cobrança cancelada", variant: "outline" as const },
+  refunded: { label: "Estornado", variant: "outline" as const },
+};
+
+const transactionLabels: Record<string, string> = {
+  charge: "Cobrança",
+  capture: "Pagamento confirmado",
+  refund: "Estorno",
+  void: "Cobrança cancelada",
+  expiration: "Cobrança expirada",
+};
+
+const methodLabels: Record<string, string> = {
+  pix: "PIX",
+  boleto: "Boleto",
+  card: "Cartão",
+  cash: "Dinheiro",
+};
+
+function PaymentTransactions({ orderId }: { orderId: string }) {
+  const { data: transactions = [] } = useQuery<PaymentTransaction[]>({
+    queryKey: ["/api/orders", orderId, "transactions"],
+  });
+
+  if (transactions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-semibold text-sm">Transações</h4>
+      <div className="space-y-1">
+        {transactions.map((transaction) => (
+          <div key={transaction.id} className="flex justify-between items-center text-sm" data-testid={`transaction-${transaction.id}`}>
+            <div>
+              <span className="font-medium">{transactionLabels[transaction.type] || transaction.type}</span>
+              {transaction.status === "failed" && (
+                <Badge variant="destructive" className="ml-2">Falhou</Badge>
+              )}
+              {transaction.errorMessage && (
+                <span className="text-xs text-muted-foreground ml-2">{transaction.errorMessage}</span>
+              )}
+            </div>
+            <div className="text-muted-foreground">
+              R$ {(transaction.amount / 100).toFixed(2)} · {format(new Date(transaction.createdAt), "dd/MM HH:mm", { locale: ptBR })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Sandbox only: confirms the pending PIX charge through the gateway webhook
+function SimulatePaymentButton({ orderId }: { orderId: string }) {
+  const { toast } = useToast();
+  const { data: payments = [] } = useQuery<Payment[]>({
+    queryKey: ["/api/orders", orderId, "payments"],
+  });
+  const pending = payments.find((p) => p.status === "awaiting_payment" && p.gateway === "simulator");
+
+  const simulateMutation = useMutation({
+    mutationFn: async (paymentId: string) => {
+      const response = await apiRequest("POST", `/api/payments/${paymentId}/simulate`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({ title: "Pagamento confirmado!" });
+    },
+    onError: () => {
+      toast({ variant: "destructive", title: "Erro ao simular pagamento" });
+    },
+  });
+
+  if (!pending) return null;
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => simulateMutation.mutate(pending.id)}
+      disabled={simulateMutation.isPending}
+      data-testid={`button-simulate-payment-${orderId}`}
+    >
+      <QrCode className="w-4 h-4 mr-2" />
+      {simulateMutation.isPending ? "Confirmando..." : "Simular pagamento"}
+    </Button>
+  );
+}
+
+function OrderTimeline({ orderId }: { orderId: string }) {
+  const { data: history = [], isLoading } = useQuery<OrderStatusHistory[]>({
+    queryKey: ["/api/orders", orderId, "history"],
+  });
+
+  if (isLoading) {
+    return <div className="text-sm text-muted-foreground">Carregando histórico...</div>;
+  }
+
+  if (history.length === 0) {
+    return <div className="text-sm text-muted-foreground">Nenhuma alteração registrada</div>;
+  }
+
+  return (
+    <ol className="relative border-l ml-2 space-y-4" data-testid={`timeline-${orderId}`}>
+      {history.map((entry) => {
+        const config = statusConfig[entry.toStatus as keyof typeof statusConfig] || statusConfig.pending;
+        const Icon = config.icon;
+        return (
+          <li key={entry.id} className="ml-4">
+            <span className="absolute -left-2 flex h-4 w-4 items-center justify-center rounded-full bg-background border">
+              <Icon className="w-2.5 h-2.5" />
+            </span>
+            <div className="text-sm font-medium">
+              {entry.fromStatus
+                ? `${statusConfig[entry.fromStatus as keyof typeof statusConfig]?.label || entry.fromStatus} → ${config.label}`
+                : config.label}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {entry.changedByName} · {format(new Date(entry.createdAt), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+            </div>
+            {entry.note && <div className="text-xs text-muted-foreground mt-0.5">{entry.note}</div>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
 export default function Orders() {
   const { toast } = useToast();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [historyOrderId, setHistoryOrderId] = useState<string | null>(null);
   const [newOrder, setNewOrder] = useState({
     customerName: "",
     customerEmail: "",
@@ -56,15 +193,18 @@ export default function Orders() {
         },
         body: JSON.stringify({ status }),
       });
-      if (!response.ok) throw new Error("Erro ao atualizar status");
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Erro ao atualizar status");
+      }
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       toast({ title: "Status atualizado com sucesso!" });
     },
-    onError: () => {
-      toast({ variant: "destructive", title: "Erro ao atualizar status" });
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Erro ao atualizar status", description: error.message });
     },
   });
 
@@ -267,6 +407,10 @@ export default function Orders() {
             const config = statusConfig[order.status as keyof typeof statusConfig] || statusConfig.pending;
             const Icon = config.icon;
             const items = Array.isArray(order.items) ? order.items : [];
+            const nextStatuses = orderStatusTransitions[order.status as OrderStatus] || [];
+            const paymentConfig = order.paymentStatus
+              ? paymentStatusConfig[order.paymentStatus as keyof typeof paymentStatusConfig]
+              : null;
 
             return (
               <Card key={order.id}>
@@ -294,10 +438,15 @@ export default function Orders() {
                         R$ {(order.total / 100).toFixed(2)}
                       </div>
                       {order.paymentMethod && (
-                        <div className="text-sm text-muted-foreground capitalize">
-                          {order.paymentMethod}
+                        <div className="text-sm text-muted-foreground">
+                          {methodLabels[order.paymentMethod] || order.paymentMethod}
                         </div>
                       )}
+                      {paymentConfig && (
+                        <Badge variant={paymentConfig.variant} className="mt-1" data-testid={`badge-payment-${order.id}`}>
+                          {paymentConfig.label}
+                        </Badge>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -337,31 +486,79 @@ export default function Orders() {
                           </div>
                         </div>
                       ))}
+                      {order.discounts.map((discount) => (
+                        <div
+                          key={discount.promotionId}
+                          className="flex justify-between items-center text-sm p-3 rounded-lg bg-muted text-green-600"
+                          data-testid={`text-order-discount-${order.id}-${discount.promotionId}`}
+                        >
+                          <div>{discount.code ? `Cupom ${discount.code}` : discount.name}</div>
+                          <div className="font-semibold">- R$ {(discount.amount / 100).toFixed(2)}</div>
+                        </div>
+                      ))}
+                      {order.shippingMethod && (
+                        <div
+                          className="flex justify-between items-center text-sm p-3 rounded-lg bg-muted"
+                          data-testid={`text-order-shipping-${order.id}`}
+                        >
+                          <div>
+                            Frete: {order.shippingMethod.name}
+                            {order.shippingMethod.distanceKm !== undefined && (
+                              <span className="text-muted-foreground"> ({order.shippingMethod.distanceKm} km)</span>
+                            )}
+                          </div>
+                          <div className="font-semibold">
+                            {order.shipping === 0 ? "Grátis" : `R$ ${(order.shipping / 100).toFixed(2)}`}
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </div>
 
                   <div className="flex items-center justify-between pt-4 border-t">
-                    <div className="text-sm text-muted-foreground">
-                      Atualizar status do pedido:
-                    </div>
-                    <Select
-                      value={order.status}
-                      onValueChange={(status) => updateStatusMutation.mutate({ id: order.id, status })}
-                      disabled={updateStatusMutation.isPending}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setHistoryOrderId(historyOrderId === order.id ? null : order.id)}
+                      data-testid={`button-history-${order.id}`}
                     >
-                      <SelectTrigger className="w-48" data-testid={`select-status-${order.id}`}>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="pending">Pendente</SelectItem>
-                        <SelectItem value="confirmed">Confirmado</SelectItem>
-                        <SelectItem value="preparing">Preparando</SelectItem>
-                        <SelectItem value="shipped">Enviado</SelectItem>
-                        <SelectItem value="delivered">Entregue</SelectItem>
-                        <SelectItem value="cancelled">Cancelado</SelectItem>
-                      </SelectContent>
-                    </Select>
+                      <History className="w-4 h-4 mr-2" />
+                      {historyOrderId === order.id ? "Ocultar histórico" : "Ver histórico"}
+                    </Button>
+                    <div className="flex items-center gap-3">
+                      {order.paymentStatus === "awaiting_payment" && (
+                        <SimulatePaymentButton orderId={order.id} />
+                      )}
+                      <div className="text-sm text-muted-foreground">
+                        Atualizar status do pedido:
+                      </div>
+                      <Select
+                        value={order.status}
+                        onValueChange={(status) => updateStatusMutation.mutate({ id: order.id, status })}
+                        disabled={updateStatusMutation.isPending || nextStatuses.length === 0}
+                      >
+                        <SelectTrigger className="w-48" data-testid={`select-status-${order.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {/* Current status plus the transitions allowed from it */}
+                          {[order.status as OrderStatus, ...nextStatuses].map((status) => (
+                            <SelectItem key={status} value={status} disabled={status === order.status}>
+                              {statusConfig[status]?.label || status}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
+
+                  {historyOrderId === order.id && (
+                    <div className="space-y-3">
+                      <h4 className="font-semibold text-sm">Histórico do Pedido</h4>
+                      <OrderTimeline orderId={order.id} />
+                      <PaymentTransactions orderId={order.id} />
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             );
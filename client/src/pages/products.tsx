@@ -12,10 +12,12 @@ import { Textarea } from "@/components/ui/textarea";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Plus, Edit, Trash2, Sparkles, Package, ImageIcon, X, FileUp, FileCheck2 } from "lucide-react";
+import { Plus, Edit, Trash2, Sparkles, Package, ImageIcon, X, FileUp, FileCheck2, History } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
 import { useLocation } from "wouter";
-import type { Product } from "@shared/schema";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Product, StockMovement } from "@shared/schema";
 
 const productSchema = z.object({
   name: z.string().min(3, "Nome deve ter no mínimo 3 caracteres"),
@@ -28,8 +30,15 @@ const productSchema = z.object({
 
 type ProductForm = z.infer<typeof productSchema>;
 
+const stockMovementLabels: Record<string, string> = {
+  reservation: "Pedido",
+  release: "Cancelamento",
+  adjustment: "Ajuste",
+};
+
 export default function Products() {
   const { toast } = useToast();
+  const { can } = useCurrentUser();
   const [, setLocation] = useLocation();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isBulkImportOpen, setIsBulkImportOpen] = useState(false);
@@ -40,6 +49,7 @@ export default function Products() {
   const [imageFiles, setImageFiles] = useState<File[]>([]);
   const [imagePreviews, setImagePreviews] = useState<string[]>([]);
   const [uploadingImages, setUploadingImages] = useState(false);
+  const [stockHistoryProduct, setStockHistoryProduct] = useState<Product | null>(null);
 
   const { data: drafts = [] } = useQuery<Product[]>({
     queryKey: ["/api/products/drafts"],
@@ -49,6 +59,11 @@ export default function Products() {
     queryKey: ["/api/products"],
   });
 
+  const { data: stockMovements = [], isLoading: isLoadingMovements } = useQuery<StockMovement[]>({
+    queryKey: ["/api/products", stockHistoryProduct?.id, "stock-movements"],
+    enabled: !!stockHistoryProduct,
+  });
+
   const form = useForm<ProductForm>({
     resolver: zodResolver(productSchema),
     defaultValues: {
@@ -455,19 +470,31 @@ export default function Products() {
                     <Button
                       size="icon"
                       variant="ghost"
-                      onClick={() => openEditDialog(product)}
-                      data-testid={`button-edit-${product.id}`}
+                      onClick={() => setStockHistoryProduct(product)}
+                      data-testid={`button-stock-history-${product.id}`}
                     >
-                      <Edit className="w-4 h-4" />
-                    </Button>
-                    <Button
-                      size="icon"
-                      variant="ghost"
-                      onClick={() => deleteMutation.mutate(product.id)}
-                      data-testid={`button-delete-${product.id}`}
-                    >
-                      <Trash2 className="w-4 h-4" />
+                      <History className="w-4 h-4" />
                     </Button>
+                    {can("products:manage") && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => openEditDialog(product)}
+                        data-testid={`button-edit-${product.id}`}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {can("products:delete") && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(product.id)}
+                        data-testid={`button-delete-${product.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -659,6 +686,53 @@ export default function Products() {
           </Form>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!stockHistoryProduct} onOpenChange={(open) => !open && setStockHistoryProduct(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Movimentações de Estoque</DialogTitle>
+            <DialogDescription>
+              {stockHistoryProduct?.name} · Estoque atual: {stockHistoryProduct?.stock}
+            </DialogDescription>
+          </DialogHeader>
+          {isLoadingMovements ? (
+            <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+          ) : stockMovements.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Nenhuma movimentação registrada</div>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead className="text-right">Quantidade</TableHead>
+                    <TableHead className="text-right">Saldo</TableHead>
+                    <TableHead>Motivo</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stockMovements.map((movement) => (
+                    <TableRow key={movement.id} data-testid={`row-stock-movement-${movement.id}`}>
+                      <TableCell className="text-sm">
+                        {new Date(movement.createdAt).toLocaleString("pt-BR")}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{stockMovementLabels[movement.type] || movement.type}</Badge>
+                      </TableCell>
+                      <TableCell className={`text-right font-medium ${movement.quantity < 0 ? "text-destructive" : "text-green-600"}`}>
+                        {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                      </TableCell>
+                      <TableCell className="text-right">{movement.stockAfter}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{movement.reason}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
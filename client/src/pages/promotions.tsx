@@ -0,0 +1,410 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tag, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { Promotion, PromotionType, Product } from "@shared/schema";
+
+const typeLabels: Record<PromotionType, string> = {
+  percentage: "Percentual",
+  fixed: "Valor fixo",
+  buy_x_get_y: "Leve X, ganhe Y",
+};
+
+const ALL = "all";
+
+const emptyForm = {
+  name: "",
+  code: "",
+  type: "percentage" as PromotionType,
+  value: "",
+  buyQuantity: "",
+  getQuantity: "",
+  category: ALL,
+  productId: ALL,
+  minSubtotal: "",
+  startsAt: "",
+  endsAt: "",
+  maxUses: "",
+  maxUsesPerCustomer: "",
+};
+
+// Form strings to API values: reais to cents, empty to null
+const toCents = (value: string) => (value ? Math.round(Number(value) * 100) : null);
+const toInt = (value: string) => (value ? Number(value) : null);
+
+function describeDiscount(promotion: Promotion): string {
+  if (promotion.type === "percentage") return `${promotion.value}% off`;
+  if (promotion.type === "fixed") return `R$ ${(promotion.value / 100).toFixed(2)} off`;
+  return `Leve ${(promotion.buyQuantity || 0) + (promotion.getQuantity || 0)}, pague ${promotion.buyQuantity}`;
+}
+
+export default function Promotions() {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: promotions = [], isLoading } = useQuery<Promotion[]>({
+    queryKey: ["/api/promotions"],
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const categories = Array.from(new Set(products.map((p) => p.category).filter((c): c is string => !!c)));
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/promotions", {
+        name: form.name,
+        code: form.code || null,
+        type: form.type,
+        value: form.type === "percentage" ? Number(form.value) : form.type === "fixed" ? toCents(form.value) : 0,
+        buyQuantity: form.type === "buy_x_get_y" ? toInt(form.buyQuantity) : null,
+        getQuantity: form.type === "buy_x_get_y" ? toInt(form.getQuantity) : null,
+        category: form.category === ALL ? null : form.category,
+        productId: form.productId === ALL ? null : form.productId,
+        minSubtotal: toCents(form.minSubtotal),
+        startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+        endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : null,
+        maxUses: toInt(form.maxUses),
+        maxUsesPerCustomer: toInt(form.maxUsesPerCustomer),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      setForm(emptyForm);
+      toast({ title: "Promoção criada com sucesso!" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Erro ao criar promoção", description: error.message.replace(/^\d+: /, "") });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return apiRequest("PATCH", `/api/promotions/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/promotions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      toast({ title: "Promoção removida" });
+    },
+  });
+
+  const canCreate = !!form.name && (form.type === "buy_x_get_y" ? !!form.buyQuantity && !!form.getQuantity : !!form.value);
+
+  return (
+    <div className="p-8 space-y-8">
+      <div>
+        <h1 className="text-4xl font-bold">Promoções</h1>
+        <p className="text-muted-foreground mt-2">
+          Cupons de desconto e promoções automáticas, aplicados no chat e no checkout
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="w-5 h-5" />
+            Nova Promoção
+          </CardTitle>
+          <CardDescription>
+            Com código, o cliente informa o cupom no chat ou no checkout. Sem código, o desconto é aplicado automaticamente a todo carrinho elegível
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="promotion-name">Nome</Label>
+              <Input
+                id="promotion-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Semana do café"
+                data-testid="input-promotion-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promotion-code">Código do cupom (opcional)</Label>
+              <Input
+                id="promotion-code"
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                placeholder="BEMVINDO10"
+                className="font-mono"
+                data-testid="input-promotion-code"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={form.type} onValueChange={(type) => setForm({ ...form, type: type as PromotionType })}>
+                <SelectTrigger data-testid="select-promotion-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(typeLabels).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            {form.type === "buy_x_get_y" ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="promotion-buy">Leve (pagas)</Label>
+                  <Input
+                    id="promotion-buy"
+                    type="number"
+                    min="1"
+                    value={form.buyQuantity}
+                    onChange={(e) => setForm({ ...form, buyQuantity: e.target.value })}
+                    data-testid="input-promotion-buy"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promotion-get">Ganhe (grátis)</Label>
+                  <Input
+                    id="promotion-get"
+                    type="number"
+                    min="1"
+                    value={form.getQuantity}
+                    onChange={(e) => setForm({ ...form, getQuantity: e.target.value })}
+                    data-testid="input-promotion-get"
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="promotion-value">{form.type === "percentage" ? "Desconto (%)" : "Desconto (R$)"}</Label>
+                <Input
+                  id="promotion-value"
+                  type="number"
+                  min="0"
+                  step={form.type === "percentage" ? "1" : "0.01"}
+                  value={form.value}
+                  onChange={(e) => setForm({ ...form, value: e.target.value })}
+                  data-testid="input-promotion-value"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="promotion-min">Pedido mínimo (R$)</Label>
+              <Input
+                id="promotion-min"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.minSubtotal}
+                onChange={(e) => setForm({ ...form, minSubtotal: e.target.value })}
+                placeholder="Sem mínimo"
+                data-testid="input-promotion-min"
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Categoria</Label>
+              <Select
+                value={form.category}
+                onValueChange={(category) => setForm({ ...form, category, productId: ALL })}
+              >
+                <SelectTrigger data-testid="select-promotion-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todo o catálogo</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Produto</Label>
+              <Select
+                value={form.productId}
+                onValueChange={(productId) => setForm({ ...form, productId, category: ALL })}
+              >
+                <SelectTrigger data-testid="select-promotion-product">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Qualquer produto</SelectItem>
+                  {products.map((product) => (
+                    <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="promotion-starts">Início</Label>
+              <Input
+                id="promotion-starts"
+                type="datetime-local"
+                value={form.startsAt}
+                onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                data-testid="input-promotion-starts"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promotion-ends">Fim</Label>
+              <Input
+                id="promotion-ends"
+                type="datetime-local"
+                value={form.endsAt}
+                onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                data-testid="input-promotion-ends"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promotion-max-uses">Limite de usos</Label>
+              <Input
+                id="promotion-max-uses"
+                type="number"
+                min="1"
+                value={form.maxUses}
+                onChange={(e) => setForm({ ...form, maxUses: e.target.value })}
+                placeholder="Ilimitado"
+                data-testid="input-promotion-max-uses"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promotion-max-customer">Usos por cliente</Label>
+              <Input
+                id="promotion-max-customer"
+                type="number"
+                min="1"
+                value={form.maxUsesPerCustomer}
+                onChange={(e) => setForm({ ...form, maxUsesPerCustomer: e.target.value })}
+                placeholder="Ilimitado"
+                data-testid="input-promotion-max-customer"
+              />
+            </div>
+          </div>
+
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!canCreate || createMutation.isPending}
+            data-testid="button-create-promotion"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Criar Promoção
+          </Button>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="text-center py-12 text-muted-foreground">Carregando promoções...</div>
+      ) : promotions.length === 0 ? (
+        <Card>
+          <CardContent className="py-12">
+            <div className="text-center space-y-4">
+              <Tag className="w-16 h-16 mx-auto text-muted-foreground" />
+              <div className="space-y-2">
+                <h3 className="text-lg font-semibold">Nenhuma promoção cadastrada</h3>
+                <p className="text-sm text-muted-foreground max-w-md mx-auto">
+                  Crie cupons para campanhas ou promoções automáticas por categoria
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Promoção</TableHead>
+                  <TableHead>Cupom</TableHead>
+                  <TableHead>Desconto</TableHead>
+                  <TableHead>Validade</TableHead>
+                  <TableHead className="text-right">Usos</TableHead>
+                  <TableHead>Ativa</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promotions.map((promotion) => {
+                  const product = products.find((p) => p.id === promotion.productId);
+                  return (
+                    <TableRow key={promotion.id} data-testid={`row-promotion-${promotion.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{promotion.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {product?.name || promotion.category || "Todo o catálogo"}
+                          {promotion.minSubtotal ? ` · mínimo R$ ${(promotion.minSubtotal / 100).toFixed(2)}` : ""}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {promotion.code ? (
+                          <Badge variant="outline" className="font-mono">{promotion.code}</Badge>
+                        ) : (
+                          <Badge variant="secondary">Automática</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{describeDiscount(promotion)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {promotion.startsAt || promotion.endsAt
+                          ? `${promotion.startsAt ? format(new Date(promotion.startsAt), "dd/MM/yyyy", { locale: ptBR }) : "…"} até ${promotion.endsAt ? format(new Date(promotion.endsAt), "dd/MM/yyyy", { locale: ptBR }) : "…"}`
+                          : "Sempre"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {promotion.usageCount}{promotion.maxUses ? ` / ${promotion.maxUses}` : ""}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={promotion.isActive}
+                          onCheckedChange={(isActive) => toggleMutation.mutate({ id: promotion.id, isActive })}
+                          data-testid={`switch-promotion-active-${promotion.id}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => deleteMutation.mutate(promotion.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-promotion-${promotion.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
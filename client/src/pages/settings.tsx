@@ -2,13 +2,67 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Building2, Upload, Save } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Building2, Upload, Save, QrCode, Cpu, CreditCard } from "lucide-react";
 import { useState, useRef, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
+interface AIProviderOption {
+  name: string;
+  label: string;
+  available: boolean;
+  isDefault: boolean;
+  chatModels: string[];
+  defaultModel: string;
+}
+
+type PlanResource = "products" | "users" | "conversations" | "aiMessages";
+
+interface BillingSummary {
+  plan: string;
+  label: string;
+  price: number;
+  status: string;
+  trialEndsAt: string | null;
+  limits: Record<PlanResource, number | null>;
+  usage: Record<PlanResource, number>;
+}
+
+interface Invoice {
+  id: string;
+  plan: string;
+  periodStart: string;
+  amount: number;
+  status: "open" | "paid" | "void";
+  dueAt: string;
+}
+
+const planResourceLabels: Record<PlanResource, string> = {
+  products: "Produtos",
+  users: "Usuários",
+  conversations: "Conversas no mês",
+  aiMessages: "Mensagens de IA no mês",
+};
+
+const invoiceStatusLabels: Record<Invoice["status"], string> = {
+  open: "Em aberto",
+  paid: "Paga",
+  void: "Cancelada",
+};
+
+interface AIUsage {
+  plan: string;
+  used: number;
+  limit: number | null;
+  status: "ok" | "warning" | "exceeded";
+}
+
 export default function Settings() {
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -27,6 +81,35 @@ export default function Settings() {
     address: "",
   });
 
+  const [pixData, setPixData] = useState({
+    pixKey: "",
+    pixMerchantCity: "",
+  });
+
+  // "default" = use the server default provider / the provider's default model
+  const [aiData, setAiData] = useState({
+    aiProvider: "default",
+    aiModel: "default",
+    aiHourlySpendLimit: "", // US$ per hour, empty = platform default
+    redactPiiInLogs: true,
+  });
+
+  const { data: aiProviders = [] } = useQuery<AIProviderOption[]>({
+    queryKey: ["/api/ai/providers"],
+  });
+
+  const { data: aiUsage } = useQuery<AIUsage>({
+    queryKey: ["/api/ai/usage"],
+  });
+
+  const { data: billing } = useQuery<BillingSummary>({
+    queryKey: ["/api/billing"],
+  });
+
+  const { data: invoices = [] } = useQuery<Invoice[]>({
+    queryKey: ["/api/billing/invoices"],
+  });
+
   // Update form when company data loads
   useEffect(() => {
     if (company) {
@@ -38,6 +121,16 @@ export default function Settings() {
         email: company.email || "",
         address: company.address || "",
       });
+      setPixData({
+        pixKey: company.pixKey || "",
+        pixMerchantCity: company.pixMerchantCity || "",
+      });
+      setAiData({
+        aiProvider: company.aiProvider || "default",
+        aiModel: company.aiModel || "default",
+        aiHourlySpendLimit: company.aiHourlySpendLimit ? (company.aiHourlySpendLimit / 100).toFixed(2) : "",
+        redactPiiInLogs: company.redactPiiInLogs,
+      });
     }
   }, [company]);
 
@@ -102,6 +195,30 @@ export default function Settings() {
     updateCompanyMutation.mutate(formData);
   };
 
+  const handlePixSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateCompanyMutation.mutate({
+      pixKey: pixData.pixKey.trim() || null,
+      pixMerchantCity: pixData.pixMerchantCity.trim() || null,
+    });
+  };
+
+  const handleAiSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateCompanyMutation.mutate({
+      aiProvider: aiData.aiProvider === "default" ? null : aiData.aiProvider,
+      aiModel: aiData.aiModel === "default" ? null : aiData.aiModel,
+      aiHourlySpendLimit: Number(aiData.aiHourlySpendLimit) > 0
+        ? Math.round(Number(aiData.aiHourlySpendLimit) * 100)
+        : null,
+      redactPiiInLogs: aiData.redactPiiInLogs,
+    });
+  };
+
+  const selectedProvider = aiData.aiProvider === "default"
+    ? aiProviders.find((p) => p.isDefault)
+    : aiProviders.find((p) => p.name === aiData.aiProvider);
+
   if (isLoading) {
     return (
       <div className="p-8">
@@ -276,6 +393,243 @@ export default function Settings() {
             </form>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <QrCode className="w-5 h-5" />
+              Pagamento via PIX
+            </CardTitle>
+            <CardDescription>
+              Chave usada para gerar o PIX copia e cola dos pedidos. Sem chave cadastrada, usamos o CPF/CNPJ da empresa.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handlePixSubmit} className="space-y-6">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="pixKey">Chave PIX</Label>
+                  <Input
+                    id="pixKey"
+                    value={pixData.pixKey}
+                    onChange={(e) => setPixData({ ...pixData, pixKey: e.target.value })}
+                    placeholder="CPF/CNPJ, email, telefone ou chave aleatória"
+                    data-testid="input-pix-key"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="pixMerchantCity">Cidade do recebedor</Label>
+                  <Input
+                    id="pixMerchantCity"
+                    value={pixData.pixMerchantCity}
+                    onChange={(e) => setPixData({ ...pixData, pixMerchantCity: e.target.value })}
+                    placeholder="São Paulo"
+                    data-testid="input-pix-city"
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <Button
+                  type="submit"
+                  disabled={updateCompanyMutation.isPending}
+                  data-testid="button-save-pix"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  {updateCompanyMutation.isPending ? "Salvando..." : "Salvar PIX"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Cpu className="w-5 h-5" />
+              Modelo de IA
+            </CardTitle>
+            <CardDescription>
+              Provedor e modelo usados pelo agente nas conversas. Se o provedor falhar, o sistema tenta o provedor reserva configurado no servidor.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {aiUsage && (
+              <div className="mb-6 space-y-2" data-testid="ai-usage">
+                <div className="flex justify-between text-sm">
+                  <span>Uso de IA neste mês (plano {aiUsage.plan})</span>
+                  <span className="text-muted-foreground">
+                    {aiUsage.used.toLocaleString("pt-BR")} / {aiUsage.limit === null ? "ilimitado" : aiUsage.limit.toLocaleString("pt-BR")} tokens
+                  </span>
+                </div>
+                {aiUsage.limit !== null && (
+                  <Progress value={Math.min(100, (aiUsage.used / aiUsage.limit) * 100)} className="h-2" />
+                )}
+                {aiUsage.status === "warning" && (
+                  <p className="text-sm text-muted-foreground">Você já usou mais de 80% da cota mensal de IA.</p>
+                )}
+                {aiUsage.status === "exceeded" && (
+                  <p className="text-sm text-destructive">
+                    Cota mensal de IA atingida. Novas conversas são encaminhadas para a equipe até o próximo mês.
+                  </p>
+                )}
+              </div>
+            )}
+            <form onSubmit={handleAiSubmit} className="space-y-6">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Provedor</Label>
+                  <Select
+                    value={aiData.aiProvider}
+                    onValueChange={(value) => setAiData({ ...aiData, aiProvider: value, aiModel: "default" })}
+                  >
+                    <SelectTrigger data-testid="select-ai-provider">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Padrão do sistema</SelectItem>
+                      {aiProviders.map((provider) => (
+                        <SelectItem key={provider.name} value={provider.name} disabled={!provider.available}>
+                          {provider.label}{!provider.available && " (não configurado)"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Modelo do agente</Label>
+                  <Select
+                    value={aiData.aiModel}
+                    onValueChange={(value) => setAiData({ ...aiData, aiModel: value })}
+                  >
+                    <SelectTrigger data-testid="select-ai-model">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">
+                        Padrão{selectedProvider && ` (${selectedProvider.defaultModel})`}
+                      </SelectItem>
+                      {selectedProvider?.chatModels.map((model) => (
+                        <SelectItem key={model} value={model}>{model}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="aiHourlySpendLimit">Limite de gasto com IA por hora (US$)</Label>
+                <Input
+                  id="aiHourlySpendLimit"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={aiData.aiHourlySpendLimit}
+                  onChange={(e) => setAiData({ ...aiData, aiHourlySpendLimit: e.target.value })}
+                  placeholder="Padrão da plataforma"
+                  data-testid="input-ai-spend-limit"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Protege contra picos de uso: ao atingir o limite, o agente responde com uma mensagem padrão e chama um atendente por 15 minutos.
+                </p>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="redactPiiInLogs"
+                  checked={aiData.redactPiiInLogs}
+                  onCheckedChange={(checked) => setAiData({ ...aiData, redactPiiInLogs: !!checked })}
+                  data-testid="checkbox-redact-pii"
+                />
+                <Label htmlFor="redactPiiInLogs" className="text-sm font-normal cursor-pointer">
+                  Mascarar dados pessoais (CPF, email, telefone, cartão) nos logs de IA
+                </Label>
+              </div>
+
+              <div className="flex justify-end">
+                <Button
+                  type="submit"
+                  disabled={updateCompanyMutation.isPending}
+                  data-testid="button-save-ai"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  {updateCompanyMutation.isPending ? "Salvando..." : "Salvar Modelo"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Subscription Plan */}
+        {billing && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CreditCard className="w-5 h-5" />
+                Plano e Assinatura
+              </CardTitle>
+              <CardDescription>
+                Plano {billing.label} · R$ {(billing.price / 100).toFixed(2)}/mês. Para mudar de plano, fale com o suporte.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {billing.status === "trial" && billing.trialEndsAt && (
+                <p className="text-sm" data-testid="text-trial-ends">
+                  Período de teste até {new Date(billing.trialEndsAt).toLocaleDateString("pt-BR")}.
+                </p>
+              )}
+              {billing.status === "suspended" && (
+                <p className="text-sm text-destructive" data-testid="text-subscription-suspended">
+                  Assinatura suspensa. Novos produtos, conversas e respostas de IA estão bloqueados.
+                </p>
+              )}
+
+              <div className="grid gap-4 md:grid-cols-2">
+                {(Object.keys(planResourceLabels) as PlanResource[]).map((resource) => {
+                  const limit = billing.limits[resource];
+                  const used = billing.usage[resource];
+                  return (
+                    <div key={resource} className="space-y-2" data-testid={`plan-usage-${resource}`}>
+                      <div className="flex justify-between text-sm">
+                        <span>{planResourceLabels[resource]}</span>
+                        <span className="text-muted-foreground">
+                          {used.toLocaleString("pt-BR")} / {limit === null ? "ilimitado" : limit.toLocaleString("pt-BR")}
+                        </span>
+                      </div>
+                      {limit !== null && (
+                        <Progress value={Math.min(100, (used / limit) * 100)} className="h-2" />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {invoices.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Faturas</Label>
+                  <div className="divide-y rounded-md border">
+                    {invoices.map((invoice) => (
+                      <div key={invoice.id} className="flex items-center justify-between p-3 text-sm" data-testid={`invoice-${invoice.id}`}>
+                        <span>
+                          {new Date(invoice.periodStart).toLocaleDateString("pt-BR", { month: "long", year: "numeric", timeZone: "UTC" })}
+                        </span>
+                        <span className="text-muted-foreground">
+                          vence {new Date(invoice.dueAt).toLocaleDateString("pt-BR")}
+                        </span>
+                        <span className="font-medium">R$ {(invoice.amount / 100).toFixed(2)}</span>
+                        <Badge variant={invoice.status === "paid" ? "default" : "secondary"}>
+                          {invoiceStatusLabels[invoice.status]}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,420 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Truck, Plus, Trash2, MapPin } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { Company, ShippingRule, ShippingRuleType } from "@shared/schema";
+
+const typeLabels: Record<ShippingRuleType, string> = {
+  flat: "Valor fixo",
+  cep_range: "Faixa de CEP",
+  distance: "Por distância",
+  pickup: "Retirada na loja",
+};
+
+const emptyForm = {
+  name: "",
+  type: "flat" as ShippingRuleType,
+  price: "",
+  pricePerKm: "",
+  cepStart: "",
+  cepEnd: "",
+  maxDistanceKm: "",
+  freeAbove: "",
+  estimatedDays: "",
+  instructions: "",
+};
+
+// Form strings to API values: reais to cents, empty to null
+const toCents = (value: string) => (value ? Math.round(Number(value) * 100) : null);
+const toInt = (value: string) => (value ? Number(value) : null);
+
+const formatBrl = (cents: number) => `R$ ${(cents / 100).toFixed(2)}`;
+const formatCep = (cep: string) => `${cep.slice(0, 5)}-${cep.slice(5)}`;
+
+function describeRule(rule: ShippingRule): string {
+  const price = rule.price === 0 ? "Grátis" : formatBrl(rule.price);
+  if (rule.type === "cep_range" && rule.cepStart && rule.cepEnd) {
+    return `${price} · CEP ${formatCep(rule.cepStart)} a ${formatCep(rule.cepEnd)}`;
+  }
+  if (rule.type === "distance") {
+    return [
+      rule.pricePerKm ? `${price} + ${formatBrl(rule.pricePerKm)}/km` : price,
+      rule.maxDistanceKm ? `até ${rule.maxDistanceKm} km` : null,
+    ].filter(Boolean).join(" · ");
+  }
+  return price;
+}
+
+export default function Shipping() {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+  const [originCep, setOriginCep] = useState("");
+
+  const { data: rules = [], isLoading } = useQuery<ShippingRule[]>({
+    queryKey: ["/api/shipping-rules"],
+  });
+
+  const { data: company } = useQuery<Company>({
+    queryKey: ["/api/company"],
+  });
+
+  useEffect(() => {
+    if (company?.shippingOriginCep) {
+      setOriginCep(formatCep(company.shippingOriginCep));
+    }
+  }, [company]);
+
+  const originMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PATCH", "/api/company", { shippingOriginCep: originCep.trim() || null });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/company"] });
+      toast({ title: "CEP de origem salvo!" });
+    },
+    onError: () => {
+      toast({ variant: "destructive", title: "CEP inválido" });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/shipping-rules", {
+        name: form.name,
+        type: form.type,
+        price: form.type === "pickup" ? 0 : toCents(form.price) ?? 0,
+        pricePerKm: form.type === "distance" ? toCents(form.pricePerKm) : null,
+        cepStart: form.type === "cep_range" ? form.cepStart : null,
+        cepEnd: form.type === "cep_range" ? form.cepEnd : null,
+        maxDistanceKm: form.type === "distance" ? toInt(form.maxDistanceKm) : null,
+        freeAbove: form.type === "pickup" ? null : toCents(form.freeAbove),
+        estimatedDays: toInt(form.estimatedDays),
+        instructions: form.instructions.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shipping-rules"] });
+      setForm(emptyForm);
+      toast({ title: "Regra de frete criada!" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Erro ao criar regra de frete", description: error.message.replace(/^\d+: /, "") });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return apiRequest("PATCH", `/api/shipping-rules/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shipping-rules"] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/shipping-rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shipping-rules"] });
+      toast({ title: "Regra de frete removida" });
+    },
+  });
+
+  const canCreate = !!form.name && (form.type !== "cep_range" || (!!form.cepStart && !!form.cepEnd));
+  const hasDistanceRules = rules.some((rule) => rule.type === "distance");
+
+  return (
+    <div className="p-8 space-y-8">
+      <div>
+        <h1 className="text-4xl font-bold">Frete e Entrega</h1>
+        <p className="text-muted-foreground mt-2">
+          Opções de entrega oferecidas no chat e no checkout. Sem regras ativas, o frete não é cobrado
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="w-5 h-5" />
+            Origem das Entregas
+          </CardTitle>
+          <CardDescription>
+            CEP de onde saem as entregas, usado para calcular a distância nas regras por distância
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex gap-2 max-w-sm">
+          <Input
+            value={originCep}
+            onChange={(e) => setOriginCep(e.target.value)}
+            placeholder="00000-000"
+            inputMode="numeric"
+            data-testid="input-origin-cep"
+          />
+          <Button
+            variant="outline"
+            onClick={() => originMutation.mutate()}
+            disabled={originMutation.isPending}
+            data-testid="button-save-origin"
+          >
+            Salvar
+          </Button>
+        </CardContent>
+        {hasDistanceRules && !company?.shippingOriginCep && (
+          <CardContent className="pt-0">
+            <p className="text-sm text-destructive">Informe o CEP de origem: sem ele as regras por distância não são oferecidas</p>
+          </CardContent>
+        )}
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="w-5 h-5" />
+            Nova Regra de Frete
+          </CardTitle>
+          <CardDescription>
+            O cliente vê todas as opções que atendem ao CEP, da mais barata para a mais cara
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="shipping-name">Nome</Label>
+              <Input
+                id="shipping-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Entrega expressa"
+                data-testid="input-shipping-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={form.type} onValueChange={(type) => setForm({ ...form, type: type as ShippingRuleType })}>
+                <SelectTrigger data-testid="select-shipping-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(typeLabels).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shipping-days">Prazo (dias úteis)</Label>
+              <Input
+                id="shipping-days"
+                type="number"
+                min="0"
+                value={form.estimatedDays}
+                onChange={(e) => setForm({ ...form, estimatedDays: e.target.value })}
+                placeholder="Mesmo dia"
+                data-testid="input-shipping-days"
+              />
+            </div>
+          </div>
+
+          {form.type !== "pickup" && (
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="shipping-price">{form.type === "distance" ? "Taxa base (R$)" : "Valor (R$)"}</Label>
+                <Input
+                  id="shipping-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.price}
+                  onChange={(e) => setForm({ ...form, price: e.target.value })}
+                  placeholder="0,00"
+                  data-testid="input-shipping-price"
+                />
+              </div>
+              {form.type === "distance" && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="shipping-per-km">Valor por km (R$)</Label>
+                    <Input
+                      id="shipping-per-km"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={form.pricePerKm}
+                      onChange={(e) => setForm({ ...form, pricePerKm: e.target.value })}
+                      data-testid="input-shipping-per-km"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="shipping-max-distance">Distância máxima (km)</Label>
+                    <Input
+                      id="shipping-max-distance"
+                      type="number"
+                      min="1"
+                      value={form.maxDistanceKm}
+                      onChange={(e) => setForm({ ...form, maxDistanceKm: e.target.value })}
+                      placeholder="Sem limite"
+                      data-testid="input-shipping-max-distance"
+                    />
+                  </div>
+                </>
+              )}
+              {form.type === "cep_range" && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="shipping-cep-start">CEP inicial</Label>
+                    <Input
+                      id="shipping-cep-start"
+                      value={form.cepStart}
+                      onChange={(e) => setForm({ ...form, cepStart: e.target.value })}
+                      placeholder="01000-000"
+                      data-testid="input-shipping-cep-start"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="shipping-cep-end">CEP final</Label>
+                    <Input
+                      id="shipping-cep-end"
+                      value={form.cepEnd}
+                      onChange={(e) => setForm({ ...form, cepEnd: e.target.value })}
+                      placeholder="05999-999"
+                      data-testid="input-shipping-cep-end"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-3">
+            {form.type !== "pickup" && (
+              <div className="space-y-2">
+                <Label htmlFor="shipping-free-above">Frete grátis acima de (R$)</Label>
+                <Input
+                  id="shipping-free-above"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.freeAbove}
+                  onChange={(e) => setForm({ ...form, freeAbove: e.target.value })}
+                  placeholder="Nunca"
+                  data-testid="input-shipping-free-above"
+                />
+              </div>
+            )}
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="shipping-instructions">
+                {form.type === "pickup" ? "Endereço e horário de retirada" : "Observações (opcional)"}
+              </Label>
+              <Input
+                id="shipping-instructions"
+                value={form.instructions}
+                onChange={(e) => setForm({ ...form, instructions: e.target.value })}
+                placeholder={form.type === "pickup" ? "Rua Exemplo, 100 - seg a sex, 9h às 18h" : ""}
+                data-testid="input-shipping-instructions"
+              />
+            </div>
+          </div>
+
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!canCreate || createMutation.isPending}
+            data-testid="button-create-shipping-rule"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Criar Regra
+          </Button>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="text-center py-12 text-muted-foreground">Carregando regras de frete...</div>
+      ) : rules.length === 0 ? (
+        <Card>
+          <CardContent className="py-12">
+            <div className="text-center space-y-4">
+              <Truck className="w-16 h-16 mx-auto text-muted-foreground" />
+              <div className="space-y-2">
+                <h3 className="text-lg font-semibold">Nenhuma regra de frete</h3>
+                <p className="text-sm text-muted-foreground max-w-md mx-auto">
+                  Os pedidos são criados sem frete até você cadastrar uma regra
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Opção</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>Valor</TableHead>
+                  <TableHead>Prazo</TableHead>
+                  <TableHead>Ativa</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id} data-testid={`row-shipping-rule-${rule.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{rule.name}</div>
+                      {rule.instructions && (
+                        <div className="text-xs text-muted-foreground">{rule.instructions}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{typeLabels[rule.type as ShippingRuleType]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {describeRule(rule)}
+                      {rule.freeAbove && (
+                        <div className="text-xs text-green-600">Grátis acima de {formatBrl(rule.freeAbove)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {rule.estimatedDays === null
+                        ? "Mesmo dia"
+                        : `${rule.estimatedDays} ${rule.estimatedDays === 1 ? "dia útil" : "dias úteis"}`}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.isActive}
+                        onCheckedChange={(isActive) => toggleMutation.mutate({ id: rule.id, isActive })}
+                        data-testid={`switch-shipping-rule-active-${rule.id}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(rule.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-shipping-rule-${rule.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
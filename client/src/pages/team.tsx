@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { UserPlus, Trash2, Mail } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useRealtime } from "@/hooks/use-realtime";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { User, UserInvite, OperatorPresence } from "@shared/schema";
+
+type TeamMember = Omit<User, "password"> & { presence: OperatorPresence };
+type PendingInvite = Omit<UserInvite, "token">;
+
+const roleLabels: Record<string, string> = {
+  owner: "Proprietário",
+  admin: "Administrador",
+  member: "Atendente",
+};
+
+const presenceLabels: Record<OperatorPresence, { label: string; color: string }> = {
+  online: { label: "Online", color: "bg-green-500" },
+  away: { label: "Ausente", color: "bg-yellow-500" },
+  offline: { label: "Offline", color: "bg-muted-foreground" },
+};
+
+const roleDescriptions: Record<string, string> = {
+  admin: "Acesso total, exceto alterar o proprietário",
+  member: "Atende conversas e gerencia pedidos",
+};
+
+// Mirrors canManageRole in server/permissions.ts
+function canManageRole(actorRole: string | undefined, targetRole: string) {
+  if (targetRole === "owner") return false;
+  if (actorRole === "owner") return true;
+  return actorRole === "admin" && targetRole === "member";
+}
+
+export default function Team() {
+  const { toast } = useToast();
+  const { user: currentUser, can } = useCurrentUser();
+  const canManageTeam = can("team:manage");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<"admin" | "member">("member");
+
+  const { data: users = [], isLoading } = useQuery<TeamMember[]>({
+    queryKey: ["/api/company/users"],
+  });
+
+  // Presence changes when colleagues connect, disconnect or mark themselves away
+  useRealtime({ scope: "company" }, (event) => {
+    if (event.type === "presence.updated") {
+      queryClient.invalidateQueries({ queryKey: ["/api/company/users"] });
+    }
+  });
+
+  const { data: invites = [] } = useQuery<PendingInvite[]>({
+    queryKey: ["/api/company/invites"],
+    enabled: canManageTeam,
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/company/users", { email: inviteEmail, role: inviteRole });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/company/invites"] });
+      toast({ title: "Convite enviado", description: `Enviamos um convite para ${inviteEmail}.` });
+      setInviteEmail("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao convidar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: string }) => {
+      return apiRequest("PATCH", `/api/company/users/${id}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/company/users"] });
+      toast({ title: "Papel atualizado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao atualizar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeUserMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/company/users/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/company/users"] });
+      toast({ title: "Usuário removido" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao remover", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/company/invites/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/company/invites"] });
+      toast({ title: "Convite cancelado" });
+    },
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    inviteMutation.mutate();
+  };
+
+  return (
+    <div className="p-8 space-y-8">
+      <div>
+        <h1 className="text-4xl font-bold">Equipe</h1>
+        <p className="text-muted-foreground mt-2">
+          Convide colegas e defina o que cada um pode fazer
+        </p>
+      </div>
+
+      {canManageTeam && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserPlus className="w-5 h-5" />
+              Convidar Usuário
+            </CardTitle>
+            <CardDescription>
+              O convidado recebe um link por email para criar a senha
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleInvite} className="flex flex-col gap-4 md:flex-row md:items-end">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="invite-email">Email</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="colega@empresa.com"
+                  required
+                  data-testid="input-invite-email"
+                />
+              </div>
+              <div className="space-y-2 md:w-64">
+                <Label>Papel</Label>
+                <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as "admin" | "member")}>
+                  <SelectTrigger data-testid="select-invite-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(["member", "admin"] as const)
+                      .filter((role) => canManageRole(currentUser?.role, role))
+                      .map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {roleLabels[role]} — {roleDescriptions[role]}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" disabled={inviteMutation.isPending} data-testid="button-send-invite">
+                <Mail className="w-4 h-4 mr-2" />
+                {inviteMutation.isPending ? "Enviando..." : "Enviar Convite"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Usuários</CardTitle>
+          <CardDescription>Pessoas com acesso ao painel da empresa</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Papel</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((member) => {
+                  const manageable = canManageTeam && member.id !== currentUser?.id && canManageRole(currentUser?.role, member.role);
+                  return (
+                    <TableRow key={member.id} data-testid={`row-user-${member.id}`}>
+                      <TableCell className="font-medium">
+                        {member.name}
+                        {member.id === currentUser?.id && <span className="text-muted-foreground"> (você)</span>}
+                      </TableCell>
+                      <TableCell>{member.email}</TableCell>
+                      <TableCell>
+                        {manageable ? (
+                          <Select
+                            value={member.role}
+                            onValueChange={(role) => updateRoleMutation.mutate({ id: member.id, role })}
+                          >
+                            <SelectTrigger className="w-44" data-testid={`select-role-${member.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(["member", "admin"] as const)
+                                .filter((role) => canManageRole(currentUser?.role, role))
+                                .map((role) => (
+                                  <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Badge variant={member.role === "owner" ? "default" : "secondary"}>
+                            {roleLabels[member.role] || member.role}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <span className="flex items-center gap-2 text-sm" data-testid={`text-presence-${member.id}`}>
+                          <span className={`w-2 h-2 rounded-full ${presenceLabels[member.presence]?.color || presenceLabels.offline.color}`} />
+                          {presenceLabels[member.presence]?.label || presenceLabels.offline.label}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {manageable && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => removeUserMutation.mutate(member.id)}
+                            disabled={removeUserMutation.isPending}
+                            data-testid={`button-remove-user-${member.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {canManageTeam && invites.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Convites Pendentes</CardTitle>
+            <CardDescription>Convites que ainda não foram aceitos</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Papel</TableHead>
+                  <TableHead>Expira em</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invites.map((invite) => (
+                  <TableRow key={invite.id} data-testid={`row-invite-${invite.id}`}>
+                    <TableCell>{invite.email}</TableCell>
+                    <TableCell>{roleLabels[invite.role] || invite.role}</TableCell>
+                    <TableCell>{format(new Date(invite.expiresAt), "dd/MM/yyyy", { locale: ptBR })}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => revokeInviteMutation.mutate(invite.id)}
+                        disabled={revokeInviteMutation.isPending}
+                        data-testid={`button-revoke-invite-${invite.id}`}
+                      >
+                        Cancelar
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Webhook, Plus, Trash2, RefreshCw, Copy, Check, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { WebhookSubscription, WebhookDelivery } from "@shared/schema";
+
+const eventLabels: Record<string, string> = {
+  "message.created": "Nova mensagem (agente/operador)",
+  "order.created": "Pedido criado",
+  "order.status_updated": "Status do pedido atualizado",
+};
+
+const deliveryStatusConfig = {
+  pending: { label: "Pendente", variant: "secondary" as const },
+  success: { label: "Entregue", variant: "default" as const },
+  failed: { label: "Falhou", variant: "destructive" as const },
+};
+
+export default function Webhooks() {
+  const { toast } = useToast();
+  const [newUrl, setNewUrl] = useState("");
+  const [newEvents, setNewEvents] = useState<string[]>(Object.keys(eventLabels));
+  const [deliveryFilter, setDeliveryFilter] = useState<string>("all");
+  const [copiedSecretId, setCopiedSecretId] = useState<string | null>(null);
+
+  const { data: subscriptions = [], isLoading } = useQuery<WebhookSubscription[]>({
+    queryKey: ["/api/webhooks/subscriptions"],
+  });
+
+  const { data: deliveries = [] } = useQuery<WebhookDelivery[]>({
+    queryKey: ["/api/webhooks/deliveries", deliveryFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (deliveryFilter !== "all") {
+        params.append("status", deliveryFilter);
+      }
+      const response = await apiRequest("GET", `/api/webhooks/deliveries?${params.toString()}`);
+      return response.json();
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/webhooks/subscriptions", { url: newUrl, events: newEvents });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks/subscriptions"] });
+      setNewUrl("");
+      toast({ title: "Webhook criado com sucesso!" });
+    },
+    onError: () => {
+      toast({ variant: "destructive", title: "Erro ao criar webhook", description: "Use uma URL HTTPS pública e selecione ao menos um evento" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return apiRequest("PATCH", `/api/webhooks/subscriptions/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks/subscriptions"] });
+    },
+  });
+
+  const rotateSecretMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("POST", `/api/webhooks/subscriptions/${id}/rotate-secret`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks/subscriptions"] });
+      toast({ title: "Segredo regenerado", description: "Atualize o segredo no seu sistema" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/webhooks/subscriptions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks/subscriptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks/deliveries"] });
+      toast({ title: "Webhook removido" });
+    },
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/webhooks/deliveries/${id}/replay`, {});
+      return response.json() as Promise<WebhookDelivery>;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks/deliveries"] });
+      if (delivery?.status === "success") {
+        toast({ title: "Entrega reenviada com sucesso!" });
+      } else {
+        toast({ variant: "destructive", title: "Reenvio falhou", description: delivery?.lastError || "Nova tentativa agendada" });
+      }
+    },
+    onError: () => {
+      toast({ variant: "destructive", title: "Erro ao reenviar entrega" });
+    },
+  });
+
+  const toggleNewEvent = (event: string, checked: boolean) => {
+    setNewEvents(prev => checked ? [...prev, event] : prev.filter(e => e !== event));
+  };
+
+  return (
+    <div className="p-8 space-y-8">
+      <div>
+        <h1 className="text-4xl font-bold">Webhooks</h1>
+        <p className="text-muted-foreground mt-2">
+          Envie mensagens do agente, dos operadores e eventos de pedidos para seus canais e sistemas externos
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="w-5 h-5" />
+            Novo Webhook
+          </CardTitle>
+          <CardDescription>
+            Cada envio é assinado com HMAC-SHA256 no header <code className="bg-muted px-1 py-0.5 rounded">X-Signature</code>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">URL de destino</Label>
+            <Input
+              id="webhook-url"
+              value={newUrl}
+              onChange={(e) => setNewUrl(e.target.value)}
+              placeholder="https://seu-sistema.com/webhooks/omni"
+              data-testid="input-webhook-url"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Eventos</Label>
+            <div className="grid gap-2 md:grid-cols-3">
+              {Object.entries(eventLabels).map(([event, label]) => (
+                <div key={event} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`event-${event}`}
+                    checked={newEvents.includes(event)}
+                    onCheckedChange={(checked) => toggleNewEvent(event, !!checked)}
+                    data-testid={`checkbox-event-${event}`}
+                  />
+                  <Label htmlFor={`event-${event}`} className="text-sm font-normal cursor-pointer">
+                    {label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!newUrl || newEvents.length === 0 || createMutation.isPending}
+            data-testid="button-create-webhook"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Criar Webhook
+          </Button>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="text-center py-12 text-muted-foreground">Carregando webhooks...</div>
+      ) : subscriptions.length === 0 ? (
+        <Card>
+          <CardContent className="py-12">
+            <div className="text-center space-y-4">
+              <Webhook className="w-16 h-16 mx-auto text-muted-foreground" />
+              <div className="space-y-2">
+                <h3 className="text-lg font-semibold">Nenhum webhook configurado</h3>
+                <p className="text-sm text-muted-foreground max-w-md mx-auto">
+                  Cadastre uma URL para receber as respostas do agente e eventos de pedidos
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {subscriptions.map((subscription) => (
+            <Card key={subscription.id} data-testid={`card-webhook-${subscription.id}`}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-2 min-w-0">
+                    <CardTitle className="font-mono text-base truncate">{subscription.url}</CardTitle>
+                    <div className="flex flex-wrap gap-2">
+                      {subscription.events.map(event => (
+                        <Badge key={event} variant="outline">{eventLabels[event] || event}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={subscription.isActive}
+                      onCheckedChange={(isActive) => toggleMutation.mutate({ id: subscription.id, isActive })}
+                      data-testid={`switch-webhook-active-${subscription.id}`}
+                    />
+                    <span className="text-sm text-muted-foreground">
+                      {subscription.isActive ? "Ativo" : "Pausado"}
+                    </span>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Label>Segredo de assinatura</Label>
+                <div className="flex gap-2">
+                  <Input
+                    readOnly
+                    type="password"
+                    value={subscription.secret}
+                    className="font-mono text-sm"
+                    data-testid={`text-webhook-secret-${subscription.id}`}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      navigator.clipboard.writeText(subscription.secret);
+                      setCopiedSecretId(subscription.id);
+                      setTimeout(() => setCopiedSecretId(null), 2000);
+                    }}
+                    data-testid={`button-copy-secret-${subscription.id}`}
+                  >
+                    {copiedSecretId === subscription.id ? (
+                      <><Check className="w-4 h-4 mr-2" /> Copiado</>
+                    ) : (
+                      <><Copy className="w-4 h-4 mr-2" /> Copiar</>
+                    )}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => rotateSecretMutation.mutate(subscription.id)}
+                    disabled={rotateSecretMutation.isPending}
+                    data-testid={`button-rotate-secret-${subscription.id}`}
+                  >
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Regenerar
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => deleteMutation.mutate(subscription.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-webhook-${subscription.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Histórico de Entregas</CardTitle>
+              <CardDescription>
+                Envios com falha são repetidos automaticamente com intervalo crescente
+              </CardDescription>
+            </div>
+            <Select value={deliveryFilter} onValueChange={setDeliveryFilter}>
+              <SelectTrigger className="w-48" data-testid="select-delivery-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas</SelectItem>
+                <SelectItem value="pending">Pendentes</SelectItem>
+                <SelectItem value="success">Entregues</SelectItem>
+                <SelectItem value="failed">Com falha</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {deliveries.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Nenhuma entrega registrada
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Evento</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Tentativas</TableHead>
+                  <TableHead>Último erro</TableHead>
+                  <TableHead>Criado em</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => {
+                  const config = deliveryStatusConfig[delivery.status as keyof typeof deliveryStatusConfig] || deliveryStatusConfig.pending;
+                  return (
+                    <TableRow key={delivery.id} data-testid={`row-delivery-${delivery.id}`}>
+                      <TableCell className="font-mono text-sm">{delivery.event}</TableCell>
+                      <TableCell>
+                        <Badge variant={config.variant}>{config.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{delivery.attempts}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {delivery.lastError || "-"}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {format(new Date(delivery.createdAt), "dd/MM/yyyy HH:mm:ss", { locale: ptBR })}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {delivery.status !== "success" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => replayMutation.mutate(delivery.id)}
+                            disabled={replayMutation.isPending}
+                            data-testid={`button-replay-${delivery.id}`}
+                          >
+                            <RotateCcw className="w-4 h-4 mr-2" />
+                            Reenviar
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { findInStockAlternatives } from "../inventory";
+import { CartError, getCart, getCartTotal, addToCart as addCartItem, findCatalogProduct } from "../cart";
+import type { AgentTool } from "./types";
+
+export const addToCart: AgentTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "add_to_cart",
+      description: "CHAME IMEDIATAMENTE quando cliente disser que quer um produto. Exemplos: 'quero café', 'me dá 2 mangas', 'adiciona no carrinho'. NÃO pergunte confirmação, ADICIONE DIRETO!",
+      parameters: {
+        type: "object",
+        properties: {
+          items: {
+            type: "array",
+            description: "Produtos para adicionar ao carrinho",
+            items: {
+              type: "object",
+              properties: {
+                productId: { type: "string", description: "Nome do produto (use o nome exato do catálogo)" },
+                quantity: { type: "number", description: "Quantidade desejada", default: 1 }
+              },
+              required: ["productId", "quantity"]
+            }
+          }
+        },
+        required: ["items"]
+      }
+    }
+  },
+  progressLabel: 'Adicionando ao carrinho…',
+
+  async execute(args, { companyId, conversationId, activeProducts }) {
+    console.log('🛒 add_to_cart called with args:', JSON.stringify(args));
+
+    // Persist each item in the conversation cart (prices come from the catalog)
+    let cartItems = await getCart(conversationId);
+    let itemsAdded = 0;
+    const notFound: string[] = [];
+    const unavailable: Array<{ product: string; available: number; alternatives: string[] }> = [];
+    for (const item of args.items || []) {
+      try {
+        cartItems = await addCartItem(companyId, conversationId, item.productId, item.quantity || 1);
+        itemsAdded++;
+      } catch (cartError) {
+        if (!(cartError instanceof CartError)) throw cartError;
+        console.log('🔍 Product not added:', item.productId, cartError.message);
+        notFound.push(item.productId);
+        const requested = findCatalogProduct(activeProducts, item.productId);
+        if (requested && cartError.message.startsWith('Estoque insuficiente')) {
+          unavailable.push({
+            product: requested.name,
+            available: requested.stock,
+            alternatives: findInStockAlternatives(activeProducts, requested).map(a => a.name),
+          });
+        }
+      }
+    }
+
+    console.log('✅ Cart updated:', itemsAdded, 'items added,', cartItems.length, 'in cart');
+
+    return {
+      result: {
+        success: itemsAdded > 0,
+        itemsAdded,
+        notFound,
+        unavailable,
+        cart: cartItems,
+        total: getCartTotal(cartItems),
+        message: itemsAdded > 0
+          ? `${itemsAdded} produto(s) adicionado(s) ao carrinho`
+          : unavailable.length > 0
+            ? 'Produto sem estoque suficiente. Ofereça as alternativas disponíveis'
+            : 'Nenhum produto encontrado no catálogo com esse nome'
+      },
+      metadata: { cartItems },
+      fallback: itemsAdded > 0
+        ? `Adicionei ${itemsAdded} produto(s) ao seu carrinho!`
+        : "Não encontrei esse produto no catálogo. Pode confirmar o nome?",
+    };
+  },
+};
@@ -0,0 +1,51 @@
+import { storage } from "../storage";
+import { applyCoupon as applyCartCoupon, PromotionError } from "../promotions";
+import type { AgentTool } from "./types";
+
+export const applyCoupon: AgentTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "apply_coupon",
+      description: "Aplica um cupom de desconto ao carrinho quando o cliente informar um código (ex: 'tenho o cupom BEMVINDO10'). O desconto é calculado pelo sistema - NUNCA invente descontos nem valores.",
+      parameters: {
+        type: "object",
+        properties: {
+          code: { type: "string", description: "Código do cupom exatamente como o cliente informou" }
+        },
+        required: ["code"]
+      }
+    }
+  },
+  progressLabel: 'Aplicando o cupom…',
+
+  async execute(args, { companyId, conversationId }) {
+    console.log('🎟️ apply_coupon called with args:', JSON.stringify(args));
+
+    const conversation = await storage.getConversation(conversationId);
+    try {
+      const cart = await applyCartCoupon(companyId, conversationId, String(args.code || ''), conversation?.customerPhone);
+      const discountFormatted = `R$ ${(cart.discount / 100).toFixed(2)}`;
+      const totalFormatted = `R$ ${(cart.total / 100).toFixed(2)}`;
+      return {
+        result: {
+          success: true,
+          couponCode: cart.couponCode,
+          discounts: cart.discounts,
+          subtotal: cart.subtotal,
+          discount: cart.discount,
+          total: cart.total,
+          message: `Cupom aplicado! Desconto de ${discountFormatted}, total ${totalFormatted}`,
+        },
+        metadata: { cartItems: cart.items, couponCode: cart.couponCode },
+        fallback: `Cupom ${cart.couponCode} aplicado! Você ganhou ${discountFormatted} de desconto e o total ficou ${totalFormatted}.`,
+      };
+    } catch (couponError) {
+      if (!(couponError instanceof PromotionError)) throw couponError;
+      return {
+        result: { success: false, error: couponError.message },
+        fallback: `Não consegui aplicar esse cupom: ${couponError.message}.`,
+      };
+    }
+  },
+};
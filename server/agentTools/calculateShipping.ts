@@ -0,0 +1,74 @@
+import { normalizeCep, quoteCartShipping, formatShippingOption } from "../shipping";
+import type { AgentTool } from "./types";
+
+export const calculateShipping: AgentTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "calculate_shipping",
+      description: "CHAME logo depois de get_address_by_cep para saber as opções de entrega e o frete para o CEP. Os valores são calculados pelo sistema - NUNCA invente frete nem prazo.",
+      parameters: {
+        type: "object",
+        properties: {
+          cep: {
+            type: "string",
+            description: "CEP de entrega com 8 dígitos"
+          }
+        },
+        required: ["cep"]
+      }
+    }
+  },
+  progressLabel: 'Calculando o frete…',
+  readOnly: true,
+
+  async execute(args, { companyId, conversationId }) {
+    const cep = normalizeCep(args.cep);
+    if (!cep) {
+      return {
+        result: { success: false, error: "CEP inválido. O CEP deve conter exatamente 8 dígitos." },
+        fallback: "CEP inválido. Por favor, informe um CEP válido com 8 dígitos.",
+      };
+    }
+
+    const options = await quoteCartShipping(companyId, conversationId, cep);
+    console.log('🚚 Shipping options for CEP', cep, options);
+
+    if (!options) {
+      return {
+        result: { success: true, shippingCharged: false, message: "A loja não cobra frete. Finalize o pedido sem shippingOptionId." },
+        fallback: "O frete é por nossa conta!",
+      };
+    }
+    if (options.length === 0) {
+      return {
+        result: { success: false, error: "Não entregamos neste CEP e não há retirada disponível." },
+        fallback: "Infelizmente ainda não entregamos nesse CEP.",
+      };
+    }
+
+    const deliveries = options.filter(o => o.type !== 'pickup');
+    return {
+      result: {
+        success: true,
+        shippingCharged: true,
+        options: options.map(o => ({
+          shippingOptionId: o.ruleId,
+          name: o.name,
+          pickup: o.type === 'pickup',
+          price: o.price,
+          priceFormatted: o.price === 0 ? 'Grátis' : `R$ ${(o.price / 100).toFixed(2)}`,
+          estimatedDays: o.estimatedDays,
+          ...(o.instructions && { instructions: o.instructions }),
+        })),
+        message: deliveries.length === 0
+          ? "Não entregamos neste CEP, só retirada. Ofereça a retirada ao cliente."
+          : options.length === 1
+            ? "Uma opção de entrega: informe o frete e use este shippingOptionId no create_order."
+            : "Apresente as opções e pergunte qual o cliente prefere; passe o shippingOptionId escolhido no create_order.",
+      },
+      metadata: { shippingOptions: options },
+      fallback: `Opções de entrega para o CEP ${cep.slice(0, 5)}-${cep.slice(5)}:\n${options.map(formatShippingOption).join('\n')}`,
+    };
+  },
+};
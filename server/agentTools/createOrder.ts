@@ -0,0 +1,227 @@
+import { storage, InsufficientStockError, PromotionExhaustedError } from "../storage";
+import { notifyOrderEvent } from "../outboundWebhooks";
+import { clearCart } from "../cart";
+import { PromotionError } from "../promotions";
+import { priceOrder, ShippingError } from "../shipping";
+import { startOrderPayment } from "../payments";
+import type { Order } from "@shared/schema";
+import type { AgentTool } from "./types";
+
+// Payment instructions (PIX copia e cola / boleto linha digitável) appended to the order confirmation
+async function preparePayment(order: Order): Promise<{ instructions: string; metadata: Record<string, unknown> } | null> {
+  try {
+    const payment = await startOrderPayment(order);
+    const code = payment?.pixCode || payment?.boletoLine;
+    if (!payment || !code) return null;
+
+    const instructions = payment.method === 'boleto'
+      ? `\n\nPara pagar, use a linha digitável do boleto abaixo${payment.expiresAt ? ` (vencimento em ${payment.expiresAt.toLocaleDateString('pt-BR', { timeZone: 'America/Sao_Paulo' })})` : ''}:\n${code}`
+      : `\n\nPara pagar, use o PIX copia e cola abaixo${payment.expiresAt ? ` (válido até ${payment.expiresAt.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit', timeZone: 'America/Sao_Paulo' })})` : ''}:\n${code}`;
+
+    return {
+      instructions,
+      metadata: {
+        payment: {
+          paymentId: payment.id,
+          method: payment.method,
+          code,
+          amount: payment.amount,
+          expiresAt: payment.expiresAt,
+        },
+      },
+    };
+  } catch (error) {
+    console.error('Error creating order payment:', error);
+    return null;
+  }
+}
+
+export const createOrder: AgentTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "create_order",
+      description: "CHAME AGORA quando tiver os 3 dados: Nome + Telefone + Endereço completo. NÃO pergunte se pode finalizar, NÃO peça confirmação. Só precisa desses 3 dados + produtos no carrinho (os itens do pedido são os do carrinho). FINALIZE IMEDIATAMENTE!",
+      parameters: {
+        type: "object",
+        properties: {
+          customerName: {
+            type: "string",
+            description: "Nome completo do cliente"
+          },
+          customerPhone: {
+            type: "string",
+            description: "Telefone do cliente"
+          },
+          shippingAddress: {
+            type: "object",
+            description: "Endereço completo de entrega",
+            properties: {
+              street: { type: "string", description: "Rua e número (exemplo: 'Av Paulista, 1509')" },
+              complement: { type: "string", description: "Complemento (opcional)" },
+              neighborhood: { type: "string", description: "Bairro" },
+              city: { type: "string", description: "Cidade" },
+              state: { type: "string", description: "Estado (UF)" },
+              zip: { type: "string", description: "CEP" }
+            },
+            required: ["street", "neighborhood", "city", "state", "zip"]
+          },
+          shippingOptionId: {
+            type: "string",
+            description: "shippingOptionId da opção de entrega escolhida, retornado por calculate_shipping (omita para a entrega mais barata)"
+          },
+          paymentMethod: {
+            type: "string",
+            enum: ["pix", "boleto", "card", "cash"],
+            description: "Forma de pagamento escolhida: pix (padrão, código enviado na hora), boleto (linha digitável enviada na hora), card (cartão na entrega) ou cash (dinheiro na entrega)"
+          }
+        },
+        required: ["customerName", "customerPhone", "shippingAddress"]
+      }
+    }
+  },
+  progressLabel: 'Finalizando seu pedido…',
+
+  async execute(args, { companyId, conversationId }) {
+    // SECURITY: Order items come exclusively from the conversation cart, priced from the catalog
+    let checkout: Awaited<ReturnType<typeof priceOrder>>;
+    try {
+      checkout = await priceOrder(companyId, conversationId, {
+        customerPhone: args.customerPhone,
+        cep: args.shippingAddress?.zip ?? null,
+        shippingRuleId: args.shippingOptionId,
+      });
+    } catch (pricingError) {
+      if (pricingError instanceof ShippingError) {
+        return {
+          result: { success: false, error: `${pricingError.message}. Chame calculate_shipping com o CEP do cliente e use um shippingOptionId retornado.` },
+          fallback: `${pricingError.message}.`,
+        };
+      }
+      if (!(pricingError instanceof PromotionError)) throw pricingError;
+      // Coupon no longer valid: drop it and let the customer decide whether to order without it
+      await storage.setCartCoupon(companyId, conversationId, null);
+      return {
+        result: { success: false, error: `Cupom removido do carrinho: ${pricingError.message}. Informe o cliente e pergunte se quer finalizar sem o desconto.` },
+        fallback: `O cupom do seu carrinho não pode ser usado: ${pricingError.message}. Quer finalizar sem ele?`,
+      };
+    }
+    const { items, subtotal, discounts, discount, shipping, shippingMethod, total } = checkout;
+    const customerPhone: string = checkout.customerPhone || args.customerPhone;
+    if (items.length === 0) {
+      return {
+        result: { success: false, error: "Carrinho vazio. Adicione produtos com add_to_cart antes de criar o pedido." },
+        metadata: { cartEmpty: true },
+        fallback: "Seu carrinho está vazio. Quais produtos você gostaria de pedir?",
+      };
+    }
+
+    const orderData = {
+      companyId,
+      conversationId,
+      customerName: args.customerName,
+      customerPhone, // the conversation's phone once known (see priceCheckout)
+      shippingAddress: args.shippingAddress,
+      paymentMethod: args.paymentMethod || 'pix', // Default to PIX
+      items,
+      subtotal,
+      discount,
+      discounts,
+      shipping,
+      shippingMethod,
+      total,
+    };
+
+    let order: Order;
+    try {
+      order = await storage.createOrder(orderData, { name: 'Agente IA' });
+    } catch (orderError) {
+      if (orderError instanceof PromotionExhaustedError) {
+        return {
+          result: { success: false, error: orderError.message },
+          fallback: `${orderError.message}. Quer finalizar o pedido sem o desconto?`,
+        };
+      }
+      if (!(orderError instanceof InsufficientStockError)) throw orderError;
+
+      // Out of stock: let the model explain and offer to adjust the cart
+      return {
+        result: { success: false, error: orderError.message, outOfStock: orderError.items },
+        metadata: { outOfStock: orderError.items },
+        fallback: `${orderError.message}. Quer ajustar a quantidade ou escolher outro produto?`,
+      };
+    }
+    await clearCart(companyId, conversationId);
+    await notifyOrderEvent('order.created', order);
+
+    // Save/update customer in the system with omnichannel deduplication
+    try {
+      // Get conversation to determine channel
+      const currentConversation = await storage.getConversation(conversationId);
+      const channel = currentConversation?.channel || 'chatweb';
+
+      // Find or create customer (deduplicated by phone across channels)
+      const customer = await storage.findOrCreateCustomer(companyId, {
+        name: args.customerName,
+        phone: customerPhone,
+        shippingAddress: args.shippingAddress,
+        channel: channel, // Track which channel this interaction came from
+      });
+
+      // Update customer stats
+      await storage.updateCustomerStats(customer.id, total);
+
+      // Link conversation to identified customer
+      await storage.updateConversation(conversationId, {
+        customerId: customer.id,
+        customerName: args.customerName,
+        customerPhone,
+      });
+
+      console.log(`✅ Customer identified/created: ${customer.name} (${customer.id}) via ${channel}`);
+    } catch (customerError) {
+      console.error('Error saving/updating customer:', customerError);
+      // Don't fail the order if customer save fails
+    }
+
+    // Log order creation
+    await storage.createApiLog({
+      companyId,
+      type: 'order_created',
+      endpoint: '/api/chatweb/:companyId/conversations/:conversationId/messages',
+      method: 'POST',
+      requestData: orderData,
+      responseData: order,
+      metadata: {
+        confirmationCode: order.confirmationCode,
+        total: order.total,
+        customerName: order.customerName,
+        viaFunctionCalling: true,
+      },
+    });
+
+    const payment = await preparePayment(order);
+    const totalFormatted = (order.total / 100).toFixed(2);
+
+    return {
+      result: {
+        success: true,
+        confirmationCode: order.confirmationCode,
+        orderId: order.id,
+        total: order.total,
+        totalFormatted: `R$ ${totalFormatted}`,
+        ...(discount > 0 && { discount, discounts }),
+        ...(shippingMethod && { shipping, shippingMethod: shippingMethod.name }),
+        message: `Pedido criado com sucesso! Total: R$ ${totalFormatted}, Código: ${order.confirmationCode}`,
+        ...(payment && { paymentInstructions: "O código de pagamento (PIX copia e cola ou linha digitável do boleto) será enviado automaticamente logo após a sua mensagem. Não escreva nenhum código." }),
+      },
+      metadata: {
+        orderId: order.id,
+        confirmationCode: order.confirmationCode,
+        ...payment?.metadata,
+      },
+      fallback: `Pedido confirmado! Valor total: R$ ${totalFormatted}${shippingMethod ? ` (${shippingMethod.name}: ${shipping === 0 ? 'frete grátis' : `frete R$ ${(shipping / 100).toFixed(2)}`})` : ''}. Seu código de confirmação é: ${order.confirmationCode}`,
+      appendToReply: payment?.instructions,
+    };
+  },
+};
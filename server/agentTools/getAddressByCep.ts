@@ -0,0 +1,50 @@
+import { lookupCep } from "../shipping";
+import type { AgentTool } from "./types";
+
+export const getAddressByCep: AgentTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "get_address_by_cep",
+      description: "CHAME AUTOMATICAMENTE quando cliente informar CEP (8 dígitos). Retorna endereço completo. Não precisa pedir autorização, BUSQUE DIRETO!",
+      parameters: {
+        type: "object",
+        properties: {
+          cep: {
+            type: "string",
+            description: "CEP brasileiro com 8 dígitos (pode conter ou não o hífen, ex: '01001000' ou '01001-000')"
+          }
+        },
+        required: ["cep"]
+      }
+    }
+  },
+  progressLabel: 'Buscando endereço…',
+  readOnly: true,
+
+  async execute(args) {
+    const cep = String(args.cep || '').replace(/\D/g, ''); // Remove non-digits
+
+    // Validate CEP format (must be 8 digits)
+    if (!/^\d{8}$/.test(cep)) {
+      const cepData = { success: false, error: "CEP inválido. O CEP deve conter exatamente 8 dígitos." };
+      return {
+        result: cepData,
+        metadata: { cepData },
+        fallback: "CEP inválido. Por favor, informe um CEP válido com 8 dígitos.",
+      };
+    }
+
+    console.log('Fetching address for CEP:', cep);
+    const cepData = await lookupCep(cep);
+    console.log('ViaCEP result:', cepData);
+
+    return {
+      result: cepData,
+      metadata: { cepData },
+      fallback: cepData.success
+        ? `Encontrei o endereço: ${cepData.address.street}, ${cepData.address.neighborhood}, ${cepData.address.city}-${cepData.address.state}`
+        : "Não consegui encontrar esse CEP. Por favor, verifique se está correto.",
+    };
+  },
+};
@@ -0,0 +1,81 @@
+/**
+ * Agent Tools
+ *
+ * Registry of the functions the AI agent can call. Each tool lives in its own
+ * module with its OpenAI definition and executor; register new tools here.
+ */
+
+import { transferToHuman } from "./transferToHuman";
+import { addToCart } from "./addToCart";
+import { removeFromCart } from "./removeFromCart";
+import { updateCartQuantity } from "./updateCartQuantity";
+import { searchProducts } from "./searchProducts";
+import { searchKnowledgeBase } from "./searchKnowledgeBase";
+import { getAddressByCep } from "./getAddressByCep";
+import { calculateShipping } from "./calculateShipping";
+import { createOrder } from "./createOrder";
+import { applyCoupon } from "./applyCoupon";
+import { logGuardrail, sanitizeToolArgs } from "../guardrails";
+import type { AgentTool, AgentToolContext, AgentToolResult } from "./types";
+
+export type { AgentTool, AgentToolContext, AgentToolResult } from "./types";
+
+const AGENT_TOOLS: AgentTool[] = [
+  transferToHuman,
+  addToCart,
+  removeFromCart,
+  updateCartQuantity,
+  searchProducts,
+  searchKnowledgeBase,
+  getAddressByCep,
+  calculateShipping,
+  applyCoupon,
+  createOrder,
+];
+
+const toolsByName = new Map(AGENT_TOOLS.map(tool => [tool.definition.function.name, tool]));
+
+export const agentToolDefinitions = AGENT_TOOLS.map(tool => tool.definition);
+
+// Tools offered while drafting a hybrid-mode reply, which the operator may never send
+export const draftToolDefinitions = AGENT_TOOLS.filter(tool => tool.readOnly).map(tool => tool.definition);
+
+export function getToolProgressLabel(name: string): string {
+  return toolsByName.get(name)?.progressLabel || 'Processando…';
+}
+
+/**
+ * Execute a tool call from the model. Arguments the tool does not declare are
+ * dropped, so the model can never pass its own prices or order items. Failures
+ * are reported back to the model as the tool result instead of aborting the reply.
+ */
+export async function runAgentTool(name: string, rawArgs: string, context: AgentToolContext): Promise<AgentToolResult> {
+  const tool = toolsByName.get(name);
+  if (!tool) {
+    return { result: { success: false, error: `Função desconhecida: ${name}` } };
+  }
+  if (context.draft && !tool.readOnly) {
+    return { result: { success: false, error: "Função indisponível: esta resposta é um rascunho para o atendente" } };
+  }
+
+  let args: any;
+  try {
+    args = rawArgs ? JSON.parse(rawArgs) : {};
+  } catch {
+    return { result: { success: false, error: "Argumentos inválidos" } };
+  }
+
+  const sanitized = sanitizeToolArgs(tool.definition.function.parameters, args);
+  if (sanitized.dropped.length > 0) {
+    console.warn(`🛡️ Undeclared arguments dropped from ${name}:`, sanitized.dropped);
+    await logGuardrail(context.companyId, context.conversationId, 'tool_arguments', { tool: name, dropped: sanitized.dropped });
+    args = sanitized.value;
+  }
+
+  try {
+    return await tool.execute(args, context);
+  } catch (error) {
+    console.error(`Error running agent tool ${name}:`, error);
+    return { result: { success: false, error: "Erro ao executar a função. Peça desculpas e sugira tentar novamente." } };
+  }
+}
@@ -0,0 +1,25 @@
+import { changeCartQuantity } from "./updateCartQuantity";
+import type { AgentTool } from "./types";
+
+export const removeFromCart: AgentTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "remove_from_cart",
+      description: "Remove um produto do carrinho quando o cliente pedir para tirar/desistir de um item.",
+      parameters: {
+        type: "object",
+        properties: {
+          productId: { type: "string", description: "Nome do produto (use o nome exato do carrinho)" }
+        },
+        required: ["productId"]
+      }
+    }
+  },
+  progressLabel: 'Removendo do carrinho…',
+
+  async execute(args, context) {
+    console.log('🛒 remove_from_cart called with args:', JSON.stringify(args));
+    return changeCartQuantity(context, args.productId, 0);
+  },
+};
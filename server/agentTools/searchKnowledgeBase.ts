@@ -0,0 +1,34 @@
+import { searchKnowledgeBase as searchDocuments } from "../knowledgeBase";
+import type { AgentTool } from "./types";
+
+export const searchKnowledgeBase: AgentTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "search_knowledge_base",
+      description: "Busca nos documentos da empresa (políticas, garantia, trocas, prazos, manuais). Use quando o cliente perguntar algo que não está no catálogo nem nos trechos já fornecidos.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "Pergunta ou termos a buscar (ex: 'prazo de troca', 'garantia')" }
+        },
+        required: ["query"]
+      }
+    }
+  },
+  progressLabel: 'Consultando informações…',
+  readOnly: true,
+
+  async execute(args, { companyId }) {
+    const results = await searchDocuments(companyId, args.query, 3);
+    console.log('📚 search_knowledge_base:', args.query, 'Found:', results.length);
+
+    return {
+      result: results.length > 0
+        ? { success: true, passages: results.map(r => ({ document: r.documentName, content: r.content })) }
+        : { success: false, message: "Nenhuma informação encontrada nos documentos da empresa" },
+      metadata: { knowledgeSources: Array.from(new Set(results.map(r => r.documentName))) },
+      fallback: "Não encontrei essa informação. Vou verificar com a equipe e te retorno!",
+    };
+  },
+};
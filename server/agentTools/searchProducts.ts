@@ -0,0 +1,59 @@
+import { storage } from "../storage";
+import { isOutOfStock } from "../inventory";
+import type { AgentTool } from "./types";
+
+export const searchProducts: AgentTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "search_products",
+      description: "Busca produtos no catálogo completo da loja. Use quando o cliente procurar um produto, categoria ou faixa de preço que não está listado no prompt.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "Texto livre (nome, características, ex: 'café especial')" },
+          category: { type: "string", description: "Categoria exata (opcional)" },
+          minPrice: { type: "number", description: "Preço mínimo em reais (opcional)" },
+          maxPrice: { type: "number", description: "Preço máximo em reais (opcional)" }
+        }
+      }
+    }
+  },
+  progressLabel: 'Buscando produtos…',
+  readOnly: true,
+
+  async execute(args, { companyId }) {
+    const results = await storage.searchProducts(companyId, {
+      query: args.query,
+      category: args.category,
+      // Model works in reais, storage in cents
+      minPrice: typeof args.minPrice === 'number' ? Math.round(args.minPrice * 100) : undefined,
+      maxPrice: typeof args.maxPrice === 'number' ? Math.round(args.maxPrice * 100) : undefined,
+      limit: 10,
+    });
+    console.log('🔎 search_products:', JSON.stringify(args), 'Found:', results.length);
+
+    const available = results.filter(p => !isOutOfStock(p));
+    return {
+      result: {
+        success: results.length > 0,
+        products: results.map(p => ({
+          id: p.id,
+          name: p.name,
+          price: p.price,
+          priceFormatted: `R$ ${(p.price / 100).toFixed(2)}`,
+          category: p.category,
+          stock: p.stock,
+          available: !isOutOfStock(p),
+          imageUrl: p.imageUrls?.[0] || null,
+        })),
+        message: results.length > 0
+          ? 'Mostre os produtos usando [Nome do Produto]. Não ofereça os que não estão disponíveis'
+          : 'Nenhum produto encontrado. Pergunte mais detalhes ao cliente'
+      },
+      fallback: available.length > 0
+        ? `Encontrei: ${available.map(p => `[${p.name}]`).join(', ')}`
+        : "Não encontrei esse produto disponível no catálogo. Pode me dar mais detalhes?",
+    };
+  },
+};
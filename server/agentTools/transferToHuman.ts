@@ -0,0 +1,46 @@
+import { storage } from "../storage";
+import type { AgentTool } from "./types";
+
+export const transferToHuman: AgentTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "transfer_to_human",
+      description: "Transfere o atendimento para um operador humano. Use esta função quando: 1) O cliente demonstrar frustração ou insatisfação com o atendimento automatizado, 2) O cliente solicitar explicitamente falar com um humano/atendente, 3) Houver uma situação complexa que você não consiga resolver, 4) O cliente não responder por muito tempo após várias tentativas suas.",
+      parameters: {
+        type: "object",
+        properties: {
+          reason: {
+            type: "string",
+            description: "Motivo da transferência (ex: 'cliente solicitou', 'frustração', 'sem resposta', 'situação complexa')"
+          },
+          summary: {
+            type: "string",
+            description: "Breve resumo do que foi conversado até agora para ajudar o atendente humano"
+          }
+        },
+        required: ["reason", "summary"]
+      }
+    }
+  },
+  progressLabel: 'Chamando um atendente…',
+
+  async execute(args, { conversationId }) {
+    // Mark conversation as needing human attention
+    await storage.updateConversation(conversationId, {
+      needsHumanAttention: true,
+      transferReason: args.reason,
+    });
+
+    return {
+      result: { success: true },
+      endTurn: "Entendo sua situação. Estou transferindo você para um de nossos atendentes que poderá ajudá-lo melhor. Por favor, aguarde um momento.",
+      metadata: {
+        systemMessage: true,
+        transferToHuman: true,
+        reason: args.reason,
+        summary: args.summary,
+      },
+    };
+  },
+};
@@ -0,0 +1,24 @@
+import type { ChatCompletionFunctionTool } from "openai/resources/chat/completions";
+import type { Product } from "@shared/schema";
+
+export interface AgentToolContext {
+  companyId: string;
+  conversationId: string;
+  activeProducts: Product[]; // published and active catalog
+  draft?: boolean; // hybrid mode draft: only read-only tools may run
+}
+
+export interface AgentToolResult {
+  result: unknown; // sent back to the model as the tool message
+  metadata?: Record<string, unknown>; // merged into the saved assistant message
+  fallback?: string; // reply used when the model answers with no text
+  appendToReply?: string; // appended verbatim to the final reply (e.g. payment codes)
+  endTurn?: string; // stop the loop and reply with this text
+}
+
+export interface AgentTool {
+  definition: ChatCompletionFunctionTool;
+  progressLabel: string; // shown in the ChatWeb while the tool runs
+  readOnly?: boolean; // no side effects (cart, orders, transfer), allowed while drafting
+  execute(args: any, context: AgentToolContext): Promise<AgentToolResult>;
+}
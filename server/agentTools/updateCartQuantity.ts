@@ -0,0 +1,50 @@
+import { CartError, getCart, getCartTotal, updateCartItemQuantity } from "../cart";
+import type { AgentToolContext, AgentToolResult, AgentTool } from "./types";
+
+// Shared with remove_from_cart (quantity 0)
+export async function changeCartQuantity(
+  { companyId, conversationId }: AgentToolContext,
+  productId: string,
+  quantity: number,
+): Promise<AgentToolResult> {
+  try {
+    const cartItems = await updateCartItemQuantity(companyId, conversationId, productId, quantity);
+    return {
+      result: { success: true, cart: cartItems, total: getCartTotal(cartItems) },
+      metadata: { cartItems },
+      fallback: "Pronto, atualizei seu carrinho!",
+    };
+  } catch (cartError) {
+    if (!(cartError instanceof CartError)) throw cartError;
+    const cartItems = await getCart(conversationId);
+    return {
+      result: { success: false, error: cartError.message, cart: cartItems },
+      metadata: { cartItems },
+      fallback: "Esse produto não está no seu carrinho.",
+    };
+  }
+}
+
+export const updateCartQuantity: AgentTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "update_cart_quantity",
+      description: "Altera a quantidade de um produto que JÁ está no carrinho (ex: 'muda para 3', 'quero só 1'). A quantidade informada substitui a atual.",
+      parameters: {
+        type: "object",
+        properties: {
+          productId: { type: "string", description: "Nome do produto (use o nome exato do carrinho)" },
+          quantity: { type: "number", description: "Nova quantidade total desejada" }
+        },
+        required: ["productId", "quantity"]
+      }
+    }
+  },
+  progressLabel: 'Atualizando o carrinho…',
+
+  async execute(args, context) {
+    console.log('🛒 update_cart_quantity called with args:', JSON.stringify(args));
+    return changeCartQuantity(context, args.productId, Number(args.quantity));
+  },
+};
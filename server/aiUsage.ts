@@ -0,0 +1,239 @@
+/**
+ * AI Usage
+ *
+ * Meters every model call per company and feature (tokens and estimated cost)
+ * and enforces the monthly token quota of the company's plan. Past the soft
+ * limit the tenant is warned; at the hard limit AI calls are refused.
+ *
+ * A spending circuit breaker guards against bursts: when a company spends more
+ * than its hourly limit, the breaker opens for a cooldown and the agent answers
+ * with a canned reply instead of calling the model. Its state lives in the rate
+ * limit store, so every instance sharing the store sees the same breaker.
+ */
+
+import { storage, type AiUsageTotals } from "./storage";
+import { getPlan, startOfMonth } from "./plans";
+import { getRateLimitStore } from "./rateLimit";
+import type { AiUsageFeature } from "@shared/schema";
+
+// USD per 1M tokens
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+};
+
+// USD per minute of audio
+const TRANSCRIPTION_PRICING: Record<string, number> = {
+  'whisper-1': 0.006,
+};
+
+export const AI_SOFT_LIMIT_RATIO = 0.8;
+
+// Circuit breaker: hourly spend window and how long the breaker stays open once tripped
+const SPEND_WINDOW_MS = 60 * 60 * 1000;
+const CIRCUIT_COOLDOWN_MS = 15 * 60 * 1000;
+// The hourly spend is summed at most this often per company (not on every message)
+const SPEND_CHECK_INTERVAL_MS = 30 * 1000;
+
+// Compressed voice notes (webm/opus) are roughly 32 kbps
+const AUDIO_BYTES_PER_SECOND = 4000;
+
+export class AIQuotaExceededError extends Error {
+  constructor(public companyId: string) {
+    super("Limite mensal de IA atingido");
+    this.name = "AIQuotaExceededError";
+    Object.setPrototypeOf(this, AIQuotaExceededError.prototype);
+  }
+}
+
+export type AiQuotaLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface AiQuotaStatus {
+  plan: string;
+  periodStart: Date;
+  used: number; // tokens this month
+  limit: number | null;
+  status: AiQuotaLevel;
+}
+
+export function estimateCostMicros(model: string, promptTokens: number, completionTokens: number, audioSeconds: number = 0): number {
+  const pricing = MODEL_PRICING[model];
+  const tokenCost = pricing ? promptTokens * pricing.input + completionTokens * pricing.output : 0; // per 1M tokens = micros per token
+  const audioCost = (TRANSCRIPTION_PRICING[model] || 0) * (audioSeconds / 60) * 1_000_000;
+  return Math.round(tokenCost + audioCost);
+}
+
+function quotaLevel(used: number, limit: number | null): AiQuotaLevel {
+  if (limit === null) return 'ok';
+  if (used >= limit) return 'exceeded';
+  return used >= limit * AI_SOFT_LIMIT_RATIO ? 'warning' : 'ok';
+}
+
+// Monthly AI tokens included in the plan (null = unlimited)
+function planQuota(plan: string): number | null {
+  return getPlan(plan).limits.aiTokens;
+}
+
+export async function getAiQuotaStatus(companyId: string): Promise<AiQuotaStatus> {
+  const company = await storage.getCompany(companyId);
+  const plan = company?.plan || 'starter';
+  const periodStart = startOfMonth();
+  const totals = await storage.getAiUsageTotals(companyId, periodStart);
+  const limit = planQuota(plan);
+
+  return { plan, periodStart, used: totals.totalTokens, limit, status: quotaLevel(totals.totalTokens, limit) };
+}
+
+/**
+ * Refuse the call when the company reached its hard limit
+ */
+export async function assertAiQuota(companyId: string): Promise<void> {
+  const quota = await getAiQuotaStatus(companyId);
+  if (quota.status === 'exceeded') {
+    throw new AIQuotaExceededError(companyId);
+  }
+}
+
+// Hourly AI spend limit in USD cents (null = no breaker)
+function hourlySpendLimit(company: { aiHourlySpendLimit: number | null } | undefined): number | null {
+  if (company?.aiHourlySpendLimit) return company.aiHourlySpendLimit;
+  const fallback = Number(process.env.AI_HOURLY_SPEND_LIMIT_CENTS);
+  return fallback > 0 ? fallback : null;
+}
+
+/**
+ * Whether the company's spending circuit breaker is open. Trips when the AI
+ * spend of the last hour reaches the limit, then stays open for the cooldown.
+ */
+export async function isSpendingCircuitOpen(companyId: string): Promise<boolean> {
+  const store = getRateLimitStore();
+  try {
+    if (await store.get(`ai-circuit:${companyId}`)) return true;
+    const check = await store.hit(`ai-spend-check:${companyId}`, SPEND_CHECK_INTERVAL_MS);
+    if (check.count > 1) return false;
+  } catch (error) {
+    // Without the store, fall back to checking the spend every time
+    console.error('Rate limit store error:', error);
+  }
+
+  const limit = hourlySpendLimit(await storage.getCompany(companyId));
+  if (limit === null) return false;
+
+  const totals = await storage.getAiUsageTotals(companyId, new Date(Date.now() - SPEND_WINDOW_MS));
+  const limitMicros = limit * 10_000; // cents → USD micros
+  if (totals.costMicros < limitMicros) return false;
+
+  await store.hit(`ai-circuit:${companyId}`, CIRCUIT_COOLDOWN_MS).catch(error => console.error('Rate limit store error:', error));
+  console.warn(`⚡ AI spending circuit open for company ${companyId}: ${totals.costMicros} micros in the last hour`);
+  await storage.createApiLog({
+    companyId,
+    type: 'ai_circuit_open',
+    responseData: { spentMicros: totals.costMicros, limitMicros },
+    metadata: { cooldownMinutes: CIRCUIT_COOLDOWN_MS / 60000 },
+  });
+  return true;
+}
+
+/**
+ * Record a model call. Never throws - metering must not break the reply.
+ */
+export async function recordAiUsage({
+  companyId,
+  feature,
+  provider,
+  model,
+  usage,
+  audioBytes,
+}: {
+  companyId: string;
+  feature: AiUsageFeature;
+  provider: string;
+  model: string;
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null;
+  audioBytes?: number;
+}): Promise<void> {
+  try {
+    const promptTokens = usage?.prompt_tokens || 0;
+    const completionTokens = usage?.completion_tokens || 0;
+    const totalTokens = usage?.total_tokens || promptTokens + completionTokens;
+    const audioSeconds = audioBytes ? Math.ceil(audioBytes / AUDIO_BYTES_PER_SECOND) : 0;
+
+    await storage.createAiUsage({
+      companyId,
+      feature,
+      provider,
+      model,
+      promptTokens,
+      completionTokens,
+      totalTokens,
+      audioSeconds,
+      costMicros: estimateCostMicros(model, promptTokens, completionTokens, audioSeconds),
+    });
+
+    // Warn once per month, on the call that crosses the soft limit
+    const quota = await getAiQuotaStatus(companyId);
+    if (quota.limit !== null && quota.status !== 'ok' && quota.used - totalTokens < quota.limit * AI_SOFT_LIMIT_RATIO) {
+      console.warn(`⚠️ Company ${companyId} reached ${Math.round((quota.used / quota.limit) * 100)}% of its monthly AI quota`);
+      await storage.createApiLog({
+        companyId,
+        type: 'ai_quota_warning',
+        responseData: { used: quota.used, limit: quota.limit, plan: quota.plan },
+        metadata: { feature },
+      });
+    }
+  } catch (error) {
+    console.error('Error recording AI usage:', error);
+  }
+}
+
+export interface AiUsageReport extends AiQuotaStatus {
+  companyId: string;
+  companyName: string;
+  totals: AiUsageTotals;
+  byFeature: Array<AiUsageTotals & { feature: string }>;
+}
+
+const emptyTotals = (): AiUsageTotals => ({
+  calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, audioSeconds: 0, costMicros: 0,
+});
+
+/**
+ * Consumption and estimated cost of the current month, per company (all companies when omitted)
+ */
+export async function getAiUsageReport(companyId?: string): Promise<AiUsageReport[]> {
+  const periodStart = startOfMonth();
+  const rows = await storage.getAiUsageByFeature(periodStart, companyId);
+  const companies = companyId
+    ? [await storage.getCompany(companyId)].filter(c => c !== undefined)
+    : await storage.getAllCompanies();
+
+  return companies.map(company => {
+    const byFeature = rows
+      .filter(row => row.companyId === company.id)
+      .map(({ companyId: _companyId, ...row }) => row);
+    const totals = byFeature.reduce((sum, row) => ({
+      calls: sum.calls + row.calls,
+      promptTokens: sum.promptTokens + row.promptTokens,
+      completionTokens: sum.completionTokens + row.completionTokens,
+      totalTokens: sum.totalTokens + row.totalTokens,
+      audioSeconds: sum.audioSeconds + row.audioSeconds,
+      costMicros: sum.costMicros + row.costMicros,
+    }), emptyTotals());
+    const limit = planQuota(company.plan);
+
+    return {
+      companyId: company.id,
+      companyName: company.name,
+      plan: company.plan,
+      periodStart,
+      used: totals.totalTokens,
+      limit,
+      status: quotaLevel(totals.totalTokens, limit),
+      totals,
+      byFeature,
+    };
+  });
+}
@@ -1,6 +1,9 @@
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
+import { storage } from './storage';
+import type { Conversation, UserRole } from '@shared/schema';
 
 // Require JWT secret at startup - fail fast if missing
 if (!process.env.SESSION_SECRET) {
@@ -12,6 +15,7 @@ if (!process.env.SESSION_SECRET) {
 
 const JWT_SECRET = process.env.SESSION_SECRET;
 const JWT_EXPIRES_IN = '7d';
+const VISITOR_SESSION_EXPIRES_IN = '30d';
 
 export interface JWTPayload {
   userId: string;
@@ -19,8 +23,28 @@ export interface JWTPayload {
   type: 'admin' | 'user';
 }
 
+// Token claims plus the company user's profile, resolved by requireAuth on every request
+export interface AuthUser extends JWTPayload {
+  id?: string;
+  name?: string;
+  email?: string;
+  role?: UserRole;
+  avatarUrl?: string | null;
+}
+
 export interface AuthRequest extends Request {
-  user?: JWTPayload;
+  user?: AuthUser;
+}
+
+// ChatWeb visitor session: access to the single conversation it was issued for
+export interface VisitorSessionPayload {
+  type: 'visitor';
+  companyId: string;
+  conversationId: string;
+}
+
+export interface VisitorRequest extends Request {
+  conversation?: Conversation; // the session's conversation, loaded by requireVisitorSession
 }
 
 // Generate JWT token
@@ -37,6 +61,22 @@ export function verifyToken(token: string): JWTPayload | null {
   }
 }
 
+// Generate a ChatWeb visitor session token for a conversation
+export function generateVisitorToken(companyId: string, conversationId: string): string {
+  const payload: VisitorSessionPayload = { type: 'visitor', companyId, conversationId };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: VISITOR_SESSION_EXPIRES_IN });
+}
+
+// Verify a ChatWeb visitor session token (user and admin tokens are rejected)
+export function verifyVisitorToken(token: string): VisitorSessionPayload | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as VisitorSessionPayload | JWTPayload;
+    return payload.type === 'visitor' ? payload : null;
+  } catch (error) {
+    return null;
+  }
+}
+
 // Hash password
 export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 10);
@@ -47,8 +87,18 @@ export async function comparePassword(password: string, hash: string): Promise<b
   return bcrypt.compare(password, hash);
 }
 
-// Auth middleware for regular users
-export function requireAuth(req: AuthRequest, res: Response, next: NextFunction) {
+// Compare a webhook token in constant time
+export function verifyWebhookToken(provided: string, expected: string): boolean {
+  const providedBuffer = Buffer.from(provided);
+  const expectedBuffer = Buffer.from(expected);
+  if (providedBuffer.length !== expectedBuffer.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(providedBuffer, expectedBuffer);
+}
+
+// Auth middleware for regular users (loads the user so removed users and role changes apply immediately)
+export async function requireAuth(req: AuthRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
   
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -66,8 +116,56 @@ export function requireAuth(req: AuthRequest, res: Response, next: NextFunction)
     return res.status(403).json({ error: 'Acesso negado' });
   }
 
-  req.user = payload;
-  next();
+  try {
+    const user = await storage.getUser(payload.userId);
+    if (!user || user.companyId !== payload.companyId) {
+      return res.status(401).json({ error: 'Usuário não encontrado' });
+    }
+
+    req.user = {
+      ...payload,
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role as UserRole,
+      avatarUrl: user.avatarUrl,
+    };
+    next();
+  } catch (error) {
+    console.error('Auth user lookup error:', error);
+    res.status(500).json({ error: 'Erro ao verificar usuário' });
+  }
+}
+
+// Session middleware for the public ChatWeb API. The visitor token comes in the
+// X-Visitor-Token header and must match the company and conversation in the URL.
+export async function requireVisitorSession(req: VisitorRequest, res: Response, next: NextFunction) {
+  const token = req.headers['x-visitor-token'];
+  if (typeof token !== 'string' || !token) {
+    return res.status(401).json({ error: 'Sessão não fornecida' });
+  }
+
+  const session = verifyVisitorToken(token);
+  if (!session || session.companyId !== req.params.companyId) {
+    return res.status(401).json({ error: 'Sessão inválida ou expirada' });
+  }
+
+  if (req.params.conversationId && req.params.conversationId !== session.conversationId) {
+    return res.status(403).json({ error: 'Conversa não pertence a esta sessão' });
+  }
+
+  try {
+    const conversation = await storage.getConversation(session.conversationId);
+    if (!conversation || conversation.companyId !== session.companyId) {
+      return res.status(404).json({ error: 'Conversa não encontrada' });
+    }
+
+    req.conversation = conversation;
+    next();
+  } catch (error) {
+    console.error('Visitor session lookup error:', error);
+    res.status(500).json({ error: 'Erro ao verificar sessão' });
+  }
 }
 
 // Auth middleware for admin users
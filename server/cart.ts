@@ -0,0 +1,149 @@
+/**
+ * Conversation Cart
+ *
+ * Server-side cart shared by the AI agent (add/remove/update tools), the
+ * ChatWeb and the public catalog. Prices always come from the catalog, and
+ * orders are created exclusively from the cart contents.
+ */
+
+import { storage } from "./storage";
+import type { CartItem, Product } from "@shared/schema";
+
+export class CartError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CartError";
+    Object.setPrototypeOf(this, CartError.prototype);
+  }
+}
+
+async function getSellableProducts(companyId: string): Promise<Product[]> {
+  const products = await storage.getProductsByCompany(companyId);
+  return products.filter(p => p.isActive && p.status === 'published');
+}
+
+/**
+ * Find a product by ID or by exact name (case insensitive) - the agent refers to products by name
+ */
+export function findCatalogProduct(products: Product[], productRef: string): Product | undefined {
+  const ref = productRef.trim().toLowerCase();
+  return products.find(p => p.id === productRef || p.name.toLowerCase() === ref);
+}
+
+export function getCartTotal(items: CartItem[]): number {
+  return items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+}
+
+export async function getCart(conversationId: string): Promise<CartItem[]> {
+  const cart = await storage.getCartByConversation(conversationId);
+  return cart?.items || [];
+}
+
+async function requireProduct(companyId: string, productRef: string): Promise<Product> {
+  const product = findCatalogProduct(await getSellableProducts(companyId), productRef);
+  if (!product) {
+    throw new CartError(`Produto não encontrado: ${productRef}`);
+  }
+  return product;
+}
+
+/**
+ * Add a product to the cart (increments the quantity if it's already there)
+ */
+export async function addToCart(companyId: string, conversationId: string, productRef: string, quantity: number = 1): Promise<CartItem[]> {
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new CartError("Quantidade inválida");
+  }
+
+  const product = await requireProduct(companyId, productRef);
+  const items = await getCart(conversationId);
+  const existing = items.find(i => i.productId === product.id);
+
+  const requested = (existing?.quantity || 0) + quantity;
+  if (requested > product.stock) {
+    throw new CartError(`Estoque insuficiente: ${product.name} (disponível: ${Math.max(product.stock, 0)})`);
+  }
+
+  const updated = existing
+    ? items.map(i => i.productId === product.id ? { ...i, quantity: i.quantity + quantity } : i)
+    : [...items, {
+        productId: product.id,
+        name: product.name,
+        price: product.price,
+        quantity,
+        imageUrl: product.imageUrls?.[0] || null,
+      }];
+
+  const cart = await storage.saveCart(companyId, conversationId, updated);
+  return cart.items;
+}
+
+/**
+ * Set the quantity of a cart item (zero or less removes it)
+ */
+export async function updateCartItemQuantity(companyId: string, conversationId: string, productRef: string, quantity: number): Promise<CartItem[]> {
+  if (!Number.isInteger(quantity)) {
+    throw new CartError("Quantidade inválida");
+  }
+
+  const items = await getCart(conversationId);
+  const item = findCartItem(items, productRef);
+  if (!item) {
+    throw new CartError(`Produto não está no carrinho: ${productRef}`);
+  }
+
+  if (quantity > item.quantity) {
+    const product = await requireProduct(companyId, item.productId);
+    if (quantity > product.stock) {
+      throw new CartError(`Estoque insuficiente: ${product.name} (disponível: ${Math.max(product.stock, 0)})`);
+    }
+  }
+
+  const updated = quantity <= 0
+    ? items.filter(i => i.productId !== item.productId)
+    : items.map(i => i.productId === item.productId ? { ...i, quantity } : i);
+
+  const cart = await storage.saveCart(companyId, conversationId, updated);
+  return cart.items;
+}
+
+export async function removeFromCart(companyId: string, conversationId: string, productRef: string): Promise<CartItem[]> {
+  return updateCartItemQuantity(companyId, conversationId, productRef, 0);
+}
+
+// Also drops the coupon - it was used by the order or the customer started over
+export async function clearCart(companyId: string, conversationId: string): Promise<void> {
+  await storage.saveCart(companyId, conversationId, []);
+  await storage.setCartCoupon(companyId, conversationId, null);
+}
+
+function findCartItem(items: CartItem[], productRef: string): CartItem | undefined {
+  const ref = productRef.trim().toLowerCase();
+  return items.find(i => i.productId === productRef || i.name.toLowerCase() === ref);
+}
+
+/**
+ * Build order items from the cart using current catalog prices.
+ * Products no longer available are dropped.
+ */
+export async function getCheckoutItems(companyId: string, conversationId: string): Promise<{
+  items: Array<{ productId: string; name: string; price: number; quantity: number }>;
+  total: number;
+}> {
+  const products = await getSellableProducts(companyId);
+  const items = [];
+
+  for (const item of await getCart(conversationId)) {
+    const product = products.find(p => p.id === item.productId);
+    if (product) {
+      items.push({
+        productId: product.id,
+        name: product.name,
+        price: product.price,
+        quantity: item.quantity,
+      });
+    }
+  }
+
+  return { items, total: getCartTotal(items) };
+}
@@ -0,0 +1,88 @@
+import { test, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import type { Agent, Company, Conversation, Message, Product } from "@shared/schema";
+import { storage } from "./storage";
+import { mockProvider } from "./llm/mockProvider";
+import { generateAgentReply, generateDraftReply, type AgentStreamEvent } from "./chatAgent";
+
+const company = { id: 'c1', name: 'Loja do Café', plan: 'pro', status: 'active' } as Company;
+const userMessage = { id: 'm1', conversationId: 'v1', role: 'user', content: 'Oi' } as Message;
+const cafe = { id: 'p1', name: 'Café', price: 1200, isActive: true, status: 'published', stock: 10, imageUrls: [] } as unknown as Product;
+
+// Storage for a conversation with no history or cart
+function stubConversation(t: TestContext, agent: Partial<Agent> = {}, products: Product[] = []) {
+  t.mock.method(storage, 'getCompany', async () => company);
+  t.mock.method(storage, 'getAiUsageTotals', async () => ({ totalTokens: 0, costCents: 0 }));
+  t.mock.method(storage, 'getPlanUsageCounts', async () => ({ products: 0, users: 0, conversations: 0, aiMessages: 0 }));
+  t.mock.method(storage, 'createAiUsage', async () => undefined);
+  t.mock.method(storage, 'getConversation', async () => ({ id: 'v1', companyId: 'c1' }) as Conversation);
+  t.mock.method(storage, 'updateConversation', async () => undefined);
+  t.mock.method(storage, 'getAgentByCompany', async () => ({ name: 'Ana', ...agent }) as Agent);
+  t.mock.method(storage, 'getProductsByCompany', async () => products);
+  t.mock.method(storage, 'getMessagesByConversation', async () => [userMessage]);
+  t.mock.method(storage, 'getKnowledgeChunksByCompany', async () => []);
+  t.mock.method(storage, 'getCartByConversation', async () => undefined);
+  t.mock.method(storage, 'getPromotionsByCompany', async () => []);
+  t.mock.method(storage, 'createApiLog', async () => undefined);
+  t.mock.method(storage, 'createMessage', async (data: Partial<Message>) => ({ id: 'm2', ...data }) as Message);
+}
+
+// System prompt the agent sent to the model when replying
+async function agentSystemPrompt(t: TestContext, agent: Partial<Agent>): Promise<string> {
+  stubConversation(t, agent);
+  const completion = t.mock.method(mockProvider, 'createChatCompletion');
+
+  await generateDraftReply({ companyId: 'c1', conversationId: 'v1', content: 'Oi', imageUrl: null, userMessage });
+
+  const prompts = completion.mock.calls.map(call => String(call.arguments[0].messages[0].content));
+  const prompt = prompts.find(text => text.startsWith('Você é Ana'));
+  assert.ok(prompt, 'the agent reply was not requested');
+  return prompt;
+}
+
+test("the system prompt includes the seller personality", async (t) => {
+  const prompt = await agentSystemPrompt(t, { sellerPersonality: 'proactive', salesGoals: 'Vender o kit presente' });
+  assert.match(prompt, /PERSONALIDADE: Vendedor Proativo/);
+  assert.match(prompt, /escassez real/);
+  assert.match(prompt, /Objetivo principal: Vender o kit presente/);
+});
+
+test("an unknown seller personality falls back to balanced", async (t) => {
+  const prompt = await agentSystemPrompt(t, { sellerPersonality: 'pushy' });
+  assert.match(prompt, /PERSONALIDADE: Vendedor Equilibrado/);
+});
+
+// Events streamed while the agent replies to the customer
+async function streamedReply(): Promise<{ events: AgentStreamEvent[]; text: string }> {
+  const events: AgentStreamEvent[] = [];
+  const reply = await generateAgentReply({
+    companyId: 'c1', conversationId: 'v1', content: 'Oi', imageUrl: null, userMessage,
+    onEvent: (event) => events.push(event),
+  });
+  return { events, text: reply.message.content };
+}
+
+test("the reply is streamed as it is generated", async (t) => {
+  stubConversation(t);
+  const { events, text } = await streamedReply();
+
+  const deltas = events.filter(event => event.type === 'delta');
+  assert.ok(deltas.length > 1);
+  assert.equal(deltas.map(event => event.text).join('').trim(), text);
+  assert.equal(events.some(event => event.type === 'replace'), false);
+});
+
+test("a reply changed by the output guardrails is replaced after streaming", async (t) => {
+  stubConversation(t, {}, [cafe]);
+  t.mock.method(mockProvider, 'streamChatCompletion', async (params: Parameters<typeof mockProvider.streamChatCompletion>[0], onDelta: (text: string) => void) => {
+    const completion = await mockProvider.createChatCompletion(params);
+    completion.choices[0].message.content = 'O [Café] custa R$ 1,00';
+    onDelta('O [Café] custa ');
+    onDelta('R$ 1,00');
+    return completion;
+  });
+  const { events, text } = await streamedReply();
+
+  assert.equal(text, 'O [Café] custa R$ 12,00');
+  assert.deepEqual(events.at(-1), { type: 'replace', text });
+});
@@ -0,0 +1,53 @@
+/**
+ * Email
+ *
+ * Outgoing emails are written to the local outbox (email_outbox) and logged to
+ * the console. There is no SMTP transport yet; platform admins read the outbox
+ * at GET /api/admin/emails.
+ */
+
+import { storage } from "./storage";
+import type { EmailOutbox, UserInvite } from "@shared/schema";
+
+// Public URL of the app, used in links sent by email
+export function appUrl(path: string): string {
+  const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
+  const base = process.env.APP_URL || (domain ? `https://${domain}` : 'http://localhost:5000');
+  return `${base.replace(/\/$/, '')}${path}`;
+}
+
+export async function sendEmail(data: {
+  companyId: string | null;
+  to: string;
+  subject: string;
+  body: string;
+  type: string;
+}): Promise<EmailOutbox> {
+  const email = await storage.createOutboxEmail(data);
+  console.log(`📧 Email (${data.type}) to ${data.to}: ${data.subject}`);
+  return email;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  admin: 'administrador',
+  member: 'atendente',
+};
+
+export function sendInviteEmail(invite: UserInvite, companyName: string, inviterName: string): Promise<EmailOutbox> {
+  const link = appUrl(`/invite/${invite.token}`);
+  return sendEmail({
+    companyId: invite.companyId,
+    to: invite.email,
+    subject: `Convite para a equipe ${companyName} no Omni.AI`,
+    body: [
+      'Olá!',
+      '',
+      `${inviterName} convidou você para entrar na equipe ${companyName} no Omni.AI como ${ROLE_LABELS[invite.role] || invite.role}.`,
+      '',
+      `Para aceitar, crie sua senha em: ${link}`,
+      '',
+      `O convite expira em ${invite.expiresAt.toLocaleDateString('pt-BR')}.`,
+    ].join('\n'),
+    type: 'user_invite',
+  });
+}
@@ -0,0 +1,249 @@
+/**
+ * Guardrails
+ *
+ * Checks around every agent reply. Customer messages are screened for prompt
+ * injection and run through the provider's moderation before reaching the
+ * model; the outcome is saved on the message (metadata.moderation) so
+ * operators can review it. Tool arguments are reduced to what each tool
+ * declares (prices always come from the catalog), and replies are checked for
+ * prompt leaks, moderation hits and product prices that disagree with the
+ * catalog, the promotions and the cart. PII can be masked in the AI prompt
+ * logs per company.
+ */
+
+import { storage } from "./storage";
+import { moderate } from "./llm";
+import { getCartSummary, priceItems } from "./promotions";
+import type { Message, Product } from "@shared/schema";
+
+// Instructions aimed at the model rather than the store (Portuguese and English)
+const INJECTION_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'ignore_instructions', pattern: /\b(ignore|esque[cç]a|desconsidere|disregard|forget)\b.{0,40}\b(instru[cç][oõ]es|regras|prompt|instructions|rules)\b/i },
+  { name: 'reveal_prompt', pattern: /\b(mostre|revele|repita|imprima|show|reveal|print|repeat)\b.{0,40}\b(prompt|instru[cç][oõ]es (do sistema|iniciais)|system (prompt|message)|your instructions)\b/i },
+  { name: 'role_override', pattern: /\b(voc[eê] agora [eé]|a partir de agora voc[eê] [eé]|you are now|act as|finja ser|pretend to be)\b/i },
+  { name: 'jailbreak', pattern: /\b(jailbreak|modo desenvolvedor|developer mode|DAN mode|do anything now)\b/i },
+  { name: 'fake_role_marker', pattern: /(^|\n)\s*(system|sistema|assistant|developer)\s*:|<\|?(im_start|system)\|?>|\[\/?(INST|SYSTEM)\]/i },
+  { name: 'price_override', pattern: /\b(mude|altere|defina|change|set)\b.{0,30}\b(pre[cç]o|valor|price)\b.{0,30}\b(para|to|=)\b/i },
+];
+
+/**
+ * Names of the injection patterns found in a customer message (empty when none)
+ */
+export function detectPromptInjection(text: string): string[] {
+  return INJECTION_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(({ name }) => name);
+}
+
+export interface ModerationOutcome {
+  flagged: boolean; // blocked by the provider's moderation
+  categories: string[];
+  injection: string[]; // prompt injection patterns found
+  checkedAt: string;
+}
+
+/**
+ * Screen a customer message before the agent answers it and record the
+ * outcome on the message. Moderation failures let the message through.
+ */
+export async function screenCustomerMessage(companyId: string, message: Message, content: string): Promise<ModerationOutcome> {
+  const injection = detectPromptInjection(content);
+  const moderation = content.trim()
+    ? await moderate(content, { companyId }).catch(error => {
+        console.error('Error moderating customer message:', error);
+        return null;
+      })
+    : null;
+
+  const outcome: ModerationOutcome = {
+    flagged: !!moderation?.flagged,
+    categories: moderation?.categories || [],
+    injection,
+    checkedAt: new Date().toISOString(),
+  };
+
+  if (outcome.flagged || injection.length > 0) {
+    console.warn(`🛡️ Customer message ${message.id} screened:`, { categories: outcome.categories, injection });
+    await storage.updateMessage(message.id, {
+      metadata: { ...(message.metadata as Record<string, unknown> | null), moderation: outcome },
+    });
+    await logGuardrail(companyId, message.conversationId, outcome.flagged ? 'input_moderation' : 'prompt_injection', {
+      categories: outcome.categories,
+      injection,
+    });
+  }
+  return outcome;
+}
+
+type JsonSchema = { type?: string; properties?: Record<string, JsonSchema>; items?: JsonSchema };
+
+/**
+ * Keep only the arguments a tool declares in its JSON schema. Anything else
+ * the model sends (a "price" on add_to_cart, "items" or "total" on
+ * create_order) is dropped and reported by path.
+ */
+export function sanitizeToolArgs(schema: JsonSchema | undefined, value: unknown, path: string = ''): { value: unknown; dropped: string[] } {
+  if (!schema || value === null || typeof value !== 'object') {
+    return { value, dropped: [] };
+  }
+
+  if (Array.isArray(value)) {
+    const dropped: string[] = [];
+    const items = value.map((item, index) => {
+      const result = sanitizeToolArgs(schema.items, item, `${path}[${index}]`);
+      dropped.push(...result.dropped);
+      return result.value;
+    });
+    return { value: items, dropped };
+  }
+
+  if (!schema.properties) {
+    return { value, dropped: [] };
+  }
+
+  const dropped: string[] = [];
+  const sanitized: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    const property = schema.properties[key];
+    const keyPath = path ? `${path}.${key}` : key;
+    if (!property) {
+      dropped.push(keyPath);
+      continue;
+    }
+    const result = sanitizeToolArgs(property, entry, keyPath);
+    sanitized[key] = result.value;
+    dropped.push(...result.dropped);
+  }
+  return { value: sanitized, dropped };
+}
+
+export interface ReplyCheck {
+  text: string;
+  guardrails: string[]; // what was changed, recorded on the assistant message
+}
+
+// Section markers of the agent system prompt - a reply containing them is leaking it
+const PROMPT_LEAK_MARKERS = ['═══', 'REGRA CRÍTICA', 'FLUXO DE VENDA', 'CONTEXTO DA CONVERSA (Análise'];
+
+const BLOCKED_REPLY = 'Desculpe, não consigo ajudar com isso. Posso te ajudar com nossos produtos ou com o seu pedido?';
+
+// "[Product] ... R$ 12,90" within the same sentence
+const PRICE_MENTION_REGEX = /\[([^\]]+)\]([^\[\n.!?]{0,60}?)R\$\s?(\d{1,3}(?:\.\d{3})*(?:,\d{2})?|\d+(?:\.\d{2})?)/g;
+
+function parseBrl(amount: string): number {
+  const normalized = amount.includes(',') ? amount.replace(/\./g, '').replace(',', '.') : amount;
+  return Math.round(parseFloat(normalized) * 100);
+}
+
+function formatBrl(cents: number): string {
+  return (cents / 100).toFixed(2).replace('.', ',');
+}
+
+/**
+ * Rewrite product prices that are neither the catalog price nor one of the
+ * product's `quotes` (amounts computed by the system, by product id) to the
+ * catalog price
+ */
+export function correctReplyPrices(
+  text: string,
+  products: Product[],
+  quotes: Map<string, number[]> = new Map(),
+): { text: string; corrected: string[] } {
+  const corrected: string[] = [];
+  const result = text.replace(PRICE_MENTION_REGEX, (match, name: string, between: string, amount: string) => {
+    const product = products.find(p => p.name.toLowerCase() === name.trim().toLowerCase());
+    if (!product || product.price <= 0) return match;
+
+    const cents = parseBrl(amount);
+    if (cents === product.price || quotes.get(product.id)?.includes(cents)) return match;
+
+    corrected.push(product.name);
+    return `[${name}]${between}R$ ${formatBrl(product.price)}`;
+  });
+  return { text: result, corrected };
+}
+
+/**
+ * Amounts a reply may quote for each product besides its catalog price: one
+ * unit and its cart line before and after the promotions that apply (with the
+ * cart's coupon), and the cart subtotal and total when the product is in it
+ */
+async function replyPriceQuotes(companyId: string, conversationId: string, products: Product[]): Promise<Map<string, number[]>> {
+  const cart = await getCartSummary(companyId, conversationId);
+  const quotes = new Map<string, number[]>();
+  for (const product of products) {
+    const amounts: number[] = [];
+    const unit = await priceItems(companyId, [{ productId: product.id, price: product.price, quantity: 1 }], cart.couponCode);
+    amounts.push(unit.total);
+
+    const line = cart.items.find(item => item.productId === product.id);
+    if (line) {
+      const priced = await priceItems(companyId, [line], cart.couponCode);
+      amounts.push(line.price, priced.subtotal, priced.total, cart.subtotal, cart.total);
+    }
+    quotes.set(product.id, amounts);
+  }
+  return quotes;
+}
+
+/**
+ * Output checks on the agent reply before it is saved
+ */
+export async function checkAgentReply(companyId: string, conversationId: string, text: string, products: Product[]): Promise<ReplyCheck> {
+  if (PROMPT_LEAK_MARKERS.some(marker => text.includes(marker))) {
+    await logGuardrail(companyId, conversationId, 'prompt_leak', {});
+    return { text: BLOCKED_REPLY, guardrails: ['prompt_leak'] };
+  }
+
+  const moderation = await moderate(text, { companyId }).catch(error => {
+    console.error('Error moderating agent reply:', error);
+    return null;
+  });
+  if (moderation?.flagged) {
+    await logGuardrail(companyId, conversationId, 'output_moderation', { categories: moderation.categories });
+    return { text: BLOCKED_REPLY, guardrails: ['output_moderation'] };
+  }
+
+  let prices = correctReplyPrices(text, products);
+  if (prices.corrected.length > 0) {
+    // Discounted prices and cart amounts are only computed when the catalog price doesn't match
+    const mentioned = products.filter(p => prices.corrected.includes(p.name));
+    prices = correctReplyPrices(text, products, await replyPriceQuotes(companyId, conversationId, mentioned));
+  }
+  if (prices.corrected.length > 0) {
+    await logGuardrail(companyId, conversationId, 'price_corrected', { products: prices.corrected });
+    return { text: prices.text, guardrails: ['price_corrected'] };
+  }
+  return { text, guardrails: [] };
+}
+
+export async function logGuardrail(companyId: string, conversationId: string, guardrail: string, details: Record<string, unknown>): Promise<void> {
+  await storage.createApiLog({
+    companyId,
+    type: 'guardrail_triggered',
+    metadata: { conversationId, guardrail, ...details },
+  }).catch(error => console.error('Error logging guardrail:', error));
+}
+
+// PII found in customer messages (Brazilian formats)
+const PII_PATTERNS: Array<{ pattern: RegExp; replacement: string }> = [
+  { pattern: /[\w.+-]+@[\w-]+\.[\w.-]+/g, replacement: '[email]' },
+  { pattern: /\b\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}\b/g, replacement: '[cnpj]' },
+  { pattern: /\b\d{3}\.?\d{3}\.?\d{3}-?\d{2}\b/g, replacement: '[cpf]' },
+  { pattern: /\b(?:\d[ -]?){13,19}\b/g, replacement: '[cartão]' },
+  { pattern: /(?:\+?55\s?)?\(?\d{2}\)?\s?9?\d{4}[-\s]?\d{4}\b/g, replacement: '[telefone]' },
+];
+
+export function redactPii(text: string): string {
+  return PII_PATTERNS.reduce((result, { pattern, replacement }) => result.replace(pattern, replacement), text);
+}
+
+/**
+ * Mask PII in every string of a log payload (messages, metadata)
+ */
+export function redactForLog<T>(value: T): T {
+  if (typeof value === 'string') return redactPii(value) as T;
+  if (Array.isArray(value)) return value.map(item => redactForLog(item)) as T;
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, redactForLog(entry)])) as T;
+  }
+  return value;
+}
@@ -1,8 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { assertLLMConfigured } from "./llm";
+import { assertPaymentsConfigured } from "./payments";
 
 const app = express();
+// Behind the platform proxy: req.ip is the client address (used by the rate limits)
+app.set('trust proxy', 1);
 
 declare module 'http' {
   interface IncomingMessage {
@@ -47,6 +51,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  assertLLMConfigured();
+  assertPaymentsConfigured();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
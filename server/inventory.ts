@@ -0,0 +1,40 @@
+/**
+ * Inventory Awareness
+ * Stock helpers used by the AI agent prompt and cart tools
+ */
+
+import type { Product } from "@shared/schema";
+
+// At or below this many units the agent may mention real scarcity
+export const LOW_STOCK_THRESHOLD = 5;
+
+export function isOutOfStock(product: Product): boolean {
+  return product.stock <= 0;
+}
+
+export function isLowStock(product: Product): boolean {
+  return product.stock > 0 && product.stock <= LOW_STOCK_THRESHOLD;
+}
+
+/**
+ * In-stock products from the same category, closest in price first
+ */
+export function findInStockAlternatives(products: Product[], product: Product, limit: number = 3): Product[] {
+  return products
+    .filter(p =>
+      p.id !== product.id &&
+      !isOutOfStock(p) &&
+      !!product.category &&
+      p.category === product.category
+    )
+    .sort((a, b) => Math.abs(a.price - product.price) - Math.abs(b.price - product.price))
+    .slice(0, limit);
+}
+
+/**
+ * Catalog line for the system prompt, flagging low stock
+ */
+export function formatCatalogLine(product: Product): string {
+  const line = `[${product.name}] - R$ ${(product.price / 100).toFixed(2)}`;
+  return isLowStock(product) ? `${line} (restam ${product.stock} unidades)` : line;
+}
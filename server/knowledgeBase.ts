@@ -0,0 +1,209 @@
+/**
+ * Knowledge Base (Retrieval)
+ *
+ * Indexes the agent's context documents (PDF, XML, TXT) per company and
+ * retrieves the most relevant passages for a customer question.
+ *
+ * Documents are split into overlapping chunks stored in `knowledge_chunks`.
+ * Retrieval uses a local BM25 lexical index kept in memory per company and
+ * rebuilt lazily whenever that company's documents change.
+ */
+
+import { storage } from "./storage";
+import { extractDocumentText } from "./utils/documentText";
+import type { KnowledgeChunk } from "@shared/schema";
+
+const CHUNK_SIZE = 800; // characters
+const CHUNK_OVERLAP = 150;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'o', 'as', 'os', 'um', 'uma', 'uns', 'umas', 'de', 'do', 'da', 'dos', 'das',
+  'em', 'no', 'na', 'nos', 'nas', 'por', 'para', 'pra', 'com', 'sem', 'e', 'ou',
+  'que', 'se', 'ao', 'aos', 'eh', 'ser', 'sao', 'foi', 'como', 'mais', 'mas',
+  'meu', 'minha', 'seu', 'sua', 'eu', 'voce', 'voces', 'ele', 'ela', 'isso', 'esse',
+  'essa', 'este', 'esta', 'qual', 'quais', 'quando', 'onde', 'tem', 'ter', 'ja', 'nao',
+  'sim', 'the', 'and', 'of', 'to', 'is',
+]);
+
+export interface KnowledgeSearchResult {
+  documentName: string;
+  content: string;
+  score: number;
+}
+
+interface CompanyIndex {
+  chunks: KnowledgeChunk[];
+  termFrequencies: Map<string, number>[];
+  documentFrequency: Map<string, number>;
+  lengths: number[];
+  averageLength: number;
+}
+
+const indexCache = new Map<string, CompanyIndex>();
+
+/**
+ * Lowercase, strip accents and stopwords
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/**
+ * Split text into overlapping chunks, preferring paragraph and sentence boundaries
+ */
+export function chunkText(text: string): string[] {
+  const normalized = text.replace(/\r\n/g, '\n').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+  if (!normalized) return [];
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    let end = Math.min(start + CHUNK_SIZE, normalized.length);
+
+    if (end < normalized.length) {
+      const window = normalized.slice(start, end);
+      const breakAt = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('. '), window.lastIndexOf('\n'));
+      if (breakAt > CHUNK_SIZE / 2) {
+        end = start + breakAt + 1;
+      }
+    }
+
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+
+    if (end >= normalized.length) break;
+    start = Math.max(end - CHUNK_OVERLAP, start + 1);
+  }
+
+  return chunks;
+}
+
+function buildIndex(chunks: KnowledgeChunk[]): CompanyIndex {
+  const termFrequencies: Map<string, number>[] = [];
+  const documentFrequency = new Map<string, number>();
+  const lengths: number[] = [];
+
+  for (const chunk of chunks) {
+    const tokens = tokenize(`${chunk.documentName} ${chunk.content}`);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+    frequencies.forEach((_count, token) => {
+      documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+    });
+    termFrequencies.push(frequencies);
+    lengths.push(tokens.length);
+  }
+
+  const averageLength = lengths.length > 0
+    ? lengths.reduce((a, b) => a + b, 0) / lengths.length
+    : 0;
+
+  return { chunks, termFrequencies, documentFrequency, lengths, averageLength };
+}
+
+async function getIndex(companyId: string): Promise<CompanyIndex> {
+  const cached = indexCache.get(companyId);
+  if (cached) return cached;
+
+  const chunks = await storage.getKnowledgeChunksByCompany(companyId);
+  const index = buildIndex(chunks);
+  indexCache.set(companyId, index);
+  return index;
+}
+
+function invalidateIndex(companyId: string): void {
+  indexCache.delete(companyId);
+}
+
+/**
+ * Parse, chunk and index a context document, replacing any previous version
+ * Returns the number of chunks indexed
+ */
+export async function indexDocument(
+  companyId: string,
+  documentUrl: string,
+  file: { buffer: Buffer; mimetype: string; originalname: string },
+): Promise<number> {
+  const text = await extractDocumentText(file.buffer, file.mimetype, file.originalname);
+  const chunks = text ? chunkText(text) : [];
+
+  await storage.replaceKnowledgeChunks(companyId, documentUrl, chunks.map((content, chunkIndex) => ({
+    companyId,
+    documentUrl,
+    documentName: file.originalname,
+    chunkIndex,
+    content,
+  })));
+  invalidateIndex(companyId);
+
+  console.log(`📚 Indexed ${chunks.length} chunks from ${file.originalname} for company ${companyId}`);
+  return chunks.length;
+}
+
+/**
+ * Remove a document from the company's index
+ */
+export async function removeDocument(companyId: string, documentUrl: string): Promise<void> {
+  await storage.deleteKnowledgeChunksByDocument(companyId, documentUrl);
+  invalidateIndex(companyId);
+}
+
+/**
+ * Per-document chunk counts (for the agent settings page)
+ */
+export async function getIndexedDocuments(companyId: string): Promise<Map<string, { documentName: string; chunks: number }>> {
+  const index = await getIndex(companyId);
+  const documents = new Map<string, { documentName: string; chunks: number }>();
+  for (const chunk of index.chunks) {
+    const entry = documents.get(chunk.documentUrl) || { documentName: chunk.documentName, chunks: 0 };
+    entry.chunks++;
+    documents.set(chunk.documentUrl, entry);
+  }
+  return documents;
+}
+
+/**
+ * Retrieve the most relevant chunks for a query using BM25
+ */
+export async function searchKnowledgeBase(companyId: string, query: string, limit: number = 3): Promise<KnowledgeSearchResult[]> {
+  const index = await getIndex(companyId);
+  if (index.chunks.length === 0) return [];
+
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0) return [];
+
+  const totalChunks = index.chunks.length;
+  const scored: KnowledgeSearchResult[] = [];
+
+  index.chunks.forEach((chunk, i) => {
+    const frequencies = index.termFrequencies[i];
+    let score = 0;
+
+    for (const term of queryTerms) {
+      const frequency = frequencies.get(term);
+      if (!frequency) continue;
+      const documentFrequency = index.documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (totalChunks - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const normalization = K1 * (1 - B + B * (index.lengths[i] / (index.averageLength || 1)));
+      score += idf * (frequency * (K1 + 1)) / (frequency + normalization);
+    }
+
+    if (score > 0) {
+      scored.push({ documentName: chunk.documentName, content: chunk.content, score });
+    }
+  });
+
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,175 @@
+/**
+ * LLM Providers
+ *
+ * Every model call goes through here. The provider is chosen per company
+ * (companies.aiProvider) or by LLM_PROVIDER, defaulting to OpenAI. The offline
+ * mock is only used outside production or when LLM_PROVIDER=mock; without a
+ * usable provider calls fail instead of answering with canned text. When a
+ * call fails it is retried once on LLM_FALLBACK_PROVIDER, if configured. Calls
+ * made for a company are checked against its monthly AI quota and metered (see
+ * aiUsage.ts).
+ */
+
+import { storage } from "../storage";
+import { assertAiQuota, recordAiUsage } from "../aiUsage";
+import { openaiProvider } from "./openaiProvider";
+import { mockProvider } from "./mockProvider";
+import { llmProviders } from "@shared/schema";
+import type { ChatCompletion, ChatCompletionCreateParamsNonStreaming, LLMProvider, ModelTask, ModerationResult } from "./types";
+
+export type { LLMProvider, ModelTask, ModerationResult } from "./types";
+
+export type CompletionParams = Omit<ChatCompletionCreateParamsNonStreaming, 'model' | 'stream'>;
+
+export interface CompletionOptions {
+  companyId?: string;
+  onDelta?: (text: string) => void; // stream text as it is generated
+}
+
+const PROVIDERS: Record<string, LLMProvider> = {
+  [openaiProvider.name]: openaiProvider,
+  [mockProvider.name]: mockProvider,
+};
+
+// Providers companies can pick (the mock is only chosen through the environment)
+const COMPANY_PROVIDERS: readonly string[] = llmProviders;
+
+function getProvider(name: string | null | undefined): LLMProvider | null {
+  return name ? PROVIDERS[name] || null : null;
+}
+
+function serverDefaultProvider(): LLMProvider | null {
+  const configured = getProvider(process.env.LLM_PROVIDER);
+  if (configured) return configured;
+  if (openaiProvider.isAvailable()) return openaiProvider;
+  return mockProvider.isAvailable() ? mockProvider : null;
+}
+
+function defaultProvider(): LLMProvider {
+  const provider = serverDefaultProvider();
+  if (!provider) {
+    throw new Error('No LLM provider configured: set OPENAI_API_KEY (or LLM_PROVIDER=mock to run the offline mock)');
+  }
+  return provider;
+}
+
+/**
+ * Fail at startup when no provider can serve the agent, rather than on the
+ * first customer message
+ */
+export function assertLLMConfigured(): void {
+  const provider = defaultProvider();
+  if (!provider.isAvailable()) {
+    throw new Error(`LLM provider "${provider.name}" is not configured`);
+  }
+}
+
+interface ProviderChoice {
+  provider: LLMProvider;
+  model: string;
+}
+
+/**
+ * Provider and model for a task, followed by the fallback (if any)
+ */
+async function resolveProviders(task: ModelTask, companyId?: string): Promise<ProviderChoice[]> {
+  const company = companyId ? await storage.getCompany(companyId) : undefined;
+  const companyProvider = company?.aiProvider && COMPANY_PROVIDERS.includes(company.aiProvider)
+    ? getProvider(company.aiProvider)
+    : null;
+  const provider = companyProvider || defaultProvider();
+
+  // The company's model only applies to the agent's chat and must belong to its provider
+  const model = task === 'chat' && company?.aiModel && provider.chatModels.includes(company.aiModel)
+    ? company.aiModel
+    : provider.defaultModels[task];
+
+  const choices: ProviderChoice[] = [{ provider, model }];
+  const fallback = getProvider(process.env.LLM_FALLBACK_PROVIDER);
+  if (fallback && fallback !== provider && fallback.isAvailable()) {
+    choices.push({ provider: fallback, model: fallback.defaultModels[task] });
+  }
+  return choices;
+}
+
+async function withFallback<T>(
+  task: ModelTask,
+  companyId: string | undefined,
+  call: (choice: ProviderChoice) => Promise<T>,
+): Promise<{ result: T; choice: ProviderChoice }> {
+  if (companyId) {
+    await assertAiQuota(companyId);
+  }
+
+  const choices = await resolveProviders(task, companyId);
+  let lastError: unknown;
+  for (const choice of choices) {
+    try {
+      return { result: await call(choice), choice };
+    } catch (error) {
+      lastError = error;
+      console.error(`LLM ${choice.provider.name}/${choice.model} failed (${task}):`, error);
+    }
+  }
+  throw lastError;
+}
+
+export async function createChatCompletion(
+  task: Exclude<ModelTask, 'transcription' | 'moderation'>,
+  params: CompletionParams,
+  options: CompletionOptions = {},
+): Promise<ChatCompletion> {
+  const { result: completion, choice } = await withFallback(task, options.companyId, ({ provider, model }) => options.onDelta
+    ? provider.streamChatCompletion({ ...params, model }, options.onDelta)
+    : provider.createChatCompletion({ ...params, model }));
+
+  if (options.companyId) {
+    await recordAiUsage({
+      companyId: options.companyId,
+      feature: task,
+      provider: choice.provider.name,
+      model: choice.model,
+      usage: completion.usage,
+    });
+  }
+  return completion;
+}
+
+// Transcribe a customer audio message (Portuguese)
+export async function transcribe(audio: Buffer, options: { companyId?: string } = {}): Promise<string> {
+  const { result: text, choice } = await withFallback('transcription', options.companyId, ({ provider, model }) =>
+    provider.transcribe(audio, model, 'pt'));
+
+  if (options.companyId) {
+    await recordAiUsage({
+      companyId: options.companyId,
+      feature: 'transcription',
+      provider: choice.provider.name,
+      model: choice.model,
+      audioBytes: audio.length,
+    });
+  }
+  return text;
+}
+
+// Classify text against the provider's content policy (free of charge, so not metered)
+export async function moderate(text: string, options: { companyId?: string } = {}): Promise<ModerationResult> {
+  const { result } = await withFallback('moderation', options.companyId, ({ provider, model }) =>
+    provider.moderate(text, model));
+  return result;
+}
+
+/**
+ * Providers and chat models offered in the company settings
+ */
+export function listProviders() {
+  const serverDefault = serverDefaultProvider();
+  return COMPANY_PROVIDERS.map(name => PROVIDERS[name]).map(provider => ({
+    name: provider.name,
+    label: provider.label,
+    available: provider.isAvailable(),
+    isDefault: provider === serverDefault,
+    chatModels: provider.chatModels,
+    defaultModel: provider.defaultModels.chat,
+  }));
+}
@@ -0,0 +1,192 @@
+/**
+ * Mock LLM Provider
+ *
+ * Deterministic stand-in for offline development and tests. Picks tools with
+ * simple keyword rules on the last customer message (add_to_cart when a
+ * catalog product is named, get_address_by_cep for a CEP, calculate_shipping
+ * for "frete" with a CEP, apply_coupon for "cupom CODE", create_order on
+ * "finalizar", ...) and answers tool results
+ * with empty text so the agent uses each tool's fallback reply. Never used in
+ * production unless LLM_PROVIDER=mock is set explicitly.
+ */
+
+import { randomUUID } from "crypto";
+import type { ChatCompletionMessageParam, ChatCompletionMessageToolCall } from "openai/resources/chat/completions";
+import type { ChatCompletion, ChatCompletionCreateParamsNonStreaming, LLMProvider } from "./types";
+
+type ToolCallPlan = { name: string; args: Record<string, unknown> };
+
+// "What do you sell?" - answered with a few catalog products instead of a search
+const CATALOG_QUESTION = /produto|catalogo|cardapio|opcoes/;
+
+// Offensive terms flagged by the mock moderation
+const MODERATION_TERMS = /\b(idiota|imbecil|otario|vou te matar)\b/;
+
+function normalize(text: string): string {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function textOf(message: ChatCompletionMessageParam | undefined): string {
+  if (!message?.content) return '';
+  if (typeof message.content === 'string') return message.content;
+  return message.content.map(part => ('text' in part ? part.text : '')).join(' ');
+}
+
+// Catalog and cart lines in the agent prompt look like "[Product] - R$ 10.00"
+function catalogProductNames(messages: ChatCompletionMessageParam[]): string[] {
+  const system = textOf(messages.find(m => m.role === 'system'));
+  return Array.from(new Set(Array.from(system.matchAll(/\[([^\]]+)\] - R\$/g)).map(m => m[1])));
+}
+
+function planToolCall(text: string, messages: ChatCompletionMessageParam[], available: Set<string>): ToolCallPlan | null {
+  const normalized = normalize(text);
+  const product = catalogProductNames(messages).find(name => normalized.includes(normalize(name)));
+  const cep = text.match(/\b(\d{5})-?(\d{3})\b/);
+  const coupon = text.match(/\bcupom\s+([A-Za-z0-9_-]{3,30})\b/i);
+
+  const plans: Array<ToolCallPlan | null> = [
+    /atendente|humano|pessoa real/.test(normalized)
+      ? { name: 'transfer_to_human', args: { reason: 'cliente solicitou', summary: text.substring(0, 200) } }
+      : null,
+    /finalizar|fechar (o )?pedido/.test(normalized)
+      ? {
+          name: 'create_order',
+          args: {
+            customerName: 'Cliente Teste',
+            customerPhone: text.match(/\d{10,11}/)?.[0] || '11999999999',
+            shippingAddress: { street: 'Rua Exemplo, 100', neighborhood: 'Centro', city: 'São Paulo', state: 'SP', zip: cep ? cep[1] + cep[2] : '01001000' },
+            paymentMethod: 'pix',
+          },
+        }
+      : null,
+    cep && /frete|entrega/.test(normalized) ? { name: 'calculate_shipping', args: { cep: cep[1] + cep[2] } } : null,
+    cep ? { name: 'get_address_by_cep', args: { cep: cep[1] + cep[2] } } : null,
+    coupon ? { name: 'apply_coupon', args: { code: coupon[1] } } : null,
+    product && /tira|remove|desist/.test(normalized)
+      ? { name: 'remove_from_cart', args: { productId: product } }
+      : null,
+    product && /quero|adiciona|compra|coloca|me (da|manda)/.test(normalized)
+      ? { name: 'add_to_cart', args: { items: [{ productId: product, quantity: Number(normalized.match(/\b(\d{1,3})\b/)?.[1] || 1) }] } }
+      : null,
+    !product && /procur|busc|tem |voces tem/.test(normalized) && !CATALOG_QUESTION.test(normalized)
+      ? { name: 'search_products', args: { query: text } }
+      : null,
+  ];
+
+  return plans.find(plan => plan && available.has(plan.name)) || null;
+}
+
+function replyText(text: string, messages: ChatCompletionMessageParam[]): string {
+  const normalized = normalize(text);
+  const products = catalogProductNames(messages);
+  const isFirstMessage = messages.filter(m => m.role === 'user').length <= 1;
+
+  if (products.length > 0 && CATALOG_QUESTION.test(normalized)) {
+    return `Temos ${products.slice(0, 3).map(name => `[${name}]`).join(', ')}. Qual você quer?`;
+  }
+  return isFirstMessage
+    ? 'Olá! Sou o assistente de testes (modo offline). Como posso ajudar?'
+    : `Entendi: "${text.substring(0, 100)}". Posso ajudar com mais alguma coisa?`;
+}
+
+function mockJson(messages: ChatCompletionMessageParam[]): Record<string, unknown> {
+  const isSystem = (marker: string) => messages.some(m => m.role === 'system' && textOf(m).includes(marker));
+  if (isSystem('conversation analyzer')) {
+    return { intent: 'browsing', sentiment: 0, complexity: 30, suggestedAgent: 'seller' };
+  }
+  if (isSystem('human operator')) {
+    return {
+      suggestions: [
+        'Olá! Já estou verificando isso para você.',
+        'Entendi. Pode me passar mais detalhes para eu te ajudar melhor?',
+        'Obrigado pela paciência! Vou resolver isso agora mesmo.',
+      ],
+    };
+  }
+  return { products: [] };
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function buildCompletion(params: ChatCompletionCreateParamsNonStreaming): ChatCompletion {
+  const messages = params.messages;
+  const last = messages[messages.length - 1];
+  const available = new Set((params.tools || []).flatMap(tool => (tool.type === 'function' ? [tool.function.name] : [])));
+
+  let content = '';
+  let toolCalls: ChatCompletionMessageToolCall[] | undefined;
+
+  if (params.response_format?.type === 'json_object') {
+    content = JSON.stringify(mockJson(messages));
+  } else if (last?.role === 'tool') {
+    content = ''; // the agent falls back to the tool's own reply
+  } else {
+    const text = textOf(last);
+    const plan = planToolCall(text, messages, available);
+    if (plan) {
+      toolCalls = [{ id: `call_${randomUUID()}`, type: 'function', function: { name: plan.name, arguments: JSON.stringify(plan.args) } }];
+    } else {
+      content = replyText(text, messages);
+    }
+  }
+
+  const promptTokens = estimateTokens(JSON.stringify(messages));
+  const completionTokens = estimateTokens(content + JSON.stringify(toolCalls || ''));
+
+  return {
+    id: `mock-${randomUUID()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: params.model,
+    choices: [{
+      index: 0,
+      finish_reason: toolCalls ? 'tool_calls' : 'stop',
+      logprobs: null,
+      message: { role: 'assistant', content: content || null, refusal: null, ...(toolCalls && { tool_calls: toolCalls }) },
+    }],
+    usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+  };
+}
+
+export const mockProvider: LLMProvider = {
+  name: 'mock',
+  label: 'Local (simulado)',
+  chatModels: ['mock-1'],
+  defaultModels: {
+    chat: 'mock-1',
+    analysis: 'mock-1',
+    vision: 'mock-1',
+    extraction: 'mock-1',
+    description: 'mock-1',
+    transcription: 'mock-1',
+    moderation: 'mock-1',
+  },
+
+  isAvailable() {
+    return process.env.NODE_ENV !== 'production' || process.env.LLM_PROVIDER === 'mock';
+  },
+
+  async createChatCompletion(params) {
+    return buildCompletion(params);
+  },
+
+  async streamChatCompletion(params, onDelta) {
+    const completion = buildCompletion(params);
+    const content = completion.choices[0].message.content || '';
+    for (const word of content.match(/\S+\s*/g) || []) {
+      onDelta(word);
+    }
+    return completion;
+  },
+
+  async transcribe(audio) {
+    return `Áudio recebido (${audio.length} bytes)`;
+  },
+
+  async moderate(text) {
+    const flagged = MODERATION_TERMS.test(normalize(text));
+    return { flagged, categories: flagged ? ['harassment'] : [] };
+  },
+};
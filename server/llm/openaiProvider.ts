@@ -0,0 +1,62 @@
+import OpenAI, { toFile } from "openai";
+import type { LLMProvider } from "./types";
+
+let client: OpenAI | null = null;
+
+// Created on first use so the app boots without an API key (mock provider)
+function getClient(): OpenAI {
+  if (!client) {
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return client;
+}
+
+export const openaiProvider: LLMProvider = {
+  name: 'openai',
+  label: 'OpenAI',
+  chatModels: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1'],
+  defaultModels: {
+    chat: 'gpt-4o-mini',
+    analysis: 'gpt-4o-mini',
+    vision: 'gpt-4o',
+    extraction: 'gpt-4o-mini',
+    description: 'gpt-4o-mini',
+    transcription: 'whisper-1',
+    moderation: 'omni-moderation-latest',
+  },
+
+  isAvailable() {
+    return !!process.env.OPENAI_API_KEY;
+  },
+
+  createChatCompletion(params) {
+    return getClient().chat.completions.create(params);
+  },
+
+  async streamChatCompletion(params, onDelta) {
+    const { stream: _stream, ...streamParams } = params;
+    const stream = getClient().chat.completions.stream({ ...streamParams, stream_options: { include_usage: true } });
+    stream.on('content', (delta) => onDelta(delta));
+    return stream.finalChatCompletion();
+  },
+
+  async transcribe(audio, model, language) {
+    const transcription = await getClient().audio.transcriptions.create({
+      file: await toFile(audio, 'audio.webm'),
+      model,
+      language,
+    });
+    return transcription.text;
+  },
+
+  async moderate(text, model) {
+    const moderation = await getClient().moderations.create({ model, input: text });
+    const result = moderation.results[0];
+    return {
+      flagged: !!result?.flagged,
+      categories: result
+        ? Object.entries(result.categories).filter(([, flagged]) => flagged).map(([category]) => category)
+        : [],
+    };
+  },
+};
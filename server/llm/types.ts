@@ -0,0 +1,24 @@
+import type { ChatCompletion, ChatCompletionCreateParamsNonStreaming } from "openai/resources/chat/completions";
+
+// Every provider speaks the OpenAI chat completion format (messages, tools, tool_calls)
+export type { ChatCompletion, ChatCompletionCreateParamsNonStreaming };
+
+// What a model is used for - each provider has a default model per task
+export type ModelTask = 'chat' | 'analysis' | 'vision' | 'extraction' | 'description' | 'transcription' | 'moderation';
+
+export interface ModerationResult {
+  flagged: boolean;
+  categories: string[]; // e.g. "harassment", "violence"
+}
+
+export interface LLMProvider {
+  name: string;
+  label: string;
+  chatModels: string[]; // selectable per company for the agent
+  defaultModels: Record<ModelTask, string>;
+  isAvailable(): boolean;
+  createChatCompletion(params: ChatCompletionCreateParamsNonStreaming): Promise<ChatCompletion>;
+  streamChatCompletion(params: ChatCompletionCreateParamsNonStreaming, onDelta: (text: string) => void): Promise<ChatCompletion>;
+  transcribe(audio: Buffer, model: string, language: string): Promise<string>;
+  moderate(text: string, model: string): Promise<ModerationResult>;
+}
@@ -112,6 +112,17 @@ export class ObjectStorageService {
     
     return `/public/${filename}`;
   }
+
+  // Read back a file previously saved with uploadToPublicStorage
+  async downloadFromPublicStorage(publicUrl: string): Promise<Buffer | null> {
+    const filePath = publicUrl.replace(/^\/public\//, "");
+    const file = await this.searchPublicObject(filePath);
+    if (!file) {
+      return null;
+    }
+    const [contents] = await file.download();
+    return contents;
+  }
 }
 
 function parseObjectPath(path: string): {
@@ -0,0 +1,258 @@
+/**
+ * Outbound Webhooks
+ *
+ * Delivers outbound messages and order events to the webhook subscriptions
+ * configured by each company (Omni.AI → WhatsApp/Instagram bridges, ERPs, etc.).
+ *
+ * - Payloads are signed with HMAC-SHA256 (`X-Signature: sha256=<hash>`)
+ * - Every attempt is recorded in `webhook_deliveries`
+ * - Failed deliveries are retried with exponential backoff and can be replayed
+ *   from the dashboard
+ * - Only HTTPS URLs on public addresses are called (see utils/outboundUrl)
+ */
+
+import crypto from "crypto";
+import { storage } from "./storage";
+import { postToPublicUrl } from "./utils/outboundUrl";
+import type { Conversation, Message, Order, WebhookDelivery, WebhookEvent } from "@shared/schema";
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 30 * 1000; // 30s, 1min, 2min, 4min
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const RETRY_POLL_INTERVAL_MS = 15 * 1000;
+// A claimed delivery is due again after this, so a crash mid-send still gets retried
+const CLAIM_LEASE_MS = 6 * REQUEST_TIMEOUT_MS;
+
+/**
+ * Sign a serialized payload with the subscription secret
+ */
+export function signPayload(body: string, secret: string): string {
+  const hash = crypto.createHmac('sha256', secret).update(body).digest('hex');
+  return `sha256=${hash}`;
+}
+
+/**
+ * Generate a new signing secret for a subscription
+ */
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Queue an event for every active subscription of the company listening to it.
+ * Never throws - webhook failures must not break the originating request.
+ */
+export async function dispatchWebhookEvent(
+  companyId: string,
+  event: WebhookEvent,
+  payload: Record<string, unknown>,
+  channel?: string | null,
+): Promise<void> {
+  try {
+    const subscriptions = await storage.getWebhookSubscriptionsByCompany(companyId);
+    const targets = subscriptions.filter(s =>
+      s.isActive &&
+      s.events.includes(event) &&
+      (!channel || !s.channels || s.channels.length === 0 || s.channels.includes(channel))
+    );
+
+    for (const subscription of targets) {
+      const delivery = await storage.createWebhookDelivery({
+        subscriptionId: subscription.id,
+        companyId,
+        event,
+        payload: { event, ...payload, timestamp: new Date().toISOString() },
+        status: 'pending',
+        attempts: 0,
+        // Safety net: picked up by the retry worker if the first attempt never runs
+        nextAttemptAt: new Date(Date.now() + BASE_RETRY_DELAY_MS),
+      });
+
+      attemptDelivery(delivery.id).catch(error => {
+        console.error('Error delivering webhook:', error);
+      });
+    }
+  } catch (error) {
+    console.error('Error dispatching webhook event:', error);
+  }
+}
+
+/**
+ * Send a pending delivery and record the outcome, scheduling a retry on failure
+ */
+async function attemptDelivery(deliveryId: string): Promise<WebhookDelivery | undefined> {
+  const delivery = await storage.getWebhookDelivery(deliveryId);
+  if (!delivery || delivery.status !== 'pending') {
+    return delivery;
+  }
+
+  const subscription = await storage.getWebhookSubscription(delivery.subscriptionId, delivery.companyId);
+  if (!subscription) {
+    return storage.updateWebhookDelivery(delivery.id, {
+      status: 'failed',
+      nextAttemptAt: null,
+      lastError: 'Assinatura não encontrada',
+    });
+  }
+
+  // Claim the delivery with a lease so the retry worker doesn't send it concurrently
+  const claimed = await storage.claimWebhookDelivery(delivery.id, delivery.attempts, new Date(Date.now() + CLAIM_LEASE_MS));
+  if (!claimed) {
+    return storage.getWebhookDelivery(delivery.id);
+  }
+  const attempts = claimed.attempts;
+
+  const body = JSON.stringify(delivery.payload);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    responseStatus = await postToPublicUrl(subscription.url, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Signature': signPayload(body, subscription.secret),
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+      },
+      body,
+      timeoutMs: REQUEST_TIMEOUT_MS,
+    });
+    if (responseStatus < 200 || responseStatus >= 300) {
+      error = `HTTP ${responseStatus}`;
+    }
+  } catch (fetchError: any) {
+    error = fetchError?.name === 'AbortError' ? 'Timeout' : (fetchError?.message || 'Erro de rede');
+  }
+
+  if (!error) {
+    return storage.updateWebhookDelivery(delivery.id, {
+      status: 'success',
+      responseStatus,
+      lastError: null,
+      nextAttemptAt: null,
+      deliveredAt: new Date(),
+    });
+  }
+
+  if (attempts >= MAX_ATTEMPTS) {
+    console.error(`Webhook delivery ${delivery.id} failed after ${attempts} attempts:`, error);
+    return storage.updateWebhookDelivery(delivery.id, {
+      status: 'failed',
+      responseStatus,
+      lastError: error,
+      nextAttemptAt: null,
+    });
+  }
+
+  const delay = BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+  return storage.updateWebhookDelivery(delivery.id, {
+    responseStatus,
+    lastError: error,
+    nextAttemptAt: new Date(Date.now() + delay),
+  });
+}
+
+/**
+ * Re-send a delivery (usually a failed one) with a fresh retry budget
+ */
+export async function replayWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | undefined> {
+  await storage.updateWebhookDelivery(deliveryId, {
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: null,
+    lastError: null,
+  });
+  return attemptDelivery(deliveryId);
+}
+
+/**
+ * Poll for deliveries whose retry is due
+ */
+export function startWebhookRetryWorker(): void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const due = await storage.getDueWebhookDeliveries();
+      for (const delivery of due) {
+        await attemptDelivery(delivery.id);
+      }
+    } catch (error) {
+      console.error('Webhook retry worker error:', error);
+    } finally {
+      running = false;
+    }
+  }, RETRY_POLL_INTERVAL_MS);
+
+  timer.unref();
+}
+
+/**
+ * Build the outbound message payload documented in WEBHOOK_INTEGRATION.md
+ */
+function buildMessagePayload(conversation: Conversation, message: Message, productMessages: Message[]) {
+  const images = productMessages.map(m => ({
+    url: (m.metadata as { productImage: string }).productImage,
+    caption: m.content,
+  }));
+
+  return {
+    conversationId: conversation.id,
+    externalConversationId: conversation.externalConversationId,
+    channel: conversation.channel,
+    message: {
+      id: message.id,
+      role: message.role,
+      type: 'text',
+      content: message.content,
+      operatorName: message.operatorName,
+      images,
+      metadata: message.metadata,
+      timestamp: message.createdAt.toISOString(),
+    },
+  };
+}
+
+/**
+ * Notify subscribers about a new outbound message (assistant or operator)
+ */
+export async function notifyOutboundMessage(
+  conversation: Conversation,
+  message: Message,
+  productMessages: Message[] = [],
+): Promise<void> {
+  await dispatchWebhookEvent(
+    conversation.companyId,
+    'message.created',
+    buildMessagePayload(conversation, message, productMessages),
+    conversation.channel,
+  );
+}
+
+/**
+ * Notify subscribers about an order event
+ */
+export async function notifyOrderEvent(
+  event: 'order.created' | 'order.status_updated',
+  order: Order,
+  previousStatus?: string,
+): Promise<void> {
+  const conversation = order.conversationId
+    ? await storage.getConversation(order.conversationId)
+    : undefined;
+
+  await dispatchWebhookEvent(
+    order.companyId,
+    event,
+    {
+      conversationId: order.conversationId,
+      externalConversationId: conversation?.externalConversationId ?? null,
+      channel: conversation?.channel ?? null,
+      order,
+      ...(previousStatus ? { previousStatus } : {}),
+    },
+    conversation?.channel,
+  );
+}
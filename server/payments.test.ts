@@ -0,0 +1,41 @@
+import { test, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import type { Company, Order } from "@shared/schema";
+import { PaymentError, getPaymentGateway } from "./payments";
+
+const order = { id: 'o1', total: 5000 } as Order;
+const company = { id: 'c1' } as Company;
+const card = { number: '4111 1111 1111 1111', holderName: 'Maria Silva', expMonth: 12, expYear: 2099, cvv: '123' };
+
+test("the simulator only charges card tokens it issued, once", async () => {
+  const simulator = getPaymentGateway('simulator')!;
+  const { token } = simulator.tokenizeCard!(card);
+
+  const charge = await simulator.createCardCharge(order, company, token);
+  assert.equal(charge.status, 'paid');
+  assert.equal(charge.cardLast4, '1111');
+
+  await assert.rejects(simulator.createCardCharge(order, company, token), PaymentError);
+  await assert.rejects(simulator.createCardCharge(order, company, 'tok_sim_visa_4242_0000000000000000'), PaymentError);
+});
+
+// Set environment variables for the rest of the test
+function setEnv(t: TestContext, values: Record<string, string | undefined>) {
+  for (const [name, value] of Object.entries(values)) {
+    const previous = process.env[name];
+    t.after(() => {
+      if (previous === undefined) delete process.env[name];
+      else process.env[name] = previous;
+    });
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+}
+
+test("the simulator is only used in production when explicitly selected", (t) => {
+  setEnv(t, { NODE_ENV: 'production', PAYMENT_GATEWAY: undefined });
+  assert.equal(getPaymentGateway(), undefined);
+
+  process.env.PAYMENT_GATEWAY = 'simulator';
+  assert.equal(getPaymentGateway()?.name, 'simulator');
+});
@@ -0,0 +1,545 @@
+/**
+ * Payments
+ *
+ * Pluggable payment gateway layer. Each gateway adapter creates charges
+ * (PIX, boleto, tokenized card), refunds them and parses its own
+ * confirmation webhooks; the rest of the app only deals with `payments`
+ * rows, the per-order transaction log and the order payment status.
+ *
+ * The built-in "simulator" gateway generates real PIX BR Codes and boleto
+ * barcodes locally, approves sandbox test cards and, when a payment is
+ * simulated from the dashboard, calls our own webhook endpoint exactly like
+ * a real gateway would. In production it is only used when PAYMENT_GATEWAY=simulator
+ * is set explicitly.
+ */
+
+import crypto from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import { storage } from "./storage";
+import { signPayload, notifyOrderEvent, notifyOutboundMessage } from "./outboundWebhooks";
+import { publishMessages } from "./realtime";
+import { buildPixBrCode } from "./utils/pixBrCode";
+import { buildBoleto } from "./utils/boleto";
+import type { Company, Order, Payment, PaymentStatus, InsertPaymentTransaction } from "@shared/schema";
+
+const PIX_EXPIRATION_MINUTES = 30;
+const BOLETO_DUE_DAYS = 3;
+const EXPIRY_POLL_INTERVAL_MS = 60 * 1000;
+
+const METHOD_LABELS: Record<string, string> = {
+  pix: 'PIX',
+  boleto: 'boleto',
+  card: 'cartão',
+};
+
+export class PaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentError";
+    Object.setPrototypeOf(this, PaymentError.prototype);
+  }
+}
+
+export interface ChargeResult {
+  externalId: string;
+  status: Extract<PaymentStatus, 'awaiting_payment' | 'paid' | 'failed'>;
+  pixCode?: string;
+  boletoLine?: string;
+  boletoBarcode?: string;
+  cardBrand?: string;
+  cardLast4?: string;
+  failureReason?: string;
+  expiresAt?: Date;
+}
+
+export interface CardDetails {
+  number: string;
+  holderName: string;
+  expMonth: number;
+  expYear: number;
+  cvv: string;
+}
+
+export interface CardToken {
+  token: string;
+  brand: string;
+  last4: string;
+}
+
+export interface GatewayWebhookEvent {
+  externalId: string;
+  status: PaymentStatus;
+  paidAt?: Date;
+}
+
+export interface PaymentGateway {
+  name: string;
+  createPixCharge(order: Order, company: Company): Promise<ChargeResult>;
+  createBoletoCharge(order: Order, company: Company): Promise<ChargeResult>;
+  // Card data never reaches this server - only the gateway token
+  createCardCharge(order: Order, company: Company, cardToken: string): Promise<ChargeResult>;
+  // Returns the refund transaction ID; throws when the gateway rejects it
+  refund(payment: Payment): Promise<string>;
+  // Cancels a charge that was not paid yet
+  cancelCharge(payment: Payment): Promise<void>;
+  // Returns null when the webhook signature is invalid
+  parseWebhook(rawBody: string, headers: IncomingHttpHeaders): GatewayWebhookEvent | null;
+  // Sandbox gateways only: card tokenization and on-demand payment confirmation
+  tokenizeCard?(card: CardDetails): CardToken;
+  simulatePayment?(payment: Payment): Promise<void>;
+}
+
+function getWebhookSecret(): string {
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error('PAYMENT_WEBHOOK_SECRET is required to sign and verify payment webhooks');
+  }
+  return secret;
+}
+
+function randomDigits(length: number): string {
+  return Array.from({ length }, () => crypto.randomInt(10)).join('');
+}
+
+function isValidCardNumber(number: string): boolean {
+  if (!/^\d{13,19}$/.test(number)) return false;
+  // Luhn
+  let sum = 0;
+  for (let i = 0; i < number.length; i++) {
+    let digit = Number(number[number.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function detectCardBrand(number: string): string {
+  if (/^4/.test(number)) return 'visa';
+  if (/^(5[1-5]|2[2-7])/.test(number)) return 'mastercard';
+  if (/^3[47]/.test(number)) return 'amex';
+  if (/^(4011|4312|4389|4514|4576|5041|5066|5067|509|6277|6362|6363|650|6516|6550)/.test(number)) return 'elo';
+  if (/^(606282|3841)/.test(number)) return 'hipercard';
+  return 'unknown';
+}
+
+// Sandbox test cards ending in 0002 are declined
+const SIMULATOR_DECLINED_LAST4 = '0002';
+// Sandbox bank code (not a real bank)
+const SIMULATOR_BANK_CODE = '000';
+const SIMULATOR_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+// Cards tokenized by the simulator, until charged or expired. Charges only accept
+// tokens issued here, so a made-up token can't pass as an approved card.
+const simulatorCardTokens = new Map<string, { brand: string; last4: string; expiresAt: number }>();
+
+function isSimulatorAllowed(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.PAYMENT_GATEWAY === 'simulator';
+}
+
+const simulatorGateway: PaymentGateway = {
+  name: 'simulator',
+
+  async createPixCharge(order, company) {
+    const externalId = `sim_${crypto.randomBytes(12).toString('hex')}`;
+    const pixCode = buildPixBrCode({
+      key: company.pixKey || company.cpfCnpj.replace(/\D/g, ''),
+      merchantName: company.name,
+      merchantCity: company.pixMerchantCity || 'BRASIL',
+      amount: order.total,
+      txid: `${order.confirmationCode || ''}${externalId.slice(-12)}`,
+      description: `Pedido ${order.confirmationCode}`,
+    });
+    return {
+      externalId,
+      status: 'awaiting_payment',
+      pixCode,
+      expiresAt: new Date(Date.now() + PIX_EXPIRATION_MINUTES * 60 * 1000),
+    };
+  },
+
+  async createBoletoCharge(order) {
+    const externalId = `sim_${crypto.randomBytes(12).toString('hex')}`;
+    const dueDate = new Date(Date.now() + BOLETO_DUE_DAYS * 24 * 60 * 60 * 1000);
+    dueDate.setHours(23, 59, 59, 999);
+
+    const boleto = buildBoleto({
+      bankCode: SIMULATOR_BANK_CODE,
+      amount: order.total,
+      dueDate,
+      freeField: randomDigits(25),
+    });
+    return {
+      externalId,
+      status: 'awaiting_payment',
+      boletoLine: boleto.digitableLine,
+      boletoBarcode: boleto.barcode,
+      expiresAt: dueDate,
+    };
+  },
+
+  async createCardCharge(_order, _company, cardToken) {
+    const card = simulatorCardTokens.get(cardToken);
+    simulatorCardTokens.delete(cardToken); // single use
+    if (!card || card.expiresAt < Date.now()) {
+      throw new PaymentError('Token de cartão inválido');
+    }
+    const { brand, last4 } = card;
+
+    const externalId = `sim_${crypto.randomBytes(12).toString('hex')}`;
+    const declined = last4 === SIMULATOR_DECLINED_LAST4;
+    return {
+      externalId,
+      status: declined ? 'failed' : 'paid',
+      cardBrand: brand,
+      cardLast4: last4,
+      failureReason: declined ? 'Cartão recusado pelo emissor' : undefined,
+    };
+  },
+
+  async refund() {
+    return `sim_rf_${crypto.randomBytes(12).toString('hex')}`;
+  },
+
+  async cancelCharge() {
+    // Nothing to do - simulated charges only exist locally
+  },
+
+  parseWebhook(rawBody, headers) {
+    const signature = headers['x-signature'];
+    if (typeof signature !== 'string') return null;
+
+    const expected = signPayload(rawBody, getWebhookSecret());
+    if (signature.length !== expected.length ||
+        !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      return null;
+    }
+
+    const body = JSON.parse(rawBody);
+    return {
+      externalId: body.externalId,
+      status: body.status,
+      paidAt: body.paidAt ? new Date(body.paidAt) : undefined,
+    };
+  },
+
+  tokenizeCard(card) {
+    const number = card.number.replace(/\D/g, '');
+    if (!isValidCardNumber(number)) {
+      throw new PaymentError('Número de cartão inválido');
+    }
+    const now = new Date();
+    const expYear = card.expYear < 100 ? 2000 + card.expYear : card.expYear;
+    if (expYear < now.getFullYear() || (expYear === now.getFullYear() && card.expMonth < now.getMonth() + 1)) {
+      throw new PaymentError('Cartão vencido');
+    }
+
+    simulatorCardTokens.forEach((issued, token) => {
+      if (issued.expiresAt < now.getTime()) simulatorCardTokens.delete(token);
+    });
+
+    const brand = detectCardBrand(number);
+    const last4 = number.slice(-4);
+    const token = `tok_sim_${crypto.randomBytes(16).toString('hex')}`;
+    simulatorCardTokens.set(token, { brand, last4, expiresAt: now.getTime() + SIMULATOR_TOKEN_TTL_MS });
+    return { token, brand, last4 };
+  },
+
+  // Calls our own webhook endpoint, signed like a real gateway notification
+  async simulatePayment(payment) {
+    const body = JSON.stringify({
+      event: 'payment.updated',
+      externalId: payment.externalId,
+      status: 'paid',
+      paidAt: new Date().toISOString(),
+    });
+    const port = process.env.PORT || '5000';
+
+    const response = await fetch(`http://127.0.0.1:${port}/api/payments/webhook/${this.name}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Signature': signPayload(body, getWebhookSecret()),
+      },
+      body,
+    });
+    if (!response.ok) {
+      throw new Error(`Simulated webhook failed with HTTP ${response.status}`);
+    }
+  },
+};
+
+const gateways: Record<string, PaymentGateway> = {
+  [simulatorGateway.name]: simulatorGateway,
+};
+
+export function getPaymentGateway(name: string = process.env.PAYMENT_GATEWAY || 'simulator'): PaymentGateway | undefined {
+  if (name === simulatorGateway.name && !isSimulatorAllowed()) return undefined;
+  return gateways[name];
+}
+
+/**
+ * Fail at startup when payment webhooks can't be verified, rather than on the
+ * first gateway notification
+ */
+export function assertPaymentsConfigured(): void {
+  getWebhookSecret();
+  const name = process.env.PAYMENT_GATEWAY || simulatorGateway.name;
+  if (!getPaymentGateway(name)) {
+    throw new Error(name === simulatorGateway.name
+      ? 'The payment simulator is disabled in production: configure a gateway or set PAYMENT_GATEWAY=simulator'
+      : `Unknown payment gateway "${name}"`);
+  }
+}
+
+async function recordTransaction(
+  payment: Payment,
+  type: string,
+  data: Partial<Pick<InsertPaymentTransaction, 'status' | 'externalId' | 'errorMessage'>> = {},
+): Promise<void> {
+  await storage.createPaymentTransaction({
+    companyId: payment.companyId,
+    orderId: payment.orderId,
+    paymentId: payment.id,
+    type,
+    status: data.status || 'succeeded',
+    amount: payment.amount,
+    gateway: payment.gateway,
+    externalId: data.externalId ?? payment.externalId,
+    errorMessage: data.errorMessage || null,
+  });
+}
+
+/**
+ * Send an automated message to the order's conversation (and outbound webhooks)
+ */
+async function notifyConversation(order: Order, content: string, metadata: Record<string, unknown>): Promise<void> {
+  if (!order.conversationId) return;
+
+  const conversation = await storage.getConversation(order.conversationId);
+  if (!conversation) return;
+
+  const message = await storage.createMessage({
+    conversationId: conversation.id,
+    role: 'assistant',
+    content,
+    metadata: { ...metadata, orderId: order.id, automated: true },
+  });
+  publishMessages(conversation, message);
+  await notifyOutboundMessage(conversation, message);
+}
+
+async function confirmPayment(payment: Payment, paidAt: Date): Promise<void> {
+  await storage.updatePayment(payment.id, { status: 'paid', paidAt });
+  await storage.updateOrderPayment(payment.orderId, { paymentStatus: 'paid', paidAt });
+  await recordTransaction(payment, 'capture');
+
+  const order = await storage.getOrder(payment.orderId, payment.companyId);
+  if (!order) return;
+
+  const label = METHOD_LABELS[payment.method] || payment.method;
+
+  // A paid order is automatically confirmed
+  if (order.status === 'pending') {
+    const confirmed = await storage.updateOrderStatus(order.id, order.companyId, 'confirmed', { name: 'Pagamento' }, `Pagamento via ${label} confirmado`);
+    if (confirmed) {
+      await notifyOrderEvent('order.status_updated', confirmed, order.status);
+    }
+  }
+
+  await notifyConversation(
+    order,
+    `Pagamento confirmado! ✅ Recebemos R$ ${(payment.amount / 100).toFixed(2)} do pedido #${order.confirmationCode}. Já estamos preparando tudo para você.`,
+    { type: 'payment_update', paymentStatus: 'paid' },
+  );
+}
+
+async function expirePayment(payment: Payment): Promise<void> {
+  await storage.updatePayment(payment.id, { status: 'expired' });
+  await storage.updateOrderPayment(payment.orderId, { paymentStatus: 'expired' });
+  await recordTransaction(payment, 'expiration');
+
+  const order = await storage.getOrder(payment.orderId, payment.companyId);
+  if (!order || order.status !== 'pending') return;
+
+  const label = METHOD_LABELS[payment.method] || payment.method;
+
+  // Unpaid order: cancel it so the reserved stock is released
+  const cancelled = await storage.updateOrderStatus(order.id, order.companyId, 'cancelled', { name: 'Pagamento' }, `Pagamento via ${label} expirado`);
+  if (cancelled) {
+    await notifyOrderEvent('order.status_updated', cancelled, order.status);
+  }
+
+  await notifyConversation(
+    order,
+    `O prazo para pagamento do ${label} do pedido #${order.confirmationCode} expirou e o pedido foi cancelado. Se ainda quiser os produtos, é só me chamar!`,
+    { type: 'payment_update', paymentStatus: 'expired' },
+  );
+}
+
+/**
+ * Start the payment step for a new order.
+ * Returns null for methods paid on delivery (cash, or card without a token).
+ * Card charges are settled immediately - check the returned status for declines.
+ */
+export async function startOrderPayment(order: Order, options: { cardToken?: string } = {}): Promise<Payment | null> {
+  const method = order.paymentMethod;
+  if (method !== 'pix' && method !== 'boleto' && !(method === 'card' && options.cardToken)) {
+    return null;
+  }
+
+  const gateway = getPaymentGateway();
+  const company = await storage.getCompany(order.companyId);
+  if (!gateway || !company) {
+    throw new Error('Gateway de pagamento não configurado');
+  }
+
+  const charge = method === 'pix'
+    ? await gateway.createPixCharge(order, company)
+    : method === 'boleto'
+      ? await gateway.createBoletoCharge(order, company)
+      : await gateway.createCardCharge(order, company, options.cardToken!);
+
+  const payment = await storage.createPayment({
+    companyId: order.companyId,
+    orderId: order.id,
+    method,
+    gateway: gateway.name,
+    externalId: charge.externalId,
+    status: charge.status === 'failed' ? 'failed' : 'awaiting_payment',
+    amount: order.total,
+    pixCode: charge.pixCode || null,
+    boletoLine: charge.boletoLine || null,
+    boletoBarcode: charge.boletoBarcode || null,
+    cardBrand: charge.cardBrand || null,
+    cardLast4: charge.cardLast4 || null,
+    failureReason: charge.failureReason || null,
+    expiresAt: charge.expiresAt || null,
+  });
+  await recordTransaction(payment, 'charge', {
+    status: charge.status === 'failed' ? 'failed' : 'succeeded',
+    errorMessage: charge.failureReason,
+  });
+  await storage.updateOrderPayment(order.id, { paymentStatus: payment.status });
+
+  // Card charges are captured right away
+  if (charge.status === 'paid') {
+    await confirmPayment(payment, new Date());
+    return (await storage.getPayment(payment.id)) || payment;
+  }
+
+  return payment;
+}
+
+/**
+ * Refund paid charges and cancel pending ones when an order is cancelled or refunded.
+ * Refunds rejected by the gateway are logged as failed transactions.
+ * The customer is notified by the order status message.
+ */
+export async function refundOrderPayments(order: Order): Promise<void> {
+  const orderPayments = await storage.getPaymentsByOrder(order.id, order.companyId);
+  let refunded = false;
+  let voided = false;
+
+  for (const payment of orderPayments) {
+    const gateway = getPaymentGateway(payment.gateway);
+    if (!gateway) continue;
+
+    if (payment.status === 'paid') {
+      try {
+        const refundId = await gateway.refund(payment);
+        await storage.updatePayment(payment.id, { status: 'refunded', refundedAt: new Date() });
+        await recordTransaction(payment, 'refund', { externalId: refundId });
+        refunded = true;
+      } catch (error) {
+        console.error(`Refund failed for payment ${payment.id}:`, error);
+        await recordTransaction(payment, 'refund', {
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : String(error),
+        });
+      }
+    } else if (payment.status === 'awaiting_payment') {
+      await gateway.cancelCharge(payment);
+      await storage.updatePayment(payment.id, { status: 'cancelled' });
+      await recordTransaction(payment, 'void');
+      voided = true;
+    }
+  }
+
+  if (refunded) {
+    await storage.updateOrderPayment(order.id, { paymentStatus: 'refunded' });
+  } else if (voided) {
+    await storage.updateOrderPayment(order.id, { paymentStatus: 'cancelled' });
+  }
+}
+
+/**
+ * Process a confirmation webhook from a gateway.
+ * Returns false when the gateway is unknown or the signature is invalid.
+ */
+export async function handleGatewayWebhook(gatewayName: string, rawBody: string, headers: IncomingHttpHeaders): Promise<boolean> {
+  const gateway = getPaymentGateway(gatewayName);
+  if (!gateway) return false;
+
+  const event = gateway.parseWebhook(rawBody, headers);
+  if (!event) return false;
+
+  const payment = await storage.getPaymentByExternalId(gateway.name, event.externalId);
+  // Webhooks may be retried - only awaiting payments change state
+  if (!payment || payment.status !== 'awaiting_payment') return true;
+
+  if (event.status === 'paid') {
+    await confirmPayment(payment, event.paidAt || new Date());
+  } else if (event.status === 'expired') {
+    await expirePayment(payment);
+  }
+  return true;
+}
+
+/**
+ * Tokenize card data through the sandbox gateway (real gateways tokenize in the browser)
+ */
+export function tokenizeCard(card: CardDetails): CardToken {
+  const gateway = getPaymentGateway();
+  if (!gateway?.tokenizeCard) {
+    throw new PaymentError('Gateway não suporta tokenização pelo servidor');
+  }
+  return gateway.tokenizeCard(card);
+}
+
+/**
+ * Confirm a payment through a sandbox gateway (dashboard "simular pagamento")
+ */
+export async function simulatePayment(payment: Payment): Promise<void> {
+  const gateway = getPaymentGateway(payment.gateway);
+  if (!gateway?.simulatePayment) {
+    throw new PaymentError('Gateway não suporta simulação');
+  }
+  await gateway.simulatePayment(payment);
+}
+
+/**
+ * Poll for PIX charges and boletos past their expiration
+ */
+export function startPaymentExpiryWorker(): void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const expired = await storage.getExpiredPendingPayments();
+      for (const payment of expired) {
+        await expirePayment(payment);
+      }
+    } catch (error) {
+      console.error('Payment expiry worker error:', error);
+    } finally {
+      running = false;
+    }
+  }, EXPIRY_POLL_INTERVAL_MS);
+
+  timer.unref();
+}
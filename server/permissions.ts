@@ -0,0 +1,68 @@
+/**
+ * Permissions
+ *
+ * What each company user role may do. Routes declare the permission they need
+ * with requirePermission(), after requireAuth has loaded the user's current
+ * role, so role changes apply without a new login.
+ */
+
+import type { Response, NextFunction } from "express";
+import type { AuthRequest } from "./auth";
+import type { UserRole } from "@shared/schema";
+
+export type Permission =
+  | 'company:manage' // company data, logo, channels, webhook token, AI model, shipping
+  | 'billing:view'
+  | 'team:manage' // invite, edit and remove users
+  | 'agent:manage' // agent settings and knowledge base
+  | 'products:manage' // catalog, stock and promotions
+  | 'products:delete'
+  | 'orders:manage'
+  | 'conversations:reply' // take over and answer conversations
+  | 'webhooks:manage';
+
+const ALL_PERMISSIONS: Permission[] = [
+  'company:manage',
+  'billing:view',
+  'team:manage',
+  'agent:manage',
+  'products:manage',
+  'products:delete',
+  'orders:manage',
+  'conversations:reply',
+  'webhooks:manage',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  admin: ALL_PERMISSIONS,
+  member: ['orders:manage', 'conversations:reply'],
+};
+
+export function getRolePermissions(role: string): Permission[] {
+  return ROLE_PERMISSIONS[role as UserRole] || [];
+}
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  return getRolePermissions(role).includes(permission);
+}
+
+/**
+ * Roles a user may invite, edit or remove: the owner manages admins and
+ * members, admins manage members. Nobody can grant or remove the owner role.
+ */
+export function canManageRole(actorRole: string, targetRole: string): boolean {
+  if (targetRole === 'owner') return false;
+  if (actorRole === 'owner') return true;
+  return actorRole === 'admin' && targetRole === 'member';
+}
+
+export function requirePermission(permission: Permission) {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user?.role || !hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ error: 'Você não tem permissão para esta ação' });
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * Subscription Plans
+ *
+ * Each company is on a plan that limits its products, users, monthly
+ * conversations, AI messages and AI tokens. New companies start on a trial
+ * that the billing worker suspends when it ends; active companies on paid
+ * plans get one invoice per monthly period.
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import { storage, type PlanUsageCounts } from "./storage";
+import type { AuthRequest } from "./auth";
+import type { CompanyPlan } from "@shared/schema";
+
+export type PlanResource = keyof PlanUsageCounts;
+
+export interface PlanLimits {
+  products: number | null; // null = unlimited
+  users: number | null;
+  conversations: number | null; // per month
+  aiMessages: number | null; // agent replies per month
+  aiTokens: number | null; // per month (see aiUsage.ts)
+}
+
+export interface PlanDefinition {
+  label: string;
+  price: number; // monthly, in cents
+  limits: PlanLimits;
+}
+
+export const PLANS: Record<CompanyPlan, PlanDefinition> = {
+  free: {
+    label: 'Free',
+    price: 0,
+    limits: { products: 20, users: 1, conversations: 100, aiMessages: 300, aiTokens: 200_000 },
+  },
+  starter: {
+    label: 'Starter',
+    price: 9900,
+    limits: { products: 200, users: 3, conversations: 1000, aiMessages: 3000, aiTokens: 2_000_000 },
+  },
+  pro: {
+    label: 'Pro',
+    price: 29900,
+    limits: { products: 2000, users: 10, conversations: 10000, aiMessages: 30000, aiTokens: 10_000_000 },
+  },
+  enterprise: {
+    label: 'Enterprise',
+    price: 99900,
+    limits: { products: null, users: null, conversations: null, aiMessages: null, aiTokens: null },
+  },
+};
+
+export const TRIAL_DAYS = 14;
+const INVOICE_DUE_DAYS = 10;
+const BILLING_POLL_INTERVAL_MS = 60 * 60 * 1000;
+
+const LIMIT_MESSAGES: Record<PlanResource, string> = {
+  products: "Limite de produtos do plano atingido",
+  users: "Limite de usuários do plano atingido",
+  conversations: "Limite mensal de conversas do plano atingido",
+  aiMessages: "Limite mensal de mensagens de IA do plano atingido",
+};
+
+export class PlanLimitError extends Error {
+  constructor(public resource: PlanResource, public limit: number) {
+    super(LIMIT_MESSAGES[resource]);
+    this.name = "PlanLimitError";
+    Object.setPrototypeOf(this, PlanLimitError.prototype);
+  }
+}
+
+export class SubscriptionSuspendedError extends Error {
+  constructor(public companyId: string) {
+    super("Assinatura suspensa. Entre em contato com o suporte.");
+    this.name = "SubscriptionSuspendedError";
+    Object.setPrototypeOf(this, SubscriptionSuspendedError.prototype);
+  }
+}
+
+export function getPlan(plan: string): PlanDefinition {
+  return plan in PLANS ? PLANS[plan as CompanyPlan] : PLANS.starter;
+}
+
+export function startOfMonth(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function addMonths(date: Date, months: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+export function trialEndDate(from: Date = new Date()): Date {
+  return addDays(from, TRIAL_DAYS);
+}
+
+/**
+ * Throw when the company is suspended or adding `count` items would go past its plan
+ */
+export async function assertPlanLimit(companyId: string, resource: PlanResource, count: number = 1): Promise<void> {
+  const company = await storage.getCompany(companyId);
+  if (!company) return;
+
+  if (company.status === 'suspended') {
+    throw new SubscriptionSuspendedError(companyId);
+  }
+
+  const limit = getPlan(company.plan).limits[resource];
+  if (limit === null) return;
+
+  const usage = await storage.getPlanUsageCounts(companyId, startOfMonth());
+  if (usage[resource] + count > limit) {
+    throw new PlanLimitError(resource, limit);
+  }
+}
+
+/**
+ * Route guard for creating a limited resource. Responds 402 when the plan does not allow it.
+ */
+export function requirePlanLimit(
+  resource: PlanResource,
+  getCompanyId: (req: Request) => string = (req) => (req as AuthRequest).user!.companyId!,
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await assertPlanLimit(getCompanyId(req), resource);
+      next();
+    } catch (error) {
+      if (error instanceof PlanLimitError || error instanceof SubscriptionSuspendedError) {
+        return res.status(402).json({ error: error.message });
+      }
+      console.error('Plan limit check error:', error);
+      res.status(500).json({ error: "Erro ao verificar limites do plano" });
+    }
+  };
+}
+
+/**
+ * Plan, limits and current usage shown to the company
+ */
+export async function getBillingSummary(companyId: string) {
+  const company = await storage.getCompany(companyId);
+  if (!company) return undefined;
+
+  const plan = getPlan(company.plan);
+  const periodStart = startOfMonth();
+  return {
+    plan: company.plan,
+    label: plan.label,
+    price: plan.price,
+    status: company.status,
+    trialEndsAt: company.trialEndsAt,
+    periodStart,
+    periodEnd: addMonths(periodStart, 1),
+    limits: plan.limits,
+    usage: await storage.getPlanUsageCounts(companyId, periodStart),
+  };
+}
+
+// Suspend companies whose trial ended without being activated
+async function expireTrials(now: Date): Promise<void> {
+  const expired = await storage.getExpiredTrialCompanies(now);
+  for (const company of expired) {
+    await storage.updateCompany(company.id, { status: 'suspended' });
+    console.log(`⏰ Trial ended for company ${company.id}, subscription suspended`);
+  }
+}
+
+// Bill the current period of every active company on a paid plan (once per period)
+async function generateInvoices(now: Date): Promise<void> {
+  const periodStart = startOfMonth(now);
+  const companies = await storage.getActiveCompanies();
+
+  for (const company of companies) {
+    const plan = getPlan(company.plan);
+    if (plan.price === 0) continue;
+
+    const invoice = await storage.createInvoice({
+      companyId: company.id,
+      plan: company.plan,
+      periodStart,
+      periodEnd: addMonths(periodStart, 1),
+      amount: plan.price,
+      status: 'open',
+      dueAt: addDays(periodStart, INVOICE_DUE_DAYS),
+    });
+    if (invoice) {
+      console.log(`🧾 Invoice ${invoice.id} generated for company ${company.id} (${company.plan})`);
+    }
+  }
+}
+
+export async function runBillingCycle(now: Date = new Date()): Promise<void> {
+  await expireTrials(now);
+  await generateInvoices(now);
+}
+
+/**
+ * Expire trials and generate invoices on startup and then hourly
+ */
+export function startBillingWorker(): void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runBillingCycle();
+    } catch (error) {
+      console.error('Billing worker error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, BILLING_POLL_INTERVAL_MS);
+  timer.unref();
+}
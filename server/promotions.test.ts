@@ -0,0 +1,81 @@
+import { test, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import type { Product, Promotion } from "@shared/schema";
+import { storage } from "./storage";
+import { PromotionError, priceItems } from "./promotions";
+
+const products = [
+  { id: 'cafe', name: 'Café', price: 1000, category: 'Bebidas' },
+  { id: 'bolo', name: 'Bolo', price: 3000, category: 'Doces' },
+] as Product[];
+
+function promotion(data: Partial<Promotion>): Promotion {
+  return {
+    id: data.code || data.name || 'promo', companyId: 'c1', name: 'Promoção', code: null, type: 'percentage', value: 10,
+    category: null, productId: null, buyQuantity: null, getQuantity: null, minSubtotal: null, startsAt: null, endsAt: null,
+    maxUses: null, maxUsesPerCustomer: null, usageCount: 0, isActive: true, createdAt: new Date(), updatedAt: new Date(),
+    ...data,
+  };
+}
+
+const cart = [
+  { productId: 'cafe', price: 1000, quantity: 3 },
+  { productId: 'bolo', price: 3000, quantity: 1 },
+];
+
+function stubCatalog(t: TestContext, promotions: Promotion[], redemptions: number = 0) {
+  t.mock.method(storage, 'getProductsByCompany', async () => products);
+  t.mock.method(storage, 'getPromotionsByCompany', async () => promotions);
+  return t.mock.method(storage, 'countPromotionRedemptions', async () => redemptions);
+}
+
+test("automatic category sales and coupons add up", async (t) => {
+  stubCatalog(t, [
+    promotion({ name: 'Bebidas 10%', category: 'bebidas', value: 10 }),
+    promotion({ name: 'Cupom', code: 'MENOS5', type: 'fixed', value: 500 }),
+  ]);
+
+  const priced = await priceItems('c1', cart, 'MENOS5');
+  assert.equal(priced.subtotal, 6000);
+  assert.deepEqual(priced.discounts.map(d => d.amount), [300, 500]);
+  assert.equal(priced.total, 5200);
+});
+
+test("buy X get Y gives the free units of each complete group", async (t) => {
+  stubCatalog(t, [promotion({ type: 'buy_x_get_y', productId: 'cafe', buyQuantity: 2, getQuantity: 1 })]);
+
+  assert.equal((await priceItems('c1', cart, null)).discount, 1000);
+  assert.equal((await priceItems('c1', [{ productId: 'cafe', price: 1000, quantity: 2 }], null)).discount, 0);
+});
+
+test("an invalid coupon is reported, or thrown when strict", async (t) => {
+  stubCatalog(t, [promotion({ code: 'MIN100', minSubtotal: 10000 })]);
+
+  const priced = await priceItems('c1', cart, 'MIN100');
+  assert.equal(priced.discount, 0);
+  assert.match(priced.couponError!, /Pedido mínimo/);
+  await assert.rejects(priceItems('c1', cart, 'MIN100', { strict: true }), PromotionError);
+});
+
+test("coupons capped per customer need the phone at checkout", async (t) => {
+  const counted = stubCatalog(t, [promotion({ code: 'UMAVEZ', maxUsesPerCustomer: 1 })]);
+
+  // Cart previews without a phone leave the cap to the checkout
+  assert.equal((await priceItems('c1', cart, 'UMAVEZ', { strict: true })).discount, 600);
+  await assert.rejects(
+    priceItems('c1', cart, 'UMAVEZ', { strict: true, checkout: true }),
+    { message: /Informe seu telefone/ },
+  );
+
+  await priceItems('c1', cart, 'UMAVEZ', { customerPhone: '+55 (11) 98765-4321', strict: true, checkout: true });
+  assert.equal(counted.mock.calls[0].arguments[1], '11987654321');
+});
+
+test("a customer who used up the coupon can't use it again", async (t) => {
+  stubCatalog(t, [promotion({ code: 'UMAVEZ', maxUsesPerCustomer: 1 })], 1);
+
+  await assert.rejects(
+    priceItems('c1', cart, 'UMAVEZ', { customerPhone: '11987654321', strict: true, checkout: true }),
+    { message: /máximo de vezes/ },
+  );
+});
@@ -0,0 +1,274 @@
+/**
+ * Promotions
+ *
+ * Discounts on the conversation cart. Coupons are applied by code (one per
+ * cart); promotions without a code apply automatically, e.g. a category-wide
+ * sale. Each promotion is a percentage off, a fixed amount off or "buy X get Y
+ * free", optionally limited to a category or product, a validity window, a
+ * minimum subtotal and total/per-customer usage caps. Discounts are computed
+ * here from catalog prices and itemized on the order - never taken from the
+ * request or the model.
+ */
+
+import { storage } from "./storage";
+import { getCart, getCheckoutItems } from "./cart";
+import { normalizePhone } from "./utils/phoneNormalizer";
+import type { CartItem, OrderDiscount, Product, Promotion } from "@shared/schema";
+
+export class PromotionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromotionError";
+    Object.setPrototypeOf(this, PromotionError.prototype);
+  }
+}
+
+type PricedItem = Pick<CartItem, 'productId' | 'price' | 'quantity'>;
+
+export interface PricedCart {
+  subtotal: number; // in cents
+  discounts: OrderDiscount[];
+  discount: number;
+  total: number;
+  couponCode: string | null;
+  couponError?: string; // the applied coupon no longer applies (shown until removed)
+}
+
+/**
+ * What is wrong with a promotion's settings for its type (null when valid)
+ */
+export function promotionConfigError(data: Pick<Partial<Promotion>, 'type' | 'value' | 'buyQuantity' | 'getQuantity' | 'startsAt' | 'endsAt'>): string | null {
+  if (data.type === 'percentage' && (!data.value || data.value > 100)) {
+    return "Percentual deve ser entre 1 e 100";
+  }
+  if (data.type === 'fixed' && !data.value) {
+    return "Informe o valor do desconto";
+  }
+  if (data.type === 'buy_x_get_y' && (!data.buyQuantity || !data.getQuantity)) {
+    return "Informe as quantidades do leve X, ganhe Y";
+  }
+  if (data.startsAt && data.endsAt && data.endsAt <= data.startsAt) {
+    return "O fim da validade deve ser depois do início";
+  }
+  return null;
+}
+
+function formatBrl(cents: number): string {
+  return `R$ ${(cents / 100).toFixed(2)}`;
+}
+
+// Digits of a phone with area code, the key of per-customer caps (null when it isn't one)
+function customerKey(phone: string | null | undefined): string | null {
+  const normalized = normalizePhone(phone);
+  return normalized.length >= 10 ? normalized : null;
+}
+
+function subtotalOf(items: PricedItem[]): number {
+  return items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+}
+
+// Items the promotion covers (product or category restriction)
+function eligibleItems(promotion: Promotion, items: PricedItem[], products: Product[]): PricedItem[] {
+  return items.filter(item => {
+    if (promotion.productId) return item.productId === promotion.productId;
+    if (promotion.category) {
+      const product = products.find(p => p.id === item.productId);
+      return product?.category?.toLowerCase() === promotion.category.toLowerCase();
+    }
+    return true;
+  });
+}
+
+function discountAmount(promotion: Promotion, items: PricedItem[], products: Product[]): number {
+  const eligible = eligibleItems(promotion, items, products);
+  const eligibleTotal = subtotalOf(eligible);
+
+  switch (promotion.type) {
+    case 'percentage':
+      return Math.round(eligibleTotal * Math.min(promotion.value, 100) / 100);
+    case 'fixed':
+      return Math.min(promotion.value, eligibleTotal);
+    case 'buy_x_get_y': {
+      const buy = promotion.buyQuantity || 0;
+      const get = promotion.getQuantity || 0;
+      if (buy <= 0 || get <= 0) return 0;
+      // Every complete group of X+Y units of an item has Y free units
+      return eligible.reduce((sum, item) => sum + Math.floor(item.quantity / (buy + get)) * get * item.price, 0);
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Discount the promotion gives on these items, or a PromotionError saying why
+ * it does not apply. Promotions capped per customer need the customer's phone
+ * at checkout; cart previews without one leave the cap to the checkout.
+ */
+async function evaluatePromotion(
+  promotion: Promotion,
+  items: PricedItem[],
+  products: Product[],
+  customerPhone: string | null,
+  checkout: boolean,
+): Promise<number> {
+  const now = new Date();
+  if (!promotion.isActive) {
+    throw new PromotionError("Cupom inativo");
+  }
+  if (promotion.startsAt && promotion.startsAt > now) {
+    throw new PromotionError(`Cupom válido a partir de ${promotion.startsAt.toLocaleDateString('pt-BR', { timeZone: 'America/Sao_Paulo' })}`);
+  }
+  if (promotion.endsAt && promotion.endsAt <= now) {
+    throw new PromotionError("Cupom expirado");
+  }
+  if (promotion.maxUses !== null && promotion.usageCount >= promotion.maxUses) {
+    throw new PromotionError("Cupom esgotado");
+  }
+  if (promotion.minSubtotal && subtotalOf(items) < promotion.minSubtotal) {
+    throw new PromotionError(`Pedido mínimo de ${formatBrl(promotion.minSubtotal)} para este cupom`);
+  }
+  if (promotion.maxUsesPerCustomer) {
+    if (customerPhone) {
+      const used = await storage.countPromotionRedemptions(promotion.id, customerPhone);
+      if (used >= promotion.maxUsesPerCustomer) {
+        throw new PromotionError("Você já usou este cupom o máximo de vezes permitido");
+      }
+    } else if (checkout) {
+      throw new PromotionError("Informe seu telefone com DDD para usar este cupom");
+    }
+  }
+
+  const amount = discountAmount(promotion, items, products);
+  if (amount <= 0) {
+    throw new PromotionError(promotion.type === 'buy_x_get_y'
+      ? `Leve ${(promotion.buyQuantity || 0) + (promotion.getQuantity || 0)} unidades para ganhar o desconto`
+      : "Cupom não se aplica aos produtos do carrinho");
+  }
+  return amount;
+}
+
+/**
+ * Price items with the company's automatic promotions and the coupon. Discounts
+ * add up but never exceed the subtotal. With `strict`, an invalid coupon throws
+ * instead of being reported in couponError; `checkout` enforces per-customer caps.
+ */
+export async function priceItems(
+  companyId: string,
+  items: PricedItem[],
+  couponCode: string | null,
+  options: { customerPhone?: string | null; strict?: boolean; checkout?: boolean } = {},
+): Promise<PricedCart> {
+  const subtotal = subtotalOf(items);
+  const customerPhone = customerKey(options.customerPhone);
+  const checkout = options.checkout ?? false;
+  const [products, companyPromotions] = await Promise.all([
+    storage.getProductsByCompany(companyId),
+    storage.getPromotionsByCompany(companyId),
+  ]);
+
+  const candidates: Array<{ promotion: Promotion; amount: number }> = [];
+  for (const promotion of companyPromotions.filter(p => !p.code)) {
+    try {
+      candidates.push({ promotion, amount: await evaluatePromotion(promotion, items, products, customerPhone, checkout) });
+    } catch (error) {
+      if (!(error instanceof PromotionError)) throw error;
+    }
+  }
+
+  let couponError: string | undefined;
+  if (couponCode) {
+    try {
+      const coupon = companyPromotions.find(p => p.code === couponCode);
+      if (!coupon) {
+        throw new PromotionError("Cupom não encontrado");
+      }
+      candidates.push({ promotion: coupon, amount: await evaluatePromotion(coupon, items, products, customerPhone, checkout) });
+    } catch (error) {
+      if (!(error instanceof PromotionError) || options.strict) throw error;
+      couponError = error.message;
+    }
+  }
+
+  const discounts: OrderDiscount[] = [];
+  let remaining = subtotal;
+  for (const { promotion, amount } of candidates) {
+    const applied = Math.min(amount, remaining);
+    if (applied <= 0) break;
+    remaining -= applied;
+    discounts.push({ promotionId: promotion.id, name: promotion.name, code: promotion.code, amount: applied });
+  }
+
+  const discount = subtotal - remaining;
+  return {
+    subtotal,
+    discounts,
+    discount,
+    total: subtotal - discount,
+    couponCode,
+    ...(couponError && { couponError }),
+  };
+}
+
+/**
+ * Cart contents with discounts, as shown to the customer
+ */
+export async function getCartSummary(companyId: string, conversationId: string): Promise<PricedCart & { items: CartItem[] }> {
+  const cart = await storage.getCartByConversation(conversationId);
+  const items = cart?.items || [];
+  return { items, ...(await priceItems(companyId, items, cart?.couponCode || null)) };
+}
+
+/**
+ * Validate a coupon against the current cart and keep it on the cart
+ */
+export async function applyCoupon(
+  companyId: string,
+  conversationId: string,
+  code: string,
+  customerPhone?: string | null,
+): Promise<PricedCart & { items: CartItem[] }> {
+  const promotion = await storage.getPromotionByCode(companyId, code);
+  if (!promotion) {
+    throw new PromotionError("Cupom não encontrado");
+  }
+
+  const items = await getCart(conversationId);
+  if (items.length === 0) {
+    throw new PromotionError("Adicione produtos ao carrinho antes de aplicar o cupom");
+  }
+  await priceItems(companyId, items, promotion.code, { customerPhone, strict: true });
+
+  await storage.setCartCoupon(companyId, conversationId, promotion.code);
+  return getCartSummary(companyId, conversationId);
+}
+
+export async function removeCoupon(companyId: string, conversationId: string): Promise<PricedCart & { items: CartItem[] }> {
+  await storage.setCartCoupon(companyId, conversationId, null);
+  return getCartSummary(companyId, conversationId);
+}
+
+/**
+ * Order items and amounts for checkout: current catalog prices, automatic
+ * promotions and the cart's coupon (which must still be valid for this customer).
+ * The customer is the phone already on the conversation (channel contact or an
+ * earlier order), or the one given at checkout when it has none; the order
+ * must be placed with the returned customerPhone.
+ */
+export async function priceCheckout(companyId: string, conversationId: string, customerPhone: string | null) {
+  const [{ items }, cart, conversation] = await Promise.all([
+    getCheckoutItems(companyId, conversationId),
+    storage.getCartByConversation(conversationId),
+    storage.getConversation(conversationId),
+  ]);
+  const phone = conversation?.customerPhone || customerPhone;
+  const priced = await priceItems(companyId, items, cart?.couponCode || null, { customerPhone: phone, strict: true, checkout: true });
+  return {
+    customerPhone: phone,
+    items,
+    subtotal: priced.subtotal,
+    discounts: priced.discounts,
+    discount: priced.discount,
+    total: priced.total,
+  };
+}
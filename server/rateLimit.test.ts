@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { MemoryRateLimitStore, detectBotMessage, setRateLimitStore } from "./rateLimit";
+
+test("detectBotMessage flags message floods", async (t) => {
+  setRateLimitStore(new MemoryRateLimitStore());
+  const logged = t.mock.method(storage, 'createApiLog', async () => ({}));
+
+  const reasons = [];
+  for (let i = 0; i < 7; i++) {
+    reasons.push(await detectBotMessage('c1', 'flood', `mensagem ${i}`));
+  }
+
+  assert.deepEqual(reasons.slice(0, 6), [null, null, null, null, null, null]);
+  assert.equal(reasons[6], 'message_flood');
+  assert.equal(logged.mock.callCount(), 1);
+});
+
+test("detectBotMessage flags the same text repeated", async (t) => {
+  setRateLimitStore(new MemoryRateLimitStore());
+  t.mock.method(storage, 'createApiLog', async () => ({}));
+
+  const reasons = [];
+  for (let i = 0; i < 4; i++) {
+    reasons.push(await detectBotMessage('c1', 'repeat', i % 2 ? 'Oi  TUDO bem' : 'oi tudo bem'));
+  }
+
+  assert.deepEqual(reasons, [null, null, null, 'repeated_content']);
+});
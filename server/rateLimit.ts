@@ -0,0 +1,172 @@
+/**
+ * Rate Limiting
+ *
+ * Throttles the public ChatWeb endpoints and the channel webhooks, where every
+ * message can trigger several paid model calls. Limits are counted per IP, per conversation and
+ * per company in fixed windows. Counters live in a pluggable store (in-memory
+ * by default; call setRateLimitStore() to share them between instances). The
+ * AI spending circuit breaker keeps its state in the same store.
+ *
+ * Also detects bot-like traffic on a conversation: message floods and the same
+ * content sent over and over.
+ */
+
+import crypto from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import type { VisitorRequest } from "./auth";
+
+export interface RateLimitHit {
+  count: number; // hits in the current window, including this one
+  resetAt: number; // epoch ms when the window ends
+}
+
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+  get(key: string): Promise<RateLimitHit | null>; // current window without counting a hit
+}
+
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitHit>();
+
+  constructor() {
+    const timer = setInterval(() => this.cleanup(), CLEANUP_INTERVAL_MS);
+    timer.unref();
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const current = this.windows.get(key);
+    if (!current || current.resetAt <= now) {
+      const fresh = { count: 1, resetAt: now + windowMs };
+      this.windows.set(key, fresh);
+      return fresh;
+    }
+    current.count++;
+    return current;
+  }
+
+  async get(key: string): Promise<RateLimitHit | null> {
+    const current = this.windows.get(key);
+    return current && current.resetAt > Date.now() ? current : null;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    Array.from(this.windows.entries()).forEach(([key, window]) => {
+      if (window.resetAt <= now) this.windows.delete(key);
+    });
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  return store;
+}
+
+export interface RateLimitRule {
+  name: string; // counter namespace, e.g. "chat-message:ip"
+  limit: number;
+  windowMs: number;
+  key: (req: Request) => string | null | undefined; // null skips the rule
+}
+
+const MINUTE = 60 * 1000;
+
+// Limits of the public ChatWeb API
+export const CHATWEB_LIMITS = {
+  conversationsPerIp: { limit: 10, windowMs: 10 * MINUTE },
+  messagesPerIp: { limit: 30, windowMs: MINUTE },
+  messagesPerConversation: { limit: 15, windowMs: MINUTE },
+  messagesPerCompany: { limit: 300, windowMs: MINUTE },
+  ordersPerIp: { limit: 10, windowMs: 60 * MINUTE },
+  ordersPerConversation: { limit: 5, windowMs: 60 * MINUTE },
+  sessionRequestsPerIp: { limit: 20, windowMs: 10 * MINUTE }, // card tokens, resume links
+  cartRequestsPerIp: { limit: 60, windowMs: MINUTE },
+  cartRequestsPerConversation: { limit: 30, windowMs: MINUTE },
+  couponAttemptsPerIp: { limit: 10, windowMs: 10 * MINUTE }, // guessing coupon codes
+  couponAttemptsPerConversation: { limit: 5, windowMs: 10 * MINUTE },
+  shippingQuotesPerIp: { limit: 10, windowMs: 10 * MINUTE }, // each quote may call ViaCEP and Nominatim
+  shippingQuotesPerConversation: { limit: 10, windowMs: 10 * MINUTE },
+  webhookMessagesPerCompany: { limit: 300, windowMs: MINUTE },
+};
+
+export const byIp = (req: Request) => req.ip;
+// Conversation in the URL, or the visitor session's conversation (after requireVisitorSession)
+export const byConversation = (req: Request) => req.params.conversationId || (req as VisitorRequest).conversation?.id;
+export const byCompany = (req: Request) => req.params.companyId;
+
+/**
+ * Reject the request with 429 when any rule is over its limit
+ */
+export function rateLimit(...rules: RateLimitRule[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      for (const rule of rules) {
+        const key = rule.key(req);
+        if (!key) continue;
+
+        const { count, resetAt } = await store.hit(`${rule.name}:${key}`, rule.windowMs);
+        if (count > rule.limit) {
+          res.setHeader('Retry-After', Math.ceil((resetAt - Date.now()) / 1000));
+          return res.status(429).json({ error: 'Muitas requisições. Aguarde um pouco e tente novamente.' });
+        }
+      }
+    } catch (error) {
+      // A store outage must not take the chat down
+      console.error('Rate limit store error:', error);
+    }
+    next();
+  };
+}
+
+// Bot heuristics
+const FLOOD_WINDOW_MS = 10 * 1000;
+const FLOOD_MAX_MESSAGES = 6;
+const REPEAT_WINDOW_MS = 5 * MINUTE;
+const REPEAT_MAX_IDENTICAL = 3;
+
+function contentFingerprint(content: string): string {
+  const normalized = content.trim().toLowerCase().replace(/\s+/g, ' ');
+  return crypto.createHash('sha256').update(normalized).digest('hex').slice(0, 16);
+}
+
+/**
+ * Reason to treat a customer message as automated traffic (null when it looks human):
+ * too many messages in a few seconds, or the same text repeated within minutes.
+ * Detections are logged for the admin panel.
+ */
+export async function detectBotMessage(companyId: string, conversationId: string, content: string): Promise<string | null> {
+  let reason: string | null = null;
+  try {
+    const flood = await store.hit(`bot-flood:${conversationId}`, FLOOD_WINDOW_MS);
+    if (flood.count > FLOOD_MAX_MESSAGES) {
+      reason = 'message_flood';
+    } else if (content.trim()) {
+      const repeat = await store.hit(`bot-repeat:${conversationId}:${contentFingerprint(content)}`, REPEAT_WINDOW_MS);
+      if (repeat.count > REPEAT_MAX_IDENTICAL) {
+        reason = 'repeated_content';
+      }
+    }
+  } catch (error) {
+    console.error('Rate limit store error:', error);
+    return null;
+  }
+
+  if (reason) {
+    console.warn(`🤖 Bot-like traffic on conversation ${conversationId}: ${reason}`);
+    await storage.createApiLog({
+      companyId,
+      type: 'abuse_detected',
+      metadata: { conversationId, reason },
+    }).catch(error => console.error('Error logging abuse detection:', error));
+  }
+  return reason;
+}
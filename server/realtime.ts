@@ -0,0 +1,223 @@
+/**
+ * Real-time Events
+ *
+ * WebSocket event bus at /ws, replacing polling in the operator console and
+ * the ChatWeb. Dashboard users subscribe to every conversation of their
+ * company (JWT in the `token` query param); ChatWeb visitors subscribe to the
+ * conversation of their session (visitor token in the `session` query param)
+ * and only receive customer-facing events. Dashboard connections also drive operator
+ * presence: a user with no open dashboard is offline.
+ *
+ * Client → server messages: { type: "typing", conversationId, isTyping }
+ */
+
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { verifyToken, verifyVisitorToken } from "./auth";
+import { storage } from "./storage";
+import type { Conversation, Message, OperatorPresence, User } from "@shared/schema";
+
+const REALTIME_PATH = '/ws';
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+export type TypingRole = 'user' | 'assistant' | 'operator';
+
+export type RealtimeEvent =
+  | { type: 'message.created'; conversationId: string; message: Message }
+  | { type: 'conversation.updated'; conversationId: string; conversation: Conversation }
+  | { type: 'conversation.takeover'; conversationId: string; mode: string; operatorName: string | null }
+  | { type: 'typing'; conversationId: string; role: TypingRole; name: string | null; isTyping: boolean }
+  | { type: 'presence.updated'; userId: string; presence: OperatorPresence };
+
+// Events a ChatWeb visitor may receive (conversation.updated carries internal analysis)
+const VISITOR_EVENTS: RealtimeEvent['type'][] = ['message.created', 'conversation.takeover', 'typing'];
+
+interface Subscriber {
+  socket: WebSocket;
+  companyId: string;
+  conversationId: string | null; // null = every conversation of the company (dashboard)
+  role: 'operator' | 'user';
+  userId: string | null; // dashboard user
+  name: string | null;
+  isAlive: boolean;
+}
+
+const subscribers = new Set<Subscriber>();
+
+async function authenticate(url: URL): Promise<Omit<Subscriber, 'socket' | 'isAlive'> | null> {
+  const token = url.searchParams.get('token');
+  if (token) {
+    const payload = verifyToken(token);
+    if (!payload || payload.type !== 'user' || !payload.companyId) return null;
+    const user = await storage.getUser(payload.userId);
+    if (!user || user.companyId !== payload.companyId) return null;
+    return { companyId: payload.companyId, conversationId: null, role: 'operator', userId: user.id, name: user.name };
+  }
+
+  const session = verifyVisitorToken(url.searchParams.get('session') || '');
+  if (!session) return null;
+
+  const conversation = await storage.getConversation(session.conversationId);
+  if (!conversation || conversation.companyId !== session.companyId) return null;
+  return { companyId: session.companyId, conversationId: session.conversationId, role: 'user', userId: null, name: null };
+}
+
+function canReceive(subscriber: Subscriber, companyId: string, event: RealtimeEvent): boolean {
+  if (subscriber.companyId !== companyId) return false;
+  if (subscriber.conversationId === null) return true;
+  return 'conversationId' in event && subscriber.conversationId === event.conversationId && VISITOR_EVENTS.includes(event.type);
+}
+
+function isUserConnected(userId: string): boolean {
+  return Array.from(subscribers).some((subscriber) => subscriber.userId === userId);
+}
+
+export function getOperatorPresence(user: Pick<User, 'id' | 'availability'>): OperatorPresence {
+  return isUserConnected(user.id) ? user.availability as OperatorPresence : 'offline';
+}
+
+export function publishPresence(user: Pick<User, 'id' | 'companyId' | 'availability'>): void {
+  broadcast(user.companyId, { type: 'presence.updated', userId: user.id, presence: getOperatorPresence(user) });
+}
+
+// First dashboard opened or last one closed: record the visit and tell the team
+async function handlePresenceChange(subscriber: Subscriber): Promise<void> {
+  if (!subscriber.userId) return;
+  const connections = Array.from(subscribers).filter((s) => s.userId === subscriber.userId).length;
+  const isNowConnected = subscribers.has(subscriber);
+  if (isNowConnected ? connections !== 1 : connections !== 0) return;
+
+  try {
+    const user = await storage.updateUser(subscriber.userId, subscriber.companyId, { lastSeenAt: new Date() });
+    if (user) publishPresence(user);
+  } catch (error) {
+    console.error('Presence update error:', error);
+  }
+}
+
+function removeSubscriber(subscriber: Subscriber): void {
+  if (subscribers.delete(subscriber)) {
+    void handlePresenceChange(subscriber);
+  }
+}
+
+function broadcast(companyId: string, event: RealtimeEvent, except?: Subscriber): void {
+  const payload = JSON.stringify(event);
+  subscribers.forEach((subscriber) => {
+    if (subscriber === except || subscriber.socket.readyState !== WebSocket.OPEN) return;
+    if (canReceive(subscriber, companyId, event)) {
+      subscriber.socket.send(payload);
+    }
+  });
+}
+
+function handleClientMessage(subscriber: Subscriber, raw: string): void {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return;
+  }
+
+  if (data?.type === 'typing' && typeof data.conversationId === 'string') {
+    // Visitors can only signal typing in their own conversation
+    if (subscriber.conversationId && subscriber.conversationId !== data.conversationId) return;
+
+    broadcast(subscriber.companyId, {
+      type: 'typing',
+      conversationId: data.conversationId,
+      role: subscriber.role,
+      name: subscriber.name,
+      isTyping: !!data.isTyping,
+    }, subscriber);
+  }
+}
+
+function rejectUpgrade(socket: Duplex, status: string): void {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Attach the event bus to the HTTP server (other upgrade paths, like Vite HMR, are left alone)
+ */
+export function attachRealtime(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== REALTIME_PATH) return;
+
+    try {
+      const auth = await authenticate(url);
+      if (!auth) {
+        return rejectUpgrade(socket, '401 Unauthorized');
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const subscriber: Subscriber = { ...auth, socket: ws, isAlive: true };
+        subscribers.add(subscriber);
+        void handlePresenceChange(subscriber);
+
+        ws.on('pong', () => { subscriber.isAlive = true; });
+        ws.on('message', (data) => handleClientMessage(subscriber, data.toString()));
+        ws.on('close', () => removeSubscriber(subscriber));
+        ws.on('error', () => removeSubscriber(subscriber));
+      });
+    } catch (error) {
+      console.error('Realtime upgrade error:', error);
+      rejectUpgrade(socket, '500 Internal Server Error');
+    }
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    subscribers.forEach((subscriber) => {
+      if (!subscriber.isAlive) {
+        subscriber.socket.terminate();
+        removeSubscriber(subscriber);
+        return;
+      }
+      subscriber.isAlive = false;
+      subscriber.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  heartbeat.unref();
+}
+
+export function publishMessages(conversation: Conversation, ...messages: Message[]): void {
+  for (const message of messages) {
+    broadcast(conversation.companyId, { type: 'message.created', conversationId: conversation.id, message });
+  }
+}
+
+export function publishConversationUpdate(conversation: Conversation): void {
+  broadcast(conversation.companyId, { type: 'conversation.updated', conversationId: conversation.id, conversation });
+}
+
+export function publishTakeover(conversation: Conversation, operatorName: string | null): void {
+  broadcast(conversation.companyId, {
+    type: 'conversation.takeover',
+    conversationId: conversation.id,
+    mode: conversation.mode,
+    operatorName,
+  });
+}
+
+export function publishTyping(conversation: Conversation, role: TypingRole, isTyping: boolean, name: string | null = null): void {
+  broadcast(conversation.companyId, { type: 'typing', conversationId: conversation.id, role, name, isTyping });
+}
+
+/**
+ * Show the agent as typing while the AI reply is generated
+ */
+export async function withAgentTyping<T>(conversation: Conversation, generate: () => Promise<T>): Promise<T> {
+  publishTyping(conversation, 'assistant', true);
+  try {
+    return await generate();
+  } finally {
+    publishTyping(conversation, 'assistant', false);
+  }
+}
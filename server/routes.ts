@@ -1,6 +1,6 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, InsufficientStockError, InvalidStatusTransitionError, PromotionExhaustedError } from "./storage";
 import { 
   hashPassword, 
   comparePassword, 
@@ -8,19 +8,69 @@ import {
   requireAuth, 
   requireAdminAuth,
   optionalAuth,
-  type AuthRequest 
+  verifyWebhookToken,
+  generateVisitorToken,
+  requireVisitorSession,
+  type AuthRequest,
+  type VisitorRequest,
 } from "./auth";
 import { z } from "zod";
-import { insertUserSchema, insertCompanySchema, insertAgentSchema, insertProductSchema, insertOrderSchema, insertConversationSchema, insertMessageSchema, insertChannelSchema } from "@shared/schema";
-import OpenAI from "openai";
+import { insertUserSchema, insertCompanySchema, insertAgentSchema, insertProductSchema, insertOrderSchema, insertConversationSchema, insertMessageSchema, insertChannelSchema, insertWebhookSubscriptionSchema, insertPromotionSchema, insertShippingRuleSchema, operatorAvailabilities, orderStatuses, companyPlans, companyStatuses, invoiceStatuses } from "@shared/schema";
+import { createChatCompletion, listProviders } from "./llm";
+import { AIQuotaExceededError, getAiUsageReport, isSpendingCircuitOpen } from "./aiUsage";
+import { rateLimit, detectBotMessage, byIp, byConversation, byCompany, CHATWEB_LIMITS } from "./rateLimit";
+import {
+  PLANS,
+  PlanLimitError,
+  SubscriptionSuspendedError,
+  assertPlanLimit,
+  requirePlanLimit,
+  getBillingSummary,
+  trialEndDate,
+  startBillingWorker,
+} from "./plans";
+import { requirePermission, canManageRole, getRolePermissions, hasPermission } from "./permissions";
+import { appUrl, sendInviteEmail } from "./email";
+import { generateAgentReply, queueDraftReply, suggestOperatorReplies, summarizeHumanSegment, transcribeAudio, toChannelMessage } from "./chatAgent";
+import {
+  generateWebhookSecret,
+  notifyOutboundMessage,
+  notifyOrderEvent,
+  replayWebhookDelivery,
+  startWebhookRetryWorker,
+} from "./outboundWebhooks";
+import {
+  attachRealtime,
+  publishMessages,
+  publishConversationUpdate,
+  publishTakeover,
+  publishPresence,
+  getOperatorPresence,
+  withAgentTyping,
+} from "./realtime";
 import multer from "multer";
 import sharp from "sharp";
 import { ObjectStorageService } from "./objectStorage";
-import { parseString } from "xml2js";
-import { promisify } from "util";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-const parseXML = promisify(parseString);
+import { isPdf, isXml, extractPdfText } from "./utils/documentText";
+import { downloadChannelMedia } from "./utils/mediaDownload";
+import { outboundUrlError } from "./utils/outboundUrl";
+import { redactForLog, redactPii } from "./guardrails";
+import { indexDocument, removeDocument, getIndexedDocuments } from "./knowledgeBase";
+import { CartError, addToCart, updateCartItemQuantity, removeFromCart, clearCart } from "./cart";
+import { PromotionError, getCartSummary, applyCoupon, removeCoupon, promotionConfigError } from "./promotions";
+import { ShippingError, normalizeCep, priceOrder, quoteCartShipping, shippingRuleConfigError } from "./shipping";
+import {
+  PaymentError,
+  startOrderPayment,
+  refundOrderPayments,
+  handleGatewayWebhook,
+  tokenizeCard,
+  simulatePayment,
+  startPaymentExpiryWorker,
+} from "./payments";
+
+// ChatWeb "continue on another device" links grant access to the conversation, so they expire quickly
+const RESUME_LINK_TTL_MS = 15 * 60 * 1000;
 
 // Configure multer for image uploads
 const upload = multer({ 
@@ -64,111 +114,6 @@ const chatWebUpload = multer({
   }
 });
 
-// Specialist Agent Prompts
-const SPECIALIST_PROMPTS = {
-  seller: `PERFIL: Vendedor Focado em Conversão
-- Seu objetivo é FECHAR A VENDA de forma natural e consultiva
-- Identifique rapidamente o que o cliente quer e conduza para a compra
-- Use gatilhos mentais sutis (escassez, prova social, urgência)
-- Seja direto e objetivo nas recomendações
-- Antecipe objeções e trate-as proativamente`,
-
-  consultant: `PERFIL: Consultor Educador
-- Seu objetivo é EDUCAR e construir confiança antes de vender
-- O cliente está pesquisando, então forneça informações detalhadas
-- Compare opções, explique benefícios e diferenciais
-- Não pressione, deixe o cliente amadurecer a decisão
-- Faça perguntas para entender melhor as necessidades
-- Só sugira compra quando sentir que o cliente está pronto`,
-
-  support: `PERFIL: Suporte Pós-Venda
-- Seu objetivo é RESOLVER PROBLEMAS e manter o cliente satisfeito
-- Seja empático e demonstre que você se importa
-- Foque em solucionar o problema, não em vender mais
-- Peça desculpas se necessário e assuma responsabilidade
-- Ofereça soluções claras e prazos realistas
-- Só mencione novos produtos se for genuinamente útil para o problema`,
-
-  technical: `PERFIL: Especialista Técnico
-- Seu objetivo é esclarecer DÚVIDAS TÉCNICAS complexas
-- Use linguagem clara mas precisa
-- Forneça detalhes técnicos quando necessário
-- Confirme entendimento perguntando "ficou claro?"
-- Se não souber, seja honesto e ofereça transferir para humano
-- Mantenha foco técnico, evite tangenciar para vendas`
-};
-
-// Conversation Intelligence Analyzer
-async function analyzeConversation(messages: any[]): Promise<{
-  intent: string;
-  sentiment: number;
-  complexity: number;
-  suggestedAgent: string;
-}> {
-  try {
-    // Use last 6 messages for analysis
-    const recentMessages = messages.slice(-6).map(m => `${m.role}: ${m.content}`).join('\n');
-    
-    const analysisPrompt = `Analise esta conversa e identifique a intenção, sentimento e complexidade.
-
-Conversa:
-${recentMessages}
-
-Critérios:
-- intent: intenção principal do cliente neste momento (browsing, purchase_intent, support, complaint, technical_question)
-- sentiment: -100 (muito negativo/frustrado) a +100 (muito positivo/satisfeito)
-- complexity: 0 (simples) a 100 (muito complexo/confuso)
-- suggestedAgent: 
-  * seller = cliente quer comprar, está decidido
-  * consultant = cliente está pesquisando, precisa ser educado
-  * support = cliente tem problema/dúvida pós-venda
-  * technical = questão técnica complexa`;
-
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        { 
-          role: "system", 
-          content: "You are a conversation analyzer. Respond ONLY with valid JSON matching the schema." 
-        },
-        { 
-          role: "user", 
-          content: analysisPrompt 
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.3,
-      max_tokens: 200,
-    });
-
-    const result = JSON.parse(completion.choices[0].message.content || '{}');
-    
-    // Validate and log the result
-    if (!result.intent || !result.suggestedAgent) {
-      console.error('Invalid analysis result:', result);
-      throw new Error('Invalid analysis response from OpenAI');
-    }
-    
-    console.log('✅ Analysis successful:', result);
-    
-    return {
-      intent: result.intent || 'browsing',
-      sentiment: result.sentiment || 0,
-      complexity: result.complexity || 30,
-      suggestedAgent: result.suggestedAgent || 'seller',
-    };
-  } catch (error) {
-    console.error('Error analyzing conversation:', error);
-    // Return defaults on error
-    return {
-      intent: 'browsing',
-      sentiment: 0,
-      complexity: 30,
-      suggestedAgent: 'seller',
-    };
-  }
-}
-
 export async function registerRoutes(app: Express): Promise<Server> {
   
   // ============ PUBLIC FILE SERVING ============
@@ -235,7 +180,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/auth/register", async (req, res) => {
     try {
       const schema = z.object({
-        company: insertCompanySchema,
+        company: insertCompanySchema.omit({ status: true, plan: true, trialEndsAt: true }),
         user: z.object({
           email: z.string().email(),
           password: z.string().min(6),
@@ -251,8 +196,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "CPF/CNPJ já cadastrado" });
       }
 
-      // Create company
-      const newCompany = await storage.createCompany(company);
+      // Create company (every new company starts on a trial)
+      const newCompany = await storage.createCompany({
+        ...company,
+        status: 'trial',
+        trialEndsAt: trialEndDate(),
+      });
 
       // Create user
       const hashedPassword = await hashPassword(user.password);
@@ -285,6 +234,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           id: newUser.id, 
           email: newUser.email, 
           name: newUser.name, 
+          role: newUser.role,
           companyId: newCompany.id 
         },
         company: newCompany,
@@ -325,6 +275,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           id: user.id, 
           email: user.email, 
           name: user.name, 
+          role: user.role,
           companyId: company.id 
         },
         company,
@@ -334,8 +285,113 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Current user with role, permissions and presence
+  app.get("/api/auth/me", requireAuth, async (req: AuthRequest, res) => {
+    const user = await storage.getUser(req.user!.id!);
+    if (!user) {
+      return res.status(404).json({ error: "Usuário não encontrado" });
+    }
+    res.json({
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      avatarUrl: user.avatarUrl,
+      availability: user.availability,
+      presence: getOperatorPresence(user),
+      companyId: user.companyId,
+      permissions: getRolePermissions(user.role),
+    });
+  });
+
+  // Update own profile and availability (online / away)
+  app.patch("/api/auth/me", requireAuth, async (req: AuthRequest, res) => {
+    try {
+      const updates = z.object({
+        name: z.string().min(1).optional(),
+        avatarUrl: z.string().url().nullable().optional(),
+        availability: z.enum(operatorAvailabilities).optional(),
+      }).parse(req.body);
+
+      const user = await storage.updateUser(req.user!.id!, req.user!.companyId!, updates);
+      if (!user) {
+        return res.status(404).json({ error: "Usuário não encontrado" });
+      }
+      if (updates.availability) {
+        publishPresence(user);
+      }
+
+      const { password: _password, ...profile } = user;
+      res.json({ ...profile, presence: getOperatorPresence(user) });
+    } catch (error) {
+      res.status(400).json({ error: "Erro ao atualizar perfil" });
+    }
+  });
+
+  // Invite details for the accept page (public)
+  app.get("/api/invites/:token", async (req, res) => {
+    const invite = await storage.getUserInviteByToken(req.params.token);
+    if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+      return res.status(404).json({ error: "Convite inválido ou expirado" });
+    }
+    const company = await storage.getCompany(invite.companyId);
+    res.json({ email: invite.email, role: invite.role, companyName: company?.name });
+  });
+
+  // Accept an invite: create the user and log in (public)
+  app.post("/api/invites/:token/accept", async (req, res) => {
+    try {
+      const { name, password } = z.object({
+        name: z.string().min(1),
+        password: z.string().min(6),
+      }).parse(req.body);
+
+      const invite = await storage.getUserInviteByToken(req.params.token);
+      if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+        return res.status(404).json({ error: "Convite inválido ou expirado" });
+      }
+
+      if (await storage.getUserByEmailOnly(invite.email)) {
+        return res.status(400).json({ error: "Email já cadastrado" });
+      }
+
+      await assertPlanLimit(invite.companyId, 'users');
+
+      if (!(await storage.acceptUserInvite(invite.id))) {
+        return res.status(404).json({ error: "Convite inválido ou expirado" });
+      }
+
+      const user = await storage.createUser({
+        companyId: invite.companyId,
+        email: invite.email,
+        password: await hashPassword(password),
+        name,
+        role: invite.role as 'admin' | 'member',
+      });
+      const company = await storage.getCompany(invite.companyId);
+
+      const token = generateToken({
+        userId: user.id,
+        companyId: invite.companyId,
+        type: 'user'
+      });
+
+      res.json({
+        token,
+        user: { id: user.id, email: user.email, name: user.name, role: user.role, companyId: invite.companyId },
+        company,
+      });
+    } catch (error) {
+      if (error instanceof PlanLimitError || error instanceof SubscriptionSuspendedError) {
+        return res.status(402).json({ error: error.message });
+      }
+      console.error('Invite accept error:', error);
+      res.status(400).json({ error: "Erro ao aceitar convite" });
+    }
+  });
+
   // Upload company logo
-  app.post("/api/company/logo", requireAuth, upload.single('logo'), async (req: AuthRequest, res) => {
+  app.post("/api/company/logo", requireAuth, requirePermission('company:manage'), upload.single('logo'), async (req: AuthRequest, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "Nenhuma imagem enviada" });
@@ -369,7 +425,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Upload product images (max 3)
-  app.post("/api/products/:id/images", requireAuth, upload.array('images', 3), async (req: AuthRequest, res) => {
+  app.post("/api/products/:id/images", requireAuth, requirePermission('products:manage'), upload.array('images', 3), async (req: AuthRequest, res) => {
     try {
       const files = req.files as Express.Multer.File[];
       if (!files || files.length === 0) {
@@ -427,12 +483,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(companies);
   });
 
-  // Update company status (admin only)
+  // Update company status, plan or trial end (admin only)
   app.patch("/api/admin/companies/:id", requireAdminAuth, async (req, res) => {
-    const { id } = req.params;
-    const { status } = req.body;
-    const company = await storage.updateCompany(id, { status });
-    res.json(company);
+    try {
+      const { id } = req.params;
+      const updates = z.object({
+        status: z.enum(companyStatuses).optional(),
+        plan: z.enum(companyPlans).optional(),
+        trialEndsAt: z.coerce.date().nullable().optional(),
+      }).parse(req.body);
+      const company = await storage.updateCompany(id, updates);
+      res.json(company);
+    } catch (error) {
+      res.status(400).json({ error: "Erro ao atualizar empresa" });
+    }
+  });
+
+  // Get company invoices (admin only)
+  app.get("/api/admin/companies/:id/invoices", requireAdminAuth, async (req, res) => {
+    const invoices = await storage.getInvoicesByCompany(req.params.id);
+    res.json(invoices);
+  });
+
+  // Mark an invoice as paid or void (admin only)
+  app.patch("/api/admin/invoices/:id", requireAdminAuth, async (req, res) => {
+    try {
+      const { status } = z.object({ status: z.enum(invoiceStatuses) }).parse(req.body);
+      const invoice = await storage.updateInvoiceStatus(req.params.id, status);
+      if (!invoice) {
+        return res.status(404).json({ error: "Fatura não encontrada" });
+      }
+      res.json(invoice);
+    } catch (error) {
+      res.status(400).json({ error: "Erro ao atualizar fatura" });
+    }
   });
 
   // Delete company (admin only)
@@ -458,6 +542,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(logs);
   });
 
+  // AI consumption and estimated cost of the month per company (admin only)
+  app.get("/api/admin/ai-usage", requireAdminAuth, async (req, res) => {
+    res.json(await getAiUsageReport());
+  });
+
+  // Local email outbox (admin only)
+  app.get("/api/admin/emails", requireAdminAuth, async (req, res) => {
+    const { limit } = req.query;
+    const emails = await storage.getOutboxEmails(limit ? Number(limit) : 100);
+    res.json(emails);
+  });
+
   // ============ USER ROUTES ============
 
   // Get current company
@@ -466,39 +562,160 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(company);
   });
 
-  // Update company
-  app.patch("/api/company", requireAuth, async (req: AuthRequest, res) => {
-    const updates = insertCompanySchema.partial().parse(req.body);
+  // Update company (plan and status are changed by the platform admin)
+  app.patch("/api/company", requireAuth, requirePermission('company:manage'), async (req: AuthRequest, res) => {
+    const updates = insertCompanySchema.omit({ status: true, plan: true, trialEndsAt: true }).partial().parse(req.body);
     const company = await storage.updateCompany(req.user!.companyId!, updates);
     res.json(company);
   });
 
+  // AI providers and models the company can choose for its agent
+  app.get("/api/ai/providers", requireAuth, async (req: AuthRequest, res) => {
+    res.json(listProviders());
+  });
+
+  // Available subscription plans (public)
+  app.get("/api/plans", async (req, res) => {
+    res.json(PLANS);
+  });
+
+  // Company plan, limits and usage of the current period
+  app.get("/api/billing", requireAuth, requirePermission('billing:view'), async (req: AuthRequest, res) => {
+    const summary = await getBillingSummary(req.user!.companyId!);
+    res.json(summary);
+  });
+
+  // Company subscription invoices
+  app.get("/api/billing/invoices", requireAuth, requirePermission('billing:view'), async (req: AuthRequest, res) => {
+    const invoices = await storage.getInvoicesByCompany(req.user!.companyId!);
+    res.json(invoices);
+  });
+
+  // AI consumption of the month against the plan quota
+  app.get("/api/ai/usage", requireAuth, async (req: AuthRequest, res) => {
+    const [usage] = await getAiUsageReport(req.user!.companyId!);
+    res.json(usage);
+  });
+
   // Generate webhook token for company
-  app.post("/api/company/webhook-token/generate", requireAuth, async (req: AuthRequest, res) => {
+  app.post("/api/company/webhook-token/generate", requireAuth, requirePermission('company:manage'), async (req: AuthRequest, res) => {
     const crypto = await import('crypto');
     const token = crypto.randomBytes(32).toString('hex');
     const company = await storage.updateCompany(req.user!.companyId!, {
       webhookToken: token,
-      webhookAuthEnabled: true,
     });
     res.json({ token: company?.webhookToken });
   });
 
-  // Toggle webhook authentication
-  app.patch("/api/company/webhook-auth", requireAuth, async (req: AuthRequest, res) => {
-    const { enabled } = req.body;
-    const company = await storage.updateCompany(req.user!.companyId!, {
-      webhookAuthEnabled: enabled,
-    });
-    res.json(company);
-  });
-
   // Get company stats
   app.get("/api/stats", requireAuth, async (req: AuthRequest, res) => {
     const stats = await storage.getCompanyStats(req.user!.companyId!);
     res.json(stats);
   });
 
+  // ============ TEAM ROUTES ============
+
+  // List company users with their presence
+  app.get("/api/company/users", requireAuth, async (req: AuthRequest, res) => {
+    const users = await storage.getUsersByCompany(req.user!.companyId!);
+    res.json(users.map(({ password: _password, ...user }) => ({ ...user, presence: getOperatorPresence(user) })));
+  });
+
+  // Invite a colleague by email
+  app.post("/api/company/users", requireAuth, requirePermission('team:manage'), async (req: AuthRequest, res) => {
+    try {
+      const { email, role } = z.object({
+        email: z.string().email().transform(value => value.toLowerCase()),
+        role: z.enum(["admin", "member"]),
+      }).parse(req.body);
+
+      if (!canManageRole(req.user!.role!, role)) {
+        return res.status(403).json({ error: "Você não pode convidar usuários com este papel" });
+      }
+
+      if (await storage.getUserByEmailOnly(email)) {
+        return res.status(400).json({ error: "Email já cadastrado" });
+      }
+
+      await assertPlanLimit(req.user!.companyId!, 'users');
+
+      const crypto = await import('crypto');
+      const invite = await storage.createUserInvite({
+        companyId: req.user!.companyId!,
+        email,
+        role,
+        token: crypto.randomBytes(32).toString('hex'),
+        invitedBy: req.user!.id!,
+        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      });
+
+      const company = await storage.getCompany(req.user!.companyId!);
+      await sendInviteEmail(invite, company?.name || 'Omni.AI', req.user!.name!);
+
+      const { token: _token, ...inviteData } = invite;
+      res.json(inviteData);
+    } catch (error) {
+      if (error instanceof PlanLimitError || error instanceof SubscriptionSuspendedError) {
+        return res.status(402).json({ error: error.message });
+      }
+      console.error('Invite error:', error);
+      res.status(400).json({ error: "Erro ao enviar convite" });
+    }
+  });
+
+  // Change a user's name or role
+  app.patch("/api/company/users/:id", requireAuth, requirePermission('team:manage'), async (req: AuthRequest, res) => {
+    try {
+      const updates = z.object({
+        name: z.string().min(1).optional(),
+        role: z.enum(["admin", "member"]).optional(),
+      }).parse(req.body);
+
+      const target = await storage.getUser(req.params.id);
+      if (!target || target.companyId !== req.user!.companyId) {
+        return res.status(404).json({ error: "Usuário não encontrado" });
+      }
+      if (!canManageRole(req.user!.role!, target.role) || (updates.role && !canManageRole(req.user!.role!, updates.role))) {
+        return res.status(403).json({ error: "Você não tem permissão para alterar este usuário" });
+      }
+
+      const user = await storage.updateUser(target.id, req.user!.companyId!, updates);
+      const { password: _password, ...userData } = user!;
+      res.json(userData);
+    } catch (error) {
+      res.status(400).json({ error: "Erro ao atualizar usuário" });
+    }
+  });
+
+  // Remove a user from the company
+  app.delete("/api/company/users/:id", requireAuth, requirePermission('team:manage'), async (req: AuthRequest, res) => {
+    const target = await storage.getUser(req.params.id);
+    if (!target || target.companyId !== req.user!.companyId) {
+      return res.status(404).json({ error: "Usuário não encontrado" });
+    }
+    if (target.id === req.user!.userId) {
+      return res.status(400).json({ error: "Você não pode remover a si mesmo" });
+    }
+    if (!canManageRole(req.user!.role!, target.role)) {
+      return res.status(403).json({ error: "Você não tem permissão para remover este usuário" });
+    }
+
+    await storage.deleteUser(target.id, req.user!.companyId!);
+    res.json({ success: true });
+  });
+
+  // List pending invites
+  app.get("/api/company/invites", requireAuth, requirePermission('team:manage'), async (req: AuthRequest, res) => {
+    const invites = await storage.getPendingUserInvites(req.user!.companyId!);
+    res.json(invites.map(({ token: _token, ...invite }) => invite));
+  });
+
+  // Revoke a pending invite
+  app.delete("/api/company/invites/:id", requireAuth, requirePermission('team:manage'), async (req: AuthRequest, res) => {
+    await storage.deleteUserInvite(req.params.id, req.user!.companyId!);
+    res.json({ success: true });
+  });
+
   // ============ AGENT ROUTES ============
 
   // Get agent configuration
@@ -508,7 +725,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create or update agent
-  app.post("/api/agent", requireAuth, async (req: AuthRequest, res) => {
+  app.post("/api/agent", requireAuth, requirePermission('agent:manage'), async (req: AuthRequest, res) => {
     try {
       const data = insertAgentSchema.parse({ 
         ...req.body, 
@@ -530,7 +747,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update agent configuration
-  app.patch("/api/agent", requireAuth, async (req: AuthRequest, res) => {
+  app.patch("/api/agent", requireAuth, requirePermission('agent:manage'), async (req: AuthRequest, res) => {
     try {
       const updates = insertAgentSchema.partial().parse(req.body);
       const agent = await storage.updateAgent(req.user!.companyId!, updates);
@@ -541,7 +758,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Upload context documents for agent
-  app.post("/api/agent/documents", requireAuth, documentUpload.array('documents', 10), async (req: AuthRequest, res) => {
+  app.post("/api/agent/documents", requireAuth, requirePermission('agent:manage'), documentUpload.array('documents', 10), async (req: AuthRequest, res) => {
     try {
       const files = req.files as Express.Multer.File[];
       if (!files || files.length === 0) {
@@ -555,6 +772,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const fileName = `documents/${req.user!.companyId!}/${Date.now()}-${file.originalname}`;
         const url = await objectStorageService.uploadToPublicStorage(file.buffer, fileName, file.mimetype);
         documentUrls.push(url);
+
+        // Index document for retrieval (failure doesn't block the upload)
+        try {
+          await indexDocument(req.user!.companyId!, url, file);
+        } catch (indexError) {
+          console.error(`Error indexing document ${file.originalname}:`, indexError);
+        }
       }
 
       const agent = await storage.getAgentByCompany(req.user!.companyId!);
@@ -572,6 +796,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List context documents with their knowledge base status
+  app.get("/api/agent/documents", requireAuth, async (req: AuthRequest, res) => {
+    const agent = await storage.getAgentByCompany(req.user!.companyId!);
+    const indexed = await getIndexedDocuments(req.user!.companyId!);
+    const documents = (agent?.contextDocuments || []).map(url => ({
+      url,
+      name: indexed.get(url)?.documentName || decodeURIComponent(url.split('/').pop() || url).replace(/^\d+-/, ''),
+      chunks: indexed.get(url)?.chunks || 0,
+    }));
+    res.json(documents);
+  });
+
+  // Remove a context document
+  app.delete("/api/agent/documents", requireAuth, requirePermission('agent:manage'), async (req: AuthRequest, res) => {
+    try {
+      const { url } = z.object({ url: z.string() }).parse(req.body);
+      const agent = await storage.getAgentByCompany(req.user!.companyId!);
+      const updatedDocs = (agent?.contextDocuments || []).filter(doc => doc !== url);
+
+      await removeDocument(req.user!.companyId!, url);
+      const updated = await storage.updateAgent(req.user!.companyId!, {
+        contextDocuments: updatedDocs,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ error: "Erro ao remover documento" });
+    }
+  });
+
+  // Re-index all context documents (e.g. documents uploaded before retrieval existed)
+  app.post("/api/agent/documents/reindex", requireAuth, requirePermission('agent:manage'), async (req: AuthRequest, res) => {
+    try {
+      const agent = await storage.getAgentByCompany(req.user!.companyId!);
+      const objectStorageService = new ObjectStorageService();
+      const results = [];
+
+      for (const url of agent?.contextDocuments || []) {
+        const buffer = await objectStorageService.downloadFromPublicStorage(url);
+        if (!buffer) {
+          results.push({ url, chunks: 0, error: "Arquivo não encontrado" });
+          continue;
+        }
+        const originalname = decodeURIComponent(url.split('/').pop() || url).replace(/^\d+-/, '');
+        const mimetype = originalname.endsWith('.pdf') ? 'application/pdf' : originalname.endsWith('.xml') ? 'application/xml' : 'text/plain';
+        const chunks = await indexDocument(req.user!.companyId!, url, { buffer, mimetype, originalname });
+        results.push({ url, chunks });
+      }
+
+      res.json(results);
+    } catch (error) {
+      console.error('Error reindexing documents:', error);
+      res.status(500).json({ error: "Erro ao reindexar documentos" });
+    }
+  });
+
   // ============ PRODUCT ROUTES ============
 
   // Get all products
@@ -587,7 +867,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create product
-  app.post("/api/products", requireAuth, async (req: AuthRequest, res) => {
+  app.post("/api/products", requireAuth, requirePermission('products:manage'), requirePlanLimit('products'), async (req: AuthRequest, res) => {
     try {
       const data = insertProductSchema.parse({ 
         ...req.body, 
@@ -601,7 +881,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update product
-  app.patch("/api/products/:id", requireAuth, async (req: AuthRequest, res) => {
+  app.patch("/api/products/:id", requireAuth, requirePermission('products:manage'), async (req: AuthRequest, res) => {
     try {
       const updates = insertProductSchema.partial().parse(req.body);
       const product = await storage.updateProduct(req.params.id, req.user!.companyId!, updates);
@@ -611,19 +891,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get stock movement ledger for a product
+  app.get("/api/products/:id/stock-movements", requireAuth, async (req: AuthRequest, res) => {
+    const movements = await storage.getStockMovementsByProduct(req.params.id, req.user!.companyId!);
+    res.json(movements);
+  });
+
   // Delete product
-  app.delete("/api/products/:id", requireAuth, async (req: AuthRequest, res) => {
+  app.delete("/api/products/:id", requireAuth, requirePermission('products:delete'), async (req: AuthRequest, res) => {
     await storage.deleteProduct(req.params.id, req.user!.companyId!);
     res.json({ success: true });
   });
 
   // Bulk create products (CSV upload)
-  app.post("/api/products/bulk", requireAuth, async (req: AuthRequest, res) => {
+  app.post("/api/products/bulk", requireAuth, requirePermission('products:manage'), async (req: AuthRequest, res) => {
     try {
       const { products } = z.object({
         products: z.array(insertProductSchema.omit({ companyId: true })),
       }).parse(req.body);
 
+      await assertPlanLimit(req.user!.companyId!, 'products', products.length);
+
       const productsWithCompany = products.map(p => ({
         ...p,
         companyId: req.user!.companyId!,
@@ -632,12 +920,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const created = await storage.createProductsBulk(productsWithCompany);
       res.json(created);
     } catch (error) {
+      if (error instanceof PlanLimitError || error instanceof SubscriptionSuspendedError) {
+        return res.status(402).json({ error: error.message });
+      }
       res.status(400).json({ error: "Erro ao importar produtos" });
     }
   });
 
   // Generate AI description for product
-  app.post("/api/products/generate-description", requireAuth, async (req: AuthRequest, res) => {
+  app.post("/api/products/generate-description", requireAuth, requirePermission('products:manage'), async (req: AuthRequest, res) => {
     try {
       const { name, category } = z.object({
         name: z.string(),
@@ -646,23 +937,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const prompt = `Crie uma descrição de produto atraente e persuasiva para: ${name}${category ? ` (categoria: ${category})` : ''}. A descrição deve ter 2-3 frases, destacar benefícios e ser apropriada para e-commerce.`;
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
+      const completion = await createChatCompletion('description', {
         messages: [{ role: "user", content: prompt }],
         max_tokens: 150,
         temperature: 0.7,
-      });
+      }, { companyId: req.user!.companyId! });
 
       const description = completion.choices[0].message.content?.trim() || "";
       res.json({ description });
     } catch (error) {
-      console.error('OpenAI error:', error);
+      console.error('LLM error:', error);
+      if (error instanceof AIQuotaExceededError) {
+        return res.status(429).json({ error: error.message });
+      }
       res.status(500).json({ error: "Erro ao gerar descrição" });
     }
   });
 
   // Bulk import products from PDF/XML file using AI
-  app.post("/api/products/bulk-import", requireAuth, documentUpload.single('file'), async (req: AuthRequest, res) => {
+  app.post("/api/products/bulk-import", requireAuth, requirePermission('products:manage'), documentUpload.single('file'), async (req: AuthRequest, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "Nenhum arquivo foi enviado" });
@@ -672,13 +965,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let extractedImages: Buffer[] = [];
 
       // Extract text and images based on file type
-      if (req.file.mimetype === 'application/pdf') {
-        // Dynamic import for ESM compatibility  
-        const pdfParseModule = await import('pdf-parse');
-        // pdf-parse might export as default or as the module itself
-        const pdfParse = (pdfParseModule as any).default || pdfParseModule;
-        const pdfData = await pdfParse(req.file.buffer);
-        extractedText = pdfData.text;
+      if (isPdf(req.file.mimetype)) {
+        extractedText = await extractPdfText(req.file.buffer);
 
         console.log('PDF parsed successfully. Text length:', extractedText.length);
 
@@ -700,7 +988,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           console.error('Error extracting images from PDF:', imgError);
           // Continue even if image extraction fails
         }
-      } else if (req.file.mimetype === 'application/xml' || req.file.mimetype === 'text/xml' || req.file.originalname.endsWith('.xml')) {
+      } else if (isXml(req.file.mimetype, req.file.originalname)) {
         const xmlText = req.file.buffer.toString('utf-8');
         extractedText = xmlText;
       } else if (req.file.mimetype === 'text/plain') {
@@ -724,8 +1012,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           try {
             const base64Image = extractedImages[i].toString('base64');
             
-            const visionCompletion = await openai.chat.completions.create({
-              model: "gpt-4o",
+            const visionCompletion = await createChatCompletion('vision', {
               messages: [{
                 role: "user",
                 content: [
@@ -767,7 +1054,7 @@ REGRAS IMPORTANTES:
               response_format: { type: "json_object" },
               max_tokens: 4000,
               temperature: 0.2,
-            });
+            }, { companyId: req.user!.companyId! });
 
             const pageData = JSON.parse(visionCompletion.choices[0].message.content || "{}");
             if (pageData.products && Array.isArray(pageData.products)) {
@@ -811,13 +1098,12 @@ REGRAS IMPORTANTES:
 Texto do documento:
 ${extractedText.substring(0, 15000)}`;
 
-        const completion = await openai.chat.completions.create({
-          model: "gpt-4o-mini",
+        const completion = await createChatCompletion('extraction', {
           messages: [{ role: "user", content: prompt }],
           response_format: { type: "json_object" },
           max_tokens: 4000,
           temperature: 0.3,
-        });
+        }, { companyId: req.user!.companyId! });
 
         const responseContent = completion.choices[0].message.content || "{}";
         parsedData = JSON.parse(responseContent);
@@ -868,6 +1154,7 @@ ${extractedText.substring(0, 15000)}`;
         isActive: false,
       }));
 
+      await assertPlanLimit(req.user!.companyId!, 'products', productsToCreate.length);
       const createdProducts = await storage.createProductsBulk(productsToCreate);
       
       res.json({
@@ -877,6 +1164,12 @@ ${extractedText.substring(0, 15000)}`;
       });
     } catch (error) {
       console.error('Bulk import error:', error);
+      if (error instanceof AIQuotaExceededError) {
+        return res.status(429).json({ error: error.message });
+      }
+      if (error instanceof PlanLimitError || error instanceof SubscriptionSuspendedError) {
+        return res.status(402).json({ error: error.message });
+      }
       res.status(500).json({ error: "Erro ao processar arquivo. Verifique o formato e tente novamente." });
     }
   });
@@ -888,7 +1181,7 @@ ${extractedText.substring(0, 15000)}`;
   });
 
   // Publish a draft product (change status to published)
-  app.post("/api/products/:id/publish", requireAuth, async (req: AuthRequest, res) => {
+  app.post("/api/products/:id/publish", requireAuth, requirePermission('products:manage'), async (req: AuthRequest, res) => {
     try {
       const product = await storage.updateProductStatus(req.params.id, req.user!.companyId!, "published");
       if (!product) {
@@ -903,7 +1196,7 @@ ${extractedText.substring(0, 15000)}`;
   });
 
   // Publish all draft products at once
-  app.post("/api/products/publish-all", requireAuth, async (req: AuthRequest, res) => {
+  app.post("/api/products/publish-all", requireAuth, requirePermission('products:manage'), async (req: AuthRequest, res) => {
     try {
       const drafts = await storage.getProductsByCompanyAndStatus(req.user!.companyId!, "draft");
       
@@ -921,6 +1214,134 @@ ${extractedText.substring(0, 15000)}`;
     }
   });
 
+  // ============ PROMOTION ROUTES ============
+
+  // List promotions and coupons
+  app.get("/api/promotions", requireAuth, requirePermission('products:manage'), async (req: AuthRequest, res) => {
+    const promotions = await storage.getPromotionsByCompany(req.user!.companyId!);
+    res.json(promotions);
+  });
+
+  // Create promotion (with a code = coupon, without = automatic)
+  app.post("/api/promotions", requireAuth, requirePermission('products:manage'), async (req: AuthRequest, res) => {
+    try {
+      const parsed = insertPromotionSchema.safeParse({
+        ...req.body,
+        companyId: req.user!.companyId!,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Dados inválidos" });
+      }
+      const configError = promotionConfigError(parsed.data);
+      if (configError) {
+        return res.status(400).json({ error: configError });
+      }
+      if (parsed.data.code && await storage.getPromotionByCode(req.user!.companyId!, parsed.data.code)) {
+        return res.status(400).json({ error: "Já existe um cupom com este código" });
+      }
+
+      const promotion = await storage.createPromotion(parsed.data);
+      res.json(promotion);
+    } catch (error) {
+      console.error('Error creating promotion:', error);
+      res.status(400).json({ error: "Erro ao criar promoção" });
+    }
+  });
+
+  // Update promotion (e.g. pause it or extend its validity)
+  app.patch("/api/promotions/:id", requireAuth, requirePermission('products:manage'), async (req: AuthRequest, res) => {
+    try {
+      const current = await storage.getPromotion(req.params.id, req.user!.companyId!);
+      if (!current) {
+        return res.status(404).json({ error: "Promoção não encontrada" });
+      }
+
+      const parsed = insertPromotionSchema.omit({ companyId: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Dados inválidos" });
+      }
+      const configError = promotionConfigError({ ...current, ...parsed.data });
+      if (configError) {
+        return res.status(400).json({ error: configError });
+      }
+      if (parsed.data.code && parsed.data.code !== current.code && await storage.getPromotionByCode(req.user!.companyId!, parsed.data.code)) {
+        return res.status(400).json({ error: "Já existe um cupom com este código" });
+      }
+
+      const promotion = await storage.updatePromotion(req.params.id, req.user!.companyId!, parsed.data);
+      res.json(promotion);
+    } catch (error) {
+      res.status(400).json({ error: "Erro ao atualizar promoção" });
+    }
+  });
+
+  // Delete promotion (orders keep their itemized discounts)
+  app.delete("/api/promotions/:id", requireAuth, requirePermission('products:manage'), async (req: AuthRequest, res) => {
+    await storage.deletePromotion(req.params.id, req.user!.companyId!);
+    res.json({ success: true });
+  });
+
+  // ============ SHIPPING ROUTES ============
+
+  // List shipping rules
+  app.get("/api/shipping-rules", requireAuth, requirePermission('company:manage'), async (req: AuthRequest, res) => {
+    const rules = await storage.getShippingRulesByCompany(req.user!.companyId!);
+    res.json(rules);
+  });
+
+  // Create shipping rule
+  app.post("/api/shipping-rules", requireAuth, requirePermission('company:manage'), async (req: AuthRequest, res) => {
+    try {
+      const parsed = insertShippingRuleSchema.safeParse({
+        ...req.body,
+        companyId: req.user!.companyId!,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Dados inválidos" });
+      }
+      const configError = shippingRuleConfigError(parsed.data);
+      if (configError) {
+        return res.status(400).json({ error: configError });
+      }
+
+      const rule = await storage.createShippingRule(parsed.data);
+      res.json(rule);
+    } catch (error) {
+      console.error('Error creating shipping rule:', error);
+      res.status(400).json({ error: "Erro ao criar regra de frete" });
+    }
+  });
+
+  // Update shipping rule (e.g. pause it or change its price)
+  app.patch("/api/shipping-rules/:id", requireAuth, requirePermission('company:manage'), async (req: AuthRequest, res) => {
+    try {
+      const current = await storage.getShippingRule(req.params.id, req.user!.companyId!);
+      if (!current) {
+        return res.status(404).json({ error: "Regra de frete não encontrada" });
+      }
+
+      const parsed = insertShippingRuleSchema.omit({ companyId: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Dados inválidos" });
+      }
+      const configError = shippingRuleConfigError({ ...current, ...parsed.data });
+      if (configError) {
+        return res.status(400).json({ error: configError });
+      }
+
+      const rule = await storage.updateShippingRule(req.params.id, req.user!.companyId!, parsed.data);
+      res.json(rule);
+    } catch (error) {
+      res.status(400).json({ error: "Erro ao atualizar regra de frete" });
+    }
+  });
+
+  // Delete shipping rule (orders keep their shipping method)
+  app.delete("/api/shipping-rules/:id", requireAuth, requirePermission('company:manage'), async (req: AuthRequest, res) => {
+    await storage.deleteShippingRule(req.params.id, req.user!.companyId!);
+    res.json({ success: true });
+  });
+
   // ============ ORDER ROUTES ============
 
   // Get all orders
@@ -936,13 +1357,37 @@ ${extractedText.substring(0, 15000)}`;
   });
 
   // Update order status
-  app.patch("/api/orders/:id/status", requireAuth, async (req: AuthRequest, res) => {
+  app.patch("/api/orders/:id/status", requireAuth, requirePermission('orders:manage'), async (req: AuthRequest, res) => {
     try {
-      const { status } = z.object({ status: z.string() }).parse(req.body);
-      const order = await storage.updateOrderStatus(req.params.id, req.user!.companyId!, status);
+      const { status, note } = z.object({
+        status: z.enum(orderStatuses),
+        note: z.string().optional(),
+      }).parse(req.body);
+      const previousOrder = await storage.getOrder(req.params.id, req.user!.companyId!);
+      const order = await storage.updateOrderStatus(
+        req.params.id,
+        req.user!.companyId!,
+        status,
+        { userId: req.user!.id, name: req.user!.name || 'Usuário' },
+        note,
+      );
+      if (!order) {
+        return res.status(404).json({ error: "Pedido não encontrado" });
+      }
+      
+      await notifyOrderEvent('order.status_updated', order, previousOrder?.status);
+
+      // Money goes back through the gateway that charged it
+      if (status === 'cancelled' || status === 'refunded') {
+        try {
+          await refundOrderPayments(order);
+        } catch (paymentError) {
+          console.error('Error refunding order payments:', paymentError);
+        }
+      }
       
       // Send automatic notification to the conversation if order is linked to one
-      if (order && order.conversationId) {
+      if (order.conversationId) {
         try {
           // Get company info for personalized message
           const company = await storage.getCompany(req.user!.companyId!);
@@ -956,13 +1401,14 @@ ${extractedText.substring(0, 15000)}`;
             'shipped': `Seu pedido #${order.confirmationCode} saiu para entrega! Em breve estará com você.`,
             'delivered': `Seu pedido #${order.confirmationCode} foi entregue! Esperamos que aproveite. Obrigado por comprar com ${companyName}!`,
             'cancelled': `Seu pedido #${order.confirmationCode} foi cancelado. Se tiver dúvidas, estou aqui para ajudar!`,
+            'refunded': `O reembolso do seu pedido #${order.confirmationCode} foi realizado. Se tiver dúvidas, estou aqui para ajudar!`,
           };
           
           const notificationMessage = statusMessages[status] || 
             `Status do seu pedido #${order.confirmationCode} atualizado para: ${status}`;
           
           // Send automated agent message to the conversation
-          await storage.createMessage({
+          const statusMessage = await storage.createMessage({
             conversationId: order.conversationId,
             role: 'assistant',
             content: notificationMessage,
@@ -974,6 +1420,12 @@ ${extractedText.substring(0, 15000)}`;
             },
           });
           
+          const conversation = await storage.getConversation(order.conversationId);
+          if (conversation) {
+            publishMessages(conversation, statusMessage);
+            await notifyOutboundMessage(conversation, statusMessage);
+          }
+          
           // Log the notification
           await storage.createApiLog({
             companyId: req.user!.companyId!,
@@ -996,10 +1448,69 @@ ${extractedText.substring(0, 15000)}`;
       
       res.json(order);
     } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(400).json({ error: "Erro ao atualizar pedido" });
     }
   });
 
+  // Get order status timeline
+  app.get("/api/orders/:id/history", requireAuth, async (req: AuthRequest, res) => {
+    const history = await storage.getOrderStatusHistory(req.params.id, req.user!.companyId!);
+    res.json(history);
+  });
+
+  // ============ PAYMENT ROUTES ============
+
+  // List payments of an order
+  app.get("/api/orders/:id/payments", requireAuth, async (req: AuthRequest, res) => {
+    const payments = await storage.getPaymentsByOrder(req.params.id, req.user!.companyId!);
+    res.json(payments);
+  });
+
+  // Gateway transaction log of an order (charges, captures, refunds)
+  app.get("/api/orders/:id/transactions", requireAuth, async (req: AuthRequest, res) => {
+    const transactions = await storage.getPaymentTransactionsByOrder(req.params.id, req.user!.companyId!);
+    res.json(transactions);
+  });
+
+  // Simulate the customer paying (sandbox gateways only)
+  app.post("/api/payments/:id/simulate", requireAuth, requirePermission('orders:manage'), async (req: AuthRequest, res) => {
+    try {
+      const payment = await storage.getPayment(req.params.id);
+      if (!payment || payment.companyId !== req.user!.companyId!) {
+        return res.status(404).json({ error: "Pagamento não encontrado" });
+      }
+      if (payment.status !== 'awaiting_payment') {
+        return res.status(409).json({ error: "Pagamento não está aguardando confirmação" });
+      }
+      await simulatePayment(payment);
+      res.json(await storage.getPayment(payment.id));
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Payment simulation error:', error);
+      res.status(500).json({ error: "Erro ao simular pagamento" });
+    }
+  });
+
+  // Payment confirmation webhook from the gateway (signature verified against the raw body)
+  app.post("/api/payments/webhook/:gateway", async (req, res) => {
+    try {
+      const rawBody = Buffer.isBuffer(req.rawBody) ? req.rawBody.toString('utf8') : JSON.stringify(req.body);
+      const accepted = await handleGatewayWebhook(req.params.gateway, rawBody, req.headers);
+      if (!accepted) {
+        return res.status(401).json({ error: "Assinatura inválida" });
+      }
+      res.json({ received: true });
+    } catch (error) {
+      console.error('Payment webhook error:', error);
+      res.status(500).json({ error: "Erro ao processar webhook de pagamento" });
+    }
+  });
+
   // ============ CUSTOMER ROUTES ============
 
   // Get all customers
@@ -1025,14 +1536,10 @@ ${extractedText.substring(0, 15000)}`;
     res.json(conversations);
   });
 
-  // Get single conversation with messages
-  app.get("/api/conversations/:id", requireAuth, async (req: AuthRequest, res) => {
-    const conversation = await storage.getConversation(req.params.id);
-    if (!conversation || conversation.companyId !== req.user!.companyId!) {
-      return res.status(404).json({ error: "Conversa não encontrada" });
-    }
-    const messages = await storage.getMessagesByConversation(req.params.id);
-    res.json({ ...conversation, messages });
+  // Conversations assigned to the current operator ("my conversations")
+  app.get("/api/conversations/mine", requireAuth, async (req: AuthRequest, res) => {
+    const conversations = await storage.getAssignedConversations(req.user!.companyId!, req.user!.id!);
+    res.json(conversations);
   });
 
   // Get active conversations (for live monitoring)
@@ -1113,23 +1620,40 @@ ${extractedText.substring(0, 15000)}`;
     }
   });
 
+  // Get single conversation with messages (after /active and /analytics so they are not shadowed)
+  app.get("/api/conversations/:id", requireAuth, async (req: AuthRequest, res) => {
+    const conversation = await storage.getConversation(req.params.id);
+    if (!conversation || conversation.companyId !== req.user!.companyId!) {
+      return res.status(404).json({ error: "Conversa não encontrada" });
+    }
+    const messages = await storage.getMessagesByConversation(req.params.id);
+    res.json({ ...conversation, messages });
+  });
+
   // Takeover conversation (operator assumes control)
-  app.post("/api/conversations/:id/takeover", requireAuth, async (req: AuthRequest, res) => {
+  app.post("/api/conversations/:id/takeover", requireAuth, requirePermission('conversations:reply'), async (req: AuthRequest, res) => {
     try {
       const conversation = await storage.getConversation(req.params.id);
       if (!conversation || conversation.companyId !== req.user!.companyId!) {
         return res.status(404).json({ error: "Conversa não encontrada" });
       }
 
-      await storage.takeoverConversation(req.params.id, req.user!.id!, req.user!.name!);
+      await storage.takeoverConversation(req.params.id, req.user!.id!);
+      const updated = await storage.getConversation(req.params.id);
+      if (updated) {
+        publishTakeover(updated, req.user!.name!);
+        publishConversationUpdate(updated);
+      }
       
       // Send friendly system message to chat
-      await storage.createMessage({
+      const systemMessage = await storage.createMessage({
         conversationId: req.params.id,
         role: 'assistant',
         content: `Olá! Meu nome é ${req.user!.name} e agora vou continuar seu atendimento.`,
         metadata: { systemMessage: true, operatorName: req.user!.name },
       });
+      publishMessages(conversation, systemMessage);
+      await notifyOutboundMessage(conversation, systemMessage);
 
       res.json({ success: true });
     } catch (error) {
@@ -1138,8 +1662,179 @@ ${extractedText.substring(0, 15000)}`;
     }
   });
 
+  // Hand the conversation back to the AI with a summary of the human segment
+  app.post("/api/conversations/:id/release", requireAuth, requirePermission('conversations:reply'), async (req: AuthRequest, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || conversation.companyId !== req.user!.companyId!) {
+        return res.status(404).json({ error: "Conversa não encontrada" });
+      }
+      if (conversation.mode === 'ai') {
+        return res.status(400).json({ error: "A conversa já está com a IA" });
+      }
+
+      const summary = await summarizeHumanSegment(conversation);
+      const updated = await storage.releaseConversation(conversation.id, summary);
+      if (updated) {
+        publishTakeover(updated, null);
+        publishConversationUpdate(updated);
+      }
+
+      const systemMessage = await storage.createMessage({
+        conversationId: conversation.id,
+        role: 'assistant',
+        content: 'Obrigado por falar com a nossa equipe! Nosso assistente virtual segue com você a partir daqui.',
+        metadata: { systemMessage: true, handback: true, operatorName: req.user!.name },
+      });
+      publishMessages(conversation, systemMessage);
+      await notifyOutboundMessage(conversation, systemMessage);
+
+      res.json(updated);
+    } catch (error) {
+      console.error('Release error:', error);
+      res.status(500).json({ error: "Erro ao devolver conversa para a IA" });
+    }
+  });
+
+  // Switch a taken-over conversation between human and hybrid (AI drafts, operator approves)
+  app.patch("/api/conversations/:id/mode", requireAuth, requirePermission('conversations:reply'), async (req: AuthRequest, res) => {
+    try {
+      const { mode } = z.object({ mode: z.enum(['human', 'hybrid']) }).parse(req.body);
+
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || conversation.companyId !== req.user!.companyId!) {
+        return res.status(404).json({ error: "Conversa não encontrada" });
+      }
+      if (conversation.mode === 'ai') {
+        return res.status(400).json({ error: "Assuma a conversa antes de mudar o modo" });
+      }
+
+      const updated = await storage.updateConversation(conversation.id, {
+        mode,
+        ...(mode === 'human' && { draftReply: null, draftReplyAt: null }),
+      });
+      if (updated) {
+        publishConversationUpdate(updated);
+      }
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ error: "Erro ao mudar modo da conversa" });
+    }
+  });
+
+  // Send the AI draft (optionally edited) as an operator message
+  app.post("/api/conversations/:id/draft/approve", requireAuth, requirePermission('conversations:reply'), async (req: AuthRequest, res) => {
+    try {
+      const parsed = z.object({ content: z.string().trim().min(1).optional() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Mensagem vazia" });
+      }
+
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || conversation.companyId !== req.user!.companyId!) {
+        return res.status(404).json({ error: "Conversa não encontrada" });
+      }
+      if (!conversation.draftReply) {
+        return res.status(404).json({ error: "Nenhum rascunho pendente" });
+      }
+
+      const text = parsed.data.content ?? conversation.draftReply;
+      const message = await storage.createMessage({
+        conversationId: conversation.id,
+        role: 'operator',
+        content: text,
+        metadata: { aiDraft: true, edited: text !== conversation.draftReply },
+        operatorId: req.user!.id!,
+        operatorName: req.user!.name!,
+      });
+      const updated = await storage.updateConversation(conversation.id, { draftReply: null, draftReplyAt: null });
+
+      publishMessages(conversation, message);
+      if (updated) {
+        publishConversationUpdate(updated);
+      }
+      await notifyOutboundMessage(conversation, message);
+
+      res.json(message);
+    } catch (error) {
+      console.error('Draft approval error:', error);
+      res.status(500).json({ error: "Erro ao enviar rascunho" });
+    }
+  });
+
+  // Discard the pending AI draft
+  app.delete("/api/conversations/:id/draft", requireAuth, requirePermission('conversations:reply'), async (req: AuthRequest, res) => {
+    const conversation = await storage.getConversation(req.params.id);
+    if (!conversation || conversation.companyId !== req.user!.companyId!) {
+      return res.status(404).json({ error: "Conversa não encontrada" });
+    }
+
+    const updated = await storage.updateConversation(conversation.id, { draftReply: null, draftReplyAt: null });
+    if (updated) {
+      publishConversationUpdate(updated);
+    }
+    res.json({ success: true });
+  });
+
+  // Assign a conversation to an operator (null = unassign). Assigning someone else requires team:manage.
+  app.post("/api/conversations/:id/assign", requireAuth, requirePermission('conversations:reply'), async (req: AuthRequest, res) => {
+    try {
+      const { userId } = z.object({ userId: z.string().nullable() }).parse(req.body);
+
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || conversation.companyId !== req.user!.companyId!) {
+        return res.status(404).json({ error: "Conversa não encontrada" });
+      }
+
+      const changesSomeoneElse = userId !== req.user!.id && !(userId === null && conversation.assignedTo === req.user!.id);
+      if (changesSomeoneElse && !hasPermission(req.user!.role!, 'team:manage')) {
+        return res.status(403).json({ error: "Você só pode assumir ou liberar suas próprias conversas" });
+      }
+
+      if (userId) {
+        const assignee = await storage.getUser(userId);
+        if (!assignee || assignee.companyId !== req.user!.companyId) {
+          return res.status(404).json({ error: "Usuário não encontrado" });
+        }
+      }
+
+      const updated = await storage.updateConversation(conversation.id, {
+        assignedTo: userId,
+        assignedAt: userId ? new Date() : null,
+      });
+      if (updated) {
+        publishConversationUpdate(updated);
+      }
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ error: "Erro ao atribuir conversa" });
+    }
+  });
+
+  // AI-drafted reply options for the operator (conversation taken over by a human)
+  app.post("/api/conversations/:id/suggest-replies", requireAuth, requirePermission('conversations:reply'), async (req: AuthRequest, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || conversation.companyId !== req.user!.companyId!) {
+        return res.status(404).json({ error: "Conversa não encontrada" });
+      }
+      if (conversation.mode === 'ai') {
+        return res.status(400).json({ error: "Assuma a conversa para receber sugestões" });
+      }
+
+      const suggestions = await suggestOperatorReplies(conversation);
+      res.json({ suggestions });
+    } catch (error) {
+      console.error('Suggest replies error:', error);
+      if (error instanceof AIQuotaExceededError) {
+        return res.status(429).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Erro ao gerar sugestões" });
+    }
+  });
+
   // Send message as operator
-  app.post("/api/conversations/:id/operator-message", requireAuth, async (req: AuthRequest, res) => {
+  app.post("/api/conversations/:id/operator-message", requireAuth, requirePermission('conversations:reply'), async (req: AuthRequest, res) => {
     try {
       const conversation = await storage.getConversation(req.params.id);
       if (!conversation || conversation.companyId !== req.user!.companyId!) {
@@ -1158,6 +1853,16 @@ ${extractedText.substring(0, 15000)}`;
         operatorId: req.user!.id!,
         operatorName: req.user!.name!,
       });
+      publishMessages(conversation, message);
+
+      // The operator answered by hand: a pending draft is now stale
+      if (conversation.draftReply) {
+        const updated = await storage.updateConversation(conversation.id, { draftReply: null, draftReplyAt: null });
+        if (updated) {
+          publishConversationUpdate(updated);
+        }
+      }
+      await notifyOutboundMessage(conversation, message);
 
       res.json(message);
     } catch (error) {
@@ -1175,7 +1880,7 @@ ${extractedText.substring(0, 15000)}`;
   });
 
   // Update channels configuration
-  app.patch("/api/channels", requireAuth, async (req: AuthRequest, res) => {
+  app.patch("/api/channels", requireAuth, requirePermission('company:manage'), async (req: AuthRequest, res) => {
     try {
       const updates = insertChannelSchema.partial().parse(req.body);
       const channels = await storage.updateChannel(req.user!.companyId!, updates);
@@ -1185,6 +1890,96 @@ ${extractedText.substring(0, 15000)}`;
     }
   });
 
+  // ============ OUTBOUND WEBHOOK ROUTES ============
+
+  // List webhook subscriptions
+  app.get("/api/webhooks/subscriptions", requireAuth, requirePermission('webhooks:manage'), async (req: AuthRequest, res) => {
+    const subscriptions = await storage.getWebhookSubscriptionsByCompany(req.user!.companyId!);
+    res.json(subscriptions);
+  });
+
+  // Create webhook subscription (secret is generated server-side)
+  app.post("/api/webhooks/subscriptions", requireAuth, requirePermission('webhooks:manage'), async (req: AuthRequest, res) => {
+    try {
+      const data = insertWebhookSubscriptionSchema.parse({
+        ...req.body,
+        companyId: req.user!.companyId!,
+      });
+      const urlError = outboundUrlError(data.url);
+      if (urlError) {
+        return res.status(400).json({ error: urlError });
+      }
+      const subscription = await storage.createWebhookSubscription({
+        ...data,
+        secret: generateWebhookSecret(),
+      });
+      res.json(subscription);
+    } catch (error) {
+      res.status(400).json({ error: "Erro ao criar webhook" });
+    }
+  });
+
+  // Update webhook subscription
+  app.patch("/api/webhooks/subscriptions/:id", requireAuth, requirePermission('webhooks:manage'), async (req: AuthRequest, res) => {
+    try {
+      const updates = insertWebhookSubscriptionSchema.omit({ companyId: true }).partial().parse(req.body);
+      const urlError = updates.url !== undefined ? outboundUrlError(updates.url) : null;
+      if (urlError) {
+        return res.status(400).json({ error: urlError });
+      }
+      const subscription = await storage.updateWebhookSubscription(req.params.id, req.user!.companyId!, updates);
+      if (!subscription) {
+        return res.status(404).json({ error: "Webhook não encontrado" });
+      }
+      res.json(subscription);
+    } catch (error) {
+      res.status(400).json({ error: "Erro ao atualizar webhook" });
+    }
+  });
+
+  // Rotate webhook signing secret
+  app.post("/api/webhooks/subscriptions/:id/rotate-secret", requireAuth, requirePermission('webhooks:manage'), async (req: AuthRequest, res) => {
+    const subscription = await storage.updateWebhookSubscription(req.params.id, req.user!.companyId!, {
+      secret: generateWebhookSecret(),
+    });
+    if (!subscription) {
+      return res.status(404).json({ error: "Webhook não encontrado" });
+    }
+    res.json(subscription);
+  });
+
+  // Delete webhook subscription
+  app.delete("/api/webhooks/subscriptions/:id", requireAuth, requirePermission('webhooks:manage'), async (req: AuthRequest, res) => {
+    await storage.deleteWebhookSubscription(req.params.id, req.user!.companyId!);
+    res.json({ success: true });
+  });
+
+  // Delivery log
+  app.get("/api/webhooks/deliveries", requireAuth, requirePermission('webhooks:manage'), async (req: AuthRequest, res) => {
+    const { status, limit } = req.query;
+    const deliveries = await storage.getWebhookDeliveriesByCompany(
+      req.user!.companyId!,
+      typeof status === 'string' ? status : undefined,
+      limit ? Number(limit) : 100,
+    );
+    res.json(deliveries);
+  });
+
+  // Replay a delivery
+  app.post("/api/webhooks/deliveries/:id/replay", requireAuth, requirePermission('webhooks:manage'), async (req: AuthRequest, res) => {
+    try {
+      const delivery = await storage.getWebhookDelivery(req.params.id);
+      if (!delivery || delivery.companyId !== req.user!.companyId!) {
+        return res.status(404).json({ error: "Entrega não encontrada" });
+      }
+      const updated = await replayWebhookDelivery(delivery.id);
+      res.json(updated);
+    } catch (error) {
+      console.error('Webhook replay error:', error);
+      res.status(500).json({ error: "Erro ao reenviar webhook" });
+    }
+  });
+
   // ============ PUBLIC CHATWEB ROUTES ============
 
   // Get company info for ChatWeb (public)
@@ -1207,57 +2002,112 @@ ${extractedText.substring(0, 15000)}`;
     res.json(activeProducts);
   });
 
-  // Create conversation (public)
-  app.post("/api/chatweb/:companyId/conversations", async (req, res) => {
+  // Create conversation (public) - returns the visitor session token required by the other ChatWeb routes
+  app.post("/api/chatweb/:companyId/conversations",
+    rateLimit({ name: 'chat-conversation:ip', key: byIp, ...CHATWEB_LIMITS.conversationsPerIp }),
+    requirePlanLimit('conversations', (req) => req.params.companyId),
+    async (req, res) => {
     try {
       const { companyId } = req.params;
+      const company = await storage.getCompany(companyId);
+      if (!company) {
+        return res.status(404).json({ error: "Empresa não encontrada" });
+      }
+
       const data = insertConversationSchema.parse({
         companyId,
         channel: 'chatweb',
         status: 'active',
       });
       const conversation = await storage.createConversation(data);
-      res.json(conversation);
+      publishConversationUpdate(conversation);
+      res.json({ conversation, token: generateVisitorToken(companyId, conversation.id) });
     } catch (error) {
       res.status(400).json({ error: "Erro ao criar conversa" });
     }
   });
 
-  // Get conversation messages (public)
-  app.get("/api/chatweb/:companyId/conversations/:conversationId/messages", async (req, res) => {
+  // Get conversation messages (visitor session)
+  app.get("/api/chatweb/:companyId/conversations/:conversationId/messages", requireVisitorSession, async (req: VisitorRequest, res) => {
     try {
-      const { companyId, conversationId } = req.params;
-      
-      // Verify conversation belongs to this company (security check)
-      const conversation = await storage.getConversation(conversationId);
-      if (!conversation || conversation.companyId !== companyId) {
-        return res.status(403).json({ error: "Conversa não pertence a esta empresa" });
-      }
-      
-      const messages = await storage.getMessagesByConversation(conversationId);
+      const messages = await storage.getMessagesByConversation(req.conversation!.id);
       res.json(messages);
     } catch (error) {
       res.status(400).json({ error: "Erro ao buscar mensagens" });
     }
   });
 
-  // Send message and get AI response (public) with image and audio support
+  // "Continue on another device" link: one-time code exchanged for a new session token
+  app.post("/api/chatweb/:companyId/conversations/:conversationId/resume-link",
+    rateLimit({ name: 'chat-session:ip', key: byIp, ...CHATWEB_LIMITS.sessionRequestsPerIp }),
+    requireVisitorSession,
+    async (req: VisitorRequest, res) => {
+    try {
+      const crypto = await import('crypto');
+      const resumeCode = crypto.randomBytes(24).toString('base64url');
+      const resumeCodeExpiresAt = new Date(Date.now() + RESUME_LINK_TTL_MS);
+      await storage.updateConversation(req.conversation!.id, { resumeCode, resumeCodeExpiresAt });
+
+      res.json({
+        url: appUrl(`/chat/${req.params.companyId}?resume=${resumeCode}`),
+        expiresAt: resumeCodeExpiresAt,
+      });
+    } catch (error) {
+      console.error('Resume link error:', error);
+      res.status(500).json({ error: "Erro ao gerar link" });
+    }
+  });
+
+  // Exchange a resume code for a visitor session (public)
+  app.post("/api/chatweb/:companyId/sessions/resume",
+    rateLimit({ name: 'chat-session:ip', key: byIp, ...CHATWEB_LIMITS.sessionRequestsPerIp }),
+    async (req, res) => {
+    try {
+      const { companyId } = req.params;
+      const parsed = z.object({ code: z.string().min(1) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Código inválido" });
+      }
+
+      const conversation = await storage.getConversationByResumeCode(companyId, parsed.data.code);
+      if (!conversation || !conversation.resumeCodeExpiresAt || conversation.resumeCodeExpiresAt < new Date()) {
+        return res.status(404).json({ error: "Link inválido ou expirado" });
+      }
+
+      // One-time: the link stops working once used
+      const updated = await storage.updateConversation(conversation.id, { resumeCode: null, resumeCodeExpiresAt: null });
+      res.json({ conversation: updated || conversation, token: generateVisitorToken(companyId, conversation.id) });
+    } catch (error) {
+      console.error('Resume session error:', error);
+      res.status(500).json({ error: "Erro ao retomar conversa" });
+    }
+  });
+
+  // Send message and get AI response (visitor session) with image and audio support
+  // With ?stream=1 the reply is sent as Server-Sent Events: delta, tool, replace, done, error
   app.post("/api/chatweb/:companyId/conversations/:conversationId/messages", 
+    rateLimit({ name: 'chat-message:ip', key: byIp, ...CHATWEB_LIMITS.messagesPerIp }),
+    requireVisitorSession,
+    // Conversation and company counters only count requests with a valid session
+    rateLimit(
+      { name: 'chat-message:conversation', key: byConversation, ...CHATWEB_LIMITS.messagesPerConversation },
+      { name: 'chat-message:company', key: byCompany, ...CHATWEB_LIMITS.messagesPerCompany },
+    ),
     chatWebUpload.fields([{ name: 'image', maxCount: 1 }, { name: 'audio', maxCount: 1 }]),
-    async (req, res) => {
+    async (req: VisitorRequest, res) => {
     try {
       const { companyId, conversationId } = req.params;
+      const conversation = req.conversation!;
       const files = req.files as { [fieldname: string]: Express.Multer.File[] };
       const imageFile = files?.image?.[0];
       const audioFile = files?.audio?.[0];
       let content = req.body.content || '';
 
-      console.log('Message received - content:', content, 'has image:', !!imageFile, 'has audio:', !!audioFile);
+      console.log('Message received - content:', redactPii(content.substring(0, 200)), 'has image:', !!imageFile, 'has audio:', !!audioFile);
 
-      // Verify conversation belongs to this company (security check)
-      const conversation = await storage.getConversation(conversationId);
-      if (!conversation || conversation.companyId !== companyId) {
-        return res.status(403).json({ error: "Conversa não pertence a esta empresa" });
+      // Floods and repeated content are dropped before any paid processing
+      if (await detectBotMessage(companyId, conversationId, content)) {
+        return res.status(429).json({ error: "Muitas mensagens em pouco tempo. Aguarde um pouco e tente novamente." });
       }
 
       // Process image if uploaded
@@ -1279,26 +2129,13 @@ ${extractedText.substring(0, 15000)}`;
         }
       }
 
-      // Process audio if uploaded - transcribe with Whisper
-      let audioTranscription = '';
-      if (audioFile) {
+      // Process audio if uploaded - transcribe with Whisper (skipped while the spending breaker is open)
+      if (audioFile && await isSpendingCircuitOpen(companyId)) {
+        content = content || '🎤 Áudio';
+      } else if (audioFile) {
         try {
           console.log('Processing audio upload:', audioFile.size, 'bytes');
-          const fs = await import('fs');
-          const path = await import('path');
-          const tmpPath = path.join('/tmp', `audio-${Date.now()}.webm`);
-          fs.writeFileSync(tmpPath, audioFile.buffer);
-          
-          console.log('Transcribing audio with Whisper...');
-          const transcription = await openai.audio.transcriptions.create({
-            file: fs.createReadStream(tmpPath),
-            model: "whisper-1",
-            language: "pt",
-          });
-          
-          audioTranscription = transcription.text;
-          console.log('Audio transcription:', audioTranscription);
-          fs.unlinkSync(tmpPath); // Clean up temp file
+          const audioTranscription = await transcribeAudio(audioFile.buffer, companyId);
           
           if (audioTranscription) {
             content = (content ? content + ' ' : '') + audioTranscription;
@@ -1310,11 +2147,11 @@ ${extractedText.substring(0, 15000)}`;
 
       // Validate we have some content
       if (!content.trim() && !imageUrl) {
-        console.error('No content to process - content:', content, 'imageUrl:', imageUrl);
+        console.error('No content to process - imageUrl:', imageUrl);
         return res.status(400).json({ error: "Mensagem vazia" });
       }
       
-      console.log('Final content to be saved:', content.substring(0, 200));
+      console.log('Final content to be saved:', redactPii(content.substring(0, 200)));
 
       // Save user message with image in metadata
       const userMessage = await storage.createMessage({
@@ -1323,948 +2160,294 @@ ${extractedText.substring(0, 15000)}`;
         content: content,
         metadata: imageUrl ? { imageUrl } : null,
       });
+      publishMessages(conversation, userMessage);
 
       // Check if conversation is in human mode - don't call AI if human took over
       console.log('🔍 Conversation mode:', conversation.mode);
       if (conversation.mode !== 'ai') {
         console.log('⚠️ Conversation NOT in AI mode - returning early');
+        // Hybrid: the AI drafts a reply for the operator instead of answering
+        if (conversation.mode === 'hybrid') {
+          queueDraftReply({ companyId, conversationId, content, imageUrl, userMessage });
+        }
         // Just return the user message without AI response
         return res.json(userMessage);
       }
 
-      // Get company context
-      const company = await storage.getCompany(companyId);
-      const agent = await storage.getAgentByCompany(companyId);
-      const products = await storage.getProductsByCompany(companyId);
-      // Only use published AND active products for AI context
-      const activeProducts = products.filter(p => p.isActive && p.status === 'published');
-
-      // 🧠 CONVERSATION INTELLIGENCE: Analyze conversation to select best specialist agent
-      const allMessages = await storage.getMessagesByConversation(conversationId);
-      const analysis = await analyzeConversation(allMessages);
-      
-      // Update conversation with analysis results
-      await storage.updateConversation(conversationId, {
-        currentIntent: analysis.intent,
-        sentimentScore: analysis.sentiment,
-        complexityScore: analysis.complexity,
-        activeAgentType: analysis.suggestedAgent,
-        analysisUpdatedAt: new Date(),
-      });
+      const stream = req.query.stream === '1';
+      const sendEvent = (event: string, data: unknown) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+      if (stream) {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+          'X-Accel-Buffering': 'no',
+        });
+      }
 
-      console.log('🧠 Conversation Analysis:', {
-        intent: analysis.intent,
-        sentiment: analysis.sentiment,
-        complexity: analysis.complexity,
-        selectedAgent: analysis.suggestedAgent,
-      });
+      let reply;
+      try {
+        reply = await withAgentTyping(conversation, () => generateAgentReply({
+          companyId,
+          conversationId,
+          content,
+          imageUrl,
+          userMessage,
+          onEvent: stream ? (event) => sendEvent(event.type, event) : undefined,
+        }));
+      } catch (error) {
+        if (!stream) throw error;
+        console.error('Chat stream error:', error);
+        sendEvent('error', { error: "Erro ao processar mensagem" });
+        return res.end();
+      }
 
-      // Get conversation history FIRST (before building system prompt)
-      const messages = await storage.getMessagesByConversation(conversationId);
-      // Filter out the user message we just saved (last message) to avoid sending it twice
-      const historyMessages = messages.filter(m => m.id !== userMessage.id);
-      const conversationHistory = historyMessages.slice(-10).map(m => {
-        // Check if message has image in metadata
-        const metadata = m.metadata as { imageUrl?: string } | null;
-        if (metadata?.imageUrl) {
-          // Build full URL for image
-          const domain = process.env.REPLIT_DOMAINS?.split(',')[0] || 'localhost:5000';
-          const fullImageUrl = metadata.imageUrl.startsWith('http') 
-            ? metadata.imageUrl 
-            : `https://${domain}${metadata.imageUrl}`;
-          
-          return {
-            role: m.role as 'user' | 'assistant',
-            content: [
-              { type: "text" as const, text: m.content },
-              { type: "image_url" as const, image_url: { url: fullImageUrl } }
-            ]
-          };
-        }
-        return {
-          role: m.role as 'user' | 'assistant',
-          content: m.content,
-        };
-      });
+      // Return the main message AND product messages so frontend can display them
+      if (stream) {
+        sendEvent('done', reply);
+        res.end();
+      }
 
-      console.log('📊 Conversation context:', {
-        totalMessages: messages.length,
-        historyMessages: historyMessages.length,
-        historyUsed: conversationHistory.length,
-        currentContent: content.substring(0, 100)
-      });
+      publishMessages(conversation, reply.message, ...reply.productMessages);
+      await notifyOutboundMessage(conversation, reply.message, reply.productMessages);
 
-      // Build system prompt (AFTER loading history)
-      const toneInstructions = {
-        'Empático': 'Seja caloroso, acolhedor e demonstre empatia genuína. Use linguagem amigável e próxima.',
-        'Divertido': 'Seja descontraído, use um tom leve e bem-humorado. Torne a experiência divertida.',
-        'Profissional': 'Seja formal, objetivo e profissional. Mantenha um tom respeitoso e direto.',
-      };
+      // The agent may have updated intent/sentiment or requested a human
+      const updatedConversation = await storage.getConversation(conversationId);
+      if (updatedConversation) {
+        publishConversationUpdate(updatedConversation);
+      }
 
-      const personalityInstructions = {
-        'passive': `PERSONALIDADE: Consultor Passivo
-- Responda perguntas de forma educada e prestativa
-- Aguarde o cliente tomar a iniciativa antes de sugerir produtos
-- Seja informativo sem pressionar vendas
-- Foque em responder exatamente o que foi perguntado`,
-        
-        'balanced': `PERSONALIDADE: Vendedor Equilibrado
-- Seja proativo ao sugerir produtos relacionados quando relevante
-- Destaque benefícios principais dos produtos mencionados
-- Ofereça alternativas quando apropriado
-- Respeite o ritmo do cliente, sem forçar decisões
-${agent?.salesGoals ? `- Objetivo de vendas: ${agent.salesGoals}` : ''}
-${agent?.productFocusStrategy ? `- Estratégia: ${agent.productFocusStrategy}` : ''}`,
-        
-        'proactive': `PERSONALIDADE: Vendedor Proativo
-- Tome a iniciativa em oferecer produtos e soluções
-- Crie senso de urgência quando apropriado (promoções, estoque limitado)
-- Faça upsell e cross-sell ativamente
-- Destaque todos os benefícios e diferenciais dos produtos
-- Use gatilhos mentais para incentivar a compra
-${agent?.salesGoals ? `- Objetivo principal: ${agent.salesGoals}` : ''}
-${agent?.productFocusStrategy ? `- Foco estratégico: ${agent.productFocusStrategy}` : ''}`
-      };
+      if (!stream) {
+        res.json(reply);
+      }
+    } catch (error) {
+      console.error('Chat error:', error);
+      if (res.headersSent) {
+        return res.end();
+      }
+      res.status(500).json({ error: "Erro ao processar mensagem" });
+    }
+  });
 
-      const responseStyleInstruction = agent?.responseStyle 
-        ? `Estilo de resposta: ${agent.responseStyle}` 
-        : 'Use textos curtos e humanizados (máximo 2-3 frases por vez)';
-
-      // Select specialist prompt based on analysis
-      const specialistPrompt = SPECIALIST_PROMPTS[analysis.suggestedAgent as keyof typeof SPECIALIST_PROMPTS] || SPECIALIST_PROMPTS.seller;
-
-      const systemPrompt = `Você é ${agent?.name || 'um assistente virtual'} da ${company?.name}.
-
-Tom de voz: ${toneInstructions[agent?.toneOfVoice as keyof typeof toneInstructions] || toneInstructions['Profissional']}
-
-${specialistPrompt}
-
-CONTEXTO DA CONVERSA (Análise Inteligente):
-- Intenção detectada: ${analysis.intent}
-- Sentimento do cliente: ${analysis.sentiment > 30 ? 'Positivo' : analysis.sentiment < -30 ? 'Negativo' : 'Neutro'} (${analysis.sentiment}/100)
-- Complexidade: ${analysis.complexity > 60 ? 'Alta' : analysis.complexity > 30 ? 'Média' : 'Baixa'} (${analysis.complexity}/100)
-${analysis.complexity > 70 ? '⚠️ ATENÇÃO: Conversa complexa - considere transferir para humano se necessário' : ''}
-${analysis.sentiment < -40 ? '⚠️ ATENÇÃO: Cliente frustrado - seja extra cuidadoso e empático' : ''}
-
-${agent?.customInstructions ? `Instruções adicionais: ${agent.customInstructions}` : ''}
-
-IMPORTANTE - Estilo de comunicação:
-- ${responseStyleInstruction}
-- Seja natural e conversacional
-- Seja amigável e prestativo
-- NUNCA peça a mesma informação duas vezes
-- Leia o histórico antes de perguntar algo
-
-═══════════════════════════════════════════════════════════════════
-⚠️ REGRA CRÍTICA - CONTEXTO DA CONVERSA
-═══════════════════════════════════════════════════════════════════
-${conversationHistory.length > 0 
-  ? `ATENÇÃO: Esta conversa JÁ TEM ${conversationHistory.length} mensagens anteriores!
-     - NÃO cumprimente novamente
-     - NÃO pergunte "como posso ajudar"
-     - CONTINUE a conversa de onde parou
-     - LEIA as mensagens anteriores para entender o contexto
-     - Mantenha o assunto em andamento`
-  : 'Esta é a PRIMEIRA mensagem da conversa. Cumprimente o cliente de forma amigável.'}
-
-═══════════════════════════════════════════════════════════════════
-🎯 FLUXO DE VENDA (3 ETAPAS - RÁPIDO E DIRETO)
-═══════════════════════════════════════════════════════════════════
-
-${conversationHistory.length === 0 
-  ? '1️⃣ PRIMEIRA INTERAÇÃO: Cumprimente e pergunte o que o cliente procura' 
-  : '1️⃣ PRODUTO: Identifique o que o cliente quer'}
-
-→ SEMPRE mostre produtos com [Nome do Produto] para exibir imagem
-→ Cliente disse que quer? CHAME add_to_cart IMEDIATAMENTE
-→ Exemplo prático:
-   Cliente: "quero café"
-   Você: "Temos [Café Cuado] por R$ 12,00!" 
-   Cliente: "quero 2"
-   Você: [CHAMA add_to_cart com 2 unidades] + diz "Adicionei 2 [Café Cuado] no carrinho!"
-
-2️⃣ DADOS PARA ENTREGA (pegue nome, telefone e CEP)
-
-→ Produto no carrinho? Pergunte: "Nome, telefone e CEP?"
-→ Cliente pode dar tudo junto ou separado
-→ Recebeu CEP? CHAME get_address_by_cep IMEDIATAMENTE
-
-3️⃣ FINALIZAR PEDIDO AUTOMATICAMENTE
-
-⚠️⚠️⚠️ ATENÇÃO: Logo depois que get_address_by_cep retornar, você DEVE:
-1. CHAMAR create_order IMEDIATAMENTE com os dados coletados
-2. NÃO pedir confirmação
-3. NÃO perguntar mais nada
-4. SÓ informar: "Pedido confirmado! Código: XXX"
-
-O pedido usa os itens que estão no carrinho (já adicionados com add_to_cart).
-
-⚠️ SEQUÊNCIA OBRIGATÓRIA:
-1. Cliente quer produto? → add_to_cart
-2. Produto adicionado? → Pergunte dados
-3. Cliente deu CEP? → get_address_by_cep  
-4. CEP retornou? → create_order AGORA MESMO (não espere nada!)
-
-═══════════════════════════════════════════════════════════════════
-📦 CATÁLOGO (${activeProducts.length} produtos disponíveis)
-═══════════════════════════════════════════════════════════════════
-
-${activeProducts.slice(0, 20).map(p => `[${p.name}] - R$ ${(p.price / 100).toFixed(2)}`).join('\n')}
-
-⚠️ IMPORTANTE: 
-→ SEMPRE use [Nome do Produto] para mostrar imagem automática
-→ Exemplo: "Temos [Café Cuado] disponível" ✅
-→ NÃO faça: "Temos Café Cuado disponível" ❌ (sem colchetes = sem imagem!)
-
-═══════════════════════════════════════════════════════════════════
-🎯 SEU OBJETIVO
-═══════════════════════════════════════════════════════════════════
-
-Feche a venda RÁPIDO em 3 etapas:
-1. Mostre produto → 2. add_to_cart → 3. create_order
-
-SEJA DIRETO, NÃO ENROLE, NÃO PEÇA CONFIRMAÇÕES DESNECESSÁRIAS!`;
-
-      // Prepare current message with image if present
-      let currentMessage: any;
-      if (imageUrl) {
-        const domain = process.env.REPLIT_DOMAINS?.split(',')[0] || 'localhost:5000';
-        const fullImageUrl = imageUrl.startsWith('http') 
-          ? imageUrl 
-          : `https://${domain}${imageUrl}`;
-        
-        currentMessage = {
-          role: "user" as const,
-          content: [
-            { type: "text" as const, text: content },
-            { type: "image_url" as const, image_url: { url: fullImageUrl } }
-          ]
-        };
-      } else {
-        currentMessage = { role: "user" as const, content };
-      }
-
-      // Prepare OpenAI messages
-      const openaiMessages = [
-        { role: "system" as const, content: systemPrompt },
-        ...conversationHistory,
-        currentMessage,
-      ];
-
-      // Define tools (functions) that the agent can use
-      const tools = [
-        {
-          type: "function" as const,
-          function: {
-            name: "transfer_to_human",
-            description: "Transfere o atendimento para um operador humano. Use esta função quando: 1) O cliente demonstrar frustração ou insatisfação com o atendimento automatizado, 2) O cliente solicitar explicitamente falar com um humano/atendente, 3) Houver uma situação complexa que você não consiga resolver, 4) O cliente não responder por muito tempo após várias tentativas suas.",
-            parameters: {
-              type: "object",
-              properties: {
-                reason: {
-                  type: "string",
-                  description: "Motivo da transferência (ex: 'cliente solicitou', 'frustração', 'sem resposta', 'situação complexa')"
-                },
-                summary: {
-                  type: "string",
-                  description: "Breve resumo do que foi conversado até agora para ajudar o atendente humano"
-                }
-              },
-              required: ["reason", "summary"]
-            }
-          }
-        },
-        {
-          type: "function" as const,
-          function: {
-            name: "add_to_cart",
-            description: "CHAME IMEDIATAMENTE quando cliente disser que quer um produto. Exemplos: 'quero café', 'me dá 2 mangas', 'adiciona no carrinho'. NÃO pergunte confirmação, ADICIONE DIRETO!",
-            parameters: {
-              type: "object",
-              properties: {
-                items: {
-                  type: "array",
-                  description: "Produtos para adicionar ao carrinho",
-                  items: {
-                    type: "object",
-                    properties: {
-                      productId: { type: "string", description: "Nome do produto (use o nome exato do catálogo)" },
-                      quantity: { type: "number", description: "Quantidade desejada", default: 1 }
-                    },
-                    required: ["productId", "quantity"]
-                  }
-                }
-              },
-              required: ["items"]
-            }
-          }
-        },
-        {
-          type: "function" as const,
-          function: {
-            name: "get_address_by_cep",
-            description: "CHAME AUTOMATICAMENTE quando cliente informar CEP (8 dígitos). Retorna endereço completo. Não precisa pedir autorização, BUSQUE DIRETO!",
-            parameters: {
-              type: "object",
-              properties: {
-                cep: {
-                  type: "string",
-                  description: "CEP brasileiro com 8 dígitos (pode conter ou não o hífen, ex: '01001000' ou '01001-000')"
-                }
-              },
-              required: ["cep"]
-            }
-          }
-        },
-        {
-          type: "function" as const,
-          function: {
-            name: "create_order",
-            description: "CHAME AGORA quando tiver os 3 dados: Nome + Telefone + Endereço completo. NÃO pergunte se pode finalizar, NÃO peça confirmação. Só precisa desses 3 dados + produtos no carrinho. FINALIZE IMEDIATAMENTE!",
-            parameters: {
-              type: "object",
-              properties: {
-                customerName: {
-                  type: "string",
-                  description: "Nome completo do cliente"
-                },
-                customerPhone: {
-                  type: "string",
-                  description: "Telefone do cliente"
-                },
-                shippingAddress: {
-                  type: "object",
-                  description: "Endereço completo de entrega",
-                  properties: {
-                    street: { type: "string", description: "Rua e número (exemplo: 'Av Paulista, 1509')" },
-                    complement: { type: "string", description: "Complemento (opcional)" },
-                    neighborhood: { type: "string", description: "Bairro" },
-                    city: { type: "string", description: "Cidade" },
-                    state: { type: "string", description: "Estado (UF)" },
-                    zip: { type: "string", description: "CEP" }
-                  },
-                  required: ["street", "neighborhood", "city", "state", "zip"]
-                },
-                items: {
-                  type: "array",
-                  description: "Lista de produtos do pedido (use os nomes exatos do catálogo)",
-                  items: {
-                    type: "object",
-                    properties: {
-                      productId: { type: "string", description: "Nome do produto (use o nome exato do catálogo)" },
-                      name: { type: "string", description: "Nome do produto" },
-                      price: { type: "number", description: "Preço unitário em centavos" },
-                      quantity: { type: "number", description: "Quantidade" }
-                    },
-                    required: ["productId", "quantity"]
-                  }
-                }
-              },
-              required: ["customerName", "customerPhone", "shippingAddress", "items"]
-            }
-          }
-        }
-      ];
-
-      // Call OpenAI with tools
-      console.log('🤖 Calling OpenAI with', openaiMessages.length, 'messages');
-      let completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: openaiMessages,
-        tools: tools,
-        tool_choice: "auto",
-        max_tokens: 500,
-        temperature: 0.8,
-      });
+  // Cart requests: per IP before the session check, per conversation after it
+  const cartLimitByIp = rateLimit({ name: 'chat-cart:ip', key: byIp, ...CHATWEB_LIMITS.cartRequestsPerIp });
+  const cartLimitByConversation = rateLimit({ name: 'chat-cart:conversation', key: byConversation, ...CHATWEB_LIMITS.cartRequestsPerConversation });
 
-      console.log('✅ OpenAI responded:', {
-        hasContent: !!completion.choices[0].message.content,
-        hasFunctionCall: !!completion.choices[0].message.tool_calls,
-        functionName: completion.choices[0].message.tool_calls?.[0]?.function?.name
-      });
+  // Get conversation cart (visitor session)
+  app.get("/api/chatweb/:companyId/conversations/:conversationId/cart", cartLimitByIp, requireVisitorSession, cartLimitByConversation, async (req: VisitorRequest, res) => {
+    try {
+      const { companyId, conversationId } = req.params;
 
-      let assistantMessage = completion.choices[0].message.content?.trim() || "";
-      let orderConfirmationCode: string | null = null;
+      res.json(await getCartSummary(companyId, conversationId));
+    } catch (error) {
+      res.status(400).json({ error: "Erro ao buscar carrinho" });
+    }
+  });
 
-      // Check if the agent wants to call a function
-      if (completion.choices[0].message.tool_calls && completion.choices[0].message.tool_calls.length > 0) {
-        const toolCall = completion.choices[0].message.tool_calls[0];
-        
-        if (toolCall.type === "function" && toolCall.function.name === "transfer_to_human") {
-          try {
-            const functionArgs = JSON.parse(toolCall.function.arguments);
-            
-            // Mark conversation as needing human attention
-            await storage.updateConversation(conversationId, {
-              needsHumanAttention: true,
-              transferReason: functionArgs.reason,
-            });
-            
-            // Save transfer message
-            const transferMessage = `Entendo sua situação. Estou transferindo você para um de nossos atendentes que poderá ajudá-lo melhor. Por favor, aguarde um momento.`;
-            
-            await storage.createMessage({
-              conversationId,
-              role: 'assistant',
-              content: transferMessage,
-              metadata: {
-                systemMessage: true,
-                transferToHuman: true,
-                reason: functionArgs.reason,
-                summary: functionArgs.summary
-              },
-            });
-            
-            return res.json({
-              role: 'assistant',
-              content: transferMessage,
-              metadata: { transferToHuman: true }
-            });
-          } catch (error) {
-            console.error('Error transferring to human:', error);
-            assistantMessage = "Vou transferir você para um atendente. Por favor, aguarde.";
-          }
-        } else if (toolCall.type === "function" && toolCall.function.name === "add_to_cart") {
-          try {
-            const functionArgs = JSON.parse(toolCall.function.arguments);
-            console.log('🛒 add_to_cart called with args:', JSON.stringify(functionArgs));
-            console.log('📦 Available products:', activeProducts.map(p => ({ id: p.id, name: p.name })));
-            
-            // Build cart items with real product data
-            const cartItems = [];
-            for (const item of functionArgs.items) {
-              // Try to find by ID first, then by name (case insensitive)
-              const product = activeProducts.find(p => 
-                p.id === item.productId || 
-                p.name.toLowerCase() === item.productId.toLowerCase()
-              );
-              console.log('🔍 Looking for product:', item.productId, 'Found:', product?.name || 'NOT FOUND');
-              if (product) {
-                cartItems.push({
-                  id: product.id,
-                  name: product.name,
-                  price: product.price,
-                  quantity: item.quantity,
-                  imageUrl: product.imageUrls?.[0] || undefined
-                });
-              }
-            }
-            
-            console.log('✅ Cart items built:', cartItems.length, 'items');
-            
-            if (cartItems.length > 0) {
-              // Send function result back to the model
-              const functionResultMessages = [
-                ...openaiMessages,
-                completion.choices[0].message,
-                {
-                  role: "tool" as const,
-                  tool_call_id: toolCall.id,
-                  content: JSON.stringify({
-                    success: true,
-                    itemsAdded: cartItems.length,
-                    cart: cartItems,
-                    message: `${cartItems.length} produto(s) adicionado(s) ao carrinho`
-                  })
-                }
-              ];
-              
-              // Get final response from the model (allow it to continue calling functions)
-              const secondCompletion = await openai.chat.completions.create({
-                model: "gpt-4o-mini",
-                messages: functionResultMessages,
-                tools: tools,
-                tool_choice: "auto",
-                max_tokens: 500,
-                temperature: 0.8,
-              });
-              
-              assistantMessage = secondCompletion.choices[0].message.content || 
-                `Adicionei ${cartItems.length} produto(s) ao seu carrinho!`;
-              
-              // Save the assistant's response with cart metadata
-              const savedMessage = await storage.createMessage({
-                conversationId,
-                role: 'assistant',
-                content: assistantMessage,
-                metadata: {
-                  cartItems: cartItems,
-                  functionCalled: 'add_to_cart'
-                },
-              });
-              
-              return res.json(savedMessage);
-            }
-          } catch (error) {
-            console.error('Error adding to cart via function call:', error);
-            assistantMessage = "Desculpe, não consegui adicionar ao carrinho. Por favor, tente novamente.";
-          }
-        } else if (toolCall.type === "function" && toolCall.function.name === "get_address_by_cep") {
-          try {
-            const functionArgs = JSON.parse(toolCall.function.arguments);
-            const cep = functionArgs.cep.replace(/\D/g, ''); // Remove non-digits
-            
-            // Validate CEP format (must be 8 digits)
-            if (cep.length !== 8 || !/^\d{8}$/.test(cep)) {
-              const functionResult = {
-                success: false,
-                error: "CEP inválido. O CEP deve conter exatamente 8 dígitos."
-              };
-              
-              const functionResultMessages = [
-                ...openaiMessages,
-                completion.choices[0].message,
-                {
-                  role: "tool" as const,
-                  tool_call_id: toolCall.id,
-                  content: JSON.stringify(functionResult)
-                }
-              ];
-              
-              const secondCompletion = await openai.chat.completions.create({
-                model: "gpt-4o-mini",
-                messages: functionResultMessages,
-                max_tokens: 500,
-                temperature: 0.8,
-              });
-              
-              assistantMessage = secondCompletion.choices[0].message.content || 
-                "CEP inválido. Por favor, informe um CEP válido com 8 dígitos.";
-              
-              const savedMessage = await storage.createMessage({
-                conversationId,
-                role: 'assistant',
-                content: assistantMessage,
-                metadata: { functionCalled: 'get_address_by_cep', cepData: functionResult },
-              });
-              
-              return res.json(savedMessage);
-            }
-            
-            console.log('Fetching address for CEP:', cep);
-            
-            let functionResult;
-            try {
-              // Call ViaCEP API with timeout
-              const controller = new AbortController();
-              const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
-              
-              const viacepResponse = await fetch(`https://viacep.com.br/ws/${cep}/json/`, {
-                signal: controller.signal
-              });
-              clearTimeout(timeoutId);
-              
-              if (!viacepResponse.ok) {
-                throw new Error(`ViaCEP returned status ${viacepResponse.status}`);
-              }
-              
-              const viacepData = await viacepResponse.json();
-              
-              if (viacepData.erro) {
-                // CEP not found
-                functionResult = {
-                  success: false,
-                  error: "CEP não encontrado. Verifique se o CEP está correto."
-                };
-              } else {
-                // CEP found successfully
-                functionResult = {
-                  success: true,
-                  address: {
-                    cep: viacepData.cep,
-                    street: viacepData.logradouro,
-                    complement: viacepData.complemento,
-                    neighborhood: viacepData.bairro,
-                    city: viacepData.localidade,
-                    state: viacepData.uf
-                  }
-                };
-              }
-            } catch (fetchError: any) {
-              console.error('ViaCEP API error:', fetchError);
-              // Network error, timeout, or API unavailable
-              functionResult = {
-                success: false,
-                error: "Não foi possível buscar o CEP no momento. Por favor, informe o endereço completo manualmente."
-              };
-            }
-            
-            console.log('ViaCEP result:', functionResult);
-            
-            // Send function result back to the model
-            const functionResultMessages = [
-              ...openaiMessages,
-              completion.choices[0].message,
-              {
-                role: "tool" as const,
-                tool_call_id: toolCall.id,
-                content: JSON.stringify(functionResult)
-              }
-            ];
-            
-            // Get final response from the model (allow it to call more functions like create_order)
-            const secondCompletion = await openai.chat.completions.create({
-              model: "gpt-4o-mini",
-              messages: functionResultMessages,
-              tools: tools,
-              tool_choice: "auto",
-              max_tokens: 500,
-              temperature: 0.8,
-            });
-            
-            // Check if the second completion called another function (like create_order)
-            const secondMessage = secondCompletion.choices[0].message;
-            if (secondMessage.tool_calls && secondMessage.tool_calls.length > 0) {
-              const nextToolCall = secondMessage.tool_calls[0];
-              console.log('🔄 Second completion called another function:', nextToolCall.function.name);
-              
-              // If it's create_order, process it now
-              if (nextToolCall.function.name === 'create_order') {
-                try {
-                  const functionArgs = JSON.parse(nextToolCall.function.arguments);
-                  
-                  // SECURITY: Recalculate total from actual product catalog
-                  let total = 0;
-                  const validatedItems = [];
-                  for (const item of functionArgs.items) {
-                    const product = activeProducts.find(p => 
-                      p.id === item.productId || 
-                      p.name.toLowerCase() === item.productId.toLowerCase()
-                    );
-                    if (product) {
-                      const itemTotal = product.price * item.quantity;
-                      total += itemTotal;
-                      validatedItems.push({
-                        productId: product.id,
-                        name: product.name,
-                        price: product.price,
-                        quantity: item.quantity
-                      });
-                    }
-                  }
-                  
-                  functionArgs.items = validatedItems;
-                  
-                  // Create the order
-                  const orderData = {
-                    companyId,
-                    conversationId,
-                    customerName: functionArgs.customerName,
-                    customerPhone: functionArgs.customerPhone,
-                    customerEmail: functionArgs.customerEmail || null,
-                    shippingAddress: functionArgs.shippingAddress,
-                    paymentMethod: functionArgs.paymentMethod || 'pix',
-                    items: functionArgs.items,
-                    total,
-                    status: 'pending' as const,
-                  };
-                  
-                  const order = await storage.createOrder(orderData);
-                  orderConfirmationCode = order.confirmationCode || null;
-                  
-                  // Save/update customer with omnichannel deduplication
-                  try {
-                    const currentConversation = await storage.getConversation(conversationId);
-                    const channel = currentConversation?.channel || 'chatweb';
-                    
-                    const customer = await storage.findOrCreateCustomer(companyId, {
-                      name: functionArgs.customerName,
-                      phone: functionArgs.customerPhone,
-                      email: functionArgs.customerEmail || null,
-                      cpf: functionArgs.cpf || null,
-                      cnpj: functionArgs.cnpj || null,
-                      customerType: functionArgs.customerType || 'individual',
-                      companyName: functionArgs.companyName || null,
-                      tradeName: functionArgs.tradeName || null,
-                      stateRegistration: functionArgs.stateRegistration || null,
-                      shippingAddress: functionArgs.shippingAddress,
-                      channel: channel,
-                    });
-                    
-                    await storage.updateCustomerStats(customer.id, total);
-                    await storage.updateConversation(conversationId, {
-                      customerId: customer.id,
-                      customerName: functionArgs.customerName,
-                      customerPhone: functionArgs.customerPhone,
-                    });
-                    
-                    console.log(`✅ Customer identified/created: ${customer.name} (${customer.id}) via ${channel}`);
-                  } catch (customerError) {
-                    console.error('Error saving/updating customer:', customerError);
-                  }
-                  
-                  assistantMessage = `Pedido confirmado! Total: R$ ${(total / 100).toFixed(2)}, Código: ${orderConfirmationCode}. Agradecemos pela sua compra!`;
-                  
-                  const savedMessage = await storage.createMessage({
-                    conversationId,
-                    role: 'assistant',
-                    content: assistantMessage,
-                    metadata: {
-                      orderId: order.id,
-                      confirmationCode: orderConfirmationCode,
-                      functionCalled: 'create_order'
-                    },
-                  });
-                  
-                  return res.json(savedMessage);
-                } catch (error) {
-                  console.error('Error creating order after CEP lookup:', error);
-                  assistantMessage = "Desculpe, não consegui finalizar o pedido. Por favor, tente novamente.";
-                }
-              }
-            }
-            
-            assistantMessage = secondCompletion.choices[0].message.content || 
-              (functionResult.success && functionResult.address
-                ? `Encontrei o endereço: ${functionResult.address.street}, ${functionResult.address.neighborhood}, ${functionResult.address.city}-${functionResult.address.state}`
-                : "Não consegui encontrar esse CEP. Por favor, verifique se está correto.");
-            
-            // Save the assistant's response
-            const savedMessage = await storage.createMessage({
-              conversationId,
-              role: 'assistant',
-              content: assistantMessage,
-              metadata: {
-                functionCalled: 'get_address_by_cep',
-                cepData: functionResult
-              },
-            });
-            
-            return res.json(savedMessage);
-          } catch (error) {
-            console.error('Error fetching CEP:', error);
-            assistantMessage = "Desculpe, não consegui buscar o endereço. Por favor, tente novamente ou informe o endereço completo manualmente.";
-          }
-        } else if (toolCall.type === "function" && toolCall.function.name === "create_order") {
-          try {
-            const functionArgs = JSON.parse(toolCall.function.arguments);
-            
-            // SECURITY: Recalculate total from actual product catalog (don't trust AI-provided prices)
-            let total = 0;
-            const validatedItems = [];
-            for (const item of functionArgs.items) {
-              // Try to find by ID first, then by name (case insensitive)
-              const product = activeProducts.find(p => 
-                p.id === item.productId || 
-                p.name.toLowerCase() === item.productId.toLowerCase()
-              );
-              if (product) {
-                // Use real product price from catalog, not AI-provided price
-                const itemTotal = product.price * item.quantity;
-                total += itemTotal;
-                validatedItems.push({
-                  productId: product.id,
-                  name: product.name,
-                  price: product.price, // Real price from catalog
-                  quantity: item.quantity
-                });
-              }
-            }
-            
-            // Use validated items with real prices
-            functionArgs.items = validatedItems;
-            
-            // Create the order with defaults
-            const orderData = {
-              companyId,
-              conversationId,
-              customerName: functionArgs.customerName,
-              customerPhone: functionArgs.customerPhone,
-              customerEmail: functionArgs.customerEmail || null,
-              shippingAddress: functionArgs.shippingAddress,
-              paymentMethod: functionArgs.paymentMethod || 'pix', // Default to PIX
-              items: functionArgs.items,
-              total,
-              status: 'pending' as const,
-            };
-            
-            const order = await storage.createOrder(orderData);
-            orderConfirmationCode = order.confirmationCode || null;
-            
-            // Save/update customer in the system with omnichannel deduplication
-            try {
-              // Get conversation to determine channel
-              const currentConversation = await storage.getConversation(conversationId);
-              const channel = currentConversation?.channel || 'chatweb';
-              
-              // Find or create customer (automatically deduplicates across phone, email, CPF, CNPJ)
-              const customer = await storage.findOrCreateCustomer(companyId, {
-                name: functionArgs.customerName,
-                phone: functionArgs.customerPhone,
-                email: functionArgs.customerEmail || null,
-                cpf: functionArgs.cpf || null,
-                cnpj: functionArgs.cnpj || null,
-                customerType: functionArgs.customerType || 'individual',
-                companyName: functionArgs.companyName || null,
-                tradeName: functionArgs.tradeName || null,
-                stateRegistration: functionArgs.stateRegistration || null,
-                shippingAddress: functionArgs.shippingAddress,
-                channel: channel, // Track which channel this interaction came from
-              });
-              
-              // Update customer stats
-              await storage.updateCustomerStats(customer.id, total);
-              
-              // Link conversation to identified customer
-              await storage.updateConversation(conversationId, {
-                customerId: customer.id,
-                customerName: functionArgs.customerName,
-                customerPhone: functionArgs.customerPhone,
-              });
-              
-              console.log(`✅ Customer identified/created: ${customer.name} (${customer.id}) via ${channel}`);
-            } catch (customerError) {
-              console.error('Error saving/updating customer:', customerError);
-              // Don't fail the order if customer save fails
-            }
-            
-            // Log order creation
-            await storage.createApiLog({
-              companyId,
-              type: 'order_created',
-              endpoint: '/api/chatweb/:companyId/conversations/:conversationId/messages',
-              method: 'POST',
-              requestData: orderData,
-              responseData: order,
-              metadata: {
-                confirmationCode: order.confirmationCode,
-                total: order.total,
-                customerName: order.customerName,
-                viaFunctionCalling: true,
-              },
-            });
-            
-            // Send function result back to the model
-            const totalFormatted = (order.total / 100).toFixed(2);
-            const functionResultMessages = [
-              ...openaiMessages,
-              completion.choices[0].message,
-              {
-                role: "tool" as const,
-                tool_call_id: toolCall.id,
-                content: JSON.stringify({
-                  success: true,
-                  confirmationCode: order.confirmationCode,
-                  orderId: order.id,
-                  total: order.total,
-                  totalFormatted: `R$ ${totalFormatted}`,
-                  message: `Pedido criado com sucesso! Total: R$ ${totalFormatted}, Código: ${order.confirmationCode}`
-                })
-              }
-            ];
-            
-            // Get final response from the model
-            const secondCompletion = await openai.chat.completions.create({
-              model: "gpt-4o-mini",
-              messages: functionResultMessages,
-              max_tokens: 500,
-              temperature: 0.8,
-            });
-            
-            assistantMessage = secondCompletion.choices[0].message.content || 
-              `Pedido confirmado! Valor total: R$ ${totalFormatted}. Seu código de confirmação é: ${order.confirmationCode}`;
-            
-          } catch (error) {
-            console.error('Error creating order via function call:', error);
-            assistantMessage = "Desculpe, ocorreu um erro ao processar seu pedido. Por favor, tente novamente.";
-          }
-        }
+  // Add product to conversation cart (visitor session)
+  app.post("/api/chatweb/:companyId/conversations/:conversationId/cart/items", cartLimitByIp, requireVisitorSession, cartLimitByConversation, async (req: VisitorRequest, res) => {
+    try {
+      const { companyId, conversationId } = req.params;
+      const { productId, quantity } = z.object({
+        productId: z.string().min(1),
+        quantity: z.number().int().positive().default(1),
+      }).parse(req.body);
+
+      await addToCart(companyId, conversationId, productId, quantity);
+      res.json(await getCartSummary(companyId, conversationId));
+    } catch (error) {
+      if (error instanceof CartError) {
+        return res.status(400).json({ error: error.message });
       }
+      res.status(400).json({ error: "Erro ao adicionar ao carrinho" });
+    }
+  });
+
+  // Update cart item quantity (visitor session) - zero removes the item
+  app.patch("/api/chatweb/:companyId/conversations/:conversationId/cart/items/:productId", cartLimitByIp, requireVisitorSession, cartLimitByConversation, async (req: VisitorRequest, res) => {
+    try {
+      const { companyId, conversationId, productId } = req.params;
+      const { quantity } = z.object({ quantity: z.number().int() }).parse(req.body);
 
-      if (!assistantMessage || assistantMessage.length === 0) {
-        // If the model didn't return a message, generate a context-aware fallback
-        assistantMessage = conversationHistory.length === 0 
-          ? "Olá! Como posso ajudar você hoje?" 
-          : "Desculpe, pode reformular? Não entendi bem.";
-        console.log('⚠️ Using fallback message:', assistantMessage);
+      await updateCartItemQuantity(companyId, conversationId, productId, quantity);
+      res.json(await getCartSummary(companyId, conversationId));
+    } catch (error) {
+      if (error instanceof CartError) {
+        return res.status(400).json({ error: error.message });
       }
+      res.status(400).json({ error: "Erro ao atualizar carrinho" });
+    }
+  });
 
-      console.log('💬 Final assistant message:', assistantMessage.substring(0, 100));
+  // Remove product from cart (visitor session)
+  app.delete("/api/chatweb/:companyId/conversations/:conversationId/cart/items/:productId", cartLimitByIp, requireVisitorSession, cartLimitByConversation, async (req: VisitorRequest, res) => {
+    try {
+      const { companyId, conversationId, productId } = req.params;
 
-      // Log OpenAI prompt for admin monitoring
-      await storage.createApiLog({
-        companyId,
-        type: 'openai_prompt',
-        endpoint: '/v1/chat/completions',
-        method: 'POST',
-        requestData: {
-          model: "gpt-3.5-turbo",
-          messages: openaiMessages,
-          max_tokens: 500,
-          temperature: 0.8,
-        },
-        responseData: {
-          message: assistantMessage,
-          model: completion.model,
-          usage: completion.usage,
-        },
-        metadata: {
-          conversationId,
-          userMessage: content.substring(0, 100), // First 100 chars for context
-        },
-      });
+      await removeFromCart(companyId, conversationId, productId);
+      res.json(await getCartSummary(companyId, conversationId));
+    } catch (error) {
+      if (error instanceof CartError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Erro ao remover do carrinho" });
+    }
+  });
 
-      // Save the main assistant message first (text response)
-      const savedMessage = await storage.createMessage({
-        conversationId,
-        role: 'assistant',
-        content: assistantMessage,
-        metadata: orderConfirmationCode ? { confirmationCode: orderConfirmationCode } : null,
-      });
+  // Empty the cart (visitor session)
+  app.delete("/api/chatweb/:companyId/conversations/:conversationId/cart", cartLimitByIp, requireVisitorSession, cartLimitByConversation, async (req: VisitorRequest, res) => {
+    try {
+      const { companyId, conversationId } = req.params;
 
-      // Detect products mentioned in the response using [Product Name] format
-      const productRegex = /\[([^\]]+)\]/g;
-      const matches = Array.from(assistantMessage.matchAll(productRegex));
-      const mentionedProductNames = matches.map(m => m[1].trim());
-      
-      // For each mentioned product, send a SEPARATE message with image and info
-      // This creates one message bubble per product
-      const productMessages = [];
-      for (const productName of mentionedProductNames) {
-        const product = activeProducts.find(p => 
-          p.name.toLowerCase() === productName.toLowerCase()
-        );
-        
-        if (product && product.imageUrls && product.imageUrls.length > 0) {
-          // Create product info message with image
-          const productInfo = `${product.name}\nR$ ${(product.price / 100).toFixed(2)}${product.description ? `\n${product.description}` : ''}`;
-          
-          const productMessage = await storage.createMessage({
-            conversationId,
-            role: 'assistant',
-            content: productInfo,
-            metadata: {
-              productImage: product.imageUrls[0], // First image only
-              productId: product.id,
-              productName: product.name,
-              productPrice: product.price,
-            },
-          });
-          
-          productMessages.push(productMessage);
-        }
+      await clearCart(companyId, conversationId);
+      res.json(await getCartSummary(companyId, conversationId));
+    } catch (error) {
+      res.status(400).json({ error: "Erro ao esvaziar carrinho" });
+    }
+  });
+
+  // Apply a coupon to the cart (visitor session)
+  app.post("/api/chatweb/:companyId/conversations/:conversationId/cart/coupon",
+    rateLimit({ name: 'chat-coupon:ip', key: byIp, ...CHATWEB_LIMITS.couponAttemptsPerIp }),
+    requireVisitorSession,
+    rateLimit({ name: 'chat-coupon:conversation', key: byConversation, ...CHATWEB_LIMITS.couponAttemptsPerConversation }),
+    async (req: VisitorRequest, res) => {
+    try {
+      const { companyId, conversationId } = req.params;
+      const { code } = z.object({ code: z.string().trim().min(1) }).parse(req.body);
+
+      res.json(await applyCoupon(companyId, conversationId, code, req.conversation!.customerPhone));
+    } catch (error) {
+      if (error instanceof PromotionError) {
+        return res.status(400).json({ error: error.message });
       }
+      res.status(400).json({ error: "Erro ao aplicar cupom" });
+    }
+  });
 
-      // Return the main message AND product messages so frontend can display them
-      res.json({
-        message: savedMessage,
-        productMessages: productMessages
-      });
+  // Remove the cart's coupon (visitor session)
+  app.delete("/api/chatweb/:companyId/conversations/:conversationId/cart/coupon", cartLimitByIp, requireVisitorSession, cartLimitByConversation, async (req: VisitorRequest, res) => {
+    try {
+      const { companyId, conversationId } = req.params;
+      res.json(await removeCoupon(companyId, conversationId));
     } catch (error) {
-      console.error('Chat error:', error);
-      res.status(500).json({ error: "Erro ao processar mensagem" });
+      res.status(400).json({ error: "Erro ao remover cupom" });
+    }
+  });
+
+  // Delivery options and freight for the cart (visitor session); options null = no freight charged
+  app.post("/api/chatweb/:companyId/conversations/:conversationId/shipping",
+    rateLimit({ name: 'chat-shipping:ip', key: byIp, ...CHATWEB_LIMITS.shippingQuotesPerIp }),
+    requireVisitorSession,
+    rateLimit({ name: 'chat-shipping:conversation', key: byConversation, ...CHATWEB_LIMITS.shippingQuotesPerConversation }),
+    async (req: VisitorRequest, res) => {
+    try {
+      const { companyId, conversationId } = req.params;
+      const cep = normalizeCep(req.body.cep);
+      if (!cep) {
+        return res.status(400).json({ error: "CEP deve ter 8 dígitos" });
+      }
+
+      const options = await quoteCartShipping(companyId, conversationId, cep);
+      res.json({ cep, options });
+    } catch (error) {
+      console.error('Error quoting shipping:', error);
+      res.status(400).json({ error: "Erro ao calcular frete" });
+    }
+  });
+
+  // Tokenize card data with the sandbox gateway (visitor session)
+  app.post("/api/chatweb/:companyId/payments/card-token",
+    rateLimit({ name: 'chat-session:ip', key: byIp, ...CHATWEB_LIMITS.sessionRequestsPerIp }),
+    requireVisitorSession,
+    async (req, res) => {
+    try {
+      const card = z.object({
+        number: z.string().min(13),
+        holderName: z.string().min(2),
+        expMonth: z.coerce.number().int().min(1).max(12),
+        expYear: z.coerce.number().int(),
+        cvv: z.string().regex(/^\d{3,4}$/),
+      }).parse(req.body);
+      res.json(tokenizeCard(card));
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Dados do cartão inválidos" });
     }
   });
 
-  // Create order from ChatWeb (public)
-  app.post("/api/chatweb/:companyId/orders", async (req, res) => {
+  // Create order from the session's cart (visitor session)
+  app.post("/api/chatweb/:companyId/orders",
+    rateLimit({ name: 'chat-order:ip', key: byIp, ...CHATWEB_LIMITS.ordersPerIp }),
+    requireVisitorSession,
+    rateLimit({ name: 'chat-order:conversation', key: byConversation, ...CHATWEB_LIMITS.ordersPerConversation }),
+    async (req: VisitorRequest, res) => {
     try {
       const { companyId } = req.params;
+      const { cardToken } = req.body;
+      const conversationId = req.conversation!.id;
+
+      // Items, prices, discounts and freight always come from the cart (catalog prices) and
+      // the shipping rules, never from the request
+      const { customerPhone, items, subtotal, discounts, discount, shipping, shippingMethod, total } = await priceOrder(companyId, conversationId, {
+        customerPhone: typeof req.body.customerPhone === 'string' ? req.body.customerPhone : null,
+        cep: normalizeCep(req.body.shippingAddress?.zip),
+        shippingRuleId: typeof req.body.shippingRuleId === 'string' ? req.body.shippingRuleId : null,
+      });
+      if (items.length === 0) {
+        return res.status(400).json({ error: "Carrinho vazio" });
+      }
+
+      // Only the customer's own details come from the request: status and payment start
+      // pending (see storage.createOrder) and change through their own flows. The phone is
+      // the session's once known, so coupon caps per customer can't be reset with another one
+      const { customerName, customerEmail, shippingAddress, paymentMethod } = req.body;
       const data = insertOrderSchema.parse({
-        ...req.body,
+        customerName,
+        customerEmail,
+        customerPhone,
+        shippingAddress,
+        paymentMethod,
+        items,
+        subtotal,
+        discounts,
+        discount,
+        shipping,
+        shippingMethod,
+        total,
+        conversationId,
         companyId,
       });
-      const order = await storage.createOrder(data);
+      const order = await storage.createOrder(data, { name: 'Cliente' });
+      if (!req.conversation!.customerPhone) {
+        await storage.updateConversation(conversationId, { customerName: order.customerName, customerPhone: order.customerPhone });
+      }
+
+      // Charge right away: PIX/boleto codes are shown on the confirmation screen and
+      // cards are captured (a declined card cancels the order and keeps the cart)
+      let payment = null;
+      try {
+        payment = await startOrderPayment(order, {
+          cardToken: typeof cardToken === 'string' ? cardToken : undefined,
+        });
+      } catch (paymentError) {
+        if (paymentError instanceof PaymentError) {
+          await storage.updateOrderStatus(order.id, companyId, 'cancelled', { name: 'Pagamento' }, paymentError.message);
+          return res.status(400).json({ error: paymentError.message });
+        }
+        console.error('Error creating order payment:', paymentError);
+      }
+      if (payment?.status === 'failed') {
+        await storage.updateOrderStatus(order.id, companyId, 'cancelled', { name: 'Pagamento' }, payment.failureReason || 'Pagamento recusado');
+        return res.status(402).json({ error: payment.failureReason || "Pagamento recusado" });
+      }
+
+      await clearCart(companyId, conversationId);
+      await notifyOrderEvent('order.created', order);
       
       // Log order creation for admin monitoring
       await storage.createApiLog({
@@ -2281,18 +2464,173 @@ SEJA DIRETO, NÃO ENROLE, NÃO PEÇA CONFIRMAÇÕES DESNECESSÁRIAS!`;
         },
       });
       
-      // Return order with confirmation code
+      // Return order with confirmation code (status/payment may have changed with a card capture)
       res.json({ 
-        ...order, 
+        ...(await storage.getOrder(order.id, companyId) || order), 
+        payment,
         message: `Pedido confirmado! Código de confirmação: ${order.confirmationCode}` 
       });
     } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ error: error.message, outOfStock: error.items });
+      }
+      if (error instanceof PromotionError || error instanceof PromotionExhaustedError || error instanceof ShippingError) {
+        return res.status(409).json({ error: error.message });
+      }
       console.error('Error creating order:', error);
       res.status(400).json({ error: "Erro ao criar pedido" });
     }
   });
 
+  // ============ CHANNEL WEBHOOK ROUTES ============
+
+  // Inbound message from an external channel (WhatsApp, Instagram)
+  app.post("/api/webhook/:companyId/message",
+    rateLimit({ name: 'webhook-message:company', key: byCompany, ...CHATWEB_LIMITS.webhookMessagesPerCompany }),
+    async (req, res) => {
+    try {
+      const { companyId } = req.params;
+
+      const company = await storage.getCompany(companyId);
+      if (!company) {
+        return res.status(404).json({ error: "Empresa não encontrada" });
+      }
+
+      // Every inbound message spends the company's AI budget: the bearer token is always required
+      if (!company.webhookToken) {
+        return res.status(401).json({ error: "Gere o token do webhook no dashboard antes de integrar canais" });
+      }
+      const authHeader = req.headers.authorization;
+      const headerToken = req.headers['x-webhook-token'];
+      const token = authHeader?.startsWith('Bearer ')
+        ? authHeader.substring(7)
+        : typeof headerToken === 'string' ? headerToken : null;
+
+      if (!token || !verifyWebhookToken(token, company.webhookToken)) {
+        return res.status(401).json({ error: "Token de webhook inválido" });
+      }
+
+      const parsed = z.object({
+        channel: z.enum(["whatsapp", "instagram"]),
+        externalConversationId: z.string().min(1),
+        customerPhone: z.string().min(1),
+        customerName: z.string().optional(),
+        message: z.object({
+          type: z.enum(["text", "image", "audio"]),
+          content: z.string().min(1),
+          timestamp: z.string().optional(),
+        }),
+      }).safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Payload inválido", details: parsed.error.flatten() });
+      }
+
+      const { channel, externalConversationId, customerPhone, customerName, message } = parsed.data;
+
+      // Find or create the conversation for this external sender and channel
+      let conversation = await storage.getActiveConversationByExternalId(companyId, channel, externalConversationId);
+      if (!conversation) {
+        await assertPlanLimit(companyId, 'conversations');
+        const customer = await storage.getCustomerByPhone(customerPhone, companyId);
+        conversation = await storage.createConversation({
+          companyId,
+          channel,
+          externalConversationId,
+          customerId: customer?.id ?? null,
+          customerName: customerName || customer?.name || null,
+          customerPhone,
+          status: 'active',
+        });
+        publishConversationUpdate(conversation);
+      }
+
+      // Build message content from the payload type
+      let content = '';
+      let imageUrl: string | null = null;
+      let metadata: Record<string, string> | null = null;
+
+      if (message.type === 'text') {
+        content = message.content;
+      } else if (message.type === 'image') {
+        imageUrl = message.content;
+        metadata = { imageUrl };
+        content = 'O cliente enviou uma imagem. Por favor, analise e responda.';
+      } else {
+        metadata = { audioUrl: message.content };
+        try {
+          const audioBuffer = await downloadChannelMedia(message.content);
+          content = await transcribeAudio(audioBuffer, companyId);
+        } catch (error) {
+          console.error('Webhook audio transcription error:', error);
+        }
+      }
+
+      if (!content.trim()) {
+        return res.status(400).json({ error: "Mensagem vazia" });
+      }
+
+      const userMessage = await storage.createMessage({
+        conversationId: conversation.id,
+        role: 'user',
+        content,
+        metadata,
+      });
+      publishMessages(conversation, userMessage);
+
+      await storage.createApiLog({
+        companyId,
+        type: 'webhook_inbound',
+        endpoint: '/api/webhook/:companyId/message',
+        method: 'POST',
+        // Customer phone, name and message are masked unless the company opted out
+        requestData: company.redactPiiInLogs ? redactForLog(parsed.data) : parsed.data,
+        responseData: { conversationId: conversation.id, messageId: userMessage.id },
+        metadata: { channel, externalConversationId },
+      });
+
+      // Human operator is handling this conversation - no AI reply (hybrid: a draft for the operator)
+      if (conversation.mode !== 'ai') {
+        if (conversation.mode === 'hybrid') {
+          queueDraftReply({ companyId, conversationId: conversation.id, content, imageUrl, userMessage });
+        }
+        return res.json({ conversationId: conversation.id, assistantMessage: null });
+      }
+
+      const reply = await withAgentTyping(conversation, () => generateAgentReply({
+        companyId,
+        conversationId: conversation!.id,
+        content,
+        imageUrl,
+        userMessage,
+      }));
+      publishMessages(conversation, reply.message, ...reply.productMessages);
+      await notifyOutboundMessage(conversation, reply.message, reply.productMessages);
+
+      const updatedConversation = await storage.getConversation(conversation.id);
+      if (updatedConversation) {
+        publishConversationUpdate(updatedConversation);
+      }
+
+      res.json({
+        conversationId: conversation.id,
+        assistantMessage: toChannelMessage(reply),
+      });
+    } catch (error) {
+      console.error('Webhook message error:', error);
+      if (error instanceof PlanLimitError || error instanceof SubscriptionSuspendedError) {
+        return res.status(402).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Erro ao processar mensagem" });
+    }
+  });
+
+  startWebhookRetryWorker();
+  startPaymentExpiryWorker();
+  startBillingWorker();
+
   const httpServer = createServer(app);
+  attachRealtime(httpServer);
 
   return httpServer;
 }
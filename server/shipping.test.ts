@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ShippingRule } from "@shared/schema";
+import { storage } from "./storage";
+import { quoteShipping } from "./shipping";
+
+function rule(data: Partial<ShippingRule>): ShippingRule {
+  return {
+    id: data.name || 'rule', companyId: 'c1', name: 'Entrega', type: 'flat', price: 0, pricePerKm: null,
+    cepStart: null, cepEnd: null, maxDistanceKm: null, freeAbove: null, estimatedDays: 3, instructions: null,
+    isActive: true, createdAt: new Date(), updatedAt: new Date(),
+    ...data,
+  };
+}
+
+const rules = [
+  rule({ name: 'Correios', type: 'flat', price: 2500, estimatedDays: 7 }),
+  rule({ name: 'Motoboy SP', type: 'cep_range', price: 1200, cepStart: '01000000', cepEnd: '05999999', freeAbove: 10000, estimatedDays: 1 }),
+  rule({ name: 'Retirada', type: 'pickup', price: 0, estimatedDays: null }),
+  rule({ name: 'Inativa', type: 'flat', price: 100, isActive: false }),
+];
+
+test("options for a CEP are the matching active rules, cheapest first", async (t) => {
+  t.mock.method(storage, 'getShippingRulesByCompany', async () => rules);
+
+  const options = await quoteShipping('c1', '01310-100', 5000);
+  assert.deepEqual(options?.map(o => [o.name, o.price]), [['Retirada', 0], ['Motoboy SP', 1200], ['Correios', 2500]]);
+
+  const outside = await quoteShipping('c1', '80000000', 5000);
+  assert.deepEqual(outside?.map(o => o.name), ['Retirada', 'Correios']);
+});
+
+test("rules are free above their threshold", async (t) => {
+  t.mock.method(storage, 'getShippingRulesByCompany', async () => rules);
+
+  const options = await quoteShipping('c1', '01310100', 10000);
+  assert.equal(options?.find(o => o.name === 'Motoboy SP')?.price, 0);
+});
+
+test("companies without active rules don't charge freight", async (t) => {
+  t.mock.method(storage, 'getShippingRulesByCompany', async () => [rule({ isActive: false })]);
+
+  assert.equal(await quoteShipping('c1', '01310100', 5000), null);
+});
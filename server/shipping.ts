@@ -0,0 +1,320 @@
+/**
+ * Shipping
+ *
+ * Delivery options and freight for an order. Each company configures shipping
+ * rules: a flat rate, a price for a CEP range, a price by distance from the
+ * store (base fee plus a per-km rate, up to a maximum distance) or local
+ * pickup; any of them can be free above an order amount. Companies without
+ * active rules don't charge freight. Addresses come from ViaCEP; distances are
+ * straight lines between CEPs geocoded with OpenStreetMap (Nominatim).
+ */
+
+import { storage } from "./storage";
+import { getCartSummary, priceCheckout } from "./promotions";
+import type { OrderShipping, ShippingRule, ShippingRuleType } from "@shared/schema";
+
+export class ShippingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShippingError";
+    Object.setPrototypeOf(this, ShippingError.prototype);
+  }
+}
+
+export interface CepAddress {
+  cep: string;
+  street: string;
+  complement: string;
+  neighborhood: string;
+  city: string;
+  state: string;
+}
+
+export type CepLookup = { success: true; address: CepAddress } | { success: false; error: string };
+
+export interface ShippingOption {
+  ruleId: string;
+  name: string;
+  type: ShippingRuleType;
+  price: number; // in cents, 0 when free
+  estimatedDays: number | null;
+  instructions: string | null;
+  distanceKm?: number;
+}
+
+const LOOKUP_TIMEOUT_MS = 5000;
+
+/**
+ * 8-digit CEP (null when the input is not one)
+ */
+export function normalizeCep(cep: unknown): string | null {
+  const digits = String(cep ?? '').replace(/\D/g, '');
+  return digits.length === 8 ? digits : null;
+}
+
+/**
+ * Address of a CEP from ViaCEP
+ */
+export async function lookupCep(cep: string): Promise<CepLookup> {
+  try {
+    // Call ViaCEP API with timeout
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), LOOKUP_TIMEOUT_MS);
+
+    const viacepResponse = await fetch(`https://viacep.com.br/ws/${cep}/json/`, {
+      signal: controller.signal
+    });
+    clearTimeout(timeoutId);
+
+    if (!viacepResponse.ok) {
+      throw new Error(`ViaCEP returned status ${viacepResponse.status}`);
+    }
+
+    const viacepData = await viacepResponse.json();
+
+    if (viacepData.erro) {
+      return { success: false, error: "CEP não encontrado. Verifique se o CEP está correto." };
+    }
+
+    return {
+      success: true,
+      address: {
+        cep: viacepData.cep,
+        street: viacepData.logradouro,
+        complement: viacepData.complemento,
+        neighborhood: viacepData.bairro,
+        city: viacepData.localidade,
+        state: viacepData.uf
+      }
+    };
+  } catch (fetchError) {
+    console.error('ViaCEP API error:', fetchError);
+    // Network error, timeout, or API unavailable
+    return {
+      success: false,
+      error: "Não foi possível buscar o CEP no momento. Por favor, informe o endereço completo manualmente."
+    };
+  }
+}
+
+type Coordinates = { lat: number; lon: number };
+
+// Geocoded CEPs (Nominatim allows about one request per second)
+const geocodeCache = new Map<string, Coordinates | null>();
+const GEOCODE_CACHE_LIMIT = 5000;
+
+/**
+ * Coordinates of a CEP: its street, or the city when the street is not found.
+ * Null when the CEP can't be located (lookup failures are not cached).
+ */
+async function geocodeCep(cep: string): Promise<Coordinates | null> {
+  const cached = geocodeCache.get(cep);
+  if (cached !== undefined) return cached;
+
+  const lookup = await lookupCep(cep);
+  if (!lookup.success) return null;
+
+  const { street, city, state } = lookup.address;
+  const queries: Array<Record<string, string>> = [
+    ...(street ? [{ street, city, state }] : []),
+    { city, state },
+  ];
+
+  try {
+    let point: Coordinates | null = null;
+    for (const query of queries) {
+      const params = new URLSearchParams({ ...query, country: 'Brasil', format: 'json', limit: '1' });
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), LOOKUP_TIMEOUT_MS);
+      const response = await fetch(`https://nominatim.openstreetmap.org/search?${params}`, {
+        headers: { 'User-Agent': 'OmniAI/1.0 (shipping quotes)' },
+        signal: controller.signal,
+      });
+      clearTimeout(timeoutId);
+      if (!response.ok) {
+        throw new Error(`Nominatim returned status ${response.status}`);
+      }
+
+      const [place] = await response.json();
+      if (place) {
+        point = { lat: Number(place.lat), lon: Number(place.lon) };
+        break;
+      }
+    }
+
+    if (geocodeCache.size >= GEOCODE_CACHE_LIMIT) {
+      geocodeCache.delete(geocodeCache.keys().next().value!);
+    }
+    geocodeCache.set(cep, point);
+    return point;
+  } catch (error) {
+    console.error('Geocoding error:', error);
+    return null;
+  }
+}
+
+// Great-circle distance in km
+function haversineKm(from: Coordinates, to: Coordinates): number {
+  const rad = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = rad(to.lat - from.lat);
+  const dLon = rad(to.lon - from.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(from.lat)) * Math.cos(rad(to.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Distance from the company's shipping origin to the CEP (null when either
+ * can't be located or the company has no origin CEP)
+ */
+async function distanceFromStore(companyId: string, cep: string): Promise<number | null> {
+  const company = await storage.getCompany(companyId);
+  if (!company?.shippingOriginCep) return null;
+
+  const [origin, destination] = await Promise.all([geocodeCep(company.shippingOriginCep), geocodeCep(cep)]);
+  if (!origin || !destination) return null;
+  return Math.round(haversineKm(origin, destination) * 10) / 10;
+}
+
+/**
+ * What is wrong with a rule's settings for its type (null when valid)
+ */
+export function shippingRuleConfigError(data: Pick<Partial<ShippingRule>, 'type' | 'cepStart' | 'cepEnd' | 'pricePerKm' | 'maxDistanceKm'>): string | null {
+  if (data.type === 'cep_range') {
+    if (!data.cepStart || !data.cepEnd) {
+      return "Informe o CEP inicial e o final da faixa";
+    }
+    if (data.cepStart > data.cepEnd) {
+      return "O CEP inicial deve ser menor que o final";
+    }
+  }
+  if (data.type === 'distance' && !data.pricePerKm && !data.maxDistanceKm) {
+    return "Informe o valor por km ou a distância máxima";
+  }
+  return null;
+}
+
+/**
+ * Delivery options for a CEP, cheapest first, with free-shipping thresholds
+ * applied to `amount` (items after discounts, in cents). Flat rates and pickup
+ * don't need a CEP. Null when the company has no active shipping rules.
+ */
+export async function quoteShipping(companyId: string, cep: string | null, amount: number): Promise<ShippingOption[] | null> {
+  const rules = (await storage.getShippingRulesByCompany(companyId)).filter(rule => rule.isActive);
+  if (rules.length === 0) return null;
+
+  const destination = normalizeCep(cep);
+  let distance: number | null | undefined; // looked up once, on the first distance rule
+
+  const options: ShippingOption[] = [];
+  for (const rule of rules) {
+    let price = rule.price;
+    let distanceKm: number | undefined;
+
+    if (rule.type === 'cep_range') {
+      if (!destination || !rule.cepStart || !rule.cepEnd || destination < rule.cepStart || destination > rule.cepEnd) continue;
+    } else if (rule.type === 'distance') {
+      if (!destination) continue;
+      if (distance === undefined) {
+        distance = await distanceFromStore(companyId, destination);
+      }
+      if (distance === null || (rule.maxDistanceKm && distance > rule.maxDistanceKm)) continue;
+      distanceKm = distance;
+      price += Math.round((rule.pricePerKm || 0) * distance);
+    }
+
+    if (rule.freeAbove && amount >= rule.freeAbove) {
+      price = 0;
+    }
+    options.push({
+      ruleId: rule.id,
+      name: rule.name,
+      type: rule.type as ShippingRuleType,
+      price,
+      estimatedDays: rule.estimatedDays,
+      instructions: rule.instructions,
+      ...(distanceKm !== undefined && { distanceKm }),
+    });
+  }
+
+  return options.sort((a, b) => a.price - b.price);
+}
+
+/**
+ * Delivery options for the conversation cart (free-shipping thresholds use the
+ * cart total after discounts)
+ */
+export async function quoteCartShipping(companyId: string, conversationId: string, cep: string | null): Promise<ShippingOption[] | null> {
+  const cart = await getCartSummary(companyId, conversationId);
+  return quoteShipping(companyId, cep, cart.total);
+}
+
+/**
+ * Freight for an order: the option the customer chose, or the cheapest
+ * delivery to the CEP. Null when the company doesn't charge freight.
+ */
+export async function resolveShipping(
+  companyId: string,
+  cep: string | null,
+  amount: number,
+  ruleId?: string | null,
+): Promise<{ shipping: number; shippingMethod: OrderShipping } | null> {
+  const options = await quoteShipping(companyId, cep, amount);
+  if (!options) return null;
+
+  const option = ruleId
+    ? options.find(o => o.ruleId === ruleId)
+    : options.find(o => o.type !== 'pickup');
+  if (!option) {
+    if (ruleId) {
+      throw new ShippingError("Opção de entrega indisponível para este endereço");
+    }
+    throw new ShippingError(options.length > 0
+      ? `Não entregamos neste CEP. Opções disponíveis: ${options.map(o => o.name).join(', ')}`
+      : "Não entregamos neste CEP");
+  }
+
+  return {
+    shipping: option.price,
+    shippingMethod: {
+      ruleId: option.ruleId,
+      name: option.name,
+      type: option.type,
+      estimatedDays: option.estimatedDays,
+      ...(option.distanceKm !== undefined && { distanceKm: option.distanceKm }),
+    },
+  };
+}
+
+/**
+ * Order items and amounts for checkout: the cart priced with its promotions
+ * (see priceCheckout) plus the freight of the shipping option
+ */
+export async function priceOrder(
+  companyId: string,
+  conversationId: string,
+  options: { customerPhone: string | null; cep: string | null; shippingRuleId?: string | null },
+) {
+  const checkout = await priceCheckout(companyId, conversationId, options.customerPhone);
+  const freight = checkout.items.length > 0
+    ? await resolveShipping(companyId, options.cep, checkout.total, options.shippingRuleId)
+    : null;
+  const shipping = freight?.shipping ?? 0;
+
+  return {
+    ...checkout,
+    shipping,
+    shippingMethod: freight?.shippingMethod ?? null,
+    total: checkout.total + shipping,
+  };
+}
+
+/**
+ * "Entrega expressa: R$ 12,00 (2 dias úteis)" for replies and prompts
+ */
+export function formatShippingOption(option: Pick<ShippingOption, 'name' | 'price' | 'estimatedDays'>): string {
+  const price = option.price === 0 ? 'grátis' : `R$ ${(option.price / 100).toFixed(2)}`;
+  const days = option.estimatedDays === null
+    ? 'no mesmo dia'
+    : `${option.estimatedDays} ${option.estimatedDays === 1 ? 'dia útil' : 'dias úteis'}`;
+  return `${option.name}: ${price} (${days})`;
+}
@@ -1,6 +1,9 @@
 import { db } from './db';
 import { 
   adminUsers, companies, users, agents, products, orders, customers, conversations, messages, channels, apiLogs,
+  webhookSubscriptions, webhookDeliveries, knowledgeChunks, carts, stockMovements, orderStatusHistory, payments, paymentTransactions, aiUsage, invoices, userInvites, emailOutbox,
+  promotions, promotionRedemptions, shippingRules,
+  canTransitionOrderStatus,
   type InsertAdminUser, type AdminUser,
   type InsertCompany, type Company,
   type InsertUser, type User,
@@ -12,11 +15,95 @@ import {
   type InsertMessage, type Message,
   type InsertChannel, type Channel,
   type InsertApiLog, type ApiLog,
+  type InsertWebhookSubscription, type WebhookSubscription,
+  type InsertWebhookDelivery, type WebhookDelivery,
+  type InsertKnowledgeChunk, type KnowledgeChunk,
+  type Cart, type CartItem,
+  type StockMovement,
+  type OrderStatusHistory,
+  type InsertPayment, type Payment,
+  type InsertPaymentTransaction, type PaymentTransaction,
+  type InsertAiUsage, type AiUsage,
+  type InsertInvoice, type Invoice, type InvoiceStatus,
+  type InsertUserInvite, type UserInvite,
+  type InsertEmailOutbox, type EmailOutbox,
+  type InsertPromotion, type Promotion, type OrderDiscount,
+  type InsertShippingRule, type ShippingRule,
 } from '@shared/schema';
-import { eq, and, desc, sql, or } from 'drizzle-orm';
+import { eq, and, desc, sql, or, lte, gte, gt, ilike, isNull, type SQL } from 'drizzle-orm';
 import { normalizePhone } from './utils/phoneNormalizer';
 import { normalizeCPF, normalizeCNPJ } from './utils/documentValidator';
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type OrderItem = { productId?: string; name?: string; quantity: number };
+
+export class InsufficientStockError extends Error {
+  constructor(public items: Array<{ productId: string; name: string; requested: number; available: number }>) {
+    super(`Estoque insuficiente: ${items.map(i => `${i.name} (disponível: ${i.available})`).join(', ')}`);
+    this.name = "InsufficientStockError";
+    Object.setPrototypeOf(this, InsufficientStockError.prototype);
+  }
+}
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(public from: string, public to: string) {
+    super(`Transição de status inválida: ${from} → ${to}`);
+    this.name = "InvalidStatusTransitionError";
+    Object.setPrototypeOf(this, InvalidStatusTransitionError.prototype);
+  }
+}
+
+export class PromotionExhaustedError extends Error {
+  constructor(public promotionName: string) {
+    super(`Promoção esgotada: ${promotionName}`);
+    this.name = "PromotionExhaustedError";
+    Object.setPrototypeOf(this, PromotionExhaustedError.prototype);
+  }
+}
+
+// Who changed an order (recorded in the status history)
+export type OrderActor = { userId?: string | null; name: string };
+
+export type ProductSearchFilters = {
+  query?: string; // free text matched against name, description and category
+  category?: string;
+  minPrice?: number; // in cents
+  maxPrice?: number; // in cents
+  inStockOnly?: boolean;
+  limit?: number;
+};
+
+export interface AiUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  audioSeconds: number;
+  costMicros: number;
+}
+
+export interface AiUsageFeatureTotals extends AiUsageTotals {
+  companyId: string;
+  feature: string;
+}
+
+const aiUsageSums = {
+  calls: sql<number>`count(*)::int`,
+  promptTokens: sql<number>`coalesce(sum(${aiUsage.promptTokens}), 0)::int`,
+  completionTokens: sql<number>`coalesce(sum(${aiUsage.completionTokens}), 0)::int`,
+  totalTokens: sql<number>`coalesce(sum(${aiUsage.totalTokens}), 0)::int`,
+  audioSeconds: sql<number>`coalesce(sum(${aiUsage.audioSeconds}), 0)::int`,
+  costMicros: sql<number>`coalesce(sum(${aiUsage.costMicros}), 0)::float8`, // may exceed int4 across many calls
+};
+
+// Resources limited by the subscription plan (conversations and AI messages counted since the period start)
+export interface PlanUsageCounts {
+  products: number;
+  conversations: number;
+  users: number;
+  aiMessages: number;
+}
+
 export interface IStorage {
   // Admin Users
   getAdminUserByEmail(email: string): Promise<AdminUser | undefined>;
@@ -25,6 +112,7 @@ export interface IStorage {
   // Companies
   getAllCompanies(): Promise<Company[]>;
   getActiveCompanies(): Promise<Company[]>;
+  getExpiredTrialCompanies(now: Date): Promise<Company[]>;
   getCompany(id: string): Promise<Company | undefined>;
   getCompanyByCpfCnpj(cpfCnpj: string): Promise<Company | undefined>;
   createCompany(data: InsertCompany): Promise<Company>;
@@ -35,8 +123,22 @@ export interface IStorage {
   // Users
   getUserByEmail(email: string, companyId: string): Promise<User | undefined>;
   getUserByEmailOnly(email: string): Promise<User | undefined>;
+  getUser(id: string): Promise<User | undefined>;
   getUsersByCompany(companyId: string): Promise<User[]>;
   createUser(data: InsertUser): Promise<User>;
+  updateUser(id: string, companyId: string, data: Partial<InsertUser>): Promise<User | undefined>;
+  deleteUser(id: string, companyId: string): Promise<void>;
+  
+  // User Invites
+  createUserInvite(data: InsertUserInvite): Promise<UserInvite>;
+  getUserInviteByToken(token: string): Promise<UserInvite | undefined>;
+  getPendingUserInvites(companyId: string): Promise<UserInvite[]>;
+  acceptUserInvite(id: string): Promise<UserInvite | undefined>;
+  deleteUserInvite(id: string, companyId: string): Promise<void>;
+  
+  // Email Outbox
+  createOutboxEmail(data: InsertEmailOutbox): Promise<EmailOutbox>;
+  getOutboxEmails(limit?: number): Promise<EmailOutbox[]>;
   
   // Agents
   getAgentByCompany(companyId: string): Promise<Agent | undefined>;
@@ -47,6 +149,7 @@ export interface IStorage {
   getProductsByCompany(companyId: string): Promise<Product[]>;
   getProductsByCompanyAndStatus(companyId: string, status: string): Promise<Product[]>;
   getProduct(id: string, companyId: string): Promise<Product | undefined>;
+  searchProducts(companyId: string, filters: ProductSearchFilters): Promise<Product[]>;
   createProduct(data: InsertProduct): Promise<Product>;
   updateProduct(id: string, companyId: string, data: Partial<InsertProduct>): Promise<Product | undefined>;
   deleteProduct(id: string, companyId: string): Promise<void>;
@@ -55,9 +158,36 @@ export interface IStorage {
   
   // Orders
   getOrdersByCompany(companyId: string): Promise<Order[]>;
+  getOrdersByConversation(conversationId: string): Promise<Order[]>;
   getOrder(id: string, companyId: string): Promise<Order | undefined>;
-  createOrder(data: InsertOrder): Promise<Order>;
-  updateOrderStatus(id: string, companyId: string, status: string): Promise<Order | undefined>;
+  createOrder(data: InsertOrder, actor?: OrderActor): Promise<Order>;
+  updateOrderStatus(id: string, companyId: string, status: string, actor?: OrderActor, note?: string): Promise<Order | undefined>;
+  getOrderStatusHistory(orderId: string, companyId: string): Promise<OrderStatusHistory[]>;
+  updateOrderPayment(id: string, data: Partial<Pick<Order, 'paymentStatus' | 'paidAt'>>): Promise<Order | undefined>;
+  
+  // Payments
+  getPayment(id: string): Promise<Payment | undefined>;
+  getPaymentByExternalId(gateway: string, externalId: string): Promise<Payment | undefined>;
+  getPaymentsByOrder(orderId: string, companyId: string): Promise<Payment[]>;
+  getExpiredPendingPayments(): Promise<Payment[]>;
+  createPayment(data: InsertPayment): Promise<Payment>;
+  updatePayment(id: string, data: Partial<InsertPayment>): Promise<Payment | undefined>;
+  getPaymentTransactionsByOrder(orderId: string, companyId: string): Promise<PaymentTransaction[]>;
+  createPaymentTransaction(data: InsertPaymentTransaction): Promise<PaymentTransaction>;
+  
+  // AI Usage
+  createAiUsage(data: InsertAiUsage): Promise<AiUsage>;
+  getAiUsageTotals(companyId: string, since: Date): Promise<AiUsageTotals>;
+  getAiUsageByFeature(since: Date, companyId?: string): Promise<AiUsageFeatureTotals[]>;
+  
+  // Plans & Invoices
+  getPlanUsageCounts(companyId: string, since: Date): Promise<PlanUsageCounts>;
+  createInvoice(data: InsertInvoice): Promise<Invoice | undefined>; // undefined when the period is already billed
+  getInvoicesByCompany(companyId: string): Promise<Invoice[]>;
+  updateInvoiceStatus(id: string, status: InvoiceStatus): Promise<Invoice | undefined>;
+  
+  // Stock Movements
+  getStockMovementsByProduct(productId: string, companyId: string, limit?: number): Promise<StockMovement[]>;
   
   // Customers
   getCustomersByCompany(companyId: string): Promise<Customer[]>;
@@ -91,14 +221,19 @@ export interface IStorage {
   // Conversations
   getConversationsByCompany(companyId: string): Promise<Conversation[]>;
   getActiveConversations(companyId: string): Promise<Conversation[]>;
+  getAssignedConversations(companyId: string, userId: string): Promise<Conversation[]>;
   getConversation(id: string): Promise<Conversation | undefined>;
+  getActiveConversationByExternalId(companyId: string, channel: string, externalConversationId: string): Promise<Conversation | undefined>;
   createConversation(data: InsertConversation): Promise<Conversation>;
   updateConversation(id: string, data: Partial<InsertConversation>): Promise<Conversation | undefined>;
-  takeoverConversation(id: string, userId: string, userName: string): Promise<void>;
+  takeoverConversation(id: string, userId: string): Promise<void>;
+  releaseConversation(id: string, handbackSummary: string | null): Promise<Conversation | undefined>;
+  getConversationByResumeCode(companyId: string, code: string): Promise<Conversation | undefined>;
   
   // Messages
   getMessagesByConversation(conversationId: string): Promise<Message[]>;
   createMessage(data: InsertMessage): Promise<Message>;
+  updateMessage(id: string, data: Partial<InsertMessage>): Promise<Message | undefined>;
   
   // Channels
   getChannelByCompany(companyId: string): Promise<Channel | undefined>;
@@ -111,6 +246,47 @@ export interface IStorage {
   getApiLogsByCompany(companyId: string, limit?: number): Promise<ApiLog[]>;
   getApiLogsByType(type: string, limit?: number): Promise<ApiLog[]>;
   
+  // Webhook Subscriptions
+  getWebhookSubscriptionsByCompany(companyId: string): Promise<WebhookSubscription[]>;
+  getWebhookSubscription(id: string, companyId: string): Promise<WebhookSubscription | undefined>;
+  createWebhookSubscription(data: InsertWebhookSubscription & { secret: string }): Promise<WebhookSubscription>;
+  updateWebhookSubscription(id: string, companyId: string, data: Partial<InsertWebhookSubscription & { secret: string }>): Promise<WebhookSubscription | undefined>;
+  deleteWebhookSubscription(id: string, companyId: string): Promise<void>;
+  
+  // Webhook Deliveries
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveriesByCompany(companyId: string, status?: string, limit?: number): Promise<WebhookDelivery[]>;
+  getDueWebhookDeliveries(limit?: number): Promise<WebhookDelivery[]>;
+  createWebhookDelivery(data: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: string, data: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  claimWebhookDelivery(id: string, attempts: number, leaseUntil: Date): Promise<WebhookDelivery | undefined>;
+  
+  // Knowledge Base
+  getKnowledgeChunksByCompany(companyId: string): Promise<KnowledgeChunk[]>;
+  replaceKnowledgeChunks(companyId: string, documentUrl: string, data: InsertKnowledgeChunk[]): Promise<KnowledgeChunk[]>;
+  deleteKnowledgeChunksByDocument(companyId: string, documentUrl: string): Promise<void>;
+  
+  // Carts
+  getCartByConversation(conversationId: string): Promise<Cart | undefined>;
+  saveCart(companyId: string, conversationId: string, items: CartItem[]): Promise<Cart>;
+  setCartCoupon(companyId: string, conversationId: string, couponCode: string | null): Promise<Cart>;
+  
+  // Promotions
+  getPromotionsByCompany(companyId: string): Promise<Promotion[]>;
+  getPromotion(id: string, companyId: string): Promise<Promotion | undefined>;
+  getPromotionByCode(companyId: string, code: string): Promise<Promotion | undefined>;
+  createPromotion(data: InsertPromotion): Promise<Promotion>;
+  updatePromotion(id: string, companyId: string, data: Partial<InsertPromotion>): Promise<Promotion | undefined>;
+  deletePromotion(id: string, companyId: string): Promise<void>;
+  countPromotionRedemptions(promotionId: string, customerPhone: string): Promise<number>;
+  
+  // Shipping rules
+  getShippingRulesByCompany(companyId: string): Promise<ShippingRule[]>;
+  getShippingRule(id: string, companyId: string): Promise<ShippingRule | undefined>;
+  createShippingRule(data: InsertShippingRule): Promise<ShippingRule>;
+  updateShippingRule(id: string, companyId: string, data: Partial<InsertShippingRule>): Promise<ShippingRule | undefined>;
+  deleteShippingRule(id: string, companyId: string): Promise<void>;
+  
   // Analytics (for dashboard)
   getCompanyStats(companyId: string): Promise<{
     totalProducts: number;
@@ -141,6 +317,10 @@ export class DbStorage implements IStorage {
     return db.select().from(companies).where(eq(companies.status, 'active')).orderBy(desc(companies.createdAt));
   }
 
+  async getExpiredTrialCompanies(now: Date): Promise<Company[]> {
+    return db.select().from(companies).where(and(eq(companies.status, 'trial'), lte(companies.trialEndsAt, now)));
+  }
+
   async getCompany(id: string): Promise<Company | undefined> {
     const result = await db.select().from(companies).where(eq(companies.id, id));
     return result[0];
@@ -183,6 +363,11 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async getUser(id: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.id, id));
+    return result[0];
+  }
+
   async getUsersByCompany(companyId: string): Promise<User[]> {
     return db.select().from(users).where(eq(users.companyId, companyId));
   }
@@ -192,6 +377,62 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async updateUser(id: string, companyId: string, data: Partial<InsertUser>): Promise<User | undefined> {
+    const result = await db.update(users)
+      .set(data)
+      .where(and(eq(users.id, id), eq(users.companyId, companyId)))
+      .returning();
+    return result[0];
+  }
+
+  async deleteUser(id: string, companyId: string): Promise<void> {
+    await db.delete(users).where(and(eq(users.id, id), eq(users.companyId, companyId)));
+  }
+
+  // User Invites
+  async createUserInvite(data: InsertUserInvite): Promise<UserInvite> {
+    const result = await db.insert(userInvites).values(data).returning();
+    return result[0];
+  }
+
+  async getUserInviteByToken(token: string): Promise<UserInvite | undefined> {
+    const result = await db.select().from(userInvites).where(eq(userInvites.token, token));
+    return result[0];
+  }
+
+  async getPendingUserInvites(companyId: string): Promise<UserInvite[]> {
+    return db.select().from(userInvites)
+      .where(and(
+        eq(userInvites.companyId, companyId),
+        isNull(userInvites.acceptedAt),
+        gt(userInvites.expiresAt, new Date()),
+      ))
+      .orderBy(desc(userInvites.createdAt));
+  }
+
+  async acceptUserInvite(id: string): Promise<UserInvite | undefined> {
+    // Only a pending invite can be accepted (guards against double submits)
+    const result = await db.update(userInvites)
+      .set({ acceptedAt: new Date() })
+      .where(and(eq(userInvites.id, id), isNull(userInvites.acceptedAt)))
+      .returning();
+    return result[0];
+  }
+
+  async deleteUserInvite(id: string, companyId: string): Promise<void> {
+    await db.delete(userInvites).where(and(eq(userInvites.id, id), eq(userInvites.companyId, companyId)));
+  }
+
+  // Email Outbox
+  async createOutboxEmail(data: InsertEmailOutbox): Promise<EmailOutbox> {
+    const result = await db.insert(emailOutbox).values(data).returning();
+    return result[0];
+  }
+
+  async getOutboxEmails(limit: number = 100): Promise<EmailOutbox[]> {
+    return db.select().from(emailOutbox).orderBy(desc(emailOutbox.createdAt)).limit(limit);
+  }
+
   // Agents
   async getAgentByCompany(companyId: string): Promise<Agent | undefined> {
     const result = await db.select().from(agents).where(eq(agents.companyId, companyId));
@@ -229,19 +470,75 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  // Search sellable (active + published) products; in-stock items come first
+  async searchProducts(companyId: string, filters: ProductSearchFilters): Promise<Product[]> {
+    const conditions: SQL[] = [
+      eq(products.companyId, companyId),
+      eq(products.isActive, true),
+      eq(products.status, 'published'),
+    ];
+
+    // Every term must appear in the name, description or category
+    const terms = (filters.query || '').trim().split(/\s+/).filter(Boolean);
+    for (const term of terms) {
+      const pattern = `%${term}%`;
+      conditions.push(or(
+        ilike(products.name, pattern),
+        ilike(products.description, pattern),
+        ilike(products.category, pattern),
+      )!);
+    }
+
+    if (filters.category) {
+      conditions.push(ilike(products.category, filters.category));
+    }
+    if (filters.minPrice !== undefined) {
+      conditions.push(gte(products.price, filters.minPrice));
+    }
+    if (filters.maxPrice !== undefined) {
+      conditions.push(lte(products.price, filters.maxPrice));
+    }
+    if (filters.inStockOnly) {
+      conditions.push(sql`${products.stock} > 0`);
+    }
+
+    return db.select().from(products)
+      .where(and(...conditions))
+      .orderBy(desc(sql`${products.stock} > 0`), products.name)
+      .limit(Math.min(filters.limit || 10, 25));
+  }
+
   async createProduct(data: InsertProduct): Promise<Product> {
     const result = await db.insert(products).values(data).returning();
     return result[0];
   }
 
   async updateProduct(id: string, companyId: string, data: Partial<InsertProduct>): Promise<Product | undefined> {
-    const result = await db.update(products).set({ 
-      ...data, 
-      updatedAt: new Date() 
-    }).where(
-      and(eq(products.id, id), eq(products.companyId, companyId))
-    ).returning();
-    return result[0];
+    return db.transaction(async (tx) => {
+      const current = await tx.select().from(products).where(
+        and(eq(products.id, id), eq(products.companyId, companyId))
+      );
+      const result = await tx.update(products).set({ 
+        ...data, 
+        updatedAt: new Date() 
+      }).where(
+        and(eq(products.id, id), eq(products.companyId, companyId))
+      ).returning();
+
+      // Record manual stock edits in the ledger
+      if (current[0] && result[0] && data.stock !== undefined && result[0].stock !== current[0].stock) {
+        await tx.insert(stockMovements).values({
+          companyId,
+          productId: id,
+          type: 'adjustment',
+          quantity: result[0].stock - current[0].stock,
+          stockAfter: result[0].stock,
+          reason: 'Ajuste manual',
+        });
+      }
+
+      return result[0];
+    });
   }
 
   async deleteProduct(id: string, companyId: string): Promise<void> {
@@ -270,6 +567,10 @@ export class DbStorage implements IStorage {
     return db.select().from(orders).where(eq(orders.companyId, companyId)).orderBy(desc(orders.createdAt));
   }
 
+  async getOrdersByConversation(conversationId: string): Promise<Order[]> {
+    return db.select().from(orders).where(eq(orders.conversationId, conversationId)).orderBy(desc(orders.createdAt));
+  }
+
   async getOrder(id: string, companyId: string): Promise<Order | undefined> {
     const result = await db.select().from(orders).where(
       and(eq(orders.id, id), eq(orders.companyId, companyId))
@@ -287,7 +588,7 @@ export class DbStorage implements IStorage {
     return code;
   }
 
-  async createOrder(data: InsertOrder): Promise<Order> {
+  async createOrder(data: InsertOrder, actor: OrderActor = { name: 'Sistema' }): Promise<Order> {
     // Generate unique confirmation code
     let confirmationCode = this.generateConfirmationCode();
     let attempts = 0;
@@ -301,23 +602,329 @@ export class DbStorage implements IStorage {
       attempts++;
     }
     
-    const result = await db.insert(orders).values({
+    // Order and stock reservation succeed or fail together
+    return db.transaction(async (tx) => {
+      const result = await tx.insert(orders).values({
+        ...data,
+        status: 'pending',
+        confirmationCode,
+      }).returning();
+      const order = result[0];
+
+      await this.reserveStock(tx, order);
+      await this.redeemPromotions(tx, order);
+      await tx.insert(orderStatusHistory).values({
+        orderId: order.id,
+        companyId: order.companyId,
+        fromStatus: null,
+        toStatus: order.status,
+        changedByUserId: actor.userId ?? null,
+        changedByName: actor.name,
+        note: 'Pedido criado',
+      });
+      return order;
+    });
+  }
+
+  async updateOrderStatus(
+    id: string,
+    companyId: string,
+    status: string,
+    actor: OrderActor = { name: 'Sistema' },
+    note?: string,
+  ): Promise<Order | undefined> {
+    return db.transaction(async (tx) => {
+      // Lock the row so concurrent transitions are validated against the latest status
+      const current = await tx.select().from(orders).where(
+        and(eq(orders.id, id), eq(orders.companyId, companyId))
+      ).for('update');
+      if (!current[0]) return undefined;
+
+      if (!canTransitionOrderStatus(current[0].status, status)) {
+        throw new InvalidStatusTransitionError(current[0].status, status);
+      }
+
+      const result = await tx.update(orders).set({ 
+        status, 
+        updatedAt: new Date() 
+      }).where(
+        and(eq(orders.id, id), eq(orders.companyId, companyId))
+      ).returning();
+      const order = result[0];
+
+      // Cancelling returns the items to stock and the promotion uses
+      if (status === 'cancelled') {
+        await this.releaseStock(tx, order);
+        await this.releasePromotions(tx, order);
+      }
+
+      await tx.insert(orderStatusHistory).values({
+        orderId: id,
+        companyId,
+        fromStatus: current[0].status,
+        toStatus: status,
+        changedByUserId: actor.userId ?? null,
+        changedByName: actor.name,
+        note: note || null,
+      });
+
+      return order;
+    });
+  }
+
+  async updateOrderPayment(id: string, data: Partial<Pick<Order, 'paymentStatus' | 'paidAt'>>): Promise<Order | undefined> {
+    const result = await db.update(orders).set({
       ...data,
-      confirmationCode,
-    }).returning();
+      updatedAt: new Date(),
+    }).where(eq(orders.id, id)).returning();
     return result[0];
   }
 
-  async updateOrderStatus(id: string, companyId: string, status: string): Promise<Order | undefined> {
-    const result = await db.update(orders).set({ 
-      status, 
-      updatedAt: new Date() 
-    }).where(
-      and(eq(orders.id, id), eq(orders.companyId, companyId))
-    ).returning();
+  async getOrderStatusHistory(orderId: string, companyId: string): Promise<OrderStatusHistory[]> {
+    return db.select().from(orderStatusHistory)
+      .where(and(eq(orderStatusHistory.orderId, orderId), eq(orderStatusHistory.companyId, companyId)))
+      .orderBy(orderStatusHistory.createdAt);
+  }
+
+  // Sum quantities per product (the same product may appear more than once)
+  private groupOrderItems(order: Order): Map<string, number> {
+    const quantities = new Map<string, number>();
+    for (const item of order.items as OrderItem[]) {
+      if (!item.productId) continue;
+      quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.quantity);
+    }
+    return quantities;
+  }
+
+  private async reserveStock(tx: Transaction, order: Order): Promise<void> {
+    const shortages: InsufficientStockError['items'] = [];
+
+    for (const [productId, quantity] of Array.from(this.groupOrderItems(order))) {
+      // Conditional decrement: only succeeds if enough stock is available
+      const updated = await tx.update(products).set({
+        stock: sql`${products.stock} - ${quantity}`,
+        updatedAt: new Date(),
+      }).where(
+        and(eq(products.id, productId), eq(products.companyId, order.companyId), gte(products.stock, quantity))
+      ).returning();
+
+      if (!updated[0]) {
+        const product = await tx.select().from(products).where(
+          and(eq(products.id, productId), eq(products.companyId, order.companyId))
+        );
+        const item = (order.items as OrderItem[]).find(i => i.productId === productId);
+        shortages.push({
+          productId,
+          name: product[0]?.name || item?.name || productId,
+          requested: quantity,
+          available: product[0]?.stock ?? 0,
+        });
+        continue;
+      }
+
+      await tx.insert(stockMovements).values({
+        companyId: order.companyId,
+        productId,
+        orderId: order.id,
+        type: 'reservation',
+        quantity: -quantity,
+        stockAfter: updated[0].stock,
+        reason: `Pedido #${order.confirmationCode}`,
+      });
+    }
+
+    if (shortages.length > 0) {
+      throw new InsufficientStockError(shortages);
+    }
+  }
+
+  private async releaseStock(tx: Transaction, order: Order): Promise<void> {
+    for (const [productId, quantity] of Array.from(this.groupOrderItems(order))) {
+      const updated = await tx.update(products).set({
+        stock: sql`${products.stock} + ${quantity}`,
+        updatedAt: new Date(),
+      }).where(
+        and(eq(products.id, productId), eq(products.companyId, order.companyId))
+      ).returning();
+
+      // Product may have been deleted since the order was placed
+      if (!updated[0]) continue;
+
+      await tx.insert(stockMovements).values({
+        companyId: order.companyId,
+        productId,
+        orderId: order.id,
+        type: 'release',
+        quantity,
+        stockAfter: updated[0].stock,
+        reason: `Pedido #${order.confirmationCode} cancelado`,
+      });
+    }
+  }
+
+  // Count a use of each promotion on the order, within its total cap
+  private async redeemPromotions(tx: Transaction, order: Order): Promise<void> {
+    for (const discount of order.discounts as OrderDiscount[]) {
+      const updated = await tx.update(promotions).set({
+        usageCount: sql`${promotions.usageCount} + 1`,
+      }).where(
+        and(
+          eq(promotions.id, discount.promotionId),
+          eq(promotions.companyId, order.companyId),
+          or(isNull(promotions.maxUses), gt(promotions.maxUses, promotions.usageCount)),
+        )
+      ).returning();
+      if (!updated[0]) {
+        throw new PromotionExhaustedError(discount.name);
+      }
+
+      await tx.insert(promotionRedemptions).values({
+        companyId: order.companyId,
+        promotionId: discount.promotionId,
+        orderId: order.id,
+        customerPhone: order.customerPhone ? normalizePhone(order.customerPhone) : null,
+        amount: discount.amount,
+      });
+    }
+  }
+
+  private async releasePromotions(tx: Transaction, order: Order): Promise<void> {
+    const redemptions = await tx.delete(promotionRedemptions)
+      .where(eq(promotionRedemptions.orderId, order.id))
+      .returning();
+    for (const redemption of redemptions) {
+      await tx.update(promotions).set({
+        usageCount: sql`greatest(${promotions.usageCount} - 1, 0)`,
+      }).where(eq(promotions.id, redemption.promotionId));
+    }
+  }
+
+  // Payments
+  async getPayment(id: string): Promise<Payment | undefined> {
+    const result = await db.select().from(payments).where(eq(payments.id, id));
+    return result[0];
+  }
+
+  async getPaymentByExternalId(gateway: string, externalId: string): Promise<Payment | undefined> {
+    const result = await db.select().from(payments).where(
+      and(eq(payments.gateway, gateway), eq(payments.externalId, externalId))
+    );
+    return result[0];
+  }
+
+  async getPaymentsByOrder(orderId: string, companyId: string): Promise<Payment[]> {
+    return db.select().from(payments)
+      .where(and(eq(payments.orderId, orderId), eq(payments.companyId, companyId)))
+      .orderBy(desc(payments.createdAt));
+  }
+
+  async getExpiredPendingPayments(): Promise<Payment[]> {
+    return db.select().from(payments).where(
+      and(eq(payments.status, 'awaiting_payment'), lte(payments.expiresAt, new Date()))
+    );
+  }
+
+  async createPayment(data: InsertPayment): Promise<Payment> {
+    const result = await db.insert(payments).values(data).returning();
+    return result[0];
+  }
+
+  async updatePayment(id: string, data: Partial<InsertPayment>): Promise<Payment | undefined> {
+    const result = await db.update(payments).set({
+      ...data,
+      updatedAt: new Date(),
+    }).where(eq(payments.id, id)).returning();
+    return result[0];
+  }
+
+  async getPaymentTransactionsByOrder(orderId: string, companyId: string): Promise<PaymentTransaction[]> {
+    return db.select().from(paymentTransactions)
+      .where(and(eq(paymentTransactions.orderId, orderId), eq(paymentTransactions.companyId, companyId)))
+      .orderBy(paymentTransactions.createdAt);
+  }
+
+  async createPaymentTransaction(data: InsertPaymentTransaction): Promise<PaymentTransaction> {
+    const result = await db.insert(paymentTransactions).values(data).returning();
+    return result[0];
+  }
+
+  // AI Usage
+  async createAiUsage(data: InsertAiUsage): Promise<AiUsage> {
+    const result = await db.insert(aiUsage).values(data).returning();
+    return result[0];
+  }
+
+  async getAiUsageTotals(companyId: string, since: Date): Promise<AiUsageTotals> {
+    const [totals] = await db.select(aiUsageSums)
+      .from(aiUsage)
+      .where(and(eq(aiUsage.companyId, companyId), gte(aiUsage.createdAt, since)));
+    return totals;
+  }
+
+  async getAiUsageByFeature(since: Date, companyId?: string): Promise<AiUsageFeatureTotals[]> {
+    const conditions = [gte(aiUsage.createdAt, since)];
+    if (companyId) conditions.push(eq(aiUsage.companyId, companyId));
+
+    return db.select({ companyId: aiUsage.companyId, feature: aiUsage.feature, ...aiUsageSums })
+      .from(aiUsage)
+      .where(and(...conditions))
+      .groupBy(aiUsage.companyId, aiUsage.feature);
+  }
+
+  // Plans & Invoices
+  async getPlanUsageCounts(companyId: string, since: Date): Promise<PlanUsageCounts> {
+    const [productCount] = await db.select({ count: sql<number>`count(*)::int` }).from(products).where(eq(products.companyId, companyId));
+    const [userCount] = await db.select({ count: sql<number>`count(*)::int` }).from(users).where(eq(users.companyId, companyId));
+    const [conversationCount] = await db.select({ count: sql<number>`count(*)::int` }).from(conversations).where(
+      and(eq(conversations.companyId, companyId), gte(conversations.createdAt, since))
+    );
+    // Agent replies only: product cards and system notices are not counted
+    const [aiMessageCount] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(and(
+        eq(conversations.companyId, companyId),
+        eq(messages.role, 'assistant'),
+        gte(messages.createdAt, since),
+        sql`${messages.metadata}->>'productId' IS NULL`,
+        sql`${messages.metadata}->>'systemMessage' IS NULL`,
+      ));
+
+    return {
+      products: productCount.count,
+      conversations: conversationCount.count,
+      users: userCount.count,
+      aiMessages: aiMessageCount.count,
+    };
+  }
+
+  async createInvoice(data: InsertInvoice): Promise<Invoice | undefined> {
+    const result = await db.insert(invoices).values(data)
+      .onConflictDoNothing({ target: [invoices.companyId, invoices.periodStart] })
+      .returning();
     return result[0];
   }
 
+  async getInvoicesByCompany(companyId: string): Promise<Invoice[]> {
+    return db.select().from(invoices).where(eq(invoices.companyId, companyId)).orderBy(desc(invoices.periodStart));
+  }
+
+  async updateInvoiceStatus(id: string, status: InvoiceStatus): Promise<Invoice | undefined> {
+    const result = await db.update(invoices)
+      .set({ status, paidAt: status === 'paid' ? new Date() : null })
+      .where(eq(invoices.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Stock Movements
+  async getStockMovementsByProduct(productId: string, companyId: string, limit: number = 50): Promise<StockMovement[]> {
+    return db.select().from(stockMovements)
+      .where(and(eq(stockMovements.productId, productId), eq(stockMovements.companyId, companyId)))
+      .orderBy(desc(stockMovements.createdAt))
+      .limit(limit);
+  }
+
   // Customers
   async getCustomersByCompany(companyId: string): Promise<Customer[]> {
     return db.select().from(customers).where(eq(customers.companyId, companyId)).orderBy(desc(customers.createdAt));
@@ -512,6 +1119,18 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async getActiveConversationByExternalId(companyId: string, channel: string, externalConversationId: string): Promise<Conversation | undefined> {
+    const result = await db.select().from(conversations).where(
+      and(
+        eq(conversations.companyId, companyId),
+        eq(conversations.channel, channel),
+        eq(conversations.externalConversationId, externalConversationId),
+        eq(conversations.status, 'active')
+      )
+    ).orderBy(desc(conversations.updatedAt)).limit(1);
+    return result[0];
+  }
+
   async createConversation(data: InsertConversation): Promise<Conversation> {
     const result = await db.insert(conversations).values(data).returning();
     return result[0];
@@ -534,15 +1153,52 @@ export class DbStorage implements IStorage {
       .orderBy(desc(conversations.updatedAt));
   }
 
-  async takeoverConversation(id: string, userId: string, userName: string): Promise<void> {
+  async getAssignedConversations(companyId: string, userId: string): Promise<Conversation[]> {
+    return db.select().from(conversations)
+      .where(and(
+        eq(conversations.companyId, companyId),
+        eq(conversations.assignedTo, userId),
+        eq(conversations.status, 'active')
+      ))
+      .orderBy(desc(conversations.updatedAt));
+  }
+
+  // Taking over makes the operator responsible for the conversation and answers the AI's call for help
+  async takeoverConversation(id: string, userId: string): Promise<void> {
     await db.update(conversations).set({
       mode: 'human',
       takenOverBy: userId,
       takenOverAt: new Date(),
+      assignedTo: userId,
+      assignedAt: new Date(),
+      needsHumanAttention: false,
       updatedAt: new Date()
     }).where(eq(conversations.id, id));
   }
 
+  async releaseConversation(id: string, handbackSummary: string | null): Promise<Conversation | undefined> {
+    const [conversation] = await db.update(conversations).set({
+      mode: 'ai',
+      handbackSummary,
+      handedBackAt: new Date(),
+      draftReply: null,
+      draftReplyAt: null,
+      assignedTo: null,
+      assignedAt: null,
+      needsHumanAttention: false,
+      transferReason: null,
+      updatedAt: new Date()
+    }).where(eq(conversations.id, id)).returning();
+    return conversation;
+  }
+
+  async getConversationByResumeCode(companyId: string, code: string): Promise<Conversation | undefined> {
+    const result = await db.select().from(conversations).where(
+      and(eq(conversations.companyId, companyId), eq(conversations.resumeCode, code))
+    );
+    return result[0];
+  }
+
   // Messages
   async getMessagesByConversation(conversationId: string): Promise<Message[]> {
     return db.select().from(messages).where(eq(messages.conversationId, conversationId)).orderBy(messages.createdAt);
@@ -553,6 +1209,11 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async updateMessage(id: string, data: Partial<InsertMessage>): Promise<Message | undefined> {
+    const result = await db.update(messages).set(data).where(eq(messages.id, id)).returning();
+    return result[0];
+  }
+
   // Channels
   async getChannelByCompany(companyId: string): Promise<Channel | undefined> {
     const result = await db.select().from(channels).where(eq(channels.companyId, companyId));
@@ -596,6 +1257,227 @@ export class DbStorage implements IStorage {
       .limit(limit);
   }
 
+  // Webhook Subscriptions
+  async getWebhookSubscriptionsByCompany(companyId: string): Promise<WebhookSubscription[]> {
+    return db.select().from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.companyId, companyId))
+      .orderBy(desc(webhookSubscriptions.createdAt));
+  }
+
+  async getWebhookSubscription(id: string, companyId: string): Promise<WebhookSubscription | undefined> {
+    const result = await db.select().from(webhookSubscriptions).where(
+      and(eq(webhookSubscriptions.id, id), eq(webhookSubscriptions.companyId, companyId))
+    );
+    return result[0];
+  }
+
+  async createWebhookSubscription(data: InsertWebhookSubscription & { secret: string }): Promise<WebhookSubscription> {
+    const result = await db.insert(webhookSubscriptions).values(data).returning();
+    return result[0];
+  }
+
+  async updateWebhookSubscription(id: string, companyId: string, data: Partial<InsertWebhookSubscription & { secret: string }>): Promise<WebhookSubscription | undefined> {
+    const result = await db.update(webhookSubscriptions).set({ 
+      ...data, 
+      updatedAt: new Date() 
+    }).where(
+      and(eq(webhookSubscriptions.id, id), eq(webhookSubscriptions.companyId, companyId))
+    ).returning();
+    return result[0];
+  }
+
+  async deleteWebhookSubscription(id: string, companyId: string): Promise<void> {
+    await db.delete(webhookSubscriptions).where(
+      and(eq(webhookSubscriptions.id, id), eq(webhookSubscriptions.companyId, companyId))
+    );
+  }
+
+  // Webhook Deliveries
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const result = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return result[0];
+  }
+
+  async getWebhookDeliveriesByCompany(companyId: string, status?: string, limit: number = 100): Promise<WebhookDelivery[]> {
+    const conditions = [eq(webhookDeliveries.companyId, companyId)];
+    if (status) {
+      conditions.push(eq(webhookDeliveries.status, status));
+    }
+    return db.select().from(webhookDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async getDueWebhookDeliveries(limit: number = 50): Promise<WebhookDelivery[]> {
+    return db.select().from(webhookDeliveries)
+      .where(and(
+        eq(webhookDeliveries.status, 'pending'),
+        lte(webhookDeliveries.nextAttemptAt, new Date())
+      ))
+      .orderBy(webhookDeliveries.nextAttemptAt)
+      .limit(limit);
+  }
+
+  async createWebhookDelivery(data: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const result = await db.insert(webhookDeliveries).values(data).returning();
+    return result[0];
+  }
+
+  async updateWebhookDelivery(id: string, data: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const result = await db.update(webhookDeliveries).set(data).where(eq(webhookDeliveries.id, id)).returning();
+    return result[0];
+  }
+
+  // Count an attempt and lease the delivery until leaseUntil, only if nobody
+  // claimed it since it was read (same attempt count); undefined when taken
+  async claimWebhookDelivery(id: string, attempts: number, leaseUntil: Date): Promise<WebhookDelivery | undefined> {
+    const result = await db.update(webhookDeliveries).set({
+      attempts: attempts + 1,
+      nextAttemptAt: leaseUntil,
+    }).where(and(
+      eq(webhookDeliveries.id, id),
+      eq(webhookDeliveries.status, 'pending'),
+      eq(webhookDeliveries.attempts, attempts),
+    )).returning();
+    return result[0];
+  }
+
+  // Knowledge Base
+  async getKnowledgeChunksByCompany(companyId: string): Promise<KnowledgeChunk[]> {
+    return db.select().from(knowledgeChunks)
+      .where(eq(knowledgeChunks.companyId, companyId))
+      .orderBy(knowledgeChunks.documentUrl, knowledgeChunks.chunkIndex);
+  }
+
+  async replaceKnowledgeChunks(companyId: string, documentUrl: string, data: InsertKnowledgeChunk[]): Promise<KnowledgeChunk[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(knowledgeChunks).where(
+        and(eq(knowledgeChunks.companyId, companyId), eq(knowledgeChunks.documentUrl, documentUrl))
+      );
+      if (data.length === 0) return [];
+      return tx.insert(knowledgeChunks).values(data).returning();
+    });
+  }
+
+  async deleteKnowledgeChunksByDocument(companyId: string, documentUrl: string): Promise<void> {
+    await db.delete(knowledgeChunks).where(
+      and(eq(knowledgeChunks.companyId, companyId), eq(knowledgeChunks.documentUrl, documentUrl))
+    );
+  }
+
+  // Carts
+  async getCartByConversation(conversationId: string): Promise<Cart | undefined> {
+    const result = await db.select().from(carts).where(eq(carts.conversationId, conversationId));
+    return result[0];
+  }
+
+  async saveCart(companyId: string, conversationId: string, items: CartItem[]): Promise<Cart> {
+    const result = await db.insert(carts)
+      .values({ companyId, conversationId, items })
+      .onConflictDoUpdate({
+        target: carts.conversationId,
+        set: { items, updatedAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async setCartCoupon(companyId: string, conversationId: string, couponCode: string | null): Promise<Cart> {
+    const result = await db.insert(carts)
+      .values({ companyId, conversationId, couponCode })
+      .onConflictDoUpdate({
+        target: carts.conversationId,
+        set: { couponCode, updatedAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  // Promotions
+  async getPromotionsByCompany(companyId: string): Promise<Promotion[]> {
+    return db.select().from(promotions)
+      .where(eq(promotions.companyId, companyId))
+      .orderBy(desc(promotions.createdAt));
+  }
+
+  async getPromotion(id: string, companyId: string): Promise<Promotion | undefined> {
+    const result = await db.select().from(promotions).where(
+      and(eq(promotions.id, id), eq(promotions.companyId, companyId))
+    );
+    return result[0];
+  }
+
+  async getPromotionByCode(companyId: string, code: string): Promise<Promotion | undefined> {
+    const result = await db.select().from(promotions).where(
+      and(eq(promotions.companyId, companyId), eq(promotions.code, code.trim().toUpperCase()))
+    );
+    return result[0];
+  }
+
+  async createPromotion(data: InsertPromotion): Promise<Promotion> {
+    const result = await db.insert(promotions).values(data).returning();
+    return result[0];
+  }
+
+  async updatePromotion(id: string, companyId: string, data: Partial<InsertPromotion>): Promise<Promotion | undefined> {
+    const result = await db.update(promotions).set({
+      ...data,
+      updatedAt: new Date(),
+    }).where(
+      and(eq(promotions.id, id), eq(promotions.companyId, companyId))
+    ).returning();
+    return result[0];
+  }
+
+  async deletePromotion(id: string, companyId: string): Promise<void> {
+    await db.delete(promotions).where(
+      and(eq(promotions.id, id), eq(promotions.companyId, companyId))
+    );
+  }
+
+  async countPromotionRedemptions(promotionId: string, customerPhone: string): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)::int` }).from(promotionRedemptions).where(
+      and(eq(promotionRedemptions.promotionId, promotionId), eq(promotionRedemptions.customerPhone, normalizePhone(customerPhone)))
+    );
+    return result.count;
+  }
+
+  // Shipping rules
+  async getShippingRulesByCompany(companyId: string): Promise<ShippingRule[]> {
+    return db.select().from(shippingRules)
+      .where(eq(shippingRules.companyId, companyId))
+      .orderBy(shippingRules.price);
+  }
+
+  async getShippingRule(id: string, companyId: string): Promise<ShippingRule | undefined> {
+    const result = await db.select().from(shippingRules).where(
+      and(eq(shippingRules.id, id), eq(shippingRules.companyId, companyId))
+    );
+    return result[0];
+  }
+
+  async createShippingRule(data: InsertShippingRule): Promise<ShippingRule> {
+    const result = await db.insert(shippingRules).values(data).returning();
+    return result[0];
+  }
+
+  async updateShippingRule(id: string, companyId: string, data: Partial<InsertShippingRule>): Promise<ShippingRule | undefined> {
+    const result = await db.update(shippingRules).set({
+      ...data,
+      updatedAt: new Date(),
+    }).where(
+      and(eq(shippingRules.id, id), eq(shippingRules.companyId, companyId))
+    ).returning();
+    return result[0];
+  }
+
+  async deleteShippingRule(id: string, companyId: string): Promise<void> {
+    await db.delete(shippingRules).where(
+      and(eq(shippingRules.id, id), eq(shippingRules.companyId, companyId))
+    );
+  }
+
   // Analytics
   async getCompanyStats(companyId: string): Promise<{
     totalProducts: number;
@@ -0,0 +1,80 @@
+/**
+ * Boleto
+ * Builds the 44-digit barcode and the linha digitável (FEBRABAN layout)
+ */
+
+const CURRENCY_CODE = '9'; // BRL
+const DUE_DATE_BASE = Date.UTC(1997, 9, 7);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BoletoParams {
+  bankCode: string; // 3 digits
+  amount: number; // in cents
+  dueDate: Date;
+  freeField: string; // 25 digits defined by the issuing bank (agency, account, nosso número)
+}
+
+export interface BoletoData {
+  barcode: string;
+  digitableLine: string;
+}
+
+// Modulo 10 check digit (weights 2, 1 from the right, digits of each product summed)
+export function mod10(digits: string): string {
+  let sum = 0;
+  let weight = 2;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const product = Number(digits[i]) * weight;
+    sum += product > 9 ? product - 9 : product;
+    weight = weight === 2 ? 1 : 2;
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+// Modulo 11 check digit of the barcode (weights 2..9 from the right)
+export function mod11(digits: string): string {
+  let sum = 0;
+  let weight = 2;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += Number(digits[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const dv = 11 - (sum % 11);
+  return dv === 0 || dv >= 10 ? '1' : String(dv);
+}
+
+/**
+ * Days since 07/10/1997 - restarts at 1000 after reaching 9999 (22/02/2025)
+ */
+export function dueDateFactor(dueDate: Date): string {
+  const dueDay = Date.UTC(dueDate.getUTCFullYear(), dueDate.getUTCMonth(), dueDate.getUTCDate());
+  const days = Math.floor((dueDay - DUE_DATE_BASE) / DAY_MS);
+  const factor = days >= 10000 ? ((days - 10000) % 9000) + 1000 : days;
+  return String(factor).padStart(4, '0');
+}
+
+export function buildBoleto(params: BoletoParams): BoletoData {
+  const bankCode = params.bankCode.padStart(3, '0').substring(0, 3);
+  const freeField = params.freeField.replace(/\D/g, '').padStart(25, '0').slice(-25);
+  const factor = dueDateFactor(params.dueDate);
+  const amount = String(params.amount).padStart(10, '0');
+
+  // Barcode without the general check digit (position 5)
+  const partial = bankCode + CURRENCY_CODE + factor + amount + freeField;
+  const checkDigit = mod11(partial);
+  const barcode = partial.substring(0, 4) + checkDigit + partial.substring(4);
+
+  const field1 = bankCode + CURRENCY_CODE + freeField.substring(0, 5);
+  const field2 = freeField.substring(5, 15);
+  const field3 = freeField.substring(15, 25);
+
+  const digitableLine = [
+    `${field1.substring(0, 5)}.${field1.substring(5)}${mod10(field1)}`,
+    `${field2.substring(0, 5)}.${field2.substring(5)}${mod10(field2)}`,
+    `${field3.substring(0, 5)}.${field3.substring(5)}${mod10(field3)}`,
+    checkDigit,
+    factor + amount,
+  ].join(' ');
+
+  return { barcode, digitableLine };
+}
@@ -0,0 +1,70 @@
+/**
+ * Document Text Extraction
+ * Extracts plain text from uploaded PDF, XML and TXT files
+ */
+
+import { parseString } from "xml2js";
+import { promisify } from "util";
+
+const parseXML = promisify(parseString);
+
+export function isPdf(mimetype: string): boolean {
+  return mimetype === 'application/pdf';
+}
+
+export function isXml(mimetype: string, filename: string): boolean {
+  return mimetype === 'application/xml' || mimetype === 'text/xml' || filename.endsWith('.xml');
+}
+
+/**
+ * Extract text from a PDF buffer using pdf-parse
+ */
+export async function extractPdfText(buffer: Buffer): Promise<string> {
+  // Dynamic import for ESM compatibility
+  const pdfParseModule = await import('pdf-parse');
+  // pdf-parse might export as default or as the module itself
+  const pdfParse = (pdfParseModule as any).default || pdfParseModule;
+  const pdfData = await pdfParse(buffer);
+  return pdfData.text;
+}
+
+/**
+ * Flatten an XML document into its text values (one per line)
+ */
+export async function extractXmlText(xml: string): Promise<string> {
+  const parsed = await parseXML(xml);
+  const values: string[] = [];
+
+  const walk = (node: unknown) => {
+    if (typeof node === 'string') {
+      const value = node.trim();
+      if (value) values.push(value);
+    } else if (Array.isArray(node)) {
+      node.forEach(walk);
+    } else if (node && typeof node === 'object') {
+      Object.entries(node).forEach(([key, value]) => {
+        if (key !== '$') walk(value); // skip attributes
+      });
+    }
+  };
+
+  walk(parsed);
+  return values.join('\n');
+}
+
+/**
+ * Extract plain text from a supported document
+ * Returns null for unsupported file types
+ */
+export async function extractDocumentText(buffer: Buffer, mimetype: string, filename: string): Promise<string | null> {
+  if (isPdf(mimetype) || filename.endsWith('.pdf')) {
+    return extractPdfText(buffer);
+  }
+  if (isXml(mimetype, filename)) {
+    return extractXmlText(buffer.toString('utf-8'));
+  }
+  if (mimetype === 'text/plain' || filename.endsWith('.txt')) {
+    return buffer.toString('utf-8');
+  }
+  return null;
+}
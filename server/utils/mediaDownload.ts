@@ -0,0 +1,92 @@
+/**
+ * Channel Media Download
+ * Fetches media (audio) that channel providers link in inbound webhooks. Only
+ * HTTPS URLs on the providers' media hosts are fetched, with a timeout and a
+ * size cap, so a webhook can't point the server at internal addresses or
+ * make it buffer an endless response.
+ */
+
+// WhatsApp/Instagram (Meta) and Twilio media hosts; CHANNEL_MEDIA_HOSTS overrides (comma-separated)
+const DEFAULT_MEDIA_HOSTS = [
+  'lookaside.fbsbx.com',
+  '.fbcdn.net',
+  '.whatsapp.net',
+  '.cdninstagram.com',
+  'api.twilio.com',
+  'media.twiliocdn.com',
+];
+
+const DOWNLOAD_TIMEOUT_MS = 10000;
+export const MAX_MEDIA_BYTES = 16 * 1024 * 1024; // WhatsApp's audio limit
+
+export class MediaDownloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MediaDownloadError";
+    Object.setPrototypeOf(this, MediaDownloadError.prototype);
+  }
+}
+
+function mediaHosts(): string[] {
+  const configured = process.env.CHANNEL_MEDIA_HOSTS?.split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+  return configured?.length ? configured : DEFAULT_MEDIA_HOSTS;
+}
+
+/**
+ * Whether the URL is HTTPS on an allowed host. Entries starting with a dot
+ * match subdomains (".fbcdn.net" allows "scontent.xx.fbcdn.net").
+ */
+export function isAllowedMediaUrl(url: string, hosts: string[] = mediaHosts()): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== 'https:' || parsed.username || parsed.password) return false;
+
+  const hostname = parsed.hostname.toLowerCase();
+  return hosts.some(host => host.startsWith('.') ? hostname.endsWith(host) : hostname === host);
+}
+
+/**
+ * Download channel media into memory, rejecting disallowed hosts, slow
+ * responses and anything larger than maxBytes
+ */
+export async function downloadChannelMedia(url: string, maxBytes: number = MAX_MEDIA_BYTES): Promise<Buffer> {
+  if (!isAllowedMediaUrl(url)) {
+    throw new MediaDownloadError(`Media host not allowed: ${url}`);
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT_MS);
+  try {
+    // No redirects: the final host must be the allowed one
+    const response = await fetch(url, { signal: controller.signal, redirect: 'error' });
+    if (!response.ok || !response.body) {
+      throw new MediaDownloadError(`Media download returned status ${response.status}`);
+    }
+
+    const declared = Number(response.headers.get('content-length'));
+    if (declared > maxBytes) {
+      throw new MediaDownloadError(`Media too large: ${declared} bytes`);
+    }
+
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    const reader = response.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      received += value.byteLength;
+      if (received > maxBytes) {
+        await reader.cancel();
+        throw new MediaDownloadError(`Media too large: over ${maxBytes} bytes`);
+      }
+      chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
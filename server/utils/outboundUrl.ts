@@ -0,0 +1,108 @@
+/**
+ * Outbound URLs
+ * POSTs to URLs configured by tenants (webhook subscriptions). Only HTTPS URLs
+ * on public addresses are called: hostnames are resolved when connecting and
+ * refused if any address is loopback, link-local or private, so a subscription
+ * can't make the server reach internal services (cloud metadata, databases).
+ */
+
+import dns from "dns";
+import https from "https";
+import net, { type LookupFunction } from "net";
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsafeUrlError";
+    Object.setPrototypeOf(this, UnsafeUrlError.prototype);
+  }
+}
+
+// Loopback, private, link-local, shared (CGNAT), benchmark, multicast and reserved ranges
+const NON_PUBLIC_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is not reachable on the public internet (IPv4-mapped
+ * IPv6 addresses are checked as IPv4)
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (!family) return false;
+  return NON_PUBLIC_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * What is wrong with a URL the server would call (null when it may be called).
+ * Hostnames are only resolved when connecting (see postToPublicUrl).
+ */
+export function outboundUrlError(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "URL inválida";
+  }
+  if (parsed.protocol !== 'https:') {
+    return "A URL deve usar HTTPS";
+  }
+  if (parsed.username || parsed.password) {
+    return "A URL não pode conter usuário e senha";
+  }
+
+  const hostname = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || isPrivateAddress(hostname)) {
+    return "A URL não pode apontar para endereços internos";
+  }
+  return null;
+}
+
+// DNS lookup that fails when the hostname resolves to a non-public address
+const publicLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: unknown[]) => void) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error);
+
+    const addresses = Array.isArray(address) ? address : [{ address, family }];
+    const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+    if (blocked) {
+      return callback(new UnsafeUrlError(`Endereço interno bloqueado: ${hostname}`));
+    }
+    callback(null, address, family);
+  });
+}) as LookupFunction;
+
+/**
+ * POST a body to a tenant URL and return the response status. Redirects are
+ * not followed; aborts with an AbortError after timeoutMs.
+ */
+export function postToPublicUrl(
+  url: string,
+  options: { headers: Record<string, string>; body: string; timeoutMs: number },
+): Promise<number> {
+  const problem = outboundUrlError(url);
+  if (problem) {
+    return Promise.reject(new UnsafeUrlError(problem));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = https.request(url, {
+      method: 'POST',
+      headers: { ...options.headers, 'Content-Length': Buffer.byteLength(options.body) },
+      lookup: publicLookup,
+      signal: AbortSignal.timeout(options.timeoutMs),
+    }, (response) => {
+      response.resume(); // the response body is not used
+      resolve(response.statusCode || 0);
+    });
+    request.on('error', reject);
+    request.end(options.body);
+  });
+}
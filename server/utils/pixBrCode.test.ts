@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildPixBrCode, crc16 } from "./pixBrCode";
+
+test("crc16 is CRC16-CCITT with initial value 0xFFFF", () => {
+  assert.equal(crc16('123456789'), '29B1');
+  assert.equal(crc16(''), 'FFFF');
+});
+
+test("the BR Code ends with the CRC of everything before it", () => {
+  const code = buildPixBrCode({
+    key: '12345678000195',
+    merchantName: 'Café São João',
+    merchantCity: 'São Paulo',
+    amount: 1990,
+    txid: 'ORDER-123',
+  });
+
+  assert.match(code, /^000201/);
+  assert.ok(code.includes('540519.90'));
+  assert.ok(code.includes('5913Cafe Sao Joao')); // accents removed
+  assert.ok(code.includes('62120508ORDER123'));
+  const payload = code.slice(0, -4);
+  assert.ok(payload.endsWith('6304'));
+  assert.equal(code.slice(-4), crc16(payload));
+});
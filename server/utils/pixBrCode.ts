@@ -0,0 +1,68 @@
+/**
+ * PIX BR Code
+ * Builds the EMV "copia e cola" payload defined by the Banco Central manual
+ */
+
+const PIX_GUI = 'br.gov.bcb.pix';
+
+export interface PixBrCodeParams {
+  key: string; // PIX key (CPF/CNPJ, e-mail, phone or random key)
+  merchantName: string;
+  merchantCity: string;
+  amount: number; // in cents
+  txid: string;
+  description?: string;
+}
+
+// ID + two-digit length + value
+function emvField(id: string, value: string): string {
+  return `${id}${value.length.toString().padStart(2, '0')}${value}`;
+}
+
+// Merchant name/city must be plain ASCII
+function sanitize(value: string, maxLength: number): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9 .-]/g, '')
+    .trim()
+    .substring(0, maxLength);
+}
+
+/**
+ * CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF)
+ */
+export function crc16(payload: string): string {
+  let crc = 0xFFFF;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = (crc & 0x8000) ? ((crc << 1) ^ 0x1021) : (crc << 1);
+      crc &= 0xFFFF;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+export function buildPixBrCode(params: PixBrCodeParams): string {
+  const merchantAccount = emvField('00', PIX_GUI) +
+    emvField('01', params.key) +
+    (params.description ? emvField('02', sanitize(params.description, 40)) : '');
+
+  // txid: up to 25 alphanumeric characters
+  const txid = params.txid.replace(/[^A-Za-z0-9]/g, '').substring(0, 25) || '***';
+
+  const payload =
+    emvField('00', '01') +
+    emvField('26', merchantAccount) +
+    emvField('52', '0000') +
+    emvField('53', '986') + // BRL
+    emvField('54', (params.amount / 100).toFixed(2)) +
+    emvField('58', 'BR') +
+    emvField('59', sanitize(params.merchantName, 25) || 'LOJA') +
+    emvField('60', sanitize(params.merchantCity, 15) || 'BRASIL') +
+    emvField('62', emvField('05', txid)) +
+    '6304';
+
+  return payload + crc16(payload);
+}
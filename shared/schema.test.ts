@@ -0,0 +1,25 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { canTransitionOrderStatus } from "./schema";
+
+test("orders move forward through the status flow", () => {
+  assert.ok(canTransitionOrderStatus('pending', 'confirmed'));
+  assert.ok(canTransitionOrderStatus('confirmed', 'preparing'));
+  assert.ok(canTransitionOrderStatus('preparing', 'shipped'));
+  assert.ok(canTransitionOrderStatus('shipped', 'delivered'));
+  assert.ok(canTransitionOrderStatus('delivered', 'refunded'));
+});
+
+test("orders can be cancelled only before shipping", () => {
+  assert.ok(canTransitionOrderStatus('pending', 'cancelled'));
+  assert.ok(canTransitionOrderStatus('preparing', 'cancelled'));
+  assert.ok(!canTransitionOrderStatus('shipped', 'cancelled'));
+  assert.ok(!canTransitionOrderStatus('delivered', 'cancelled'));
+});
+
+test("final and unknown statuses allow no transition", () => {
+  assert.ok(!canTransitionOrderStatus('cancelled', 'pending'));
+  assert.ok(!canTransitionOrderStatus('refunded', 'delivered'));
+  assert.ok(!canTransitionOrderStatus('pending', 'delivered'));
+  assert.ok(!canTransitionOrderStatus('unknown', 'confirmed'));
+});
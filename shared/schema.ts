@@ -17,6 +17,17 @@ export type InsertAdminUser = z.infer<typeof insertAdminUserSchema>;
 export type AdminUser = typeof adminUsers.$inferSelect;
 
 // Companies table (multi-tenant)
+// AI providers a company can pick for its agent (see server/llm; the offline mock is set only via LLM_PROVIDER)
+export const llmProviders = ["openai"] as const;
+export type LLMProviderName = typeof llmProviders[number];
+
+// Subscription plans (limits and prices in server/plans.ts)
+export const companyPlans = ["free", "starter", "pro", "enterprise"] as const;
+export type CompanyPlan = typeof companyPlans[number];
+
+export const companyStatuses = ["active", "suspended", "trial"] as const;
+export type CompanyStatus = typeof companyStatuses[number];
+
 export const companies = pgTable("companies", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -24,15 +35,40 @@ export const companies = pgTable("companies", {
   cpfCnpj: text("cpf_cnpj").notNull().unique(), // Can be CPF or CNPJ
   logoUrl: text("logo_url"),
   status: text("status").notNull().default("active"), // active, suspended, trial
-  webhookAuthEnabled: boolean("webhook_auth_enabled").notNull().default(false),
-  webhookToken: text("webhook_token"), // Bearer token for webhook security
+  plan: text("plan").notNull().default("starter"), // free, starter, pro, enterprise - sets the limits and the monthly AI quota
+  trialEndsAt: timestamp("trial_ends_at"), // status flips from trial to suspended after this date
+  webhookToken: text("webhook_token"), // Bearer token required on inbound webhooks (none = webhooks rejected)
+  pixKey: text("pix_key"), // PIX key used in generated BR Codes (defaults to the CPF/CNPJ)
+  pixMerchantCity: text("pix_merchant_city"),
+  aiProvider: text("ai_provider"), // null = server default (LLM_PROVIDER)
+  aiModel: text("ai_model"), // agent chat model; null = provider default
+  aiHourlySpendLimit: integer("ai_hourly_spend_limit"), // USD cents of AI per hour before the agent degrades to a canned reply; null = AI_HOURLY_SPEND_LIMIT_CENTS
+  redactPiiInLogs: boolean("redact_pii_in_logs").notNull().default(true), // mask CPF, email, phone and card numbers in AI prompt logs
+  shippingOriginCep: varchar("shipping_origin_cep", { length: 8 }), // where deliveries leave from (distance-based shipping rules)
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const insertCompanySchema = createInsertSchema(companies).omit({ id: true, createdAt: true });
+// Brazilian postal code, stored as 8 digits
+const cepSchema = z.string().transform(cep => cep.replace(/\D/g, '')).pipe(z.string().length(8, "CEP deve ter 8 dígitos"));
+
+export const insertCompanySchema = createInsertSchema(companies).omit({ id: true, createdAt: true }).extend({
+  aiProvider: z.enum(llmProviders).nullable().optional(),
+  plan: z.enum(companyPlans).optional(),
+  aiHourlySpendLimit: z.number().int().positive().nullable().optional(),
+  shippingOriginCep: cepSchema.nullable().optional(),
+});
 export type InsertCompany = z.infer<typeof insertCompanySchema>;
 export type Company = typeof companies.$inferSelect;
 
+// Company user roles (permissions per role in server/permissions.ts)
+export const userRoles = ["owner", "admin", "member"] as const;
+export type UserRole = typeof userRoles[number];
+
+// Availability chosen by the operator; presence is "offline" while they have no dashboard open
+export const operatorAvailabilities = ["online", "away"] as const;
+export type OperatorAvailability = typeof operatorAvailabilities[number];
+export type OperatorPresence = OperatorAvailability | "offline";
+
 // Company users table (each company's users)
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -41,13 +77,36 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   name: text("name").notNull(),
   role: text("role").notNull().default("owner"), // owner, admin, member
+  avatarUrl: text("avatar_url"),
+  availability: text("availability").notNull().default("online"), // online, away
+  lastSeenAt: timestamp("last_seen_at"), // last dashboard connection
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
+export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true }).extend({
+  role: z.enum(userRoles).optional(),
+  availability: z.enum(operatorAvailabilities).optional(),
+});
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Pending invitations for colleagues to join a company
+export const userInvites = pgTable("user_invites", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  email: text("email").notNull(),
+  role: text("role").notNull().default("member"), // admin, member (there is a single owner)
+  token: text("token").notNull().unique(), // sent in the invite link
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: 'set null' }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertUserInviteSchema = createInsertSchema(userInvites).omit({ id: true, createdAt: true, acceptedAt: true });
+export type InsertUserInvite = z.infer<typeof insertUserInviteSchema>;
+export type UserInvite = typeof userInvites.$inferSelect;
+
 // AI Agent configuration per company
 export const agents = pgTable("agents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -91,6 +150,13 @@ export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type Product = typeof products.$inferSelect;
 
 // Orders table
+export const paymentMethods = ["pix", "card", "boleto", "cash"] as const;
+export type PaymentMethod = typeof paymentMethods[number];
+
+// Shipping rule types (see shippingRules, declared here for the order schema)
+export const shippingRuleTypes = ["flat", "cep_range", "distance", "pickup"] as const;
+export type ShippingRuleType = typeof shippingRuleTypes[number];
+
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
@@ -98,9 +164,16 @@ export const orders = pgTable("orders", {
   customerName: text("customer_name").notNull(),
   customerEmail: text("customer_email"),
   customerPhone: text("customer_phone"),
-  status: text("status").notNull().default("pending"), // pending, confirmed, preparing, shipped, delivered, cancelled
-  total: integer("total").notNull(), // in cents
-  paymentMethod: text("payment_method"), // pix, card, boleto (mock)
+  status: text("status").notNull().default("pending"), // see orderStatusTransitions
+  subtotal: integer("subtotal"), // items at catalog prices, in cents (null on orders placed before promotions)
+  discount: integer("discount").notNull().default(0), // sum of discounts, in cents
+  discounts: jsonb("discounts").$type<OrderDiscount[]>().notNull().default(sql`'[]'::jsonb`), // itemized promotions
+  shipping: integer("shipping").notNull().default(0), // freight, in cents
+  shippingMethod: jsonb("shipping_method").$type<OrderShipping>(), // chosen shipping option; null = no shipping rules
+  total: integer("total").notNull(), // in cents (subtotal - discount + shipping)
+  paymentMethod: text("payment_method"), // see paymentMethods
+  paymentStatus: text("payment_status"), // see paymentStatuses (null when paid on delivery)
+  paidAt: timestamp("paid_at"),
   items: jsonb("items").notNull(), // array of {productId, name, price, quantity}
   shippingAddress: jsonb("shipping_address"), // {street, city, state, zip}
   confirmationCode: varchar("confirmation_code", { length: 4 }), // 4-digit alphanumeric order confirmation code
@@ -108,8 +181,9 @@ export const orders = pgTable("orders", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
-// Custom schema for AI-created orders with minimal required fields
-export const insertOrderSchema = createInsertSchema(orders).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+// Custom schema for AI-created orders with minimal required fields. Orders always start
+// pending and unpaid: status and payment only change through their transitions
+export const insertOrderSchema = createInsertSchema(orders).omit({ id: true, status: true, paymentStatus: true, paidAt: true, createdAt: true, updatedAt: true }).extend({
   customerPhone: z.string().min(1, "Telefone é obrigatório"),
   shippingAddress: z.object({
     street: z.string().optional(),
@@ -119,11 +193,166 @@ export const insertOrderSchema = createInsertSchema(orders).omit({ id: true, cre
     state: z.string().optional(),
     zip: z.string().optional(),
   }).optional(),
-  paymentMethod: z.enum(["pix", "card", "boleto", "cash"]).default("pix"),
+  paymentMethod: z.enum(paymentMethods).default("pix"),
+  discounts: z.array(z.object({
+    promotionId: z.string(),
+    name: z.string(),
+    code: z.string().nullable(),
+    amount: z.number().int(),
+  })).optional(),
+  shippingMethod: z.object({
+    ruleId: z.string(),
+    name: z.string(),
+    type: z.enum(shippingRuleTypes),
+    estimatedDays: z.number().int().nullable(),
+    distanceKm: z.number().optional(),
+  }).nullable().optional(),
 });
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type Order = typeof orders.$inferSelect;
 
+// Order state machine: allowed transitions from each status
+export const orderStatuses = ["pending", "confirmed", "preparing", "shipped", "delivered", "cancelled", "refunded"] as const;
+export type OrderStatus = typeof orderStatuses[number];
+
+export const orderStatusTransitions: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["preparing", "cancelled"],
+  preparing: ["shipped", "cancelled"],
+  shipped: ["delivered"], // can't cancel once it left - wait for delivery and refund
+  delivered: ["refunded"],
+  cancelled: [],
+  refunded: [],
+};
+
+export function canTransitionOrderStatus(from: string, to: string): boolean {
+  return orderStatusTransitions[from as OrderStatus]?.includes(to as OrderStatus) ?? false;
+}
+
+// Promotions: coupons (with a code) and automatic sales (without one)
+export const promotionTypes = ["percentage", "fixed", "buy_x_get_y"] as const;
+export type PromotionType = typeof promotionTypes[number];
+
+export const promotions = pgTable("promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  code: text("code"), // coupon code (uppercase); null = applied automatically to every cart
+  type: text("type").notNull(), // see promotionTypes
+  value: integer("value").notNull().default(0), // percentage: 1-100, fixed: cents off
+  category: text("category"), // only items of this category (category-wide sale); null = whole catalog
+  productId: varchar("product_id").references(() => products.id, { onDelete: 'cascade' }), // only this product
+  buyQuantity: integer("buy_quantity"), // buy_x_get_y: pay for X...
+  getQuantity: integer("get_quantity"), // ...and get Y more for free
+  minSubtotal: integer("min_subtotal"), // in cents
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  maxUses: integer("max_uses"), // total redemptions; null = unlimited
+  maxUsesPerCustomer: integer("max_uses_per_customer"), // per customer phone; null = unlimited
+  usageCount: integer("usage_count").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  codeIdx: uniqueIndex("promotions_company_code_idx").on(table.companyId, table.code),
+}));
+
+export const insertPromotionSchema = createInsertSchema(promotions).omit({ id: true, usageCount: true, createdAt: true, updatedAt: true }).extend({
+  name: z.string().min(1, "Nome é obrigatório"),
+  code: z.string().trim().toUpperCase().regex(/^[A-Z0-9_-]{3,30}$/, "Código deve ter de 3 a 30 letras ou números").nullable().optional(),
+  type: z.enum(promotionTypes),
+  value: z.number().int().min(0).default(0),
+  buyQuantity: z.number().int().positive().nullable().optional(),
+  getQuantity: z.number().int().positive().nullable().optional(),
+  minSubtotal: z.number().int().positive().nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  maxUses: z.number().int().positive().nullable().optional(),
+  maxUsesPerCustomer: z.number().int().positive().nullable().optional(),
+});
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+export type Promotion = typeof promotions.$inferSelect;
+
+// Discount line of an order or cart
+export type OrderDiscount = {
+  promotionId: string;
+  name: string;
+  code: string | null;
+  amount: number; // in cents
+};
+
+// One row per order that used a promotion (usage caps per customer)
+export const promotionRedemptions = pgTable("promotion_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  promotionId: varchar("promotion_id").notNull().references(() => promotions.id, { onDelete: 'cascade' }),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  customerPhone: text("customer_phone"), // normalized
+  amount: integer("amount").notNull(), // discount given, in cents
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type PromotionRedemption = typeof promotionRedemptions.$inferSelect;
+
+// Shipping rules: delivery options and their cost
+export const shippingRules = pgTable("shipping_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(), // shown to the customer, e.g. "Entrega expressa", "Retirada na loja"
+  type: text("type").notNull(), // see shippingRuleTypes
+  price: integer("price").notNull().default(0), // in cents; distance: base fee
+  pricePerKm: integer("price_per_km"), // distance: cents per km on top of the base fee
+  cepStart: varchar("cep_start", { length: 8 }), // cep_range: first CEP of the range (digits only)
+  cepEnd: varchar("cep_end", { length: 8 }), // cep_range: last CEP, inclusive
+  maxDistanceKm: integer("max_distance_km"), // distance: no delivery beyond this
+  freeAbove: integer("free_above"), // free from this amount (items after discounts), in cents
+  estimatedDays: integer("estimated_days"), // business days; null = same day
+  instructions: text("instructions"), // pickup address and hours, delivery notes
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertShippingRuleSchema = createInsertSchema(shippingRules).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  name: z.string().min(1, "Nome é obrigatório"),
+  type: z.enum(shippingRuleTypes),
+  price: z.number().int().min(0).default(0),
+  pricePerKm: z.number().int().min(0).nullable().optional(),
+  cepStart: cepSchema.nullable().optional(),
+  cepEnd: cepSchema.nullable().optional(),
+  maxDistanceKm: z.number().int().positive().nullable().optional(),
+  freeAbove: z.number().int().positive().nullable().optional(),
+  estimatedDays: z.number().int().min(0).nullable().optional(),
+});
+export type InsertShippingRule = z.infer<typeof insertShippingRuleSchema>;
+export type ShippingRule = typeof shippingRules.$inferSelect;
+
+// Shipping option chosen for an order
+export type OrderShipping = {
+  ruleId: string;
+  name: string;
+  type: ShippingRuleType;
+  estimatedDays: number | null;
+  distanceKm?: number;
+};
+
+// Order status history (timeline of who changed what and when)
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  fromStatus: text("from_status"), // null when the order is created
+  toStatus: text("to_status").notNull(),
+  changedByUserId: varchar("changed_by_user_id").references(() => users.id, { onDelete: 'set null' }),
+  changedByName: text("changed_by_name").notNull(), // user name, "Agente IA", "Cliente" or "Sistema"
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertOrderStatusHistorySchema = createInsertSchema(orderStatusHistory).omit({ id: true, createdAt: true });
+export type InsertOrderStatusHistory = z.infer<typeof insertOrderStatusHistorySchema>;
+export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
+
 // Customers table (clientes)
 export const customers = pgTable("customers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -168,20 +397,34 @@ export const insertCustomerSchema = createInsertSchema(customers).omit({ id: tru
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 export type Customer = typeof customers.$inferSelect;
 
+// Conversation modes: the AI answers, a human operator answers, or the AI
+// drafts replies that an operator approves (hybrid)
+export const conversationModes = ["ai", "human", "hybrid"] as const;
+export type ConversationMode = typeof conversationModes[number];
+
 // Conversations table (chat sessions)
 export const conversations = pgTable("conversations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
   customerId: varchar("customer_id").references(() => customers.id, { onDelete: 'set null' }), // link to identified customer
   channel: text("channel").notNull(), // "chatweb", "whatsapp", "instagram"
+  externalConversationId: text("external_conversation_id"), // conversation/sender ID on the external channel (webhooks)
   customerName: text("customer_name"),
   customerPhone: text("customer_phone"),
   status: text("status").notNull().default("active"), // active, closed
-  mode: text("mode").notNull().default("ai"), // ai, human, hybrid
+  mode: text("mode").notNull().default("ai"), // ai, human, hybrid (AI drafts, operator approves)
   takenOverBy: varchar("taken_over_by").references(() => users.id, { onDelete: 'set null' }), // user who took over
   takenOverAt: timestamp("taken_over_at"), // when takeover happened
+  assignedTo: varchar("assigned_to").references(() => users.id, { onDelete: 'set null' }), // operator responsible ("my conversations")
+  assignedAt: timestamp("assigned_at"),
   needsHumanAttention: boolean("needs_human_attention").notNull().default(false), // AI requested human help
   transferReason: text("transfer_reason"), // why AI transferred to human
+  draftReply: text("draft_reply"), // hybrid mode: AI reply waiting for operator approval
+  draftReplyAt: timestamp("draft_reply_at"),
+  handbackSummary: text("handback_summary"), // summary of the human segment, given to the AI after hand-back
+  handedBackAt: timestamp("handed_back_at"), // when the operator returned the conversation to the AI
+  resumeCode: varchar("resume_code"), // one-time code of the "continue on another device" link
+  resumeCodeExpiresAt: timestamp("resume_code_expires_at"),
   
   // Conversation Intelligence Fields
   currentIntent: text("current_intent"), // "browsing", "purchase_intent", "support", "complaint", etc.
@@ -246,3 +489,211 @@ export const apiLogs = pgTable("api_logs", {
 export const insertApiLogSchema = createInsertSchema(apiLogs).omit({ id: true, createdAt: true });
 export type InsertApiLog = z.infer<typeof insertApiLogSchema>;
 export type ApiLog = typeof apiLogs.$inferSelect;
+
+// Outbound webhook subscriptions per company (Omni.AI → external channel)
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // HMAC-SHA256 signing secret
+  events: text("events").array().notNull(), // "message.created", "order.created", "order.status_updated"
+  channels: text("channels").array().default(sql`ARRAY[]::text[]`), // empty = all channels
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const webhookEvents = ["message.created", "order.created", "order.status_updated"] as const;
+export type WebhookEvent = typeof webhookEvents[number];
+
+export const insertWebhookSubscriptionSchema = createInsertSchema(webhookSubscriptions).omit({ id: true, secret: true, createdAt: true, updatedAt: true }).extend({
+  url: z.string().url("URL inválida"),
+  events: z.array(z.enum(webhookEvents)).min(1, "Selecione ao menos um evento"),
+  channels: z.array(z.string()).optional(),
+});
+export type InsertWebhookSubscription = z.infer<typeof insertWebhookSubscriptionSchema>;
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+
+// Outbound webhook delivery log (one row per event per subscription)
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  subscriptionId: varchar("subscription_id").notNull().references(() => webhookSubscriptions.id, { onDelete: 'cascade' }),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  event: text("event").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: text("status").notNull().default("pending"), // pending, success, failed
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"), // last HTTP status received
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at"), // null when no retry is scheduled
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({ id: true, createdAt: true });
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+// Knowledge base chunks extracted from the agent's context documents (used for retrieval)
+export const knowledgeChunks = pgTable("knowledge_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  documentUrl: text("document_url").notNull(), // matches an entry in agents.contextDocuments
+  documentName: text("document_name").notNull(),
+  chunkIndex: integer("chunk_index").notNull(),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertKnowledgeChunkSchema = createInsertSchema(knowledgeChunks).omit({ id: true, createdAt: true });
+export type InsertKnowledgeChunk = z.infer<typeof insertKnowledgeChunkSchema>;
+export type KnowledgeChunk = typeof knowledgeChunks.$inferSelect;
+
+// Server-side shopping cart (one per conversation, shared by the agent, ChatWeb and catalog)
+export type CartItem = {
+  productId: string;
+  name: string;
+  price: number; // in cents, taken from the catalog
+  quantity: number;
+  imageUrl?: string | null;
+};
+
+export const carts = pgTable("carts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  conversationId: varchar("conversation_id").notNull().unique().references(() => conversations.id, { onDelete: 'cascade' }),
+  items: jsonb("items").$type<CartItem[]>().notNull().default(sql`'[]'::jsonb`),
+  couponCode: text("coupon_code"), // applied coupon, validated again at checkout
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertCartSchema = createInsertSchema(carts).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertCart = z.infer<typeof insertCartSchema>;
+export type Cart = typeof carts.$inferSelect;
+
+// Stock movement ledger (every change to products.stock is recorded here)
+export const stockMovements = pgTable("stock_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: 'cascade' }),
+  orderId: varchar("order_id").references(() => orders.id, { onDelete: 'set null' }),
+  type: text("type").notNull(), // "reservation" (order created), "release" (order cancelled), "adjustment" (manual edit)
+  quantity: integer("quantity").notNull(), // signed delta applied to stock
+  stockAfter: integer("stock_after").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertStockMovementSchema = createInsertSchema(stockMovements).omit({ id: true, createdAt: true });
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type StockMovement = typeof stockMovements.$inferSelect;
+
+// Payments (one per charge generated by a payment gateway)
+export const paymentStatuses = ["awaiting_payment", "paid", "expired", "failed", "cancelled", "refunded"] as const;
+export type PaymentStatus = typeof paymentStatuses[number];
+
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  method: text("method").notNull(), // pix, boleto, card
+  gateway: text("gateway").notNull(), // "simulator" or a real gateway adapter
+  externalId: text("external_id").notNull(), // charge ID at the gateway
+  status: text("status").notNull().default("awaiting_payment"),
+  amount: integer("amount").notNull(), // in cents
+  pixCode: text("pix_code"), // BR Code "copia e cola"
+  boletoLine: text("boleto_line"), // linha digitável
+  boletoBarcode: text("boleto_barcode"), // 44-digit barcode
+  cardBrand: text("card_brand"),
+  cardLast4: varchar("card_last4", { length: 4 }),
+  failureReason: text("failure_reason"),
+  expiresAt: timestamp("expires_at"), // PIX expiration / boleto due date
+  paidAt: timestamp("paid_at"),
+  refundedAt: timestamp("refunded_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type Payment = typeof payments.$inferSelect;
+
+// Payment transaction log (every operation sent to or received from a gateway)
+export const paymentTransactions = pgTable("payment_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  paymentId: varchar("payment_id").notNull().references(() => payments.id, { onDelete: 'cascade' }),
+  type: text("type").notNull(), // "charge", "capture" (payment confirmed), "refund", "void" (unpaid charge cancelled), "expiration"
+  status: text("status").notNull(), // "succeeded" or "failed"
+  amount: integer("amount").notNull(), // in cents
+  gateway: text("gateway").notNull(),
+  externalId: text("external_id"), // transaction ID at the gateway
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPaymentTransactionSchema = createInsertSchema(paymentTransactions).omit({ id: true, createdAt: true });
+export type InsertPaymentTransaction = z.infer<typeof insertPaymentTransactionSchema>;
+export type PaymentTransaction = typeof paymentTransactions.$inferSelect;
+
+// AI usage per model call (tokens and estimated cost), billed against the company's monthly quota
+export const aiUsageFeatures = ["chat", "analysis", "vision", "extraction", "description", "transcription"] as const;
+export type AiUsageFeature = typeof aiUsageFeatures[number];
+
+export const aiUsage = pgTable("ai_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  feature: text("feature").notNull(), // chat, analysis, vision, extraction, description, transcription
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  totalTokens: integer("total_tokens").notNull().default(0),
+  audioSeconds: integer("audio_seconds").notNull().default(0), // transcription (estimated from the file size)
+  costMicros: integer("cost_micros").notNull().default(0), // estimated cost in millionths of USD
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAiUsageSchema = createInsertSchema(aiUsage).omit({ id: true, createdAt: true });
+export type InsertAiUsage = z.infer<typeof insertAiUsageSchema>;
+export type AiUsage = typeof aiUsage.$inferSelect;
+
+// Subscription invoices, one per company and billing period (monthly)
+export const invoiceStatuses = ["open", "paid", "void"] as const;
+export type InvoiceStatus = typeof invoiceStatuses[number];
+
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  plan: text("plan").notNull(), // plan billed in this period
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  amount: integer("amount").notNull(), // in cents
+  status: text("status").notNull().default("open"), // open, paid, void
+  dueAt: timestamp("due_at").notNull(),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  periodIdx: uniqueIndex("invoices_company_period_idx").on(table.companyId, table.periodStart),
+}));
+
+export const insertInvoiceSchema = createInsertSchema(invoices).omit({ id: true, createdAt: true });
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type Invoice = typeof invoices.$inferSelect;
+
+// Outgoing emails (invites, ...). Kept locally - there is no SMTP transport yet.
+export const emailOutbox = pgTable("email_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").references(() => companies.id, { onDelete: 'cascade' }),
+  to: text("to").notNull(),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  type: text("type").notNull(), // e.g. "user_invite"
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertEmailOutboxSchema = createInsertSchema(emailOutbox).omit({ id: true, createdAt: true });
+export type InsertEmailOutbox = z.infer<typeof insertEmailOutboxSchema>;
+export type EmailOutbox = typeof emailOutbox.$inferSelect;